@@ -73,7 +73,6 @@ const config: PickierOptions = {
 
   // Plugin rules (advanced linting)
   pluginRules: {
-    'ts/prefer-const': 'warn', // prefer const over let
     'style/curly': 'off', // enforce curly braces for all control statements (disabled for tests)
     'style/if-newline': 'off', // enforce newline after if statement (disabled for tests)
     'pickier/no-unused-vars': 'warn', // catch unused imports/vars
@@ -95,18 +94,9 @@ const config: PickierOptions = {
     'unused-imports/no-unused-imports': 'warn',
     'unused-imports/no-unused-vars': 'warn',
     // Regexp rules
-    'regexp/negation': 'warn',
-    'regexp/no-misleading-capturing-group': 'warn',
     'regexp/no-super-linear-backtracking': 'warn', // heuristic, has false positives in regex-heavy code
     'regexp/no-unused-capturing-group': 'warn', // context-aware but still has edge cases
-    'regexp/no-useless-assertions': 'warn',
     'regexp/no-useless-lazy': 'warn',
-    'regexp/no-useless-non-capturing-group': 'warn',
-    'regexp/optimal-quantifier-concatenation': 'warn',
-    'regexp/prefer-character-class': 'warn',
-    'regexp/prefer-w': 'warn',
-    'regexp/strict': 'warn',
-    'regexp/use-ignore-case': 'warn',
     // Other rules
     'no-new': 'warn',
     'no-regex-spaces': 'error',
@@ -7,7 +7,13 @@
 // we parse process.argv directly and call runUnified via a dynamic import,
 // bypassing the CLI framework entirely. This saves ~5ms on the hot path.
 //
-// Lint-only flags (--fix, --dry-run, --reporter, --max-warnings, --cache)
+// Lint-only flags (--fix, --dry-run, --reporter, --output-file, --max-warnings,
+// --cache, --cache-location, --cache-strategy, --strict-config,
+// --report-unused-disable-directives, --watch, --staged, --changed, --since,
+// --diff-lines, --fix-diff-lines, --fix-rule, --fix-type, --fix-unsafe,
+// --baseline, --baseline-write), --diff,
+// --stdin / --stdin-filename, --timing / --timing-json and the `rules` and
+// `print-config` commands
 // fall through to the full CLI framework below.
 // ---------------------------------------------------------------------------
 
@@ -30,8 +36,11 @@ async function main() {
   let format = false
   let verbose = false
   let config: string | undefined
+  let ext: string | undefined
+  let ignorePath: string | undefined
   const globs: string[] = []
-  let useFastPath = true
+  // Commands taking no globs, whose name the loop below would take for one
+  let useFastPath = !['rules', 'print-config'].includes(argv[0])
 
   for (let i = startIdx; i < argv.length; i++) {
     const a = argv[i]
@@ -54,11 +63,14 @@ async function main() {
     else if (a === '--verbose') {
       verbose = true
     }
-    else if (a === '--ext' || a === '--ignore-path') {
-      i++ // skip value
+    else if (a === '--ext') {
+      ext = argv[++i]
     }
-    else if (a === '--fix' || a === '--dry-run' || a === '--reporter' || a === '--max-warnings' || a === '--cache') {
-      // Lint-only flags — fall through to full CLI
+    else if (a === '--ignore-path') {
+      ignorePath = argv[++i]
+    }
+    else if (a === '--fix' || a === '--dry-run' || a === '--reporter' || a === '--output-file' || a === '--max-warnings' || a === '--cache' || a === '--cache-location' || a === '--cache-strategy' || a === '--strict-config' || a === '--report-unused-disable-directives' || a === '--watch' || a === '--staged' || a === '--changed' || a === '--since' || a === '--diff-lines' || a === '--fix-diff-lines' || a === '--fix-rule' || a === '--fix-type' || a === '--fix-unsafe' || a === '--baseline' || a === '--baseline-write' || a === '--stdin' || a === '--stdin-filename' || a === '--timing' || a === '--timing-json' || a === '--diff') {
+      // Lint-only flags and stdin input — fall through to full CLI
       useFastPath = false
       globs.length = 0
       break
@@ -78,7 +90,7 @@ async function main() {
   // round-trip through auto mode's "default to fix" branch in runUnified.
   if (useFastPath && (mode === 'format' || mode === 'auto' || mode === 'lint') && globs.length > 0) {
     const { runUnified } = await import('../src/run.ts')
-    const code = await runUnified(globs, { mode: mode as 'format' | 'auto' | 'lint', check, write, verbose, config })
+    const code = await runUnified(globs, { mode: mode as 'format' | 'auto' | 'lint', check, write, verbose, config, ext, ignorePath })
     process.exit(code)
   }
   // Suppress unused-variable warning — `format` is captured but only
@@ -98,6 +110,16 @@ async function main() {
     const [cmdGlobsRaw, optsRaw] = args
     const cmdGlobs = Array.isArray(cmdGlobsRaw) ? cmdGlobsRaw.filter((item): item is string => typeof item === 'string') : []
     const opts = optsRaw && typeof optsRaw === 'object' ? optsRaw as Record<string, unknown> : {}
+    // clapp keeps only the last of a repeated option, and --reporter may be given once per output
+    const repeated = (flag: string): string[] => argv.flatMap((a, i) => a === flag ? argv.slice(i + 1, i + 2) : a.startsWith(`${flag}=`) ? [a.slice(flag.length + 1)] : [])
+    const reporters = repeated('--reporter')
+    if (reporters.length > 1)
+      opts.reporter = reporters
+    for (const [flag, key] of [['--fix-rule', 'fixRule'], ['--fix-type', 'fixType']]) {
+      const values = repeated(flag)
+      if (values.length > 1)
+        opts[key] = values
+    }
     return [cmdGlobs, opts]
   }
 
@@ -108,20 +130,52 @@ async function main() {
     .option('--format', 'Format files instead of linting')
     .option('--dry-run', 'Simulate fixes without writing')
     .option('--check', 'Check formatting without writing (CI-friendly)')
+    .option('--diff', 'Print a unified diff of what --fix or --format would change, instead of writing it')
     .option('--max-warnings <n>', 'Max warnings before non-zero exit', { default: -1 })
-    .option('--reporter <name>', 'stylish|json|compact', { default: 'stylish' })
+    .option('--reporter <name>', 'stylish|json|compact|sarif|junit|checkstyle|gitlab or a module path, :<outfile> to write to a file (repeatable)', { default: 'stylish' })
+    .option('--output-file <path>', 'Write the report to a file, showing stylish on the console')
     .option('--config <path>', 'Path to pickier config')
     .option('--ignore-path <file>', 'Ignore file (like .gitignore)')
     .option('--ext <exts>', 'Comma-separated extensions')
-    .option('--cache', 'Enable cache')
+    .option('--cache', 'Reuse results of files unchanged since the last run')
+    .option('--cache-location <path>', 'Cache file or directory (default: .pickiercache)')
+    .option('--cache-strategy <strategy>', 'content|metadata: how unchanged files are detected')
+    .option('--strict-config', 'Fail when the config has unknown rules or invalid rule options')
+    .option('--report-unused-disable-directives', 'Report disable directives that suppress nothing (--fix removes them)')
+    .option('--watch', 'Keep running and lint files again as they change')
+    .option('--staged', 'Only files staged in git')
+    .option('--changed', 'Only files changed in git since HEAD, and untracked files')
+    .option('--since <ref>', 'Only files changed in git since the branch forked from <ref>')
+    .option('--stdin', 'Read the text to lint, fix or format from stdin (fixed or formatted text goes to stdout)')
+    .option('--stdin-filename <path>', 'Path the stdin text stands in for (default: stdin.ts)')
+    .option('--diff-lines <ref>', 'Only report issues on lines changed since <ref>')
+    .option('--fix-diff-lines', 'With --fix and --diff-lines, only fix the changed lines')
+    .option('--fix-rule <rules>', 'With --fix, only apply the fixes of these rules (comma-separated, repeatable)')
+    .option('--fix-type <plugins>', 'With --fix, only apply the fixes of rules from these plugins, e.g. style (comma-separated, repeatable)')
+    .option('--fix-unsafe', 'With --fix, also apply fixes that can change what the code does')
+    .option('--baseline <file>', 'Only report issues not recorded in this baseline file')
+    .option('--baseline-write <file>', 'Record every current issue in this baseline file')
+    .option('--timing', 'Print the time spent per rule, per file and in the file walk (to stderr)')
+    .option('--timing-json', 'Like --timing, as JSON')
     .option('--verbose', 'Verbose output')
     .example('pickier .')
     .example('pickier . --fix')
     .example('pickier . --format')
     .example('pickier src --fix --verbose')
+    .example('pickier src --fix --watch')
+    .example('pickier --staged --fix')
+    .example('pickier src --diff-lines main')
+    .example('pickier . --baseline .pickier-baseline.json')
+    .example('pickier . --reporter gitlab --output-file gl-code-quality.json')
+    .example('pickier . --reporter stylish --reporter json:pickier-report.json')
+    .example('pickier --stdin --stdin-filename src/foo.ts --fix < src/foo.ts')
+    .example('pickier . --timing')
+    .example('pickier . --fix --diff > fixes.patch')
+    .example('pickier . --fix --fix-rule pickier/sort-imports')
     .action(async (...args: unknown[]) => {
       const [cmdGlobs, opts] = normalizeActionArgs(args)
-      if (cmdGlobs.length === 0) {
+      // git picks the files, or stdin is the file, so no globs are needed
+      if (cmdGlobs.length === 0 && !opts.staged && !opts.changed && !opts.since && !opts.stdin) {
         cli.outputHelp()
         return
       }
@@ -145,12 +199,33 @@ async function main() {
     .command('lint [...globs]', '[DEPRECATION] Use `pickier [...globs]` instead. Lint files')
     .option('--fix', 'Auto-fix problems')
     .option('--dry-run', 'Simulate fixes without writing')
+    .option('--diff', 'With --fix, print a unified diff of the fixes instead of writing them')
     .option('--max-warnings <n>', 'Max warnings before non-zero exit', { default: -1 })
-    .option('--reporter <name>', 'stylish|json|compact', { default: 'stylish' })
+    .option('--reporter <name>', 'stylish|json|compact|sarif|junit|checkstyle|gitlab or a module path, :<outfile> to write to a file (repeatable)', { default: 'stylish' })
+    .option('--output-file <path>', 'Write the report to a file, showing stylish on the console')
     .option('--config <path>', 'Path to pickier config')
     .option('--ignore-path <file>', 'Ignore file (like .gitignore)')
     .option('--ext <exts>', 'Comma-separated extensions')
-    .option('--cache', 'Enable cache')
+    .option('--cache', 'Reuse results of files unchanged since the last run')
+    .option('--cache-location <path>', 'Cache file or directory (default: .pickiercache)')
+    .option('--cache-strategy <strategy>', 'content|metadata: how unchanged files are detected')
+    .option('--strict-config', 'Fail when the config has unknown rules or invalid rule options')
+    .option('--report-unused-disable-directives', 'Report disable directives that suppress nothing (--fix removes them)')
+    .option('--watch', 'Keep running and lint files again as they change')
+    .option('--staged', 'Only files staged in git')
+    .option('--changed', 'Only files changed in git since HEAD, and untracked files')
+    .option('--since <ref>', 'Only files changed in git since the branch forked from <ref>')
+    .option('--stdin', 'Read the text to lint, fix or format from stdin (fixed or formatted text goes to stdout)')
+    .option('--stdin-filename <path>', 'Path the stdin text stands in for (default: stdin.ts)')
+    .option('--diff-lines <ref>', 'Only report issues on lines changed since <ref>')
+    .option('--fix-diff-lines', 'With --fix and --diff-lines, only fix the changed lines')
+    .option('--fix-rule <rules>', 'With --fix, only apply the fixes of these rules (comma-separated, repeatable)')
+    .option('--fix-type <plugins>', 'With --fix, only apply the fixes of rules from these plugins, e.g. style (comma-separated, repeatable)')
+    .option('--fix-unsafe', 'With --fix, also apply fixes that can change what the code does')
+    .option('--baseline <file>', 'Only report issues not recorded in this baseline file')
+    .option('--baseline-write <file>', 'Record every current issue in this baseline file')
+    .option('--timing', 'Print the time spent per rule, per file and in the file walk (to stderr)')
+    .option('--timing-json', 'Like --timing, as JSON')
     .option('--verbose', 'Verbose output')
     .example('pickier lint .')
     .example('pickier lint src --fix')
@@ -167,9 +242,18 @@ async function main() {
     .command('format [...globs]', '[DEPRECATION] Use `pickier [...globs] --format` instead. Format files')
     .option('--write', 'Write changes to files')
     .option('--check', 'Check without writing (CI-friendly)')
+    .option('--diff', 'Print a unified diff of the formatting instead of writing it')
     .option('--config <path>', 'Path to pickier config')
     .option('--ignore-path <file>', 'Ignore file')
     .option('--ext <exts>', 'Comma-separated extensions')
+    .option('--watch', 'Keep running and format files again as they change')
+    .option('--staged', 'Only files staged in git')
+    .option('--changed', 'Only files changed in git since HEAD, and untracked files')
+    .option('--since <ref>', 'Only files changed in git since the branch forked from <ref>')
+    .option('--stdin', 'Read the text to lint, fix or format from stdin (fixed or formatted text goes to stdout)')
+    .option('--stdin-filename <path>', 'Path the stdin text stands in for (default: stdin.ts)')
+    .option('--timing', 'Print the time spent per rule, per file and in the file walk (to stderr)')
+    .option('--timing-json', 'Like --timing, as JSON')
     .option('--verbose', 'Verbose output')
     .example('pickier format . --write')
     .example('pickier format . --check')
@@ -187,13 +271,34 @@ async function main() {
     .option('--fix', 'Auto-fix problems (lint mode)')
     .option('--dry-run', 'Simulate fixes without writing (lint mode)')
     .option('--max-warnings <n>', 'Max warnings before non-zero exit (lint mode)', { default: -1 })
-    .option('--reporter <name>', 'stylish|json|compact (lint mode)', { default: 'stylish' })
+    .option('--reporter <name>', 'stylish|json|compact|sarif|junit|checkstyle|gitlab or a module path, :<outfile> to write to a file (repeatable, lint mode)', { default: 'stylish' })
+    .option('--output-file <path>', 'Write the report to a file, showing stylish on the console (lint mode)')
     .option('--write', 'Write changes to files (format mode)')
     .option('--check', 'Check without writing (format mode)')
+    .option('--diff', 'Print a unified diff of the fixes or formatting instead of writing them')
     .option('--config <path>', 'Path to pickier config')
     .option('--ignore-path <file>', 'Ignore file (like .gitignore)')
     .option('--ext <exts>', 'Comma-separated extensions')
-    .option('--cache', 'Enable cache (lint mode)')
+    .option('--cache', 'Reuse results of files unchanged since the last run (lint mode)')
+    .option('--cache-location <path>', 'Cache file or directory (default: .pickiercache)')
+    .option('--cache-strategy <strategy>', 'content|metadata: how unchanged files are detected')
+    .option('--strict-config', 'Fail when the config has unknown rules or invalid rule options')
+    .option('--report-unused-disable-directives', 'Report disable directives that suppress nothing (--fix removes them)')
+    .option('--watch', 'Keep running and lint files again as they change')
+    .option('--staged', 'Only files staged in git')
+    .option('--changed', 'Only files changed in git since HEAD, and untracked files')
+    .option('--since <ref>', 'Only files changed in git since the branch forked from <ref>')
+    .option('--stdin', 'Read the text to lint, fix or format from stdin (fixed or formatted text goes to stdout)')
+    .option('--stdin-filename <path>', 'Path the stdin text stands in for (default: stdin.ts)')
+    .option('--diff-lines <ref>', 'Only report issues on lines changed since <ref>')
+    .option('--fix-diff-lines', 'With --fix and --diff-lines, only fix the changed lines')
+    .option('--fix-rule <rules>', 'With --fix, only apply the fixes of these rules (comma-separated, repeatable)')
+    .option('--fix-type <plugins>', 'With --fix, only apply the fixes of rules from these plugins, e.g. style (comma-separated, repeatable)')
+    .option('--fix-unsafe', 'With --fix, also apply fixes that can change what the code does')
+    .option('--baseline <file>', 'Only report issues not recorded in this baseline file')
+    .option('--baseline-write <file>', 'Record every current issue in this baseline file')
+    .option('--timing', 'Print the time spent per rule, per file and in the file walk (to stderr)')
+    .option('--timing-json', 'Like --timing, as JSON')
     .option('--verbose', 'Verbose output')
     .example('pickier run . --mode lint --fix')
     .example('pickier run . --mode format --write')
@@ -204,6 +309,34 @@ async function main() {
       process.exit(code)
     })
 
+  cli
+    .command('rules', 'List the rules with their plugin, flags and the severity the config gives them')
+    .option('--enabled', 'Only rules the config turns on')
+    .option('--plugin <name>', 'Only rules of this plugin, e.g. style')
+    .option('--explain <ruleId>', 'Print the docs and options of one rule')
+    .option('--json', 'Print JSON')
+    .option('--config <path>', 'Path to pickier config')
+    .example('pickier rules --enabled')
+    .example('pickier rules --plugin style --json')
+    .example('pickier rules --explain prefer-const')
+    .action(async (opts: Record<string, unknown>) => {
+      const { runRules } = await import('../src/catalog.ts')
+      process.exit(await runRules(opts as Parameters<typeof runRules>[0]))
+    })
+
+  cli
+    .command('print-config <file>', 'Print the config that applies to a file, where each value comes from, and whether the file is ignored')
+    .option('--config <path>', 'Path to pickier config')
+    .option('--ext <exts>', 'Comma-separated list of extensions to lint (e.g., .ts,.tsx)')
+    .option('--ignore-path <file>', 'Path to ignore file')
+    .option('--json', 'Print JSON')
+    .example('pickier print-config src/index.ts')
+    .example('pickier print-config dist/index.js --json')
+    .action(async (file: string, opts: Record<string, unknown>) => {
+      const { runPrintConfig } = await import('../src/print-config.ts')
+      process.exit(await runPrintConfig(file, opts as Parameters<typeof runPrintConfig>[1]))
+    })
+
   cli.command('version', 'Show the version of the CLI').action(async () => {
     const { version: ver } = await import('../package.json')
     process.stdout.write(`${ver}\n`)
@@ -1,5 +1,13 @@
 // Lightweight parsing utilities (no deps). Intentionally minimal for Pickier rules.
 // Provides tokenization, simple bracket matching, and loc <-> index mapping.
+// The full ESTree parser lives in `parser.ts`; `createSourceCode` ties the two
+// together for the lazily parsed `ast` / `tokens` / `sourceMap` / `scopeManager`
+// on RuleContext.
+import type { Comment, ParseError, Program } from './parser'
+import type { ScopeManager } from './scope'
+import type { PickierConfig, RuleContext } from './types'
+import { isParsableFile, isParseError, parse } from './parser'
+import { analyzeScope } from './scope'
 
 export interface Loc { line: number, column: number }
 export interface Range { start: number, end: number }
@@ -338,3 +346,119 @@ export function findMatching(text: string, start: number, open: string, close: s
   }
   return -1
 }
+
+export interface SourceCode {
+  readonly filePath: string
+  readonly text: string
+  // null for files that are not JS/TS or that fail to parse
+  readonly ast: Program | null
+  readonly parseError: ParseError | null
+  readonly tokens: Token[]
+  readonly comments: Comment[]
+  readonly sourceMap: SourceMap
+  // null whenever `ast` is
+  readonly scopeManager: ScopeManager | null
+}
+
+// Nothing is computed until first access, so rules that never touch the tree
+// cost nothing; once parsed, every rule reading the same text shares it.
+export function createSourceCode(filePath: string, text: string): SourceCode {
+  let parsed = false
+  let ast: Program | null = null
+  let parseError: ParseError | null = null
+  let tokens: Token[] | null = null
+  let sourceMap: SourceMap | null = null
+  let scopeManager: ScopeManager | null | undefined
+
+  function ensureParsed(): void {
+    if (parsed)
+      return
+    parsed = true
+    if (!isParsableFile(filePath))
+      return
+    try {
+      ast = parse(text, { filePath })
+    }
+    catch (e) {
+      if (!isParseError(e))
+        throw e
+      parseError = e
+    }
+  }
+
+  return {
+    filePath,
+    text,
+    get ast() {
+      ensureParsed()
+      return ast
+    },
+    get parseError() {
+      ensureParsed()
+      return parseError
+    },
+    get tokens() {
+      if (!tokens) {
+        ensureParsed()
+        // fall back to the flat tokenizer so rules still get something for broken code
+        tokens = ast ? ast.tokens : isParsableFile(filePath) ? tokenize(text) : []
+      }
+      return tokens
+    },
+    get comments() {
+      ensureParsed()
+      return ast ? ast.comments : []
+    },
+    get sourceMap() {
+      if (!sourceMap)
+        sourceMap = buildSourceMap(text)
+      return sourceMap
+    },
+    get scopeManager() {
+      if (scopeManager === undefined) {
+        ensureParsed()
+        scopeManager = ast ? analyzeScope(ast) : null
+      }
+      return scopeManager
+    },
+  }
+}
+
+export function createRuleContext(source: SourceCode, config: PickierConfig, options?: unknown): RuleContext {
+  return {
+    filePath: source.filePath,
+    config,
+    options,
+    get ast() {
+      return source.ast
+    },
+    get tokens() {
+      return source.tokens
+    },
+    get comments() {
+      return source.comments
+    },
+    get sourceMap() {
+      return source.sourceMap
+    },
+    get scopeManager() {
+      return source.scopeManager
+    },
+  }
+}
+
+let lastSource: SourceCode | null = null
+
+/**
+ * The scope manager for `text`, for rules that must also work with contexts
+ * built by hand. Engine contexts already carry one; otherwise the text is
+ * parsed here, and the result kept for the next call on the same text (a
+ * rule's `fix` typically re-runs its `check`).
+ */
+export function getScopeManager(text: string, ctx: RuleContext): ScopeManager | null {
+  if (ctx.scopeManager !== undefined)
+    return ctx.scopeManager
+  if (!lastSource || lastSource.text !== text || lastSource.filePath !== ctx.filePath)
+    lastSource = createSourceCode(ctx.filePath, text)
+  return lastSource.scopeManager
+}
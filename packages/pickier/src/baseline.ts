@@ -0,0 +1,140 @@
+import type { LintIssue } from './types'
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
+
+export const BASELINE_VERSION = 1
+
+export interface BaselineEntry {
+  ruleId: string
+  message: string
+  /** Hash of the issue's line with its whitespace collapsed, so it survives lines moving and reindenting */
+  fingerprint: string
+  /** How many issues like this the file has */
+  count: number
+}
+
+export interface BaselineData {
+  version: number
+  /** Entries per file, keyed by path relative to the baseline file */
+  files: Record<string, BaselineEntry[]>
+}
+
+export interface BaselineResult {
+  /** The issues the baseline doesn't cover */
+  issues: LintIssue[]
+  /** How many issues it covered */
+  baselined: number
+  /** How many baselined issues are gone, and were dropped from the file */
+  removed: number
+}
+
+function lineFingerprint(line: string): string {
+  return createHash('sha1').update(line.trim().replace(/\s+/g, ' ')).digest('hex').slice(0, 16)
+}
+
+const entryKey = (e: Pick<BaselineEntry, 'ruleId' | 'message' | 'fingerprint'>): string => `${e.ruleId}\0${e.message}\0${e.fingerprint}`
+
+/** Read a baseline file; a missing one is empty, a malformed one an error */
+export function readBaseline(location: string): BaselineData {
+  if (!existsSync(location))
+    return { version: BASELINE_VERSION, files: {} }
+  let data: BaselineData
+  try {
+    data = JSON.parse(readFileSync(location, 'utf8'))
+  }
+  catch (e: any) {
+    throw new Error(`Invalid baseline file ${location}: ${e?.message || e}`)
+  }
+  if (!data || data.version !== BASELINE_VERSION || !data.files || typeof data.files !== 'object')
+    throw new Error(`Invalid baseline file ${location}: expected version ${BASELINE_VERSION} with a "files" object`)
+  return data
+}
+
+/**
+ * Hold `issues` against the baseline at `location`. Each entry excuses as many
+ * issues of the same rule, message and line content in its file as its count,
+ * wherever in the file they moved; the rest are new. The entries of the
+ * linted `files` are then rewritten to what they still cover, so the baseline
+ * shrinks as issues get fixed, or with `write` to every issue, recording them
+ * all. Entries of files outside the run stay unless the file is gone.
+ */
+export function applyBaseline(location: string, files: string[], issues: LintIssue[], write = false): BaselineResult {
+  const base = dirname(location)
+  const data = readBaseline(location)
+  const keyOf = (file: string): string => relative(base, file).replace(/\\/g, '/')
+  const before = JSON.stringify(data.files)
+
+  const lines = new Map<string, string[]>()
+  const fingerprint = (issue: LintIssue): string => {
+    let content = lines.get(issue.filePath)
+    if (!content) {
+      try {
+        content = readFileSync(issue.filePath, 'utf8').split('\n')
+      }
+      catch {
+        content = []
+      }
+      lines.set(issue.filePath, content)
+    }
+    return lineFingerprint(content[issue.line - 1] ?? '')
+  }
+
+  const byFile = new Map<string, LintIssue[]>()
+  for (const issue of issues) {
+    const list = byFile.get(issue.filePath)
+    if (list)
+      list.push(issue)
+    else byFile.set(issue.filePath, [issue])
+  }
+
+  const fresh: LintIssue[] = []
+  let baselined = 0
+  let recorded = 0
+  let covered = 0
+  for (const file of new Set([...files, ...byFile.keys()])) {
+    const key = keyOf(file)
+    const remaining = new Map<string, number>()
+    for (const entry of data.files[key] ?? []) {
+      remaining.set(entryKey(entry), (remaining.get(entryKey(entry)) ?? 0) + entry.count)
+      recorded += entry.count
+    }
+    const kept = new Map<string, BaselineEntry>()
+    for (const issue of byFile.get(file) ?? []) {
+      const entry = { ruleId: issue.ruleId, message: issue.message, fingerprint: fingerprint(issue), count: 1 }
+      const k = entryKey(entry)
+      const left = remaining.get(k) ?? 0
+      if (write || left > 0) {
+        remaining.set(k, left - 1)
+        baselined++
+        if (left > 0)
+          covered++
+        const existing = kept.get(k)
+        if (existing)
+          existing.count++
+        else kept.set(k, entry)
+      }
+      else {
+        fresh.push(issue)
+      }
+    }
+    const entries = [...kept.values()].sort((a, b) => entryKey(a).localeCompare(entryKey(b)))
+    if (entries.length > 0)
+      data.files[key] = entries
+    else delete data.files[key]
+  }
+  for (const [key, entries] of Object.entries(data.files)) {
+    if (!existsSync(resolve(base, key))) {
+      recorded += entries.reduce((n, e) => n + e.count, 0)
+      delete data.files[key]
+    }
+  }
+
+  data.files = Object.fromEntries(Object.entries(data.files).sort(([a], [b]) => a.localeCompare(b)))
+  const changed = JSON.stringify(data.files) !== before
+  if (write ? changed || !existsSync(location) : changed) {
+    mkdirSync(base, { recursive: true })
+    writeFileSync(location, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+  }
+  return { issues: fresh, baselined, removed: recorded - covered }
+}
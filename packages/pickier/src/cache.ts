@@ -0,0 +1,167 @@
+import type { LintIssue, PickierConfig } from './types'
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
+import { dirname, join, relative, resolve } from 'node:path'
+import { version } from '../package.json'
+
+export type CacheStrategy = 'content' | 'metadata'
+
+export const DEFAULT_CACHE_FILE = '.pickiercache'
+
+type CachedIssue = Omit<LintIssue, 'filePath'>
+
+interface CacheEntry {
+  size: number
+  mtime: number
+  hash: string
+  issues: CachedIssue[]
+}
+
+interface CacheData {
+  key: string
+  files: Record<string, CacheEntry>
+}
+
+export interface LintCache {
+  readonly location: string
+  /**
+   * Issues recorded for `file` when it was last linted, or `undefined` when
+   * it changed since. `read` is only called when the strategy needs the
+   * content, so a `metadata` hit never reads the file.
+   */
+  lookup: (file: string, read: () => string) => LintIssue[] | undefined
+  store: (file: string, content: string, issues: LintIssue[]) => void
+  forget: (file: string) => void
+  save: () => void
+}
+
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+/**
+ * Everything besides the file itself that decides its issues: the pickier
+ * version and the effective config, plugins included. Rule functions are
+ * hashed by source, so editing a local plugin invalidates the cache just like
+ * upgrading a published one.
+ */
+export function cacheKey(cfg: PickierConfig): string {
+  const json = JSON.stringify(cfg, (_key, value) => typeof value === 'function' ? String(value) : value)
+  return hashContent(`${version}\0${json}`)
+}
+
+/**
+ * `--cache-location` may name a file or a directory; a directory (an existing
+ * one, or any path ending in a separator) gets `.pickiercache` inside it.
+ */
+export function resolveCacheLocation(location?: string): string {
+  const target = resolve(process.cwd(), location || DEFAULT_CACHE_FILE)
+  if (location && /[/\\]$/.test(location))
+    return join(target, DEFAULT_CACHE_FILE)
+  try {
+    if (statSync(target).isDirectory())
+      return join(target, DEFAULT_CACHE_FILE)
+  }
+  catch {}
+  return target
+}
+
+function readCacheData(location: string, key: string): CacheData {
+  try {
+    const data = JSON.parse(readFileSync(location, 'utf8')) as CacheData
+    if (data && data.key === key && data.files && typeof data.files === 'object')
+      return data
+  }
+  catch {
+    // missing or unreadable: start over
+  }
+  return { key, files: {} }
+}
+
+/**
+ * On-disk record of each file's lint issues. Entries are keyed by path
+ * relative to the cache file, so a cache restored into another checkout
+ * (CI) still matches. With the `content` strategy a file is unchanged when
+ * its content hash is; with `metadata` when its size and mtime are, falling
+ * back to the hash when only the mtime moved (a fresh checkout or `touch`).
+ */
+export function createLintCache(cfg: PickierConfig, options: { location?: string, strategy?: string } = {}): LintCache {
+  const strategy = options.strategy || 'content'
+  if (strategy !== 'content' && strategy !== 'metadata')
+    throw new Error(`Invalid cache strategy '${strategy}'. Expected 'content' or 'metadata'`)
+
+  const location = resolveCacheLocation(options.location)
+  const base = dirname(location)
+  const data = readCacheData(location, cacheKey(cfg))
+  const seen = new Set<string>()
+  let dirty = false
+
+  const keyOf = (file: string) => relative(base, file).replace(/\\/g, '/')
+
+  return {
+    location,
+    lookup(file, read) {
+      const key = keyOf(file)
+      seen.add(key)
+      const entry = data.files[key]
+      if (!entry)
+        return undefined
+      let stat
+      try {
+        stat = statSync(file)
+      }
+      catch {
+        return undefined
+      }
+      const sameMetadata = stat.size === entry.size && stat.mtimeMs === entry.mtime
+      if (!(strategy === 'metadata' && sameMetadata)) {
+        if (stat.size !== entry.size || hashContent(read()) !== entry.hash)
+          return undefined
+        if (!sameMetadata) {
+          entry.mtime = stat.mtimeMs
+          dirty = true
+        }
+      }
+      return entry.issues.map(issue => ({ filePath: file, ...issue }))
+    },
+    store(file, content, issues) {
+      let stat
+      try {
+        stat = statSync(file)
+      }
+      catch {
+        return
+      }
+      const key = keyOf(file)
+      seen.add(key)
+      data.files[key] = {
+        size: stat.size,
+        mtime: stat.mtimeMs,
+        hash: hashContent(content),
+        issues: issues.map(({ filePath: _filePath, ...issue }) => issue),
+      }
+      dirty = true
+    },
+    forget(file) {
+      const key = keyOf(file)
+      if (data.files[key]) {
+        delete data.files[key]
+        dirty = true
+      }
+    },
+    save() {
+      // entries for files outside this run stay, unless the file is gone
+      for (const key of Object.keys(data.files)) {
+        if (!seen.has(key) && !existsSync(resolve(base, key))) {
+          delete data.files[key]
+          dirty = true
+        }
+      }
+      if (!dirty && existsSync(location))
+        return
+      mkdirSync(base, { recursive: true })
+      writeFileSync(location, JSON.stringify(data), 'utf8')
+      dirty = false
+    },
+  }
+}
@@ -0,0 +1,157 @@
+import type { PickierConfig, RuleOptionSchema } from './types'
+import { getRulesConfig } from './fixes'
+import { getPluginDefinitions } from './linter'
+import { colors, getRuleSetting, loadConfigFromPath } from './utils'
+
+export interface RuleCatalogEntry {
+  /** The id the rule runs as: the first enabled of its ids, in plugin order */
+  ruleId: string
+  plugin: string
+  /** The same implementation under other plugins (`eslint/`, `general/`, `pickier/`, ...) */
+  aliases: string[]
+  /** The severity the config resolves the rule to */
+  severity: 'error' | 'warning' | 'off'
+  /** Options configured with the severity */
+  options?: unknown
+  fixable: boolean
+  fixSafety?: 'safe' | 'unsafe'
+  recommended: boolean
+  wip: boolean
+  docs?: string
+  schema?: RuleOptionSchema
+}
+
+export interface ListRulesOptions {
+  /** Only rules the config turns on */
+  enabled?: boolean
+  /** Only rules this plugin owns, under their own id or an alias */
+  plugin?: string
+}
+
+export interface RulesCommandOptions extends ListRulesOptions {
+  /** Print this rule's docs and options instead of the list */
+  explain?: string
+  json?: boolean
+  config?: string
+}
+
+/**
+ * Every plugin rule `cfg` knows of, with the severity its config resolves
+ * to. Ids pointing at one implementation are listed as one rule.
+ */
+export function listRules(cfg: PickierConfig, options: ListRulesOptions = {}): RuleCatalogEntry[] {
+  const pluginDefs = getPluginDefinitions(cfg)
+  const rulesConfig = getRulesConfig(cfg, pluginDefs)
+  // Aliases share the implementation's `meta`, while each plugin wraps `check` anew
+  const groups = new Map<object, RuleCatalogEntry>()
+  for (const plugin of pluginDefs) {
+    for (const [ruleName, rule] of Object.entries(plugin.rules)) {
+      const ruleId = `${plugin.name}/${ruleName}`
+      const setting = getRuleSetting(rulesConfig, ruleId)
+      const entry = groups.get(rule.meta ?? rule)
+      if (entry) {
+        // the first enabled id is the one that runs
+        if (entry.severity === 'off' && setting.enabled) {
+          entry.aliases.push(entry.ruleId)
+          Object.assign(entry, { ruleId, plugin: plugin.name, severity: setting.severity ?? 'error', options: setting.options })
+        }
+        else {
+          entry.aliases.push(ruleId)
+        }
+        continue
+      }
+      groups.set(rule.meta ?? rule, {
+        ruleId,
+        plugin: plugin.name,
+        aliases: [],
+        severity: setting.enabled ? setting.severity ?? 'error' : 'off',
+        options: setting.options,
+        fixable: typeof rule.fix === 'function' || !!rule.meta?.fixable,
+        fixSafety: rule.meta?.fixSafety,
+        recommended: !!rule.meta?.recommended,
+        wip: !!rule.meta?.wip,
+        docs: rule.meta?.docs,
+        schema: rule.meta?.schema,
+      })
+    }
+  }
+
+  const prefix = options.plugin && `${options.plugin}/`
+  for (const entry of groups.values())
+    entry.aliases.sort()
+  return [...groups.values()]
+    .filter(entry => !options.enabled || entry.severity !== 'off')
+    .filter(entry => !prefix || [entry.ruleId, ...entry.aliases].some(id => id.startsWith(prefix)))
+    .sort((a, b) => a.ruleId.localeCompare(b.ruleId))
+}
+
+/** The catalog entry of a rule, by any of its ids or its bare name */
+export function findRule(entries: RuleCatalogEntry[], ruleId: string): RuleCatalogEntry | undefined {
+  const ids = (entry: RuleCatalogEntry): string[] => [entry.ruleId, ...entry.aliases]
+  return entries.find(entry => ids(entry).includes(ruleId))
+    ?? entries.find(entry => ids(entry).some(id => id.slice(id.indexOf('/') + 1) === ruleId))
+}
+
+function severityText(severity: RuleCatalogEntry['severity'], width = 0): string {
+  const text = severity.padEnd(width)
+  return severity === 'error' ? colors.red(text) : severity === 'warning' ? colors.yellow(text) : colors.gray(text)
+}
+
+function flags(entry: RuleCatalogEntry): string {
+  return [
+    entry.fixable && (entry.fixSafety === 'unsafe' ? 'fixable (unsafe)' : 'fixable'),
+    entry.recommended && 'recommended',
+    entry.wip && 'wip',
+  ].filter(Boolean).join(', ')
+}
+
+/** `pickier rules`: one line per rule, with its severity, flags and aliases */
+export function formatRules(entries: RuleCatalogEntry[]): string {
+  const idWidth = Math.max(0, ...entries.map(e => e.ruleId.length))
+  const flagWidth = Math.max(0, ...entries.map(e => flags(e).length))
+  const lines = entries.map((entry) => {
+    const aliases = entry.aliases.length > 0 ? colors.gray(`also ${entry.aliases.join(', ')}`) : ''
+    return `${entry.ruleId.padEnd(idWidth)}  ${severityText(entry.severity, 7)}  ${flags(entry).padEnd(flagWidth)}  ${aliases}`.trimEnd()
+  })
+  const enabled = entries.filter(e => e.severity !== 'off').length
+  lines.push('', `${entries.length} ${entries.length === 1 ? 'rule' : 'rules'}, ${enabled} enabled`)
+  return lines.join('\n')
+}
+
+/** `pickier rules --explain`: what a rule checks, how it is configured and the options it takes */
+export function explainRule(entry: RuleCatalogEntry): string {
+  const lines = [colors.bold(entry.ruleId)]
+  if (entry.aliases.length > 0)
+    lines.push(colors.gray(`Also: ${entry.aliases.join(', ')}`))
+  if (entry.docs)
+    lines.push('', entry.docs)
+  lines.push(
+    '',
+    `Severity: ${severityText(entry.severity)}`,
+    `Fixable: ${entry.fixable ? entry.fixSafety === 'unsafe' ? 'yes, with --fix-unsafe (the fix can change what the code does)' : 'yes' : 'no'}`,
+    `Recommended: ${entry.recommended ? 'yes' : 'no'}`,
+  )
+  if (entry.wip)
+    lines.push('Work in progress: yes')
+  if (entry.options !== undefined)
+    lines.push(`Configured options: ${JSON.stringify(entry.options)}`)
+  lines.push(entry.schema ? `Options:\n${JSON.stringify(entry.schema, null, 2)}` : 'Options: none')
+  return lines.join('\n')
+}
+
+/** `pickier rules`: print the rules, or with `explain` one of them, and return the exit code */
+export async function runRules(options: RulesCommandOptions = {}): Promise<number> {
+  const cfg = await loadConfigFromPath(options.config)
+  if (options.explain) {
+    const entry = findRule(listRules(cfg), options.explain)
+    if (!entry) {
+      process.stderr.write(`[pickier:error] Unknown rule '${options.explain}': run \`pickier rules\` to list them\n`)
+      return 1
+    }
+    process.stdout.write(`${options.json ? JSON.stringify(entry, null, 2) : explainRule(entry)}\n`)
+    return 0
+  }
+  const entries = listRules(cfg, options)
+  process.stdout.write(`${options.json ? JSON.stringify(entries, null, 2) : formatRules(entries)}\n`)
+  return 0
+}
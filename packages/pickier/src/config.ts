@@ -1,5 +1,7 @@
-import type { PickierConfig } from './types'
-import { loadConfig } from 'bunfig'
+import type { PickierConfig, PickierOptions } from './types'
+import { dirname } from 'node:path'
+import { loadConfigWithResult } from 'bunfig'
+import { setOverrideBase } from './override-base'
 
 // Aliases pickier probes for — bunfig walks them in order until one matches.
 // `code-style` is the documented brand alias; `lint` plays nicely with
@@ -244,17 +246,43 @@ export const defaultConfig: PickierConfig = {
 
 // Lazy-loaded config to avoid top-level await (enables bun --compile)
 let _config: PickierConfig | null = null
+let _configPath: string | undefined
 
 export async function getConfig(): Promise<PickierConfig> {
   if (!_config) {
-    _config = await loadConfig({
+    const result = await loadConfigWithResult({
       name: 'pickier',
       alias: [...CONFIG_ALIASES],
       defaultConfig,
     })
+    _configPath = result.path
+    // bunfig has merged the defaults in already, which would sit above
+    // anything the file extends, and doesn't know where string plugins are
+    // relative to: load the file itself to resolve those
+    const options = result.config as PickierOptions
+    if (result.path && (options.extends || options.plugins?.some(p => typeof p === 'string'))) {
+      const { loadConfigFromPath } = await import('./utils')
+      _config = await loadConfigFromPath(result.path)
+    }
+    else {
+      _config = result.config
+      if (result.path && _config.overrides?.length)
+        setOverrideBase(_config.overrides, dirname(result.path))
+    }
   }
   return _config
 }
 
+// The file `getConfig()` found, if any
+export function getConfigPath(): string | undefined {
+  return _configPath
+}
+
+// Forget the config `getConfig()` found, so the next call searches again
+export function resetConfig(): void {
+  _config = null
+  _configPath = undefined
+}
+
 // For backwards compatibility - synchronous access with default fallback
 export const config: PickierConfig = defaultConfig
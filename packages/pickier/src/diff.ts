@@ -0,0 +1,208 @@
+export interface LineEdit {
+  /** 0-based index of the first line of `before` the edit replaces */
+  start: number
+  /** How many lines of `before` it replaces; 0 for a pure insertion before `start` */
+  deleteCount: number
+  /** The lines of `after` that take their place */
+  lines: string[]
+}
+
+// Above this many differing lines the middle is treated as one edit instead of searched
+const MAX_EDIT_DISTANCE = 4000
+
+/**
+ * The line edits that turn `before` into `after`, in order and
+ * non-overlapping: Myers' algorithm over the lines between the common prefix
+ * and suffix.
+ */
+export function diffLines(before: string[], after: string[]): LineEdit[] {
+  let prefix = 0
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix])
+    prefix++
+  let suffix = 0
+  while (suffix < before.length - prefix && suffix < after.length - prefix
+    && before[before.length - 1 - suffix] === after[after.length - 1 - suffix])
+    suffix++
+  const a = before.slice(prefix, before.length - suffix)
+  const b = after.slice(prefix, after.length - suffix)
+  if (a.length === 0 && b.length === 0)
+    return []
+
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found)
+    return [{ start: prefix, deleteCount: n, lines: b }]
+
+  // Walk the trace back into one step per line: `=` keep, `-` delete, `+` insert
+  const steps: string[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = prev[offset + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      steps.push('=')
+      x--
+      y--
+    }
+    steps.push(x === prevX ? '+' : '-')
+    x = prevX
+    y = prevY
+  }
+  while (x > 0 && y > 0) {
+    steps.push('=')
+    x--
+    y--
+  }
+  steps.reverse()
+
+  const edits: LineEdit[] = []
+  let i = 0
+  let j = 0
+  let current: LineEdit | undefined
+  for (const step of steps) {
+    if (step === '=') {
+      current = undefined
+      i++
+      j++
+      continue
+    }
+    if (!current) {
+      current = { start: prefix + i, deleteCount: 0, lines: [] }
+      edits.push(current)
+    }
+    if (step === '-') {
+      current.deleteCount++
+      i++
+    }
+    else {
+      current.lines.push(b[j])
+      j++
+    }
+  }
+  return edits
+}
+
+/**
+ * Apply only the edits from `before` to `after` that `keep` accepts; `keep`
+ * gets each edit's 1-based line range in `before` (`to < from` for a pure
+ * insertion between lines `to` and `from`).
+ */
+export function applyLineEdits(before: string, after: string, keep: (from: number, to: number) => boolean): string {
+  const beforeLines = before.split('\n')
+  const edits = diffLines(beforeLines, after.split('\n'))
+  const out: string[] = []
+  let line = 0
+  for (const edit of edits) {
+    out.push(...beforeLines.slice(line, edit.start))
+    const kept = keep(edit.start + 1, edit.start + edit.deleteCount)
+    out.push(...(kept ? edit.lines : beforeLines.slice(edit.start, edit.start + edit.deleteCount)))
+    line = edit.start + edit.deleteCount
+  }
+  out.push(...beforeLines.slice(line))
+  return out.join('\n')
+}
+
+export interface UnifiedDiffOptions {
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number
+  /** Color the output for a terminal */
+  color?: boolean
+}
+
+// Carried by a last line that has no newline, so the diff tells `a` from `a\n`
+const NO_NEWLINE = '\0'
+
+function patchLines(text: string): string[] {
+  if (text === '')
+    return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '')
+    lines.pop()
+  else
+    lines[lines.length - 1] += NO_NEWLINE
+  return lines
+}
+
+// A hunk range: the start line and count, where an empty range starts at the line before it
+function hunkRange(start: number, count: number): string {
+  if (count === 0)
+    return `${start},0`
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`
+}
+
+/**
+ * The unified diff from `before` to `after` of the file at `path` (relative
+ * and `/`-separated), as `git apply` and `patch -p1` take it; empty when
+ * nothing changed.
+ */
+export function unifiedDiff(path: string, before: string, after: string, options: UnifiedDiffOptions = {}): string {
+  if (before === after)
+    return ''
+  const context = options.context ?? 3
+  const paint = (code: string, text: string): string => options.color ? `\x1B[${code}m${text}\x1B[0m` : text
+  const row = (sign: string, line: string, code: string): string[] => {
+    const text = line.endsWith(NO_NEWLINE) ? line.slice(0, -1) : line
+    const out = [sign === ' ' ? ` ${text}` : paint(code, `${sign}${text}`)]
+    if (text !== line)
+      out.push('\\ No newline at end of file')
+    return out
+  }
+
+  const a = patchLines(before)
+  const b = patchLines(after)
+  const edits = diffLines(a, b)
+  const out = [paint('1', `--- a/${path}`), paint('1', `+++ b/${path}`)]
+  let shift = 0
+  for (let i = 0; i < edits.length;) {
+    // edits with at most two contexts of unchanged lines between them share a hunk
+    let j = i
+    while (j + 1 < edits.length && edits[j + 1].start - (edits[j].start + edits[j].deleteCount) <= 2 * context)
+      j++
+    const oldStart = Math.max(0, edits[i].start - context)
+    const oldEnd = Math.min(a.length, edits[j].start + edits[j].deleteCount + context)
+    const body: string[] = []
+    let line = oldStart
+    let newCount = 0
+    for (const edit of edits.slice(i, j + 1)) {
+      for (; line < edit.start; line++, newCount++)
+        body.push(...row(' ', a[line], ''))
+      for (; line < edit.start + edit.deleteCount; line++)
+        body.push(...row('-', a[line], '31'))
+      for (const added of edit.lines)
+        body.push(...row('+', added, '32'))
+      newCount += edit.lines.length
+    }
+    for (; line < oldEnd; line++, newCount++)
+      body.push(...row(' ', a[line], ''))
+    out.push(paint('36', `@@ -${hunkRange(oldStart, oldEnd - oldStart)} +${hunkRange(oldStart + shift, newCount)} @@`), ...body)
+    for (const edit of edits.slice(i, j + 1))
+      shift += edit.lines.length - edit.deleteCount
+    i = j + 1
+  }
+  return `${out.join('\n')}\n`
+}
@@ -0,0 +1,520 @@
+import { extname } from 'node:path'
+
+// --- disable-next-line directives ---
+function camelToKebab(s: string): string {
+  return s.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()
+}
+function kebabToCamel(s: string): string {
+  return s.replace(/-([a-z])/g, (_, c) => c.toUpperCase())
+}
+type SuppressMap = Map<number, Set<string>>
+export interface DisableDirectives {
+  nextLine: SuppressMap // Map of line number -> disabled rules
+  fileLevel: Set<string> // Rules disabled for entire file
+  rangeDisable: Map<number, Set<string>> // Line where rules are disabled
+  rangeEnable: Map<number, Set<string>> // Line where rules are re-enabled
+  // OPTIMIZATION: Pre-sorted arrays for binary search
+  sortedDisableLines: number[]
+  sortedEnableLines: number[]
+  comments: Map<number, DisableComment> // Disable directives by the line they are on
+}
+
+// A disable directive as written, for reporting the ones that suppress nothing
+interface DisableComment {
+  name: string // e.g. `eslint-disable-next-line`
+  line: number
+  rules: string[] // empty: every rule
+  // offsets within the line: the whole comment, and its rule list
+  start: number
+  end: number
+  listStart: number
+  listEnd: number
+  used: Set<string> // entries of `rules` (or `*`) that suppressed an issue
+}
+
+function disableComment(raw: string, lineNo: number, commentLength: number, list: string | undefined): DisableComment {
+  const t = raw.trim()
+  const start = raw.length - raw.trimStart().length
+  const name = t.match(/(?:eslint|pickier)-disable(?:-next-line)?/)![0]
+  const nameEnd = t.indexOf(name) + name.length
+  const listStart = start + (list ? t.indexOf(list, nameEnd) : nameEnd)
+  return {
+    name,
+    line: lineNo,
+    rules: list ? list.split(',').map(r => r.trim()).filter(Boolean) : [],
+    start,
+    end: start + commentLength,
+    listStart,
+    listEnd: listStart + (list?.length ?? 0),
+    used: new Set(),
+  }
+}
+
+type DirectiveKind = 'disable-next-line' | 'disable' | 'enable'
+
+interface DirectivePattern {
+  kind: DirectiveKind
+  re: RegExp // group 1: the rule list, if any
+  fileLevel?: boolean // on line 1, also disables for the whole file
+}
+
+const SLASH_LINE_DIRECTIVES: DirectivePattern[] = [
+  { kind: 'disable-next-line', re: /^\/\/\s*(?:eslint|pickier)-disable-next-line(?:\s+(\S.*))?$/ },
+  { kind: 'disable', re: /^\/\/\s*(?:eslint|pickier)-disable(?:\s+(\S.*))?$/ },
+  { kind: 'enable', re: /^\/\/\s*(?:eslint|pickier)-enable(?:\s+(\S.*))?$/ },
+]
+
+const SLASH_BLOCK_DIRECTIVES: DirectivePattern[] = [
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'disable-next-line', re: /^\/\*\s*(?:eslint|pickier)-disable-next-line(?:\s+([^*]+))?\s*\*\// },
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'disable', re: /^\/\*\s*(?:eslint|pickier)-disable(?:\s+([^*]+))?\s*\*\//, fileLevel: true },
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'enable', re: /^\/\*\s*(?:eslint|pickier)-enable(?:\s+([^*]+))?\s*\*\// },
+]
+
+const HASH_DIRECTIVES: DirectivePattern[] = [
+  { kind: 'disable-next-line', re: /^#\s*(?:eslint|pickier)-disable-next-line(?:\s+(\S.*))?$/ },
+  { kind: 'disable', re: /^#\s*(?:eslint|pickier)-disable(?:\s+(\S.*))?$/, fileLevel: true },
+  { kind: 'enable', re: /^#\s*(?:eslint|pickier)-enable(?:\s+(\S.*))?$/ },
+]
+
+const HTML_DIRECTIVES: DirectivePattern[] = [
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'disable-next-line', re: /^<!--\s*(?:eslint|pickier)-disable-next-line(?:\s+([^>]+?))?\s*-->/ },
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'disable', re: /^<!--\s*(?:eslint|pickier)-disable(?:\s+([^>]+?))?\s*-->/, fileLevel: true },
+  // eslint-disable-next-line regexp/no-super-linear-backtracking
+  { kind: 'enable', re: /^<!--\s*(?:eslint|pickier)-enable(?:\s+([^>]+?))?\s*-->/ },
+]
+
+const HASH_COMMENT_EXTS = new Set(['sh', 'bash', 'zsh', 'yaml', 'yml', 'toml'])
+
+// The comment forms a directive can take, by file type. HTML and STX embed
+// scripts and styles, so they take those forms too; Markdown only takes HTML
+// comments, so code samples in fences don't act as directives.
+function directivePatterns(filePath: string | undefined): DirectivePattern[] {
+  const ext = filePath ? extname(filePath).slice(1).toLowerCase() : ''
+  if (HASH_COMMENT_EXTS.has(ext))
+    return HASH_DIRECTIVES
+  if (ext === 'md' || ext === 'markdown')
+    return HTML_DIRECTIVES
+  if (ext === 'html' || ext === 'htm' || ext === 'stx')
+    return [...HTML_DIRECTIVES, ...SLASH_LINE_DIRECTIVES, ...SLASH_BLOCK_DIRECTIVES]
+  if (ext === 'css' || ext === 'scss' || ext === 'less')
+    return SLASH_BLOCK_DIRECTIVES
+  return [...SLASH_LINE_DIRECTIVES, ...SLASH_BLOCK_DIRECTIVES]
+}
+
+export function parseDisableDirectives(content: string, filePath?: string): DisableDirectives {
+  const nextLine: SuppressMap = new Map()
+  const fileLevel = new Set<string>()
+  const rangeDisable = new Map<number, Set<string>>()
+  const rangeEnable = new Map<number, Set<string>>()
+  const comments = new Map<number, DisableComment>()
+  const lines = content.split(/\r?\n/)
+  const patterns = directivePatterns(filePath)
+
+  for (let i = 0; i < lines.length; i++) {
+    const t = lines[i].trim()
+    if (!t.includes('-disable') && !t.includes('-enable'))
+      continue
+    let match: RegExpMatchArray | null = null
+    let pattern: DirectivePattern | undefined
+    for (pattern of patterns) {
+      match = t.match(pattern.re)
+      if (match)
+        break
+    }
+    if (!match || !pattern)
+      continue
+
+    const lineNo = i + 1
+    // Strip trailing -- comments (e.g., "rule-name -- explanation")
+    const ruleText = match[1]?.trim().replace(/\s+--\s.*$/, '') || undefined
+    const list = ruleText ? ruleText.split(',').map(r => r.trim()).filter(Boolean) : ['*']
+    if (list.length === 0)
+      continue
+
+    if (pattern.kind === 'enable') {
+      const set = rangeEnable.get(lineNo) || new Set<string>()
+      for (const item of list) set.add(item)
+      rangeEnable.set(lineNo, set)
+      continue
+    }
+
+    if (pattern.kind === 'disable-next-line') {
+      const target = lineNo + 1 // next line (1-indexed)
+      const set = nextLine.get(target) || new Set<string>()
+      for (const item of list) set.add(item)
+      nextLine.set(target, set)
+    }
+    else {
+      const set = rangeDisable.get(lineNo) || new Set<string>()
+      for (const item of list) set.add(item)
+      rangeDisable.set(lineNo, set)
+      // A block directive on line 1 covers the whole file
+      if (pattern.fileLevel && i === 0) {
+        for (const item of list) fileLevel.add(item)
+      }
+    }
+    comments.set(lineNo, disableComment(lines[i], lineNo, match[0].length, ruleText))
+  }
+
+  // OPTIMIZATION: Pre-sort directive line numbers for binary search
+  const sortedDisableLines = Array.from(rangeDisable.keys()).sort((a, b) => a - b)
+  const sortedEnableLines = Array.from(rangeEnable.keys()).sort((a, b) => a - b)
+
+  return { nextLine, fileLevel, rangeDisable, rangeEnable, sortedDisableLines, sortedEnableLines, comments }
+}
+
+// Legacy function for backwards compatibility - now calls parseDisableDirectives
+function _parseDisableNextLine(content: string): SuppressMap {
+  return parseDisableDirectives(content).nextLine
+}
+
+export function isSuppressed(ruleId: string, line: number, directives: SuppressMap | DisableDirectives): boolean {
+  // Handle legacy SuppressMap format
+  if (directives instanceof Map) {
+    const set = directives.get(line)
+    if (!set || set.size === 0)
+      return false
+    return matchesRule(ruleId, set)
+  }
+
+  // Each check records which directive entry matched, so unused ones can be reported
+
+  // Check file-level disables first (they come from a directive on line 1)
+  if (directives.fileLevel.size > 0) {
+    const entry = matchingRuleEntry(ruleId, directives.fileLevel)
+    if (entry) {
+      directives.comments.get(1)?.used.add(entry)
+      return true
+    }
+  }
+
+  // Check disable-next-line
+  const nextLineSet = directives.nextLine.get(line)
+  const nextLineEntry = nextLineSet && matchingRuleEntry(ruleId, nextLineSet)
+  if (nextLineEntry) {
+    directives.comments.get(line - 1)?.used.add(nextLineEntry)
+    return true
+  }
+
+  // Range directives must be evaluated per rule. A global "last enable" line is
+  // incorrect because enabling no-console should not re-enable prefer-const.
+  let disabled = false
+  let disabledAt = 0
+  let disabledBy = ''
+  let disableIndex = 0
+  let enableIndex = 0
+  while (true) {
+    const nextDisable = disableIndex < directives.sortedDisableLines.length
+      ? directives.sortedDisableLines[disableIndex]
+      : Number.POSITIVE_INFINITY
+    const nextEnable = enableIndex < directives.sortedEnableLines.length
+      ? directives.sortedEnableLines[enableIndex]
+      : Number.POSITIVE_INFINITY
+    const nextDirectiveLine = Math.min(nextDisable, nextEnable)
+    if (nextDirectiveLine >= line)
+      break
+
+    if (nextDisable === nextDirectiveLine) {
+      const entry = matchingRuleEntry(ruleId, directives.rangeDisable.get(nextDisable)!)
+      if (entry) {
+        disabled = true
+        disabledAt = nextDisable
+        disabledBy = entry
+      }
+      disableIndex++
+      continue
+    }
+
+    const enabledRules = directives.rangeEnable.get(nextEnable)!
+    if (enabledRules.has('*') || matchesRule(ruleId, enabledRules))
+      disabled = false
+    enableIndex++
+  }
+
+  if (disabled)
+    directives.comments.get(disabledAt)?.used.add(disabledBy)
+  return disabled
+}
+
+function matchesRule(ruleId: string, ruleSet: Set<string>): boolean {
+  return matchingRuleEntry(ruleId, ruleSet) !== undefined
+}
+
+// The entry of `ruleSet` that covers `ruleId`, if any
+function matchingRuleEntry(ruleId: string, ruleSet: Set<string>): string | undefined {
+  if (ruleSet.size === 0)
+    return undefined
+  if (ruleSet.has('*'))
+    return '*'
+  // exact match
+  if (ruleSet.has(ruleId))
+    return ruleId
+  // core kebab/camel equivalence
+  const keb = camelToKebab(ruleId)
+  if (ruleSet.has(keb))
+    return keb
+  const camel = kebabToCamel(ruleId)
+  if (ruleSet.has(camel))
+    return camel
+  // bare plugin id: allow matching suffix after '/'
+  for (const pat of ruleSet) {
+    if (!pat.includes('/')) {
+      if (ruleId.endsWith(`/${pat}`))
+        return pat
+    }
+  }
+  return undefined
+}
+
+// Build a set of line numbers that are entirely inside comments
+// Uses a proper state machine to handle strings, block comments, and line comments correctly
+export function getCommentLines(content: string): Set<number> {
+  const commentLines = new Set<number>()
+
+  // Track state while parsing
+  type State = 'code' | 'string-single' | 'string-double' | 'string-template' | 'line-comment' | 'block-comment'
+  let state: State = 'code'
+  let lineNo = 1
+  let lineHasCode = false // Track if current line has any non-comment code
+  let lineSawComment = false // Track if current line contains only comment text
+  let lineStartedInBlockComment = false // Track if line started inside a block comment
+  // Brace-depth stack for `${ … }` template-literal interpolations. Each entry
+  // tracks the `{`/`}` nesting inside one interpolation so the closing `}` is
+  // matched correctly (and nested templates/regex/strings don't desync the
+  // scanner, which previously made block comments below a template literal with
+  // an interpolation get misread as code).
+  const interpStack: number[] = []
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i]
+    const next = content[i + 1]
+
+    // Handle newlines - finalize line state
+    if (ch === '\n') {
+      // A line is a "comment line" if:
+      // 1. It started in a block comment and stayed there, OR
+      // 2. It has no code (only whitespace/comments)
+      if (lineStartedInBlockComment && state === 'block-comment') {
+        commentLines.add(lineNo)
+      }
+      else if (!lineHasCode && lineSawComment && state !== 'block-comment') {
+        // Line had no code and contains a complete line/block comment.
+        commentLines.add(lineNo)
+      }
+      else if (!lineHasCode && state === 'block-comment') {
+        commentLines.add(lineNo)
+      }
+
+      // Reset for next line
+      lineNo++
+      lineHasCode = false
+      lineSawComment = false
+      lineStartedInBlockComment = (state === 'block-comment')
+
+      // Line comments end at newline
+      if (state === 'line-comment') {
+        state = 'code'
+      }
+      continue
+    }
+
+    // State transitions
+    switch (state) {
+      case 'code':
+        if (ch === '/' && next === '/') {
+          state = 'line-comment'
+          lineSawComment = true
+          i++ // skip next char
+        }
+        else if (ch === '/' && next === '*') {
+          // Check if this `/*` starts a regex literal rather than a block comment
+          // Only treat as regex if preceded by an operator — NOT after newline (which is a comment)
+          let isRegex = false
+          if (i > 0) {
+            let k = i - 1
+            while (k > 0 && (content[k] === ' ' || content[k] === '\t')) k--
+            const bc = content[k]
+            // If preceded by an operator/delimiter (but NOT newline), it's likely a regex like /*/
+            if ('=([{,;!&|?:~^%+-'.includes(bc) && bc !== '\n') {
+              isRegex = true
+            }
+            // 'return', 'case', etc.
+            else if (/[a-z]/.test(bc)) {
+              const slice = content.slice(Math.max(0, k - 6), k + 1)
+              if (/\b(?:return|case|typeof|void|in|of|new|throw|delete)$/.test(slice)) {
+                isRegex = true
+              }
+            }
+          }
+          if (isRegex) {
+            // Skip the regex literal
+            lineHasCode = true
+            i++ // skip past the `*`
+            while (i < content.length) {
+              if (content[i] === '\\') {
+                i += 2
+                continue
+              }
+              if (content[i] === '/') {
+                i++
+                break
+              }
+              if (content[i] === '\n') {
+                break // unterminated regex, stop
+              }
+              i++
+            }
+            // Skip flags
+            while (i < content.length && /[gimsuy]/.test(content[i])) {
+              i++
+            }
+            i-- // will be incremented by for loop
+          }
+          else {
+            lineSawComment = true
+            state = 'block-comment'
+            i++ // skip next char
+          }
+        }
+        else if (ch === '/' && next !== undefined) {
+          // Check if this `/` starts a regex literal (not followed by `*` or `/`)
+          let isRegex = false
+          if (i > 0) {
+            let k = i - 1
+            while (k > 0 && (content[k] === ' ' || content[k] === '\t')) k--
+            const bc = content[k]
+            if ('=([{,;!&|?:~^%+-'.includes(bc) || bc === '\n') {
+              isRegex = true
+            }
+else if (/[a-z]/.test(bc)) {
+              const slice = content.slice(Math.max(0, k - 6), k + 1)
+              if (/\b(?:return|case|typeof|void|in|of|new|throw|delete)$/.test(slice)) {
+                isRegex = true
+              }
+            }
+          }
+          if (isRegex) {
+            lineHasCode = true
+            i++ // skip past the first char after `/`
+            while (i < content.length) {
+              if (content[i] === '\\') {
+                i += 2
+                continue
+              }
+              if (content[i] === '/') {
+                i++
+                break
+              }
+              if (content[i] === '\n') {
+                break
+              }
+              i++
+            }
+            while (i < content.length && /[gimsuy]/.test(content[i])) {
+              i++
+            }
+            i--
+          }
+else {
+            lineHasCode = true
+          }
+        }
+        else if (ch === '\'') {
+          state = 'string-single'
+          lineHasCode = true
+        }
+        else if (ch === '"') {
+          state = 'string-double'
+          lineHasCode = true
+        }
+        else if (ch === '`') {
+          state = 'string-template'
+          lineHasCode = true
+        }
+        else if (ch === '{') {
+          // Track nesting inside an active `${ … }` interpolation.
+          if (interpStack.length)
+            interpStack[interpStack.length - 1]++
+          lineHasCode = true
+        }
+        else if (ch === '}') {
+          // A `}` at interpolation depth 0 closes the interpolation and returns
+          // to the enclosing template literal; otherwise it's a normal block.
+          if (interpStack.length) {
+            if (interpStack[interpStack.length - 1] === 0) {
+              interpStack.pop()
+              state = 'string-template'
+            }
+            else {
+              interpStack[interpStack.length - 1]--
+            }
+          }
+          lineHasCode = true
+        }
+        else if (!/\s/.test(ch)) {
+          lineHasCode = true
+        }
+        break
+
+      case 'string-single':
+        if (ch === '\\') {
+          i++
+          break
+        }
+        if (ch === '\'') state = 'code'
+        break
+
+      case 'string-double':
+        if (ch === '\\') {
+          i++
+          break
+        }
+        if (ch === '"') state = 'code'
+        break
+
+      case 'string-template':
+        if (ch === '\\') {
+          i++
+          break
+        }
+        if (ch === '$' && next === '{') {
+          // Enter a `${ … }` interpolation: its contents are code.
+          interpStack.push(0)
+          state = 'code'
+          i++ // skip '{'
+          break
+        }
+        if (ch === '`') state = 'code'
+        break
+
+      case 'line-comment':
+        // Stay in line comment until newline (handled above)
+        break
+
+      case 'block-comment':
+        if (ch === '*' && next === '/') {
+          state = 'code'
+          i++ // skip next char
+        }
+        break
+    }
+  }
+
+  // Handle last line (no trailing newline)
+  if (lineStartedInBlockComment && state === 'block-comment') {
+    commentLines.add(lineNo)
+  }
+  else if (!lineHasCode && lineSawComment && state !== 'block-comment') {
+    commentLines.add(lineNo)
+  }
+  else if (!lineHasCode && state === 'block-comment') {
+    commentLines.add(lineNo)
+  }
+
+  return commentLines
+}
@@ -0,0 +1,190 @@
+import type { SourceCode } from './ast'
+import type { DisableDirectives } from './directives'
+import type { LintFix, LintIssue, PickierConfig, PickierPlugin, RulesConfigMap } from './types'
+import { createRuleContext } from './ast'
+import { getCommentLines, isSuppressed, parseDisableDirectives } from './directives'
+import { computeLineStartsInTemplate } from './rules/general/_template-tracking'
+import { timeRule } from './timing'
+
+export interface MergedFixes {
+  output: string
+  applied: LintFix[]
+  /** Edits that overlapped an applied one; they are re-derived on the next pass */
+  skipped: LintFix[]
+}
+
+/**
+ * Apply range edits to `text` in one go, ESLint-style: edits are taken in
+ * source order, and one that overlaps or touches an edit already taken is
+ * skipped. Ranges that fall outside the text or run backwards are dropped
+ * as well. Rules computed every edit against the same text, so combining two
+ * edits of the same stretch could produce something neither rule intended.
+ */
+export function mergeFixes(text: string, fixes: readonly LintFix[]): MergedFixes {
+  const sorted = fixes
+    .filter(fix => Number.isInteger(fix.range[0]) && Number.isInteger(fix.range[1]) && fix.range[0] >= 0 && fix.range[0] <= fix.range[1] && fix.range[1] <= text.length)
+    .sort((a, b) => a.range[0] - b.range[0] || a.range[1] - b.range[1])
+
+  const applied: LintFix[] = []
+  const skipped: LintFix[] = []
+  let output = ''
+  let lastEnd = -1
+  for (const fix of sorted) {
+    const [start, end] = fix.range
+    if (start <= lastEnd) {
+      skipped.push(fix)
+      continue
+    }
+    output += text.slice(Math.max(0, lastEnd), start) + fix.text
+    lastEnd = end
+    applied.push(fix)
+  }
+  output += text.slice(Math.max(0, lastEnd))
+  return { output, applied, skipped }
+}
+
+export interface PlannedRule {
+  pluginName: string
+  ruleName: string
+  fullRuleId: string
+  // the ids of the same rule under the plugins it also runs for
+  aliasIds: string[]
+  rule: any
+  severity?: 'error' | 'warning'
+  options?: unknown
+}
+
+/** Rule ids of other tools that configure a pickier rule: the alias's setting is copied to the target */
+export const RULE_ALIASES: Readonly<Record<string, string>> = {
+  'antfu/curly': 'style/curly',
+  'antfu/if-newline': 'style/if-newline',
+  'antfu/no-top-level-await': 'ts/no-top-level-await',
+}
+
+// The rule settings of `cfg`: `pluginRules` and `rules` merged, aliases and bare names spelt out as full ids
+export function getRulesConfig(cfg: PickierConfig, pluginDefs: PickierPlugin[]): RulesConfigMap {
+  // `rules` and `pluginRules` are both user-facing severity maps, and people
+  // reach for whichever they saw first. Only `pluginRules` ships defaults, so
+  // any plugin rule id appearing in `rules` was written by the user on
+  // purpose and outranks the default it is overriding (#1409).
+  const rulesConfig: RulesConfigMap = {
+    ...(cfg.pluginRules || {}) as RulesConfigMap,
+    ...(cfg.rules || {}) as unknown as RulesConfigMap,
+  }
+  if (cfg.rules?.noUnusedCapturingGroup)
+    rulesConfig['regexp/no-unused-capturing-group'] = cfg.rules.noUnusedCapturingGroup
+
+  for (const [alias, target] of Object.entries(RULE_ALIASES)) {
+    if (rulesConfig[alias as keyof RulesConfigMap])
+      rulesConfig[target as keyof RulesConfigMap] = rulesConfig[alias as keyof RulesConfigMap]
+  }
+
+  // Bare rule names (`'prefer-const': 'off'`) apply to every plugin that
+  // owns a rule by that name, from either map.
+  for (const source of [cfg.pluginRules, cfg.rules]) {
+    for (const key of Object.keys(source || {})) {
+      if (key.includes('/'))
+        continue
+      for (const p of pluginDefs) {
+        if (p.rules && Object.prototype.hasOwnProperty.call(p.rules, key))
+          (rulesConfig as any)[`${p.name}/${key}`] = (source as any)[key]
+      }
+    }
+  }
+
+  return rulesConfig
+}
+
+function isShellPath(filePath: string, content: string): boolean {
+  return /\.(?:sh|bash|zsh|ksh|dash)$/.test(filePath)
+    || /^#!\s*(?:\/usr\/bin\/env\s+)?(?:ba|z|k|da)?sh\b/.test(content)
+}
+
+function isLockfilePath(filePath: string): boolean {
+  return /(?:^|[/\\])(?:bun\.lock|bun\.lockb|package-lock\.json|pnpm-lock\.yaml|yarn\.lock|npm-shrinkwrap\.json)$/.test(filePath)
+}
+
+export function shouldRunPlannedRule(rule: PlannedRule, filePath: string, content: string): boolean {
+  switch (rule.pluginName) {
+    case 'markdown':
+      return filePath.endsWith('.md')
+    case 'shell':
+      return isShellPath(filePath, content)
+    case 'publint':
+      return /(?:^|[/\\])package\.json$/.test(filePath)
+    case 'lockfile':
+      return isLockfilePath(filePath)
+    case 'node':
+    case 'ts':
+    case 'general':
+    case 'quality':
+    case 'eslint':
+    case 'regexp':
+    case 'unused-imports':
+    case 'perfectionist':
+      return /\.(?:ts|js|tsx|jsx|mts|mjs|cts|cjs)$/.test(filePath)
+    default:
+      return true
+  }
+}
+
+export function shouldSkipCommentOnlyPluginIssue(ruleId: string): boolean {
+  // Most code-oriented plugin rules should ignore comment-only lines to avoid
+  // false positives from examples in comments. Comment rules are the exception:
+  // their whole job is to inspect comment text.
+  return ruleId !== 'spaced-comment' && !ruleId.endsWith('/spaced-comment')
+}
+
+/** Files where a backtick means a template literal rather than a code fence. */
+export const CODE_FILE_RE: RegExp = /\.(?:[cm]?[jt]sx?|vue|svelte|stx)$/i
+
+/**
+ * Range fixes attached to the issues of every fixable rule, minus those the
+ * user would not see: issues under a disable directive, on comment-only
+ * lines, and (unless the rule edits string content) edits reaching into a
+ * template-literal body, for the reason `preserveTemplateBodies` gives.
+ */
+export function collectIssueFixes(filePath: string, content: string, source: SourceCode, cfg: PickierConfig, rules: PlannedRule[]): LintFix[] {
+  const fixes: LintFix[] = []
+  let suppress: DisableDirectives | undefined
+  let commentLines: Set<number> | undefined
+  let inTemplate: boolean[] | undefined
+  const templateAware = CODE_FILE_RE.test(filePath) && content.includes('`')
+
+  for (const planned of rules) {
+    if (!shouldRunPlannedRule(planned, filePath, content))
+      continue
+    let out: LintIssue[]
+    try {
+      out = timeRule(planned.fullRuleId, 'fix', filePath, () => planned.rule.check(content, createRuleContext(source, cfg, planned.options)))
+    }
+    catch {
+      // the check pass reports the failure; there is nothing to fix here
+      continue
+    }
+    if (!Array.isArray(out))
+      continue
+    for (const issue of out) {
+      if (!issue.fix)
+        continue
+      suppress ??= parseDisableDirectives(content, filePath)
+      commentLines ??= getCommentLines(content)
+      if (isSuppressed(issue.ruleId, issue.line, suppress))
+        continue
+      if (commentLines.has(issue.line) && shouldSkipCommentOnlyPluginIssue(issue.ruleId))
+        continue
+      if (templateAware && !planned.rule.meta?.editsStringContent) {
+        inTemplate ??= computeLineStartsInTemplate(content)
+        const first = source.sourceMap.indexToLoc(issue.fix.range[0]).line
+        const last = source.sourceMap.indexToLoc(issue.fix.range[1]).line
+        let touches = false
+        for (let line = first; line <= last && !touches; line++)
+          touches = !!inTemplate[line - 1]
+        if (touches)
+          continue
+      }
+      fixes.push(issue.fix)
+    }
+  }
+  return fixes
+}
@@ -1,4 +1,5 @@
 import type { PickierConfig } from './types'
+import { configForFile } from './overrides'
 import { heredocDelimiter } from './rules/shell/_shared'
 
 const CODE_EXTS = new Set(['.ts', '.js'])
@@ -806,10 +807,12 @@ function collapseBlankLines(lines: string[], maxConsecutive: number): string[] {
   return out
 }
 
-export function formatCode(src: string, cfg: PickierConfig, filePath: string): string {
+export function formatCode(src: string, baseCfg: PickierConfig, filePath: string): string {
   if (src.length === 0)
     return ''
 
+  const cfg = configForFile(baseCfg, filePath)
+
   // OPTIMIZATION: Only replace \r\n when the file actually contains \r
   const normalized = src.includes('\r') ? src.replace(/\r\n/g, '\n') : src
   const rawLines = normalized.split('\n')
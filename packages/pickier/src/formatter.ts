@@ -1,10 +1,15 @@
+import type { PlannedRule } from './fixes'
 import type { FormatOptions, LintIssue, PickierConfig, PickierPlugin } from './types'
 import { readFileSync, writeFileSync } from 'node:fs'
 import { isAbsolute, relative, resolve } from 'node:path'
 import { Logger } from '@stacksjs/clarity'
+import { createRuleContext, createSourceCode } from './ast'
+import { collectIssueFixes, getRulesConfig, mergeFixes } from './fixes'
 import { formatCode } from './format'
+import { createIgnoreFiles } from './ignore-files'
+import { configForFile } from './overrides'
 import { getAllPlugins } from './plugins'
-import { colors, createIgnoreMatcher, ENV, expandPatterns, glob, isRuleOff, loadConfigFromPath, MAX_FIXER_PASSES, UNIVERSAL_IGNORES, withAlwaysIgnores } from './utils'
+import { colors, createIgnoreMatcher, ENV, expandPatterns, getRuleSetting, glob, isRuleOff, loadConfigFromPath, MAX_FIXER_PASSES, UNIVERSAL_IGNORES, withAlwaysIgnores } from './utils'
 
 let _logger: Logger | null = null
 function getLogger(): Logger {
@@ -35,14 +40,27 @@ async function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise
   }
 }
 
-export function applyPluginFixes(filePath: string, content: string, cfg: PickierConfig): string {
+export function applyPluginFixes(filePath: string, content: string, baseCfg: PickierConfig): string {
+  const cfg = configForFile(baseCfg, filePath)
   const pluginDefs: Array<PickierPlugin> = getAllPlugins()
+  const rulesConfig = getRulesConfig(cfg, pluginDefs)
 
   // Fixers here run unless explicitly switched off, but the opt-out itself has
   // to be found wherever the user wrote it — `rules` or `pluginRules`, under
   // the qualified id or the bare rule name.
   const isRuleEnabled = (pluginName: string, ruleName: string) =>
     !isRuleOff(cfg, `${pluginName}/${ruleName}`) && !isRuleOff(cfg, ruleName)
+  const planned: PlannedRule[] = []
+  for (const plugin of pluginDefs) {
+    for (const ruleName in plugin.rules) {
+      if (!isRuleEnabled(plugin.name, ruleName))
+        continue
+      const fullRuleId = `${plugin.name}/${ruleName}`
+      planned.push({ pluginName: plugin.name, ruleName, fullRuleId, aliasIds: [], rule: plugin.rules[ruleName], options: getRuleSetting(rulesConfig, fullRuleId).options })
+    }
+  }
+  const rangeFixRules = planned.filter(p => !p.rule.fix && p.rule.meta?.fixable)
+  const fixRules = planned.filter(p => p.rule.fix)
 
   let current = content
   let changed = true
@@ -51,18 +69,27 @@ export function applyPluginFixes(filePath: string, content: string, cfg: Pickier
   while (changed && passes < MAX_FIXER_PASSES) {
     changed = false
     passes++
-    for (const plugin of pluginDefs) {
-      for (const ruleName in plugin.rules) {
-        if (!isRuleEnabled(plugin.name, ruleName))
-          continue
-        const rule = plugin.rules[ruleName]!
-        if (!rule.fix)
-          continue
-        const fixed = rule.fix(current, { filePath, config: cfg })
-        if (fixed !== current) {
-          current = fixed
-          changed = true
-        }
+    // Rules that attach range fixes to their issues are merged in one go,
+    // with the options, disable directives and error handling of `--fix`
+    const edits = collectIssueFixes(filePath, current, createSourceCode(filePath, current), cfg, rangeFixRules)
+    const merged = mergeFixes(current, edits).output
+    if (merged !== current) {
+      current = merged
+      changed = true
+    }
+
+    for (const { fullRuleId, rule, options } of fixRules) {
+      let fixed: string
+      try {
+        fixed = rule.fix(current, createRuleContext(createSourceCode(filePath, current), cfg, options))
+      }
+      catch (e) {
+        trace('fixer failed', fullRuleId, e)
+        continue
+      }
+      if (fixed !== current) {
+        current = fixed
+        changed = true
       }
     }
     trace('format pass', relative(process.cwd(), filePath), changed ? 'changed' : 'unchanged')
@@ -71,7 +98,8 @@ export function applyPluginFixes(filePath: string, content: string, cfg: Pickier
   return current
 }
 
-export function applyFixes(filePath: string, content: string, cfg: PickierConfig): string {
+export function applyFixes(filePath: string, content: string, baseCfg: PickierConfig): string {
+  const cfg = configForFile(baseCfg, filePath)
   let current = content
   // 1) quick built-in fix: strip debugger statements if rule enabled
   const lines = current.split(/\r?\n/)
@@ -242,6 +270,7 @@ export async function runFormat(globs: string[], options: FormatOptions): Promis
     ? withAlwaysIgnores(UNIVERSAL_IGNORES)
     : withAlwaysIgnores(cfg.ignores)
   const ignoreMatcher = createIgnoreMatcher(globIgnores)
+  const ignoreFiles = createIgnoreFiles({ ignorePath: options.ignorePath })
 
   let entries: string[] = []
   const simpleDirPattern = patterns.length === 1 && /\*\*\/\*$/.test(patterns[0])
@@ -257,7 +286,7 @@ export async function runFormat(globs: string[], options: FormatOptions): Promis
         for (const it of items) {
           const full = join(dir, it)
           const st = statSync(full)
-          if (ignoreMatcher(full))
+          if (ignoreMatcher(full) || ignoreFiles.ignores(full, st.isDirectory()))
             continue
           if (st.isDirectory())
             stack.push(full)
@@ -270,6 +299,7 @@ export async function runFormat(globs: string[], options: FormatOptions): Promis
       entries = await withTimeout(glob(patterns, {
         dot: false,
         ignore: globIgnores,
+        ignoreFiles,
         onlyFiles: true,
         absolute: true,
       }), timeoutMs, 'glob')
@@ -279,6 +309,7 @@ export async function runFormat(globs: string[], options: FormatOptions): Promis
     entries = await withTimeout(glob(patterns, {
       dot: false,
       ignore: globIgnores,
+      ignoreFiles,
       onlyFiles: true,
       absolute: true,
     }), timeoutMs, 'glob')
@@ -287,7 +318,7 @@ export async function runFormat(globs: string[], options: FormatOptions): Promis
   trace('globbed entries', entries.length)
 
   const files = entries.filter((f) => {
-    if (ignoreMatcher(f))
+    if (ignoreMatcher(f) || ignoreFiles.ignores(f))
       return false
     const idx = f.lastIndexOf('.')
     if (idx < 0)
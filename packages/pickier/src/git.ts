@@ -0,0 +1,132 @@
+import { execFileSync } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+// What `git diff` compares against in a repository without commits yet
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+export interface GitSelection {
+  /** Files staged for the next commit */
+  staged?: boolean
+  /** Files that differ from HEAD in the working tree, staged or not, and untracked files */
+  changed?: boolean
+  /** Files changed since the current branch forked from this ref, committed or not */
+  since?: string
+}
+
+export function hasGitSelection(selection: GitSelection): boolean {
+  return !!selection.staged || !!selection.changed || !!selection.since
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 64 * 1024 * 1024 })
+  }
+  catch (e: any) {
+    const stderr = String(e?.stderr || e?.message || '').trim()
+    throw new Error(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`)
+  }
+}
+
+function hasCommits(cwd: string): boolean {
+  try {
+    git(['rev-parse', '--verify', '--quiet', 'HEAD'], cwd)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * The files a git selection names, as absolute paths. Deleted files are left
+ * out and renamed ones appear under their new name; `changed` and `since`
+ * include untracked files that aren't gitignored. Throws outside a git
+ * repository, or for a ref git doesn't know.
+ */
+export function gitChangedFiles(selection: GitSelection, cwd: string = process.cwd()): string[] {
+  const root = git(['rev-parse', '--show-toplevel'], cwd).trim()
+  const names = new Set<string>()
+  const collect = (args: string[]): void => {
+    for (const name of git(args, root).split('\0')) {
+      if (name)
+        names.add(name)
+    }
+  }
+  // `d` drops deletions; renames and copies are listed under the new path
+  const diff = ['diff', '--name-only', '-z', '--diff-filter=d']
+  const untracked = ['ls-files', '--others', '--exclude-standard', '--full-name', '-z']
+
+  if (selection.staged)
+    collect([...diff, '--cached'])
+  if (selection.changed) {
+    collect([...diff, hasCommits(root) ? 'HEAD' : EMPTY_TREE])
+    collect(untracked)
+  }
+  if (selection.since) {
+    const base = git(['merge-base', selection.since, 'HEAD'], root).trim()
+    collect([...diff, base])
+    collect(untracked)
+  }
+
+  // a staged file can be gone from the working tree since
+  return [...names].map(name => resolve(root, name)).filter(file => existsSync(file)).sort()
+}
+
+/** 1-based, inclusive line ranges per absolute file path */
+export type ChangedLines = Map<string, Array<[number, number]>>
+
+// `+++ b/path`, quoted by git when the path has special characters
+function diffPath(header: string): string | undefined {
+  const raw = header.slice(4).trim()
+  if (raw === '/dev/null')
+    return undefined
+  const path = raw.startsWith('"') ? JSON.parse(raw) as string : raw
+  return path.replace(/^b\//, '')
+}
+
+/**
+ * The lines of each file that differ from `ref` in the working tree, read
+ * from a zero-context unified diff: added and modified lines, and every line
+ * of an untracked file. Lines that were only deleted leave nothing behind to
+ * report on, and files that don't differ aren't in the map at all.
+ */
+export function gitChangedLines(ref: string, cwd: string = process.cwd()): ChangedLines {
+  const root = git(['rev-parse', '--show-toplevel'], cwd).trim()
+  const changed: ChangedLines = new Map()
+  const output = git(['-c', 'core.quotePath=false', 'diff', '--no-color', '--no-ext-diff', '-U0', '--src-prefix=a/', '--dst-prefix=b/', '--diff-filter=d', ref], root)
+  let ranges: Array<[number, number]> | undefined
+  // `+++ ` names the file only in the header: inside a hunk it is an added line starting with `++ `
+  let inHeader = false
+  for (const line of output.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      inHeader = true
+    }
+    else if (inHeader && line.startsWith('+++ ')) {
+      const path = diffPath(line)
+      ranges = path === undefined ? undefined : []
+      if (path !== undefined && ranges)
+        changed.set(resolve(root, path), ranges)
+    }
+    else if (line.startsWith('@@ ')) {
+      inHeader = false
+      // `@@ -old[,count] +new[,count] @@`; a count of 0 is a pure deletion
+      const m = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/)
+      const count = m ? (m[2] === undefined ? 1 : Number(m[2])) : 0
+      if (ranges && m && count > 0)
+        ranges.push([Number(m[1]), Number(m[1]) + count - 1])
+    }
+  }
+  for (const name of git(['ls-files', '--others', '--exclude-standard', '--full-name', '-z'], root).split('\0')) {
+    if (name)
+      changed.set(resolve(root, name), [[1, Infinity]])
+  }
+  return changed
+}
+
+/** Whether any line from `from` to `to` of `file` is among the changed lines */
+export function linesChanged(changed: ChangedLines, file: string, from: number, to: number = from): boolean {
+  const lo = Math.min(from, to)
+  const hi = Math.max(from, to)
+  return changed.get(file)?.some(([start, end]) => start <= hi && end >= lo) ?? false
+}
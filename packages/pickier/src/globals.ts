@@ -0,0 +1,90 @@
+import type { PickierConfig, PickierEnv } from './types'
+
+// ECMAScript built-ins, available in every environment
+const BUILTINS: string[] = [
+  'AggregateError', 'Array', 'ArrayBuffer', 'AsyncDisposableStack', 'Atomics', 'BigInt', 'BigInt64Array', 'BigUint64Array',
+  'Boolean', 'DataView', 'Date', 'decodeURI', 'decodeURIComponent', 'DisposableStack', 'encodeURI', 'encodeURIComponent',
+  'Error', 'escape', 'eval', 'EvalError', 'FinalizationRegistry', 'Float16Array', 'Float32Array', 'Float64Array', 'Function',
+  'globalThis', 'Infinity', 'Int16Array', 'Int32Array', 'Int8Array', 'Intl', 'isFinite', 'isNaN', 'Iterator', 'JSON', 'Map',
+  'Math', 'NaN', 'Number', 'Object', 'parseFloat', 'parseInt', 'Promise', 'Proxy', 'RangeError', 'ReferenceError', 'Reflect',
+  'RegExp', 'Set', 'SharedArrayBuffer', 'String', 'SuppressedError', 'Symbol', 'SyntaxError', 'TypeError', 'Uint16Array',
+  'Uint32Array', 'Uint8Array', 'Uint8ClampedArray', 'undefined', 'unescape', 'URIError', 'WeakMap', 'WeakRef', 'WeakSet',
+]
+
+// Web platform APIs shared by browsers, workers, Node and Bun
+const WEB_COMMON: string[] = [
+  'AbortController', 'AbortSignal', 'atob', 'Blob', 'BroadcastChannel', 'btoa', 'ByteLengthQueuingStrategy', 'clearInterval',
+  'clearTimeout', 'CompressionStream', 'console', 'CountQueuingStrategy', 'crypto', 'Crypto', 'CryptoKey', 'CustomEvent',
+  'DecompressionStream', 'DOMException', 'Event', 'EventTarget', 'fetch', 'File', 'FormData', 'Headers', 'MessageChannel',
+  'MessageEvent', 'MessagePort', 'navigator', 'performance', 'queueMicrotask', 'ReadableStream', 'ReadableStreamDefaultReader',
+  'reportError', 'Request', 'Response', 'setInterval', 'setTimeout', 'structuredClone', 'SubtleCrypto', 'TextDecoder',
+  'TextDecoderStream', 'TextEncoder', 'TextEncoderStream', 'TransformStream', 'URL', 'URLSearchParams', 'WebAssembly',
+  'WebSocket', 'WritableStream',
+]
+
+// CommonJS and Node runtime globals, also provided by Bun
+const NODE_COMMON: string[] = [
+  '__dirname', '__filename', 'Buffer', 'clearImmediate', 'exports', 'global', 'module', 'process', 'require', 'setImmediate',
+]
+
+const BROWSER: string[] = [
+  'alert', 'Attr', 'Audio', 'AudioContext', 'caches', 'cancelAnimationFrame', 'cancelIdleCallback', 'CanvasRenderingContext2D',
+  'CharacterData', 'ClipboardEvent', 'close', 'Comment', 'confirm', 'createImageBitmap', 'CSS', 'CSSStyleSheet',
+  'customElements', 'devicePixelRatio', 'document', 'Document', 'DocumentFragment', 'DOMParser', 'DragEvent', 'Element',
+  'ErrorEvent', 'EventSource', 'FileReader', 'FocusEvent', 'frames', 'getComputedStyle', 'getSelection', 'HashChangeEvent',
+  'history', 'HTMLAnchorElement', 'HTMLButtonElement', 'HTMLCanvasElement', 'HTMLCollection', 'HTMLDivElement', 'HTMLElement',
+  'HTMLFormElement', 'HTMLImageElement', 'HTMLInputElement', 'HTMLSelectElement', 'HTMLTemplateElement',
+  'HTMLTextAreaElement', 'IDBKeyRange', 'Image', 'ImageData', 'indexedDB', 'innerHeight', 'innerWidth', 'InputEvent',
+  'IntersectionObserver', 'KeyboardEvent', 'localStorage', 'location', 'matchMedia', 'MediaStream', 'MouseEvent',
+  'MutationObserver', 'Node', 'NodeList', 'Notification', 'OffscreenCanvas', 'open', 'opener', 'Option', 'origin',
+  'outerHeight', 'outerWidth', 'parent', 'Path2D', 'PointerEvent', 'PopStateEvent', 'print', 'ProgressEvent', 'prompt',
+  'Range', 'requestAnimationFrame', 'requestIdleCallback', 'ResizeObserver', 'RTCPeerConnection', 'screen', 'scroll',
+  'scrollBy', 'scrollTo', 'Selection', 'self', 'sessionStorage', 'ServiceWorker', 'ShadowRoot', 'SharedWorker',
+  'StorageEvent', 'SVGElement', 'Text', 'top', 'TouchEvent', 'visualViewport', 'WebGL2RenderingContext',
+  'WebGLRenderingContext', 'WheelEvent', 'window', 'Window', 'Worker', 'XMLHttpRequest', 'XMLSerializer',
+]
+
+const WORKER: string[] = [
+  'caches', 'close', 'DedicatedWorkerGlobalScope', 'FileReader', 'FileReaderSync', 'importScripts', 'indexedDB', 'location',
+  'onerror', 'onmessage', 'postMessage', 'self', 'WorkerGlobalScope',
+]
+
+const BUN_TEST: string[] = [
+  'afterAll', 'afterEach', 'beforeAll', 'beforeEach', 'describe', 'expect', 'it', 'jest', 'mock', 'setDefaultTimeout',
+  'setSystemTime', 'spyOn', 'test',
+]
+
+export const ENV_GLOBALS: Record<PickierEnv, readonly string[]> = {
+  'browser': [...WEB_COMMON, ...BROWSER],
+  'node': [...WEB_COMMON, ...NODE_COMMON],
+  'bun': [...WEB_COMMON, ...NODE_COMMON, 'Bun', 'HTMLRewriter', 'Worker'],
+  'bun:test': BUN_TEST,
+  'worker': [...WEB_COMMON, ...WORKER],
+}
+
+// Environments assumed when a config does not set `env`
+export const DEFAULT_ENV: PickierEnv[] = ['browser', 'node', 'bun']
+
+const resolved = new WeakMap<PickierConfig, Set<string>>()
+
+/**
+ * Names a file may use without declaring them: ECMAScript built-ins, the
+ * globals of every environment in `config.env`, and `config.globals` entries
+ * that are not `'off'`.
+ */
+export function resolveGlobals(config: PickierConfig): Set<string> {
+  const cached = resolved.get(config)
+  if (cached)
+    return cached
+  const names = new Set(BUILTINS)
+  for (const env of config.env || DEFAULT_ENV) {
+    for (const name of ENV_GLOBALS[env] || []) names.add(name)
+  }
+  for (const [name, setting] of Object.entries(config.globals || {})) {
+    if (setting === 'off')
+      names.delete(name)
+    else names.add(name)
+  }
+  resolved.set(config, names)
+  return names
+}
@@ -0,0 +1,207 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, join, relative, resolve } from 'node:path'
+
+/** Ignore files picked up in every directory a scan touches */
+export const IGNORE_FILE_NAMES: readonly string[] = ['.gitignore', '.pickierignore']
+
+interface IgnoreRule {
+  /** The pattern as written in the file */
+  pattern: string
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+interface IgnoreFile {
+  /** Directory the patterns are relative to */
+  base: string
+  /** The file the patterns were read from */
+  path?: string
+  rules: IgnoreRule[]
+}
+
+interface DirectoryInfo {
+  /** Ignore files that apply to the entries of this directory, outermost first */
+  files: IgnoreFile[]
+  /** Repository root (or filesystem root): ignore files above it don't apply */
+  root: boolean
+}
+
+export interface IgnoreFiles {
+  /**
+   * Whether an ignore file excludes `absPath`, directly or through one of its
+   * parent directories. Pass `isDirectory` for directories so patterns ending
+   * in `/` can match them.
+   */
+  ignores: (absPath: string, isDirectory?: boolean) => boolean
+  /** The ignore file and pattern that exclude `absPath`, if one does */
+  ignoredBy: (absPath: string, isDirectory?: boolean) => IgnoreFileMatch | undefined
+}
+
+export interface IgnoreFileMatch {
+  /** Path of the ignore file */
+  file: string
+  pattern: string
+}
+
+function escapeRegex(ch: string): string {
+  return /[.+^${}()|[\]\\*?]/.test(ch) ? `\\${ch}` : ch
+}
+
+// One gitignore pattern, trailing slash and `!` already stripped, as a regex over `/`-separated relative paths
+function patternToRegex(pattern: string): RegExp {
+  // a slash anywhere but at the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes('/')
+  if (pattern.startsWith('/'))
+    pattern = pattern.slice(1)
+
+  let src = ''
+  let i = 0
+  while (i < pattern.length) {
+    const ch = pattern[i]
+    const wholeSegment = (i === 0 || pattern[i - 1] === '/') && (i + 2 === pattern.length || pattern[i + 2] === '/')
+    if (ch === '*' && pattern[i + 1] === '*' && wholeSegment) {
+      // `**/` matches zero or more directories, a trailing `/**` everything inside
+      if (i + 2 === pattern.length) {
+        src += '.*'
+        i += 2
+      }
+      else {
+        src += '(?:.*/)?'
+        i += 3
+      }
+    }
+    else if (ch === '*') {
+      src += '[^/]*'
+      i++
+    }
+    else if (ch === '?') {
+      src += '[^/]'
+      i++
+    }
+    else if (ch === '[' && pattern.indexOf(']', i + 2) > 0) {
+      const end = pattern.indexOf(']', i + 2)
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\')
+      src += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`
+      i = end + 1
+    }
+    else if (ch === '\\' && i + 1 < pattern.length) {
+      src += escapeRegex(pattern[i + 1])
+      i += 2
+    }
+    else {
+      src += escapeRegex(ch)
+      i++
+    }
+  }
+  return new RegExp(anchored ? `^${src}$` : `^(?:.*/)?${src}$`)
+}
+
+/**
+ * Parse an ignore file with `.gitignore` semantics: `#` comments, `!`
+ * re-includes, a trailing `/` for directories only, and a leading or inner
+ * `/` anchoring the pattern to `base`.
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreFile {
+  const rules: IgnoreRule[] = []
+  for (const raw of content.split(/\r?\n/)) {
+    // trailing spaces don't count unless escaped
+    let line = raw.replace(/([^\\ ]) +$/, '$1')
+    if (!line.trim() || line.startsWith('#'))
+      continue
+    const pattern = line
+    let negated = false
+    if (line.startsWith('!')) {
+      negated = true
+      line = line.slice(1)
+    }
+    else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1)
+    }
+    const directoryOnly = line.endsWith('/')
+    if (directoryOnly)
+      line = line.replace(/\/+$/, '')
+    if (line)
+      rules.push({ pattern, regex: patternToRegex(line), negated, directoryOnly })
+  }
+  return { base, rules }
+}
+
+function readIgnoreFile(path: string): IgnoreFile | undefined {
+  let content: string
+  try {
+    content = readFileSync(path, 'utf8')
+  }
+  catch {
+    return undefined
+  }
+  return { ...parseIgnoreFile(content, dirname(path)), path }
+}
+
+/**
+ * Matcher over `--ignore-path` and the `.gitignore` / `.pickierignore` files
+ * of every directory between a path and its repository root, read once per
+ * directory. Later patterns win over earlier ones and deeper files over
+ * shallower ones, so `!` can re-include a file; as with git, nothing inside
+ * an ignored directory can be re-included.
+ */
+export function createIgnoreFiles(options: { ignorePath?: string } = {}): IgnoreFiles {
+  const fixed: IgnoreFile[] = []
+  if (options.ignorePath) {
+    const file = readIgnoreFile(resolve(process.cwd(), options.ignorePath))
+    if (!file)
+      throw new Error(`Cannot read ignore file '${options.ignorePath}'`)
+    fixed.push(file)
+  }
+
+  const directories = new Map<string, DirectoryInfo>()
+  const ignoredDirectories = new Map<string, IgnoreFileMatch | null>()
+
+  function directoryInfo(dir: string): DirectoryInfo {
+    let info = directories.get(dir)
+    if (info)
+      return info
+    const parent = dirname(dir)
+    const root = parent === dir || existsSync(join(dir, '.git'))
+    const own = IGNORE_FILE_NAMES.map(name => readIgnoreFile(join(dir, name))).filter((f): f is IgnoreFile => !!f)
+    const inherited = root ? fixed : directoryInfo(parent).files
+    info = { files: own.length > 0 ? [...inherited, ...own] : inherited, root }
+    directories.set(dir, info)
+    return info
+  }
+
+  // The last pattern matching `absPath` itself, unless it is a `!` re-include
+  function match(absPath: string, isDirectory: boolean): IgnoreFileMatch | undefined {
+    let found: IgnoreFileMatch | undefined
+    for (const file of directoryInfo(dirname(absPath)).files) {
+      const rel = relative(file.base, absPath).replace(/\\/g, '/')
+      if (!rel || rel.startsWith('..'))
+        continue
+      for (const rule of file.rules) {
+        if ((!rule.directoryOnly || isDirectory) && rule.regex.test(rel))
+          found = rule.negated ? undefined : { file: file.path ?? file.base, pattern: rule.pattern }
+      }
+    }
+    return found
+  }
+
+  function directoryMatch(dir: string): IgnoreFileMatch | undefined {
+    let found = ignoredDirectories.get(dir)
+    if (found === undefined) {
+      found = directoryInfo(dir).root ? null : directoryMatch(dirname(dir)) ?? match(dir, true) ?? null
+      ignoredDirectories.set(dir, found)
+    }
+    return found ?? undefined
+  }
+
+  function ignoredBy(absPath: string, isDirectory = false): IgnoreFileMatch | undefined {
+    if (isDirectory)
+      return directoryMatch(absPath)
+    return directoryMatch(dirname(absPath)) ?? match(absPath, false)
+  }
+
+  return {
+    ignores: (absPath, isDirectory) => ignoredBy(absPath, isDirectory) !== undefined,
+    ignoredBy,
+  }
+}
@@ -1,10 +1,40 @@
+export { analyzeScope } from './scope'
+export { applyBaseline, readBaseline } from './baseline'
+export { BUILTIN_REPORTERS, loadReporter } from './reporters'
 export { config, defaultConfig } from './config'
+export { createIgnoreFiles, parseIgnoreFile } from './ignore-files'
+export { createLintWatcher, runWatch } from './watch'
+export { explainRule, findRule, formatRules, listRules, runRules } from './catalog'
+export { formatFileConfig, resolveFileConfig, runPrintConfig } from './print-config'
 export * from './format'
-export { lintText, runLint, runLintProgrammatic } from './linter'
+export { findRepoRoot, issueFingerprints } from './reporters/utils'
+export { fixText, lintText, runLint, runLintProgrammatic } from './linter'
+export { forEachChild, parse, walk } from './parser'
+export { formatCheckstyle } from './reporters/checkstyle'
+export { formatGitlab } from './reporters/gitlab'
+export { formatJunit } from './reporters/junit'
+export { formatSarif } from './reporters/sarif'
+export { formatTiming } from './timing'
+export { gitChangedFiles, gitChangedLines } from './git'
+export { mergeFixes } from './fixes'
 export { runFormat } from './formatter'
 export { runUnified as run } from './run'
+export { validateConfig, validateRuleOptions } from './validation'
 
+export type { BaselineData, BaselineEntry, BaselineResult } from './baseline'
+export type { ListRulesOptions, RuleCatalogEntry, RulesCommandOptions } from './catalog'
+export type { MergedFixes } from './fixes'
+export type { ChangedLines, GitSelection } from './git'
+export type { IgnoreFileMatch, IgnoreFiles } from './ignore-files'
+export type { LintExclusion } from './linter'
+export type { ConfigSetting, FileConfig, PrintConfigOptions } from './print-config'
+export type { Comment, Node, ParseError, ParseOptions, Program, Visitor } from './parser'
+export type { GitLabCodeQualityIssue } from './reporters/gitlab'
 export type { RunOptions } from './run'
+export type { Definition, Reference, Scope, ScopeManager, ScopeType, Variable } from './scope'
+export type { FileTiming, RuleTiming, TimingReport } from './timing'
+export type { ConfigProblem } from './validation'
+export type { LintWatcher, WatchChange, WatchUpdate } from './watch'
 
 export * from './types'
 export * from './utils'
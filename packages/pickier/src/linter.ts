@@ -1,12 +1,30 @@
-import type { LintIssue, LintOptions, PickierConfig, PickierPlugin, RuleContext, RulesConfigMap } from './types'
-import { readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
-import { isAbsolute, join, relative, resolve, sep } from 'node:path'
+import type { LintFix, LintIssue, LintOptions, LintSummary, PickierConfig, PickierPlugin, RuleInfo, RuleMeta } from './types'
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
 import { Logger } from '@stacksjs/clarity'
+import type { BaselineResult } from './baseline'
+import type { DisableDirectives } from './directives'
+import type { PlannedRule } from './fixes'
+import { createRuleContext, createSourceCode } from './ast'
+import { applyBaseline } from './baseline'
+import { createLintCache } from './cache'
+import { getConfigPath } from './config'
+import { applyLineEdits, unifiedDiff } from './diff'
+import { getCommentLines, isSuppressed, parseDisableDirectives } from './directives'
+import { CODE_FILE_RE, collectIssueFixes, getRulesConfig, mergeFixes, shouldRunPlannedRule, shouldSkipCommentOnlyPluginIssue } from './fixes'
 import { detectQuoteIssues, formatCode, hasIndentIssue } from './format'
-import { formatStylish, formatVerbose } from './formatter'
+import type { ChangedLines } from './git'
+import { gitChangedFiles, gitChangedLines, hasGitSelection, linesChanged } from './git'
+import { createIgnoreFiles } from './ignore-files'
+import { configForFile } from './overrides'
 import { getAllPlugins } from './plugins'
+import type { ReporterRun } from './reporters'
+import { createReporterRun } from './reporters'
+import { findRepoRoot, reportPath } from './reporters/utils'
 import { computeLineStartsInTemplate } from './rules/general/_template-tracking'
-import { colors, createIgnoreMatcher, ENV, expandPatterns, glob, getRuleSetting, isCodeFile, loadConfigFromPath, MAX_FIXER_PASSES, resolveRuleSeverity, UNIVERSAL_IGNORES, withAlwaysIgnores } from './utils'
+import { formatTiming, startTiming, stopTiming, timePhase, timeRule } from './timing'
+import { colors, createIgnoreMatcher, createIgnorePatternMatcher, ENV, expandBraces, expandPatterns, glob, getRuleSetting, globToRegex, isCodeFile, isLoadedPlugin, loadConfigFromPath, MAX_FIXER_PASSES, resolveRuleSeverity, UNIVERSAL_IGNORES, withAlwaysIgnores } from './utils'
+import { validateConfig } from './validation'
 
 // Deferred logger — avoids constructor work on startup for format-only path
 let _logger: Logger | null = null
@@ -24,14 +42,16 @@ function trace(...args: any[]) {
 // Programmatic single-text lint with optional cancellation
 export async function lintText(
   text: string,
-  cfg: PickierConfig,
+  baseCfg: PickierConfig,
   filePath = 'untitled',
   signal?: AbortSignal,
 ): Promise<LintIssue[]> {
   if (signal?.aborted)
     throw new Error('AbortError')
 
-  const suppress = parseDisableDirectives(text)
+  const cfg = configForFile(baseCfg, filePath)
+
+  const suppress = parseDisableDirectives(text, filePath)
   const commentLines = getCommentLines(text)
   const issues = scanContentOptimized(filePath, text, cfg, suppress, commentLines)
   if (signal?.aborted)
@@ -53,15 +73,31 @@ export async function lintText(
         message: i.message,
         severity: i.severity,
         ...(i.help && { help: i.help }),
+        ...(i.fix && { fix: i.fix }),
+        ...(i.suggestions && { suggestions: i.suggestions }),
       })
     }
   }
   catch {
     // Ignore plugin errors; scanContent already surfaced baseline issues
   }
+  const unusedSeverity = unusedDirectiveSeverity(cfg)
+  if (unusedSeverity)
+    issues.push(...unusedDirectiveIssues(filePath, text, suppress, unusedSeverity))
   return issues
 }
 
+// Programmatic single-text fix: the content `--fix` would write for a file at `filePath`
+export async function fixText(
+  text: string,
+  baseCfg: PickierConfig,
+  filePath = 'untitled',
+  options: Pick<LintOptions, 'fixRule' | 'fixType' | 'fixUnsafe'> = {},
+): Promise<string> {
+  const cfg = configForFile(baseCfg, filePath)
+  return fixContent(filePath, text, cfg, parseDisableDirectives(text, filePath), getCommentLines(text), createFixFilter(options))
+}
+
 // Programmatic batch lint returning structured result, with optional cancellation
 export async function runLintProgrammatic(
   globs: string[],
@@ -75,11 +111,8 @@ export async function runLintProgrammatic(
 
   const raw = globs.length ? globs : ['.']
   const patterns = expandPatterns(raw)
-  const extCsv = options.ext || cfg.lint.extensions.join(',')
-  const extSet = new Set<string>(extCsv.split(',').map((s: string) => {
-    const t = s.trim()
-    return t.startsWith('.') ? t : `.${t}`
-  }))
+  const extSet = lintExtensions(cfg, options)
+  const fixFilter = createFixFilter(options)
 
   const timeoutMs = ENV.TIMEOUT_MS
 
@@ -95,9 +128,13 @@ export async function runLintProgrammatic(
     ? withAlwaysIgnores(UNIVERSAL_IGNORES) // Use ALL universal ignores when outside project
     : withAlwaysIgnores(cfg.ignores)
   const ignoreMatcher = createIgnoreMatcher(globIgnores)
+  const ignoreFiles = createIgnoreFiles({ ignorePath: options.ignorePath })
 
-  let entries: string[] = []
-  const nonGlobSingle = patterns.length === 1 && !/[*?[\]{}()!]/.test(patterns[0])
+  // --staged / --changed / --since: git names the files, the globs only narrow them down
+  const gitFiles = hasGitSelection(options) ? gitSelectedFiles(patterns, options) : undefined
+  const changedLines = changedLinesIn(patterns.map(patternRoot), options)
+  let entries: string[] = gitFiles ?? []
+  const nonGlobSingle = !gitFiles && patterns.length === 1 && !/[*?[\]{}()!]/.test(patterns[0])
   if (nonGlobSingle) {
     try {
       const st = statSync(patterns[0])
@@ -109,7 +146,7 @@ export async function runLintProgrammatic(
     catch {}
   }
 
-  const simpleDirPattern = patterns.length === 1 && /\*\*\/*\*$/.test(patterns[0])
+  const simpleDirPattern = !gitFiles && patterns.length === 1 && /\*\*\/*\*$/.test(patterns[0])
   if (!entries.length && simpleDirPattern) {
     const base = patterns[0].replace(/\/?\*\*\/*\*\*$/, '')
     const rootBase = isAbsolute(base) ? base : resolve(process.cwd(), base)
@@ -123,7 +160,7 @@ export async function runLintProgrammatic(
         for (const it of items) {
           const full = join(dir, it)
           const st = statSync(full)
-          if (ignoreMatcher(full))
+          if (ignoreMatcher(full) || ignoreFiles.ignores(full, st.isDirectory()))
             continue
           if (st.isDirectory())
             stack.push(full)
@@ -135,15 +172,17 @@ export async function runLintProgrammatic(
       entries = await withTimeout(glob(patterns, {
         dot: false,
         ignore: globIgnores,
+        ignoreFiles,
         onlyFiles: true,
         absolute: true,
       }), timeoutMs, 'glob')
     }
   }
-  else if (!entries.length) {
+  else if (!gitFiles && !entries.length) {
     entries = await withTimeout(glob(patterns, {
       dot: false,
       ignore: globIgnores,
+      ignoreFiles,
       onlyFiles: true,
       absolute: true,
     }), timeoutMs, 'glob')
@@ -165,7 +204,7 @@ export async function runLintProgrammatic(
       cntNodeModules++
       continue
     }
-    if (ignoreMatcher(f)) {
+    if (ignoreMatcher(f) || ignoreFiles.ignores(f)) {
       cntIgnored++
       continue
     }
@@ -186,16 +225,17 @@ export async function runLintProgrammatic(
     if (signal?.aborted)
       throw new Error('AbortError')
     const src = readFileSync(file, 'utf8')
+    const fileCfg = configForFile(cfg, file)
 
     // OPTIMIZATION: Parse directives and comment lines ONCE upfront
-    const suppress = parseDisableDirectives(src)
+    const suppress = parseDisableDirectives(src, file)
     const commentLines = getCommentLines(src)
 
     // Pass pre-computed data to avoid re-parsing
-    let issues = scanContentOptimized(file, src, cfg, suppress, commentLines)
+    let issues = scanContentOptimized(file, src, fileCfg, suppress, commentLines)
 
     try {
-      const pluginIssues = await applyPlugins(file, src, cfg)
+      const pluginIssues = await applyPlugins(file, src, fileCfg)
       for (const i of pluginIssues) {
         if (signal?.aborted)
           throw new Error('AbortError')
@@ -211,6 +251,8 @@ export async function runLintProgrammatic(
           message: i.message,
           severity: i.severity,
           ...(i.help && { help: i.help }),
+          ...(i.fix && { fix: i.fix }),
+          ...(i.suggestions && { suggestions: i.suggestions }),
         })
       }
     }
@@ -226,17 +268,22 @@ export async function runLintProgrammatic(
         return true
       })
     }
+    const unusedSeverity = unusedDirectiveSeverity(fileCfg)
+    if (unusedSeverity)
+      issues.push(...unusedDirectiveIssues(file, src, suppress, unusedSeverity))
 
     if (options.fix) {
       // Built-in fixer: remove debugger statement lines (same gates as the scan)
-      let fixed = removeDebuggerLines(file, src, cfg, suppress, commentLines)
-      fixed = applyPluginFixes(file, fixed, cfg)
+      let fixed = fixFilter('no-debugger') ? removeDebuggerLines(file, src, fileCfg, suppress, commentLines) : src
+      fixed = applyPluginFixes(file, fixed, fileCfg, fixFilter)
+      if (changedLines && options.fixDiffLines && fixed !== src)
+        fixed = applyLineEdits(src, fixed, (from, to) => linesChanged(changedLines, file, from, to))
 
       // If content changed, re-scan the fixed version
       if (fixed !== src) {
-        const newSuppress = parseDisableDirectives(fixed)
+        const newSuppress = parseDisableDirectives(fixed, file)
         const newCommentLines = getCommentLines(fixed)
-        issues = scanContentOptimized(file, fixed, cfg, newSuppress, newCommentLines)
+        issues = timePhase('scan', file, () => scanContentOptimized(file, fixed, fileCfg, newSuppress, newCommentLines))
 
         // Write file only if not dry-run
         if (!options.dryRun) {
@@ -249,248 +296,80 @@ export async function runLintProgrammatic(
   }
 
   const issueArrays = await processWithConcurrency(files, concurrency, processFile)
-  const allIssues = issueArrays.flat()
+  const allIssues = reportedIssues(files, issueArrays.flat(), options, changedLines).issues
 
   const errors = allIssues.filter(i => i.severity === 'error').length
   const warnings = allIssues.filter(i => i.severity === 'warning').length
   return { errors, warnings, issues: allIssues }
 }
 
-// --- disable-next-line directives ---
-function camelToKebab(s: string): string {
-  return s.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()
-}
-function kebabToCamel(s: string): string {
-  return s.replace(/-([a-z])/g, (_, c) => c.toUpperCase())
-}
-type SuppressMap = Map<number, Set<string>>
-interface DisableDirectives {
-  nextLine: SuppressMap // Map of line number -> disabled rules
-  fileLevel: Set<string> // Rules disabled for entire file
-  rangeDisable: Map<number, Set<string>> // Line where rules are disabled
-  rangeEnable: Map<number, Set<string>> // Line where rules are re-enabled
-  // OPTIMIZATION: Pre-sorted arrays for binary search
-  sortedDisableLines: number[]
-  sortedEnableLines: number[]
-}
-
-function parseDisableDirectives(content: string): DisableDirectives {
-  const nextLine: SuppressMap = new Map()
-  const fileLevel = new Set<string>()
-  const rangeDisable = new Map<number, Set<string>>()
-  const rangeEnable = new Map<number, Set<string>>()
-  const lines = content.split(/\r?\n/)
-
-  // Track which rules are currently disabled (for range-based disable/enable)
-  const currentlyDisabled = new Set<string>()
-
-  for (let i = 0; i < lines.length; i++) {
-    const t = lines[i].trim()
-    const lineNo = i + 1
-
-    // Match disable-next-line comments
-    const nextLineMatch = t.match(/^\/\/\s*(?:eslint|pickier)-disable-next-line(?:\s+(\S.*))?$/)
-    if (nextLineMatch) {
-      // Strip trailing -- comments (e.g., "rule-name -- explanation")
-      const ruleText = nextLineMatch[1]?.replace(/\s+--\s.*$/, '')
-      const list = ruleText ? ruleText.split(',').map(s => s.trim()).filter(Boolean) : ['*']
-      if (list.length > 0) {
-        const target = lineNo + 1 // next line (1-indexed)
-        const set = nextLine.get(target) || new Set<string>()
-        for (const item of list) set.add(item)
-        nextLine.set(target, set)
-      }
-      continue
-    }
-
-    // Match block comment disable directives (/* eslint-disable */ or /* pickier-disable */)
-    // eslint-disable-next-line regexp/no-super-linear-backtracking
-    const blockDisableMatch = t.match(/^\/\*\s*(?:eslint|pickier)-disable(?:\s+([^*]+))?\s*\*\//)
-    if (blockDisableMatch) {
-      const ruleList = blockDisableMatch[1]?.trim().replace(/\s+--\s.*$/, '')
-      if (!ruleList || ruleList === '') {
-        // Disable all rules for the entire file from this line onwards
-        rangeDisable.set(lineNo, new Set(['*']))
-        currentlyDisabled.add('*')
-      }
-      else {
-        // Disable specific rules
-        const list = ruleList.split(',').map(s => s.trim()).filter(Boolean)
-        const set = rangeDisable.get(lineNo) || new Set<string>()
-        for (const item of list) {
-          set.add(item)
-          currentlyDisabled.add(item)
-        }
-        rangeDisable.set(lineNo, set)
-      }
-      // If this is on line 1, also treat it as file-level
-      if (i === 0) {
-        if (!ruleList || ruleList === '') {
-          fileLevel.add('*')
-        }
-        else {
-          const list = ruleList.split(',').map(s => s.trim()).filter(Boolean)
-          for (const item of list) fileLevel.add(item)
-        }
-      }
-      continue
-    }
+// Rule id of the issues reported for disable directives that suppress nothing
+const UNUSED_DIRECTIVE_RULE_ID = 'unused-disable-directive'
 
-    // Match block comment enable directives (/* eslint-enable */ or /* pickier-enable */)
-    // eslint-disable-next-line regexp/no-super-linear-backtracking
-    const blockEnableMatch = t.match(/^\/\*\s*(?:eslint|pickier)-enable(?:\s+([^*]+))?\s*\*\//)
-    if (blockEnableMatch) {
-      const ruleList = blockEnableMatch[1]?.trim()
-      if (!ruleList || ruleList === '') {
-        // Re-enable all rules
-        rangeEnable.set(lineNo, new Set(['*']))
-        currentlyDisabled.clear()
-      }
-      else {
-        // Re-enable specific rules
-        const list = ruleList.split(',').map(s => s.trim()).filter(Boolean)
-        const set = rangeEnable.get(lineNo) || new Set<string>()
-        for (const item of list) {
-          set.add(item)
-          currentlyDisabled.delete(item)
-        }
-        rangeEnable.set(lineNo, set)
-      }
-      continue
-    }
+function unusedDirectiveSeverity(cfg: PickierConfig): 'warning' | 'error' | undefined {
+  const setting = cfg.lint.reportUnusedDisableDirectives
+  return setting === 'error' ? 'error' : setting === 'warn' ? 'warning' : undefined
+}
 
-    // Match inline comment disable directives (// eslint-disable or // pickier-disable)
-    const inlineDisableMatch = t.match(/^\/\/\s*(?:eslint|pickier)-disable(?:\s+(\S.*))?$/)
-    if (inlineDisableMatch) {
-      const ruleList = inlineDisableMatch[1]?.trim().replace(/\s+--\s.*$/, '')
-      if (!ruleList || ruleList === '') {
-        rangeDisable.set(lineNo, new Set(['*']))
-        currentlyDisabled.add('*')
-      }
-      else {
-        const list = ruleList.split(',').map(s => s.trim()).filter(Boolean)
-        const set = rangeDisable.get(lineNo) || new Set<string>()
-        for (const item of list) {
-          set.add(item)
-          currentlyDisabled.add(item)
-        }
-        rangeDisable.set(lineNo, set)
-      }
+/**
+ * One issue per disable directive, or rule id inside one, that suppressed
+ * nothing while `content` was linted against `directives`. Each carries the
+ * edit removing it: the whole comment (with its line, when nothing else is on
+ * it), or only the dead ids of a directive that still disables other rules.
+ */
+function unusedDirectiveIssues(filePath: string, content: string, directives: DisableDirectives, severity: 'warning' | 'error'): LintIssue[] {
+  const issues: LintIssue[] = []
+  let lineStarts: number[] | undefined
+  for (const comment of directives.comments.values()) {
+    const dead = comment.rules.length === 0
+      ? (comment.used.size === 0 ? [undefined] : [])
+      : comment.rules.filter(rule => !comment.used.has(rule))
+    if (dead.length === 0)
       continue
-    }
 
-    // Match inline comment enable directives (// eslint-enable or // pickier-enable)
-    const inlineEnableMatch = t.match(/^\/\/\s*(?:eslint|pickier)-enable(?:\s+(\S.*))?$/)
-    if (inlineEnableMatch) {
-      const ruleList = inlineEnableMatch[1]?.trim()
-      if (!ruleList || ruleList === '') {
-        rangeEnable.set(lineNo, new Set(['*']))
-        currentlyDisabled.clear()
-      }
-      else {
-        const list = ruleList.split(',').map(s => s.trim()).filter(Boolean)
-        const set = rangeEnable.get(lineNo) || new Set<string>()
-        for (const item of list) {
-          set.add(item)
-          currentlyDisabled.delete(item)
-        }
-        rangeEnable.set(lineNo, set)
-      }
+    if (!lineStarts) {
+      lineStarts = [0]
+      for (let i = content.indexOf('\n'); i >= 0; i = content.indexOf('\n', i + 1))
+        lineStarts.push(i + 1)
+    }
+    const lineStart = lineStarts[comment.line - 1]
+    const nextLineStart = comment.line < lineStarts.length ? lineStarts[comment.line] : content.length
+    let fix: LintFix
+    if (dead.length < comment.rules.length) {
+      const kept = comment.rules.filter(rule => comment.used.has(rule))
+      fix = { range: [lineStart + comment.listStart, lineStart + comment.listEnd], text: kept.join(', ') }
+    }
+    else if (content.slice(lineStart + comment.end, nextLineStart).trim() === '') {
+      // the comment is all there is on its line: drop the line, and the break before it on the last line
+      const start = nextLineStart === content.length && !content.endsWith('\n') && lineStart > 0
+        ? lineStart - (content[lineStart - 2] === '\r' ? 2 : 1)
+        : lineStart
+      fix = { range: [start, nextLineStart], text: '' }
     }
-  }
-
-  // OPTIMIZATION: Pre-sort directive line numbers for binary search
-  const sortedDisableLines = Array.from(rangeDisable.keys()).sort((a, b) => a - b)
-  const sortedEnableLines = Array.from(rangeEnable.keys()).sort((a, b) => a - b)
-
-  return { nextLine, fileLevel, rangeDisable, rangeEnable, sortedDisableLines, sortedEnableLines }
-}
-
-// Legacy function for backwards compatibility - now calls parseDisableDirectives
-function _parseDisableNextLine(content: string): SuppressMap {
-  return parseDisableDirectives(content).nextLine
-}
-
-function isSuppressed(ruleId: string, line: number, directives: SuppressMap | DisableDirectives): boolean {
-  // Handle legacy SuppressMap format
-  if (directives instanceof Map) {
-    const set = directives.get(line)
-    if (!set || set.size === 0)
-      return false
-    return matchesRule(ruleId, set)
-  }
-
-  // Check file-level disables first
-  if (directives.fileLevel.size > 0) {
-    if (matchesRule(ruleId, directives.fileLevel))
-      return true
-  }
-
-  // Check disable-next-line
-  const nextLineSet = directives.nextLine.get(line)
-  if (nextLineSet && matchesRule(ruleId, nextLineSet))
-    return true
-
-  // Range directives must be evaluated per rule. A global "last enable" line is
-  // incorrect because enabling no-console should not re-enable prefer-const.
-  let disabled = false
-  let disableIndex = 0
-  let enableIndex = 0
-  while (true) {
-    const nextDisable = disableIndex < directives.sortedDisableLines.length
-      ? directives.sortedDisableLines[disableIndex]
-      : Number.POSITIVE_INFINITY
-    const nextEnable = enableIndex < directives.sortedEnableLines.length
-      ? directives.sortedEnableLines[enableIndex]
-      : Number.POSITIVE_INFINITY
-    const nextDirectiveLine = Math.min(nextDisable, nextEnable)
-    if (nextDirectiveLine >= line)
-      break
-
-    if (nextDisable === nextDirectiveLine) {
-      const disabledRules = directives.rangeDisable.get(nextDisable)!
-      if (matchesRule(ruleId, disabledRules))
-        disabled = true
-      disableIndex++
-      continue
+    else {
+      // a directive starts its line: code after it keeps the line's indentation
+      let end = lineStart + comment.end
+      while (content[end] === ' ' || content[end] === '\t')
+        end++
+      fix = { range: [lineStart + comment.start, end], text: '' }
     }
 
-    const enabledRules = directives.rangeEnable.get(nextEnable)!
-    if (enabledRules.has('*') || matchesRule(ruleId, enabledRules))
-      disabled = false
-    enableIndex++
-  }
-
-  return disabled
-}
-
-function matchesRule(ruleId: string, ruleSet: Set<string>): boolean {
-  if (ruleSet.size === 0)
-    return false
-  if (ruleSet.has('*'))
-    return true
-  // exact match
-  if (ruleSet.has(ruleId))
-    return true
-  // core kebab/camel equivalence
-  const keb = camelToKebab(ruleId)
-  if (ruleSet.has(keb) || ruleSet.has(kebabToCamel(ruleId)))
-    return true
-  // bare plugin id: allow matching suffix after '/'
-  for (const pat of ruleSet) {
-    if (!pat.includes('/')) {
-      if (ruleId.endsWith(`/${pat}`))
-        return true
+    for (const rule of dead) {
+      issues.push({
+        filePath,
+        line: comment.line,
+        column: comment.start + 1,
+        ruleId: UNUSED_DIRECTIVE_RULE_ID,
+        message: rule
+          ? `Unused ${comment.name} directive (no problems were reported from '${rule}')`
+          : `Unused ${comment.name} directive (no problems were reported)`,
+        severity,
+        help: 'Remove the directive, or run with --fix to remove it',
+        fix,
+      })
     }
   }
-  return false
-}
-
-function shouldSkipCommentOnlyPluginIssue(ruleId: string): boolean {
-  // Most code-oriented plugin rules should ignore comment-only lines to avoid
-  // false positives from examples in comments. Comment rules are the exception:
-  // their whole job is to inspect comment text.
-  return ruleId !== 'spaced-comment' && !ruleId.endsWith('/spaced-comment')
+  return issues
 }
 
 /**
@@ -576,32 +455,33 @@ async function processWithConcurrency<T, R>(
   return results
 }
 
-interface PlannedRule {
-  pluginName: string
-  ruleName: string
-  fullRuleId: string
-  rule: any
-  severity?: 'error' | 'warning'
-  options?: unknown
-}
-
 interface PluginPlan {
   checkRules: PlannedRule[]
   fixRules: PlannedRule[]
+  // rules whose `check` attaches range fixes to issues (`meta.fixable`)
+  rangeFixRules: PlannedRule[]
   fixableRuleIds: Set<string>
   fixableBareRuleNames: Set<string>
 }
 
 const pluginPlanCache = new WeakMap<PickierConfig, PluginPlan>()
 
-function getPluginDefinitions(cfg: PickierConfig): PickierPlugin[] {
+// The plugins linting with `cfg`, its own included
+export function getPluginDefinitions(cfg: PickierConfig): PickierPlugin[] {
   let pluginDefs: PickierPlugin[] = getAllPlugins()
 
   if (cfg.plugins && cfg.plugins.length > 0) {
     const coreNames = new Set(['pickier', 'style', 'regexp', 'ts'])
+    // Config files have their string plugins loaded by `loadConfigFromPath()`;
+    // a config built in code has to go through `resolvePlugins()` itself
+    const unloaded = cfg.plugins.filter(p => typeof p === 'string')
+    if (unloaded.length > 0)
+      getLogger().warn(`[pickier:warn] Plugins not loaded: ${unloaded.join(', ')}. Load them with resolvePlugins() before linting.`)
     const userPlugins = cfg.plugins.filter(p => typeof p !== 'string') as PickierPlugin[]
-    const hasCoreMatch = userPlugins.some(p => coreNames.has(p.name))
-    pluginDefs = hasCoreMatch ? pluginDefs : []
+    // Plugins loaded by name, and inline ones sharing a built-in's name, are
+    // added alongside the built-ins; other inline plugins lint on their own
+    const keepBuiltIns = userPlugins.some(p => coreNames.has(p.name) || isLoadedPlugin(p))
+    pluginDefs = keepBuiltIns ? pluginDefs : []
     for (const p of userPlugins)
       pluginDefs.push(p)
   }
@@ -609,45 +489,6 @@ function getPluginDefinitions(cfg: PickierConfig): PickierPlugin[] {
   return pluginDefs
 }
 
-function getRulesConfig(cfg: PickierConfig, pluginDefs: PickierPlugin[]): RulesConfigMap {
-  // `rules` and `pluginRules` are both user-facing severity maps, and people
-  // reach for whichever they saw first. Only `pluginRules` ships defaults, so
-  // any plugin rule id appearing in `rules` was written by the user on
-  // purpose and outranks the default it is overriding (#1409).
-  const rulesConfig: RulesConfigMap = {
-    ...(cfg.pluginRules || {}) as RulesConfigMap,
-    ...(cfg.rules || {}) as unknown as RulesConfigMap,
-  }
-  if (cfg.rules?.noUnusedCapturingGroup)
-    rulesConfig['regexp/no-unused-capturing-group'] = cfg.rules.noUnusedCapturingGroup
-
-  const ruleAliases: Record<string, string> = {
-    'antfu/curly': 'style/curly',
-    'antfu/if-newline': 'style/if-newline',
-    'antfu/no-top-level-await': 'ts/no-top-level-await',
-  }
-
-  for (const [alias, target] of Object.entries(ruleAliases)) {
-    if (rulesConfig[alias as keyof RulesConfigMap])
-      rulesConfig[target as keyof RulesConfigMap] = rulesConfig[alias as keyof RulesConfigMap]
-  }
-
-  // Bare rule names (`'prefer-const': 'off'`) apply to every plugin that
-  // owns a rule by that name, from either map.
-  for (const source of [cfg.pluginRules, cfg.rules]) {
-    for (const key of Object.keys(source || {})) {
-      if (key.includes('/'))
-        continue
-      for (const p of pluginDefs) {
-        if (p.rules && Object.prototype.hasOwnProperty.call(p.rules, key))
-          (rulesConfig as any)[`${p.name}/${key}`] = (source as any)[key]
-      }
-    }
-  }
-
-  return rulesConfig
-}
-
 function getPluginPlan(cfg: PickierConfig): PluginPlan {
   const cached = pluginPlanCache.get(cfg)
   if (cached)
@@ -657,9 +498,10 @@ function getPluginPlan(cfg: PickierConfig): PluginPlan {
   const rulesConfig = getRulesConfig(cfg, pluginDefs)
   const checkRules: PlannedRule[] = []
   const fixRules: PlannedRule[] = []
+  const rangeFixRules: PlannedRule[] = []
   const fixableRuleIds = new Set<string>(['no-debugger'])
   const fixableBareRuleNames = new Set<string>(['no-debugger'])
-  const executedRules = new Set<string>()
+  const executedRules = new Map<string, PlannedRule>()
 
   for (const plugin of pluginDefs) {
     for (const ruleName in plugin.rules) {
@@ -670,19 +512,23 @@ function getPluginPlan(cfg: PickierConfig): PluginPlan {
 
       // Compatibility aliases can point multiple plugin prefixes at the same
       // implementation. Execute the first enabled bare rule once per file.
-      if (executedRules.has(ruleName))
+      const executed = executedRules.get(ruleName)
+      if (executed) {
+        executed.aliasIds.push(fullRuleId)
         continue
-      executedRules.add(ruleName)
+      }
 
       const rule = plugin.rules[ruleName]!
       const planned: PlannedRule = {
         pluginName: plugin.name,
         ruleName,
         fullRuleId,
+        aliasIds: [],
         rule,
         severity: setting.severity,
         options: setting.options,
       }
+      executedRules.set(ruleName, planned)
 
       if (typeof (rule as any)?.check === 'function')
         checkRules.push(planned)
@@ -695,52 +541,25 @@ function getPluginPlan(cfg: PickierConfig): PluginPlan {
         fixableRuleIds.add(fullRuleId)
         fixableBareRuleNames.add(ruleName)
       }
+      else if ((rule as any)?.meta?.fixable && typeof (rule as any)?.check === 'function') {
+        rangeFixRules.push(planned)
+        fixableRuleIds.add(fullRuleId)
+        fixableBareRuleNames.add(ruleName)
+      }
     }
   }
 
-  const plan = { checkRules, fixRules, fixableRuleIds, fixableBareRuleNames }
+  const plan = { checkRules, fixRules, rangeFixRules, fixableRuleIds, fixableBareRuleNames }
   pluginPlanCache.set(cfg, plan)
   return plan
 }
 
-function isShellPath(filePath: string, content: string): boolean {
-  return /\.(?:sh|bash|zsh|ksh|dash)$/.test(filePath)
-    || /^#!\s*(?:\/usr\/bin\/env\s+)?(?:ba|z|k|da)?sh\b/.test(content)
-}
-
-function isLockfilePath(filePath: string): boolean {
-  return /(?:^|[/\\])(?:bun\.lock|bun\.lockb|package-lock\.json|pnpm-lock\.yaml|yarn\.lock|npm-shrinkwrap\.json)$/.test(filePath)
-}
-
-function shouldRunPlannedRule(rule: PlannedRule, filePath: string, content: string): boolean {
-  switch (rule.pluginName) {
-    case 'markdown':
-      return filePath.endsWith('.md')
-    case 'shell':
-      return isShellPath(filePath, content)
-    case 'publint':
-      return /(?:^|[/\\])package\.json$/.test(filePath)
-    case 'lockfile':
-      return isLockfilePath(filePath)
-    case 'node':
-    case 'ts':
-    case 'general':
-    case 'quality':
-    case 'eslint':
-    case 'regexp':
-    case 'unused-imports':
-    case 'perfectionist':
-      return /\.(?:ts|js|tsx|jsx|mts|mjs|cts|cjs)$/.test(filePath)
-    default:
-      return true
-  }
-}
-
-export async function applyPlugins(filePath: string, content: string, cfg: PickierConfig): Promise<Array<any>> /* PluginLintIssue[] */ {
+export async function applyPlugins(filePath: string, content: string, baseCfg: PickierConfig): Promise<Array<any>> /* PluginLintIssue[] */ {
   const issues: Array<any> = []
+  const cfg = configForFile(baseCfg, filePath)
   const plan = getPluginPlan(cfg)
 
-  const baseCtx: RuleContext = { filePath, config: cfg }
+  const source = createSourceCode(filePath, content)
 
   for (const planned of plan.checkRules) {
     if (!shouldRunPlannedRule(planned, filePath, content))
@@ -766,9 +585,9 @@ export async function applyPlugins(filePath: string, content: string, cfg: Picki
     try {
       trace('rule:start', fullRuleId)
       const ruleTimeoutMs = ENV.RULE_TIMEOUT_MS
-      const ctx: RuleContext = { ...baseCtx, options: planned.options }
+      const ctx = createRuleContext(source, cfg, planned.options)
       const started = performance.now()
-      const out = await withTimeout(Promise.resolve().then(() => (rule as any).check(content, ctx)), ruleTimeoutMs, `rule:${fullRuleId}`)
+      const out = await withTimeout(Promise.resolve().then(() => timeRule(fullRuleId, 'check', filePath, () => (rule as any).check(content, ctx))), ruleTimeoutMs, `rule:${fullRuleId}`)
       const elapsed = performance.now() - started
       if (elapsed > ruleTimeoutMs) {
         issues.push({
@@ -804,9 +623,6 @@ export async function applyPlugins(filePath: string, content: string, cfg: Picki
   return issues
 }
 
-/** Files where a backtick means a template literal rather than a code fence. */
-const CODE_FILE_RE = /\.(?:[cm]?[jt]sx?|vue|svelte|stx)$/i
-
 /**
  * Undo any part of a fix that landed inside a template-literal body.
  *
@@ -848,19 +664,56 @@ function preserveTemplateBodies(before: string, after: string, filePath: string)
   return restored > 0 ? afterLines.join('\n') : after
 }
 
-function applyPluginFixes(filePath: string, content: string, cfg: PickierConfig): string {
+// Whether `--fix` applies the fixes of a rule, by its id and `meta`
+type FixFilter = (ruleId: string, meta?: RuleMeta) => boolean
+
+/**
+ * The fixes a `--fix` run applies: with `fixRule` or `fixType`, only those
+ * of the rules (by full id or bare name) or plugins they name, and unsafe
+ * ones only with `fixUnsafe`.
+ */
+function createFixFilter(options: Pick<LintOptions, 'fixRule' | 'fixType' | 'fixUnsafe'>): FixFilter {
+  const list = (value: string | string[] | undefined): Set<string> => {
+    return new Set([value ?? []].flat().flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean))
+  }
+  const rules = list(options.fixRule)
+  const types = list(options.fixType)
+  return (ruleId, meta) => {
+    if (meta?.fixSafety === 'unsafe' && !options.fixUnsafe)
+      return false
+    if (rules.size === 0 && types.size === 0)
+      return true
+    const slash = ruleId.indexOf('/')
+    return rules.has(ruleId) || rules.has(ruleId.slice(slash + 1)) || (slash > 0 && types.has(ruleId.slice(0, slash)))
+  }
+}
+
+function applyPluginFixes(filePath: string, content: string, cfg: PickierConfig, fixFilter: FixFilter): string {
   const plan = getPluginPlan(cfg)
-  const baseCtx: RuleContext = { filePath, config: cfg }
+  const allowed = (planned: PlannedRule): boolean =>
+    [planned.fullRuleId, ...planned.aliasIds].some(ruleId => fixFilter(ruleId, planned.rule.meta))
+  const rangeFixRules = plan.rangeFixRules.filter(allowed)
+  const fixRules = plan.fixRules.filter(allowed)
   let out = content
+  let source = createSourceCode(filePath, out)
   let changed = true
   let passes = 0
   while (changed && passes++ < MAX_FIXER_PASSES) {
     changed = false
-    for (const planned of plan.fixRules) {
+    // Edits from every fixable rule, merged: overlapping ones wait for the
+    // next pass, when the rules re-run on the updated text
+    if (rangeFixRules.length > 0) {
+      const { output } = mergeFixes(out, collectIssueFixes(filePath, out, source, cfg, rangeFixRules))
+      if (output !== out) {
+        out = output
+        source = createSourceCode(filePath, out)
+        changed = true
+      }
+    }
+    for (const planned of fixRules) {
       if (!shouldRunPlannedRule(planned, filePath, out))
         continue
-      const ctx: RuleContext = { ...baseCtx, options: planned.options }
-      const fixed = planned.rule.fix(out, ctx)
+      const fixed = timeRule(planned.fullRuleId, 'fix', filePath, () => planned.rule.fix(out, createRuleContext(source, cfg, planned.options)))
       // Rules that edit string content (class lists, prose) mean to reach
       // inside templates; rules that rewrite JS syntax do not.
       const next = planned.rule.meta?.editsStringContent
@@ -868,6 +721,7 @@ function applyPluginFixes(filePath: string, content: string, cfg: PickierConfig)
         : preserveTemplateBodies(out, fixed, filePath)
       if (next !== out) {
         out = next
+        source = createSourceCode(filePath, out)
         changed = true
       }
     }
@@ -1371,264 +1225,16 @@ function stripComments(line: string): string {
   return result
 }
 
-// Build a set of line numbers that are entirely inside comments
-// Uses a proper state machine to handle strings, block comments, and line comments correctly
-function getCommentLines(content: string): Set<number> {
-  const commentLines = new Set<number>()
-
-  // Track state while parsing
-  type State = 'code' | 'string-single' | 'string-double' | 'string-template' | 'line-comment' | 'block-comment'
-  let state: State = 'code'
-  let lineNo = 1
-  let lineHasCode = false // Track if current line has any non-comment code
-  let lineSawComment = false // Track if current line contains only comment text
-  let lineStartedInBlockComment = false // Track if line started inside a block comment
-  // Brace-depth stack for `${ … }` template-literal interpolations. Each entry
-  // tracks the `{`/`}` nesting inside one interpolation so the closing `}` is
-  // matched correctly (and nested templates/regex/strings don't desync the
-  // scanner, which previously made block comments below a template literal with
-  // an interpolation get misread as code).
-  const interpStack: number[] = []
-
-  for (let i = 0; i < content.length; i++) {
-    const ch = content[i]
-    const next = content[i + 1]
-    const prev = i > 0 ? content[i - 1] : ''
-
-    // Handle newlines - finalize line state
-    if (ch === '\n') {
-      // A line is a "comment line" if:
-      // 1. It started in a block comment and stayed there, OR
-      // 2. It has no code (only whitespace/comments)
-      if (lineStartedInBlockComment && state === 'block-comment') {
-        commentLines.add(lineNo)
-      }
-      else if (!lineHasCode && lineSawComment && state !== 'block-comment') {
-        // Line had no code and contains a complete line/block comment.
-        commentLines.add(lineNo)
-      }
-      else if (!lineHasCode && state === 'block-comment') {
-        commentLines.add(lineNo)
-      }
-
-      // Reset for next line
-      lineNo++
-      lineHasCode = false
-      lineSawComment = false
-      lineStartedInBlockComment = (state === 'block-comment')
-
-      // Line comments end at newline
-      if (state === 'line-comment') {
-        state = 'code'
-      }
-      continue
-    }
-
-    // State transitions
-    switch (state) {
-      case 'code':
-        if (ch === '/' && next === '/') {
-          state = 'line-comment'
-          lineSawComment = true
-          i++ // skip next char
-        }
-        else if (ch === '/' && next === '*') {
-          // Check if this `/*` starts a regex literal rather than a block comment
-          // Only treat as regex if preceded by an operator — NOT after newline (which is a comment)
-          let isRegex = false
-          if (i > 0) {
-            let k = i - 1
-            while (k > 0 && (content[k] === ' ' || content[k] === '\t')) k--
-            const bc = content[k]
-            // If preceded by an operator/delimiter (but NOT newline), it's likely a regex like /*/
-            if ('=([{,;!&|?:~^%+-'.includes(bc) && bc !== '\n') {
-              isRegex = true
-            }
-            // 'return', 'case', etc.
-            else if (/[a-z]/.test(bc)) {
-              const slice = content.slice(Math.max(0, k - 6), k + 1)
-              if (/\b(?:return|case|typeof|void|in|of|new|throw|delete)$/.test(slice)) {
-                isRegex = true
-              }
-            }
-          }
-          if (isRegex) {
-            // Skip the regex literal
-            lineHasCode = true
-            i++ // skip past the `*`
-            while (i < content.length) {
-              if (content[i] === '\\') {
-                i += 2
-                continue
-              }
-              if (content[i] === '/') {
-                i++
-                break
-              }
-              if (content[i] === '\n') {
-                break // unterminated regex, stop
-              }
-              i++
-            }
-            // Skip flags
-            while (i < content.length && /[gimsuy]/.test(content[i])) {
-              i++
-            }
-            i-- // will be incremented by for loop
-          }
-          else {
-            lineSawComment = true
-            state = 'block-comment'
-            i++ // skip next char
-          }
-        }
-        else if (ch === '/' && next !== undefined) {
-          // Check if this `/` starts a regex literal (not followed by `*` or `/`)
-          let isRegex = false
-          if (i > 0) {
-            let k = i - 1
-            while (k > 0 && (content[k] === ' ' || content[k] === '\t')) k--
-            const bc = content[k]
-            if ('=([{,;!&|?:~^%+-'.includes(bc) || bc === '\n') {
-              isRegex = true
-            }
-else if (/[a-z]/.test(bc)) {
-              const slice = content.slice(Math.max(0, k - 6), k + 1)
-              if (/\b(?:return|case|typeof|void|in|of|new|throw|delete)$/.test(slice)) {
-                isRegex = true
-              }
-            }
-          }
-          if (isRegex) {
-            lineHasCode = true
-            i++ // skip past the first char after `/`
-            while (i < content.length) {
-              if (content[i] === '\\') {
-                i += 2
-                continue
-              }
-              if (content[i] === '/') {
-                i++
-                break
-              }
-              if (content[i] === '\n') {
-                break
-              }
-              i++
-            }
-            while (i < content.length && /[gimsuy]/.test(content[i])) {
-              i++
-            }
-            i--
-          }
-else {
-            lineHasCode = true
-          }
-        }
-        else if (ch === '\'') {
-          state = 'string-single'
-          lineHasCode = true
-        }
-        else if (ch === '"') {
-          state = 'string-double'
-          lineHasCode = true
-        }
-        else if (ch === '`') {
-          state = 'string-template'
-          lineHasCode = true
-        }
-        else if (ch === '{') {
-          // Track nesting inside an active `${ … }` interpolation.
-          if (interpStack.length)
-            interpStack[interpStack.length - 1]++
-          lineHasCode = true
-        }
-        else if (ch === '}') {
-          // A `}` at interpolation depth 0 closes the interpolation and returns
-          // to the enclosing template literal; otherwise it's a normal block.
-          if (interpStack.length) {
-            if (interpStack[interpStack.length - 1] === 0) {
-              interpStack.pop()
-              state = 'string-template'
-            }
-            else {
-              interpStack[interpStack.length - 1]--
-            }
-          }
-          lineHasCode = true
-        }
-        else if (!/\s/.test(ch)) {
-          lineHasCode = true
-        }
-        break
-
-      case 'string-single':
-        if (ch === '\\') {
-          i++
-          break
-        }
-        if (ch === '\'') state = 'code'
-        break
-
-      case 'string-double':
-        if (ch === '\\') {
-          i++
-          break
-        }
-        if (ch === '"') state = 'code'
-        break
-
-      case 'string-template':
-        if (ch === '\\') {
-          i++
-          break
-        }
-        if (ch === '$' && next === '{') {
-          // Enter a `${ … }` interpolation: its contents are code.
-          interpStack.push(0)
-          state = 'code'
-          i++ // skip '{'
-          break
-        }
-        if (ch === '`') state = 'code'
-        break
-
-      case 'line-comment':
-        // Stay in line comment until newline (handled above)
-        break
-
-      case 'block-comment':
-        if (ch === '*' && next === '/') {
-          state = 'code'
-          i++ // skip next char
-        }
-        break
-    }
-  }
-
-  // Handle last line (no trailing newline)
-  if (lineStartedInBlockComment && state === 'block-comment') {
-    commentLines.add(lineNo)
-  }
-  else if (!lineHasCode && lineSawComment && state !== 'block-comment') {
-    commentLines.add(lineNo)
-  }
-  else if (!lineHasCode && state === 'block-comment') {
-    commentLines.add(lineNo)
-  }
-
-  return commentLines
-}
-
 // Optimized version that accepts pre-computed directive and comment data
 export function scanContentOptimized(
   filePath: string,
   content: string,
-  cfg: PickierConfig,
+  baseCfg: PickierConfig,
   suppress: DisableDirectives,
   commentLines: Set<number>,
 ): LintIssue[] {
   const issues: LintIssue[] = []
+  const cfg = configForFile(baseCfg, filePath)
 
   // Base formatting-related checks (lightweight heuristics)
   const lines = content.split(/\r?\n/)
@@ -1903,9 +1509,10 @@ export function scanContentOptimized(
   return issues
 }
 
-export function scanContent(filePath: string, content: string, cfg: PickierConfig): LintIssue[] {
+export function scanContent(filePath: string, content: string, baseCfg: PickierConfig): LintIssue[] {
+  const cfg = configForFile(baseCfg, filePath)
   // Parse directives and comment lines ONCE
-  const suppress = parseDisableDirectives(content)
+  const suppress = parseDisableDirectives(content, filePath)
   const commentLines = getCommentLines(content)
 
   // Use optimized version for base scanning
@@ -1916,13 +1523,13 @@ export function scanContent(filePath: string, content: string, cfg: PickierConfi
   // they can use async timeout handling without mutating shared config.
   try {
     const plan = getPluginPlan(cfg)
-    const ctx: RuleContext = { filePath, config: cfg }
+    const source = createSourceCode(filePath, content)
     for (const planned of plan.checkRules) {
       if (!shouldRunPlannedRule(planned, filePath, content))
         continue
       if (!planned.rule || typeof planned.rule.check !== 'function')
         continue
-      const out = planned.rule.check(content, { ...ctx, options: planned.options })
+      const out = planned.rule.check(content, createRuleContext(source, cfg, planned.options))
       for (const i of out) {
         if (isSuppressed(i.ruleId as string, i.line, suppress))
           continue
@@ -1940,403 +1547,800 @@ export function scanContent(filePath: string, content: string, cfg: PickierConfi
   return issues
 }
 
-export async function runLint(globs: string[], options: LintOptions): Promise<number> {
-  trace('runLint:start', { globs, options })
-  const enableDiagnostics = ENV.DIAGNOSTICS
-  if (enableDiagnostics)
-    getLogger().info('[pickier:diagnostics] Starting lint process...')
-  try {
-    if (enableDiagnostics)
-      getLogger().info('[pickier:diagnostics] Loading config...')
-    const cfg = await loadConfigFromPath(options.config)
-    trace('config:loaded', { reporter: cfg.lint.reporter, ext: cfg.lint.extensions.join(',') })
+/**
+ * What `runLint` reports for `content`: the built-in checks and plugin rules,
+ * minus issues under a disable directive (which `suppress` records as used)
+ * and plugin issues on comment-only lines, deduplicated.
+ */
+async function lintContent(file: string, content: string, cfg: PickierConfig, suppress: DisableDirectives, commentLines: Set<number>): Promise<LintIssue[]> {
+  const issues = timePhase('scan', file, () => scanContentOptimized(file, content, cfg, suppress, commentLines))
 
-    const raw = globs.length ? globs : ['.']
-    const patterns = expandPatterns(raw)
-    trace('patterns', patterns)
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Patterns to search: ${patterns.join(', ')}`)
-    const extCsv = options.ext || cfg.lint.extensions.join(',')
-    const extSet = new Set<string>(extCsv.split(',').map((s: string) => {
-      const t = s.trim()
-      return t.startsWith('.') ? t : `.${t}`
-    }))
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] File extensions: ${Array.from(extSet).join(', ')}`)
+  // Run plugin rules (async with timeouts) and merge
+  try {
+    const pluginIssues = await applyPlugins(file, content, cfg)
+    for (const i of pluginIssues) {
+      if (isSuppressed(i.ruleId as string, i.line, suppress))
+        continue
+      if (commentLines.has(i.line) && shouldSkipCommentOnlyPluginIssue(i.ruleId as string))
+        continue
+      issues.push({
+        filePath: i.filePath,
+        line: i.line,
+        column: i.column,
+        ruleId: i.ruleId,
+        message: i.message,
+        severity: i.severity,
+        ...(i.help && { help: i.help }),
+        ...(i.fix && { fix: i.fix }),
+        ...(i.suggestions && { suggestions: i.suggestions }),
+      })
+    }
+  }
+  catch {
+    // Already surfaced via applyPlugins error path; keep going
+  }
 
-    const timeoutMs = ENV.TIMEOUT_MS
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Glob timeout: ${timeoutMs}ms`)
-
-    // Filter ignore patterns based on whether we're globbing inside or outside the project
-    // Universal ignores (like **/node_modules/**, **/dist/**) always apply
-    // Project-specific ignores (like **/*.test.ts, docs/**) only apply within the project
-    const isGlobbingOutsideProject = patterns.some((p) => {
-      const base = p.replace(/\/?\*\*\/*\*\*$/, '')
-      const absBase = isAbsolute(base) ? base : resolve(process.cwd(), base)
-      const cwd = process.cwd()
-      return absBase !== cwd && !absBase.startsWith(cwd + sep)
-    })
+  // Dedup issues by (filePath, line, column, ruleId) to handle aliased rules pointing to the same implementation
+  const seen = new Set<string>()
+  return issues.filter((i) => {
+    const key = `${i.line}:${i.column}:${i.ruleId}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
 
-    const globIgnores = isGlobbingOutsideProject
-      ? withAlwaysIgnores(UNIVERSAL_IGNORES) // Use ALL universal ignores when outside project
-      : withAlwaysIgnores(cfg.ignores)
-    const ignoreMatcher = createIgnoreMatcher(globIgnores)
-    if (enableDiagnostics) {
-      getLogger().info(`[pickier:diagnostics] Globbing outside project: ${isGlobbingOutsideProject}, ignore patterns: ${globIgnores.length}`)
-      if (isGlobbingOutsideProject)
-        getLogger().info(`[pickier:diagnostics] Using universal ignores: ${UNIVERSAL_IGNORES.slice(0, 5).join(', ')}... (${UNIVERSAL_IGNORES.length} total)`)
+/**
+ * The config a lint run uses: loaded from `options.config` (or discovered),
+ * with the CLI flags that change what is reported applied, and validated.
+ * Returns `undefined` when `strictConfig` rejects it.
+ */
+export async function resolveLintConfig(options: LintOptions): Promise<PickierConfig | undefined> {
+  if (ENV.DIAGNOSTICS)
+    getLogger().info('[pickier:diagnostics] Loading config...')
+  const loaded = await loadConfigFromPath(options.config)
+  // the flag reports at error severity; set on the config, it also keys the cache
+  const cfg: PickierConfig = options.reportUnusedDisableDirectives
+    ? { ...loaded, lint: { ...loaded.lint, reportUnusedDisableDirectives: 'error' } }
+    : loaded
+  trace('config:loaded', { reporter: cfg.lint.reporter, ext: cfg.lint.extensions.join(',') })
+
+  // Unknown rules and bad options would otherwise just be ignored
+  if (!options._formatOnly) {
+    const problems = validateConfig(cfg)
+    if (problems.length > 0) {
+      const configPath = options.config ? resolve(process.cwd(), options.config) : getConfigPath()
+      const relativePath = configPath && relative(process.cwd(), configPath)
+      const source = !configPath ? 'config' : relativePath && !relativePath.startsWith('..') ? relativePath : configPath
+      const log = options.strictConfig ? getLogger().error.bind(getLogger()) : getLogger().warn.bind(getLogger())
+      for (const problem of problems)
+        log(`[pickier:${options.strictConfig ? 'error' : 'warn'}] ${source}: ${problem.path}: ${problem.message}`)
+      if (options.strictConfig)
+        return undefined
     }
+  }
 
-    // Fallbacks to avoid globby hangs: handle explicit file paths and simple directory scans
-    let entries: string[] = []
-    // Fast path: if a single concrete file (no glob magic) is provided, just use it directly
-    const nonGlobSingle = patterns.length === 1 && !/[*?[\]{}()!]/.test(patterns[0])
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Starting file discovery... (nonGlobSingle: ${nonGlobSingle})`)
-    if (nonGlobSingle) {
-      try {
-        const st = statSync(patterns[0])
-        if (st.isFile()) {
-          const abs = isAbsolute(patterns[0]) ? patterns[0] : resolve(process.cwd(), patterns[0])
-          entries = [abs]
-        }
-      }
-      catch {
-        // fall through to other strategies
-      }
-    }
+  return cfg
+}
 
-    const simpleDirPattern = patterns.length === 1 && /\*\*\/*\*$/.test(patterns[0])
-    if (!entries.length && simpleDirPattern) {
-      const base = patterns[0].replace(/\/?\*\*\/*\*\*$/, '')
-      if (enableDiagnostics)
-        getLogger().info(`[pickier:diagnostics] Using fast directory scan for: ${base}`)
-      try {
-        const rootBase = isAbsolute(base) ? base : resolve(process.cwd(), base)
-        const stack: string[] = [rootBase]
-        let dirCount = 0
-        while (stack.length) {
-          const dir = stack.pop()!
-          dirCount++
-          if (enableDiagnostics && dirCount % 100 === 0)
-            getLogger().info(`[pickier:diagnostics] Scanned ${dirCount} directories, ${entries.length} files found so far...`)
-          const items = readdirSync(dir)
-          for (const it of items) {
-            const full = join(dir, it)
-            const st = statSync(full)
-            if (ignoreMatcher(full))
-              continue
-            if (st.isDirectory())
-              stack.push(full)
-            else
-              entries.push(full)
-          }
-        }
-        if (enableDiagnostics)
-          getLogger().info(`[pickier:diagnostics] Fast scan complete: ${dirCount} directories, ${entries.length} total files`)
-      }
-      catch (e) {
-        if (enableDiagnostics)
-          getLogger().info(`[pickier:diagnostics] Fast scan failed: ${(e as any)?.message}, falling back to glob`)
-        entries = await withTimeout(glob(patterns, {
-          dot: false,
-          ignore: globIgnores,
-          onlyFiles: true,
-          absolute: true,
-        }), timeoutMs, 'glob')
-      }
-    }
-    else if (!entries.length) {
+export interface LintTargets {
+  files: string[]
+  /** Directories the globs search, outermost only */
+  roots: string[]
+  /** Whether a file that wasn't there during discovery would have been linted */
+  includes: (file: string) => boolean
+  /** Whether a path is left out whatever its extension: inside node_modules, or matched by `ignores` or an ignore file */
+  ignores: (path: string) => boolean
+}
+
+// Whether a path matches one of the expanded globs, relative to the cwd unless the glob is absolute
+function globMatcher(patterns: string[]): (file: string) => boolean {
+  const res = patterns.flatMap(p => expandBraces(p.replace(/\\/g, '/').replace(/^\.\//, '')).map(globToRegex))
+  return (file) => {
+    const abs = file.replace(/\\/g, '/')
+    const rel = relative(process.cwd(), file).replace(/\\/g, '/')
+    return res.some(re => re.test(rel) || re.test(abs))
+  }
+}
+
+// Where a pattern's walk starts: the path up to its first segment with glob characters
+function patternRoot(pattern: string): string {
+  const segments = pattern.split('/')
+  const magic = segments.findIndex(s => /[*?[\]{}()!]/.test(s))
+  const base = magic < 0 ? dirname(pattern) : segments.slice(0, magic).join('/')
+  return resolve(process.cwd(), base || '.')
+}
+
+// `--ext`, or the config's extensions, each with its leading dot
+function lintExtensions(cfg: PickierConfig, options: LintOptions): Set<string> {
+  const extCsv = options.ext || cfg.lint.extensions.join(',')
+  return new Set<string>(extCsv.split(',').map((s: string) => {
+    const t = s.trim()
+    return t.startsWith('.') ? t : `.${t}`
+  }))
+}
+
+/** Why naming a file on the command line would not lint it */
+export interface LintExclusion {
+  reason: 'node_modules' | 'ignores' | 'ignore-file' | 'extension'
+  /** The `ignores` glob or ignore-file pattern that matched */
+  pattern?: string
+  /** The ignore file the pattern is in */
+  ignoreFile?: string
+}
+
+/**
+ * What keeps `file` from being linted when named on the command line,
+ * whether or not it exists: `node_modules`, an ignore pattern, an ignore
+ * file, or an extension that isn't linted. Undefined if nothing does.
+ */
+export function lintExclusion(file: string, cfg: PickierConfig, options: LintOptions): LintExclusion | undefined {
+  const abs = resolve(process.cwd(), file)
+  const cwd = process.cwd()
+  if (abs.replace(/\\/g, '/').includes('/node_modules/'))
+    return { reason: 'node_modules' }
+  // same as for a glob: the project's own ignores only apply inside it
+  const outside = abs !== cwd && !abs.startsWith(cwd + sep)
+  const pattern = createIgnorePatternMatcher(withAlwaysIgnores(outside ? UNIVERSAL_IGNORES : cfg.ignores))(abs)
+  if (pattern)
+    return { reason: 'ignores', pattern }
+  const ignored = createIgnoreFiles({ ignorePath: options.ignorePath }).ignoredBy(abs)
+  if (ignored)
+    return { reason: 'ignore-file', pattern: ignored.pattern, ignoreFile: ignored.file }
+  if (!isCodeFile(abs, lintExtensions(cfg, options)))
+    return { reason: 'extension' }
+  return undefined
+}
+
+/**
+ * Whether naming `file` on the command line would lint it, whether or not it
+ * exists: it has a linted extension and no ignore pattern, ignore file or
+ * `node_modules` excludes it. Used for text that stands in for the file.
+ */
+export function isLintTarget(file: string, cfg: PickierConfig, options: LintOptions): boolean {
+  return lintExclusion(file, cfg, options) === undefined
+}
+
+// The nearest directory that exists, for asking git about a path that may not
+function existingDir(dir: string): string {
+  while (!existsSync(dir) && dirname(dir) !== dir)
+    dir = dirname(dir)
+  return dir
+}
+
+// The files git names in the repositories the globs point into, narrowed down to the globs
+function gitSelectedFiles(patterns: string[], options: LintOptions): string[] {
+  const inGlobs = globMatcher(patterns)
+  const files = new Set<string>()
+  for (const dir of new Set(patterns.map(patternRoot))) {
+    for (const file of gitChangedFiles(options, existingDir(dir))) {
+      if (inGlobs(file))
+        files.add(file)
+    }
+  }
+  return [...files]
+}
+
+// --diff-lines: the lines changed since the ref, in the repositories the roots are in
+export function changedLinesIn(roots: string[], options: LintOptions): ChangedLines | undefined {
+  if (!options.diffLines || options._formatOnly)
+    return undefined
+  const changed: ChangedLines = new Map()
+  for (const root of new Set(roots.map(existingDir))) {
+    for (const [file, ranges] of gitChangedLines(options.diffLines, root))
+      changed.set(file, ranges)
+  }
+  return changed
+}
+
+// --baseline / --baseline-write, held against every issue before --diff-lines narrows them down
+function holdAgainstBaseline(files: string[], issues: LintIssue[], options: LintOptions): BaselineResult | undefined {
+  const location = options.baselineWrite || options.baseline
+  if (!location || options._formatOnly)
+    return undefined
+  return applyBaseline(resolve(process.cwd(), location), files, issues, !!options.baselineWrite)
+}
+
+/**
+ * The issues of `files` a run reports: those `--baseline` doesn't hold, on
+ * the lines `--diff-lines` names. Returns what the baseline did as well.
+ */
+export function reportedIssues(files: string[], issues: LintIssue[], options: LintOptions, changedLines: ChangedLines | undefined): { issues: LintIssue[], baseline?: BaselineResult } {
+  const baseline = holdAgainstBaseline(files, issues, options)
+  const held = baseline ? baseline.issues : issues
+  return { issues: changedLines ? held.filter(i => linesChanged(changedLines, i.filePath, i.line)) : held, baseline }
+}
+
+/** The line a run prints after the report about what `--baseline` or `--baseline-write` did */
+export function describeBaseline(result: BaselineResult, options: LintOptions): string {
+  const plural = (n: number): string => `${n} ${n === 1 ? 'issue' : 'issues'}`
+  if (options.baselineWrite)
+    return `Recorded ${plural(result.baselined)} in ${options.baselineWrite}.`
+  const removed = result.removed > 0 ? ` ${plural(result.removed)} no longer found, removed from the baseline.` : ''
+  return `${plural(result.baselined)} in ${options.baseline} not shown.${removed}`
+}
+
+/**
+ * Resolve the globs to the files to lint, honouring `ignores`, ignore files
+ * and the extension list. Returns `undefined` when there are too many files
+ * to lint safely.
+ */
+export async function findLintFiles(globs: string[], cfg: PickierConfig, options: LintOptions): Promise<LintTargets | undefined> {
+  const enableDiagnostics = ENV.DIAGNOSTICS
+  const raw = globs.length ? globs : ['.']
+  const patterns = expandPatterns(raw)
+  trace('patterns', patterns)
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] Patterns to search: ${patterns.join(', ')}`)
+  const extSet = lintExtensions(cfg, options)
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] File extensions: ${Array.from(extSet).join(', ')}`)
+
+  const timeoutMs = ENV.TIMEOUT_MS
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] Glob timeout: ${timeoutMs}ms`)
+
+  // Filter ignore patterns based on whether we're globbing inside or outside the project
+  // Universal ignores (like **/node_modules/**, **/dist/**) always apply
+  // Project-specific ignores (like **/*.test.ts, docs/**) only apply within the project
+  const isGlobbingOutsideProject = patterns.some((p) => {
+    const base = p.replace(/\/?\*\*\/*\*\*$/, '')
+    const absBase = isAbsolute(base) ? base : resolve(process.cwd(), base)
+    const cwd = process.cwd()
+    return absBase !== cwd && !absBase.startsWith(cwd + sep)
+  })
+
+  const globIgnores = isGlobbingOutsideProject
+    ? withAlwaysIgnores(UNIVERSAL_IGNORES) // Use ALL universal ignores when outside project
+    : withAlwaysIgnores(cfg.ignores)
+  const ignoreMatcher = createIgnoreMatcher(globIgnores)
+  // .gitignore / .pickierignore files along the way, plus --ignore-path
+  const ignoreFiles = createIgnoreFiles({ ignorePath: options.ignorePath })
+  if (enableDiagnostics) {
+    getLogger().info(`[pickier:diagnostics] Globbing outside project: ${isGlobbingOutsideProject}, ignore patterns: ${globIgnores.length}`)
+    if (isGlobbingOutsideProject)
+      getLogger().info(`[pickier:diagnostics] Using universal ignores: ${UNIVERSAL_IGNORES.slice(0, 5).join(', ')}... (${UNIVERSAL_IGNORES.length} total)`)
+  }
+
+  // Fallbacks to avoid globby hangs: handle explicit file paths and simple directory scans
+  // --staged / --changed / --since: git names the files, the globs only narrow them down
+  const gitFiles = hasGitSelection(options) ? gitSelectedFiles(patterns, options) : undefined
+  let entries: string[] = gitFiles ?? []
+  // Fast path: if a single concrete file (no glob magic) is provided, just use it directly
+  const nonGlobSingle = !gitFiles && patterns.length === 1 && !/[*?[\]{}()!]/.test(patterns[0])
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] Starting file discovery... (nonGlobSingle: ${nonGlobSingle})`)
+  if (nonGlobSingle) {
+    try {
+      const st = statSync(patterns[0])
+      if (st.isFile()) {
+        const abs = isAbsolute(patterns[0]) ? patterns[0] : resolve(process.cwd(), patterns[0])
+        entries = [abs]
+      }
+    }
+    catch {
+      // fall through to other strategies
+    }
+  }
+
+  const simpleDirPattern = !gitFiles && patterns.length === 1 && /\*\*\/*\*$/.test(patterns[0])
+  if (!entries.length && simpleDirPattern) {
+    const base = patterns[0].replace(/\/?\*\*\/*\*\*$/, '')
+    if (enableDiagnostics)
+      getLogger().info(`[pickier:diagnostics] Using fast directory scan for: ${base}`)
+    try {
+      const rootBase = isAbsolute(base) ? base : resolve(process.cwd(), base)
+      const stack: string[] = [rootBase]
+      let dirCount = 0
+      while (stack.length) {
+        const dir = stack.pop()!
+        dirCount++
+        if (enableDiagnostics && dirCount % 100 === 0)
+          getLogger().info(`[pickier:diagnostics] Scanned ${dirCount} directories, ${entries.length} files found so far...`)
+        const items = readdirSync(dir)
+        for (const it of items) {
+          const full = join(dir, it)
+          const st = statSync(full)
+          if (ignoreMatcher(full) || ignoreFiles.ignores(full, st.isDirectory()))
+            continue
+          if (st.isDirectory())
+            stack.push(full)
+          else
+            entries.push(full)
+        }
+      }
+      if (enableDiagnostics)
+        getLogger().info(`[pickier:diagnostics] Fast scan complete: ${dirCount} directories, ${entries.length} total files`)
+    }
+    catch (e) {
       if (enableDiagnostics)
-        getLogger().info(`[pickier:diagnostics] Using glob with timeout ${timeoutMs}ms...`)
+        getLogger().info(`[pickier:diagnostics] Fast scan failed: ${(e as any)?.message}, falling back to glob`)
       entries = await withTimeout(glob(patterns, {
         dot: false,
         ignore: globIgnores,
+        ignoreFiles,
         onlyFiles: true,
         absolute: true,
       }), timeoutMs, 'glob')
-      if (enableDiagnostics)
-        getLogger().info(`[pickier:diagnostics] glob found ${entries.length} files`)
     }
-
-    trace('globbed entries', entries.length)
+  }
+  else if (!gitFiles && !entries.length) {
     if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] File discovery complete: ${entries.length} files found`)
-
-    // Safety check: warn if file count is suspiciously high
-    if (entries.length > 10000) {
-      getLogger().warn(`[pickier:warn] Found ${entries.length} files. This seems unusually high and may cause memory issues.`)
-      getLogger().warn(`[pickier:warn] Consider checking your ignore patterns or being more specific with your glob pattern.`)
-      getLogger().warn(`[pickier:warn] Common culprits: node_modules, build directories, cache folders, or vendor dependencies.`)
-      if (entries.length > 100000) {
-        getLogger().error(`[pickier:error] File count exceeds 100,000 (${entries.length}). This will likely cause out-of-memory errors.`)
-        getLogger().error(`[pickier:error] Aborting to prevent crash. Please refine your glob pattern or ignore patterns.`)
-        return 1
-      }
+      getLogger().info(`[pickier:diagnostics] Using glob with timeout ${timeoutMs}ms...`)
+    entries = await withTimeout(glob(patterns, {
+      dot: false,
+      ignore: globIgnores,
+      ignoreFiles,
+      onlyFiles: true,
+      absolute: true,
+    }), timeoutMs, 'glob')
+    if (enableDiagnostics)
+      getLogger().info(`[pickier:diagnostics] glob found ${entries.length} files`)
+  }
+
+  trace('globbed entries', entries.length)
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] File discovery complete: ${entries.length} files found`)
+
+  // Safety check: warn if file count is suspiciously high
+  if (entries.length > 10000) {
+    getLogger().warn(`[pickier:warn] Found ${entries.length} files. This seems unusually high and may cause memory issues.`)
+    getLogger().warn(`[pickier:warn] Consider checking your ignore patterns or being more specific with your glob pattern.`)
+    getLogger().warn(`[pickier:warn] Common culprits: node_modules, build directories, cache folders, or vendor dependencies.`)
+    if (entries.length > 100000) {
+      getLogger().error(`[pickier:error] File count exceeds 100,000 (${entries.length}). This will likely cause out-of-memory errors.`)
+      getLogger().error(`[pickier:error] Aborting to prevent crash. Please refine your glob pattern or ignore patterns.`)
+      return undefined
     }
+  }
 
-    // filter with trace counters
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Filtering ${entries.length} files by extension and ignore patterns...`)
-    let cntTotal = 0
-    let cntIncluded = 0
-    let cntNodeModules = 0
-    let cntIgnored = 0
-    let cntWrongExt = 0
-    const files: string[] = []
-    for (const f of entries) {
-      cntTotal++
-      if (enableDiagnostics && cntTotal % 1000 === 0)
-        getLogger().info(`[pickier:diagnostics] Filtering progress: ${cntTotal}/${entries.length} files checked, ${cntIncluded} included...`)
-      const p = f.replace(/\\/g, '/')
-      if (p.includes('/node_modules/')) {
-        cntNodeModules++
-        continue
-      }
-      if (ignoreMatcher(f)) {
-        cntIgnored++
-        continue
-      }
-      if (!isCodeFile(f, extSet)) {
-        cntWrongExt++
-        continue
-      }
-      files.push(f)
-      cntIncluded++
-    }
-    trace('filter:cli', { total: cntTotal, included: cntIncluded, node_modules: cntNodeModules, ignored: cntIgnored, wrongExt: cntWrongExt })
-    trace('filtered files', files.length)
-    if (enableDiagnostics) {
-      getLogger().info(`[pickier:diagnostics] Filtering complete:`)
-      getLogger().info(`[pickier:diagnostics]   Total files found: ${cntTotal}`)
-      getLogger().info(`[pickier:diagnostics]   Files to lint: ${cntIncluded}`)
-      getLogger().info(`[pickier:diagnostics]   Excluded (node_modules): ${cntNodeModules}`)
-      getLogger().info(`[pickier:diagnostics]   Excluded (ignored): ${cntIgnored}`)
-      getLogger().info(`[pickier:diagnostics]   Excluded (wrong extension): ${cntWrongExt}`)
-    }
-
-    // Safety check after filtering
-    if (files.length > 5000) {
-      getLogger().warn(`[pickier:warn] After filtering, ${files.length} files will be linted. This may take a while and use significant memory.`)
-      if (files.length > 50000) {
-        getLogger().error(`[pickier:error] ${files.length} files to lint exceeds safe limit (50,000). This will likely cause out-of-memory errors.`)
-        getLogger().error(`[pickier:error] Aborting to prevent crash. Please be more specific with your glob pattern.`)
-        getLogger().error(`[pickier:error] Example: Instead of '../stx', try '../stx/src' or '../stx/packages/core'`)
-        return 1
-      }
+  // filter with trace counters
+  if (enableDiagnostics)
+    getLogger().info(`[pickier:diagnostics] Filtering ${entries.length} files by extension and ignore patterns...`)
+  let cntTotal = 0
+  let cntIncluded = 0
+  let cntNodeModules = 0
+  let cntIgnored = 0
+  let cntWrongExt = 0
+  const files: string[] = []
+  for (const f of entries) {
+    cntTotal++
+    if (enableDiagnostics && cntTotal % 1000 === 0)
+      getLogger().info(`[pickier:diagnostics] Filtering progress: ${cntTotal}/${entries.length} files checked, ${cntIncluded} included...`)
+    const p = f.replace(/\\/g, '/')
+    if (p.includes('/node_modules/')) {
+      cntNodeModules++
+      continue
     }
+    if (ignoreMatcher(f) || ignoreFiles.ignores(f)) {
+      cntIgnored++
+      continue
+    }
+    if (!isCodeFile(f, extSet)) {
+      cntWrongExt++
+      continue
+    }
+    files.push(f)
+    cntIncluded++
+  }
+  trace('filter:cli', { total: cntTotal, included: cntIncluded, node_modules: cntNodeModules, ignored: cntIgnored, wrongExt: cntWrongExt })
+  trace('filtered files', files.length)
+  if (enableDiagnostics) {
+    getLogger().info(`[pickier:diagnostics] Filtering complete:`)
+    getLogger().info(`[pickier:diagnostics]   Total files found: ${cntTotal}`)
+    getLogger().info(`[pickier:diagnostics]   Files to lint: ${cntIncluded}`)
+    getLogger().info(`[pickier:diagnostics]   Excluded (node_modules): ${cntNodeModules}`)
+    getLogger().info(`[pickier:diagnostics]   Excluded (ignored): ${cntIgnored}`)
+    getLogger().info(`[pickier:diagnostics]   Excluded (wrong extension): ${cntWrongExt}`)
+  }
 
-    // OPTIMIZATION: Parallel file processing with a bounded worker queue.
-    const concurrency = ENV.CONCURRENCY
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Starting to process ${files.length} files with concurrency ${concurrency}...`)
+  // Safety check after filtering
+  if (files.length > 5000) {
+    getLogger().warn(`[pickier:warn] After filtering, ${files.length} files will be linted. This may take a while and use significant memory.`)
+    if (files.length > 50000) {
+      getLogger().error(`[pickier:error] ${files.length} files to lint exceeds safe limit (50,000). This will likely cause out-of-memory errors.`)
+      getLogger().error(`[pickier:error] Aborting to prevent crash. Please be more specific with your glob pattern.`)
+      getLogger().error(`[pickier:error] Example: Instead of '../stx', try '../stx/src' or '../stx/packages/core'`)
+      return undefined
+    }
+  }
 
-    let processedCount = 0
-    const formatOnly = !!options._formatOnly
-    const processFile = async (file: string): Promise<LintIssue[]> => {
-      if (enableDiagnostics) {
-        processedCount++
-        if (processedCount === 1 || processedCount % 10 === 0 || processedCount === files.length)
-          getLogger().info(`[pickier:diagnostics] Processing file ${processedCount}/${files.length}: ${relative(process.cwd(), file)}`)
-      }
-      const src = readFileSync(file, 'utf8')
-
-      // FAST PATH: format-only mode — just run formatCode() directly, skip scanning/plugins
-      if (formatOnly) {
-        const fixed = formatCode(src, cfg, file)
-        if (fixed !== src) {
-          if (!options.dryRun) {
-            writeFileSync(file, fixed, 'utf8')
-          }
-          else {
-            return [{
-              filePath: file,
-              line: 1,
-              column: 1,
-              ruleId: 'format',
-              message: 'File is not formatted',
-              severity: 'error',
-              help: 'Run pickier format with --write to apply formatting.',
-            }]
-          }
-        }
-        return []
-      }
+  const inGlobs = globMatcher(patterns)
+  const ignores = (path: string): boolean => {
+    return path.replace(/\\/g, '/').includes('/node_modules/')
+      || ignoreMatcher(path)
+      || ignoreFiles.ignores(path)
+  }
+  const includes = (file: string): boolean => inGlobs(file) && !ignores(file) && isCodeFile(file, extSet)
+  const roots = [...new Set(patterns.map(patternRoot))].sort()
+  return {
+    files,
+    roots: roots.filter(root => !roots.some(other => other !== root && root.startsWith(other.endsWith(sep) ? other : other + sep))),
+    includes,
+    ignores,
+  }
+}
 
-      // OPTIMIZATION: Parse directives and comment lines ONCE upfront
-      const suppress = parseDisableDirectives(src)
-      const isCodeFileForComments = /\.(?:ts|js|tsx|jsx|mts|mjs|cts|cjs)$/.test(file)
-      const commentLines = isCodeFileForComments ? getCommentLines(src) : new Set<number>()
+export interface FileLinter {
+  /** Lint one file, applying fixes as `options` ask */
+  lintFile: (file: string) => Promise<LintIssue[]>
+  /** With `diff`, the patch of every file the fixes or the formatter would change */
+  diffs: Map<string, string>
+  /** Write the cache, when the run uses one */
+  save: () => void
+}
 
-      let issues = scanContentOptimized(file, src, cfg, suppress, commentLines)
+// Every fix --fix applies to one file's content, in order
+async function fixContent(file: string, src: string, fileCfg: PickierConfig, suppress: DisableDirectives, commentLines: Set<number>, fixFilter: FixFilter): Promise<string> {
+  // Built-in fixer: remove debugger statement lines (same gates as the scan)
+  let fixed = fixFilter('no-debugger') ? removeDebuggerLines(file, src, fileCfg, suppress, commentLines) : src
+  // Apply plugin rule fixers
+  fixed = applyPluginFixes(file, fixed, fileCfg, fixFilter)
+  // Normalize leading whitespace on lines `hasIndentIssue` would flag.
+  // This is a line-local rewrite that mirrors the lint check exactly —
+  // we don't try to re-derive indent levels from bracket counting (the
+  // formatCode path does that and miscompiles JSDoc comments and
+  // multi-line signatures), we just round each flagged line's leading
+  // whitespace to a value the linter would accept. Gated by the same
+  // predicate as the check, so --fix only rewrites what a plain lint
+  // run reports (#1372). Directives and comment lines are recomputed on
+  // the current content because plugin fixers may have shifted lines.
+  if (fixFilter('style/indent') && indentRuleSeverity(file, fixed, fileCfg))
+    fixed = fixIndentLineLocal(fixed, fileCfg, parseDisableDirectives(fixed, file), getCommentLines(fixed))
+
+  // Dead directives are judged on the fixed content, by a full check:
+  // the re-scan after fixing runs the built-in checks only and would miss
+  // what plugin rules still need suppressed
+  const unusedSeverity = unusedDirectiveSeverity(fileCfg)
+  if (unusedSeverity && fixFilter(UNUSED_DIRECTIVE_RULE_ID)) {
+    let directives = suppress
+    if (fixed !== src) {
+      directives = parseDisableDirectives(fixed, file)
+      await lintContent(file, fixed, fileCfg, directives, getCommentLines(fixed))
+    }
+    const unused = unusedDirectiveIssues(file, fixed, directives, unusedSeverity)
+    if (unused.length > 0)
+      fixed = mergeFixes(fixed, unused.map(issue => issue.fix!)).output
+  }
+  return fixed
+}
 
-      // Run plugin rules (async with timeouts) and merge
-      try {
-        const pluginIssues = await applyPlugins(file, src, cfg)
-        for (const i of pluginIssues) {
-          if (isSuppressed(i.ruleId as string, i.line, suppress))
-            continue
-          if (commentLines.has(i.line) && shouldSkipCommentOnlyPluginIssue(i.ruleId as string))
-            continue
-          issues.push({
-            filePath: i.filePath,
-            line: i.line,
-            column: i.column,
-            ruleId: i.ruleId,
-            message: i.message,
-            severity: i.severity,
-            ...(i.help && { help: i.help }),
-          })
+/**
+ * Lints (or, with `_formatOnly`, formats) files one at a time against a
+ * resolved config, reusing the cache the options ask for. With
+ * `fixDiffLines`, fixes are kept only where they touch `changedLines`.
+ */
+export function createFileLinter(cfg: PickierConfig, options: LintOptions, changedLines?: ChangedLines): FileLinter {
+  const formatOnly = !!options._formatOnly
+  const cache = !formatOnly && (options.cache ?? cfg.lint.cache)
+    ? createLintCache(cfg, { location: options.cacheLocation ?? cfg.lint.cacheLocation, strategy: options.cacheStrategy ?? cfg.lint.cacheStrategy })
+    : null
+  let cacheHits = 0
+  let linted = 0
+  // --diff shows the changes instead of writing them
+  const write = !options.dryRun && !options.diff
+  const fixFilter = createFixFilter(options)
+  const diffs = new Map<string, string>()
+  let root: string | undefined
+  const recordDiff = (file: string, before: string, after: string): void => {
+    if (options.diff)
+      diffs.set(file, unifiedDiff(reportPath(file, root ??= findRepoRoot()), before, after, { color: !!process.stdout.isTTY }))
+  }
+  const lintFile = async (file: string): Promise<LintIssue[]> => {
+    linted++
+    let content: string | undefined
+    if (cache) {
+      const cached = cache.lookup(file, () => (content ??= readFileSync(file, 'utf8')))
+      // With --fix only a file without issues is known to need nothing
+      if (cached && (!options.fix || cached.length === 0)) {
+        cacheHits++
+        return cached
+      }
+    }
+    const src = content ?? readFileSync(file, 'utf8')
+    const fileCfg = configForFile(cfg, file)
+
+    // FAST PATH: format-only mode — just run formatCode() directly, skip scanning/plugins
+    if (formatOnly) {
+      const fixed = timePhase('format', file, () => formatCode(src, fileCfg, file))
+      if (fixed !== src) {
+        recordDiff(file, src, fixed)
+        if (write) {
+          writeFileSync(file, fixed, 'utf8')
+        }
+        else {
+          return [{
+            filePath: file,
+            line: 1,
+            column: 1,
+            ruleId: 'format',
+            message: 'File is not formatted',
+            severity: 'error',
+            help: 'Run pickier format with --write to apply formatting.',
+          }]
         }
       }
-      catch {
-        // Already surfaced via applyPlugins error path; keep going
-      }
+      return []
+    }
 
-      // Dedup issues by (filePath, line, column, ruleId) to handle aliased rules pointing to the same implementation
-      {
-        const seen = new Set<string>()
-        issues = issues.filter((i) => {
-          const key = `${i.line}:${i.column}:${i.ruleId}`
-          if (seen.has(key)) return false
-          seen.add(key)
-          return true
-        })
-      }
+    // OPTIMIZATION: Parse directives and comment lines ONCE upfront
+    const suppress = parseDisableDirectives(src, file)
+    const isCodeFileForComments = /\.(?:ts|js|tsx|jsx|mts|mjs|cts|cjs)$/.test(file)
+    const commentLines = isCodeFileForComments ? getCommentLines(src) : new Set<number>()
+
+    let issues = await lintContent(file, src, fileCfg, suppress, commentLines)
+    // --fix removes dead directives instead, unless the fix selection leaves them out.
+    // The CLI flag outranks an override turning the report off for some files.
+    const unusedSeverity = options.reportUnusedDisableDirectives ? 'error' : unusedDirectiveSeverity(fileCfg)
+    const reportUnused = !!unusedSeverity && !(options.fix && fixFilter(UNUSED_DIRECTIVE_RULE_ID))
+    let unusedContent = src
+    let unusedDirectives = suppress
+
+    let rewritten = false
+    if (options.fix) {
+      let fixed = await fixContent(file, src, fileCfg, suppress, commentLines, fixFilter)
 
-      if (options.fix) {
-        // Built-in fixer: remove debugger statement lines (same gates as the scan)
-        let fixed = removeDebuggerLines(file, src, cfg, suppress, commentLines)
-        // Apply plugin rule fixers
-        fixed = applyPluginFixes(file, fixed, cfg)
-        // Normalize leading whitespace on lines `hasIndentIssue` would flag.
-        // This is a line-local rewrite that mirrors the lint check exactly —
-        // we don't try to re-derive indent levels from bracket counting (the
-        // formatCode path does that and miscompiles JSDoc comments and
-        // multi-line signatures), we just round each flagged line's leading
-        // whitespace to a value the linter would accept. Gated by the same
-        // predicate as the check, so --fix only rewrites what a plain lint
-        // run reports (#1372). Directives and comment lines are recomputed on
-        // the current content because plugin fixers may have shifted lines.
-        if (indentRuleSeverity(file, fixed, cfg))
-          fixed = fixIndentLineLocal(fixed, cfg, parseDisableDirectives(fixed), getCommentLines(fixed))
-
-        // If content changed, re-scan the fixed version
-        if (fixed !== src) {
-          const newSuppress = parseDisableDirectives(fixed)
-          const newCommentLines = getCommentLines(fixed)
-          issues = scanContentOptimized(file, fixed, cfg, newSuppress, newCommentLines)
-
-          // Write file only if not dry-run
-          if (!options.dryRun) {
-            writeFileSync(file, fixed, 'utf8')
-          }
+      // --fix-diff-lines: undo the edits away from the changed lines
+      if (changedLines && options.fixDiffLines && fixed !== src)
+        fixed = applyLineEdits(src, fixed, (from, to) => linesChanged(changedLines, file, from, to))
 
-          if (options.dryRun && (options.verbose !== undefined ? options.verbose : cfg.verbose)) {
-            getLogger().debug(colors.gray(`dry-run: would apply fixes in ${relative(process.cwd(), file)}`))
-          }
+      // If content changed, re-scan the fixed version
+      if (fixed !== src) {
+        rewritten = true
+        const newSuppress = parseDisableDirectives(fixed, file)
+        const newCommentLines = getCommentLines(fixed)
+        issues = timePhase('scan', file, () => scanContentOptimized(file, fixed, fileCfg, newSuppress, newCommentLines))
+        // the re-scan runs the built-in checks only, while dead directives take a full check to judge
+        if (reportUnused) {
+          await lintContent(file, fixed, fileCfg, newSuppress, newCommentLines)
+          unusedContent = fixed
+          unusedDirectives = newSuppress
         }
-      }
 
-      trace('scan done', relative(process.cwd(), file), issues.length)
-      return issues
+        recordDiff(file, src, fixed)
+        // Write file only if not dry-run
+        if (write) {
+          writeFileSync(file, fixed, 'utf8')
+        }
+
+        if (options.dryRun && (options.verbose !== undefined ? options.verbose : cfg.verbose)) {
+          getLogger().debug(colors.gray(`dry-run: would apply fixes in ${relative(process.cwd(), file)}`))
+        }
+      }
     }
 
-    const issueArrays = await processWithConcurrency(files, concurrency, processFile)
-    const allIssues = issueArrays.flat()
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Processing complete! Found ${allIssues.length} issues total`)
+    if (unusedSeverity && reportUnused)
+      issues.push(...unusedDirectiveIssues(file, unusedContent, unusedDirectives, unusedSeverity))
 
-    const errors = allIssues.filter(i => i.severity === 'error').length
-    const warnings = allIssues.filter(i => i.severity === 'warning').length
-    trace('issues:summary', { errors, warnings })
-    if (enableDiagnostics)
-      getLogger().info(`[pickier:diagnostics] Errors: ${errors}, Warnings: ${warnings}`)
+    // A rewritten file was only re-scanned by the built-in checks, so its issues are not the whole story
+    if (cache) {
+      if (rewritten)
+        cache.forget(file)
+      else
+        cache.store(file, src, issues)
+    }
 
-    const reporter = options.reporter || cfg.lint.reporter
-    // Determine verbose mode with proper precedence: CLI option > config > default
-    const isVerbose = options.verbose !== undefined ? options.verbose : cfg.verbose
+    trace('scan done', relative(process.cwd(), file), issues.length)
+    return issues
+  }
 
-    if (reporter === 'json') {
-      // eslint-disable-next-line no-console
-      console.log(JSON.stringify({ errors, warnings, issues: allIssues }, null, 2))
-    }
-    else if (reporter === 'compact') {
-      for (const i of allIssues) {
-        // eslint-disable-next-line no-console
-        console.log(`${relative(process.cwd(), i.filePath)}:${i.line}:${i.column} ${i.severity} ${i.ruleId} ${i.message}`)
+  return {
+    lintFile,
+    diffs,
+    save() {
+      if (cache) {
+        cache.save()
+        trace('cache', { location: cache.location, hits: cacheHits, files: linted })
       }
-    }
-    else if (allIssues.length > 0) {
-      // eslint-disable-next-line no-console
-      console.log(isVerbose ? formatVerbose(allIssues) : formatStylish(allIssues))
-    }
+    },
+  }
+}
 
-    // Print summary (similar to ESLint)
-    if (allIssues.length > 0 && reporter !== 'json') {
-      const total = errors + warnings
-      const problemsText = total === 1 ? 'problem' : 'problems'
-      const errorsText = errors === 1 ? 'error' : 'errors'
-      const warningsText = warnings === 1 ? 'warning' : 'warnings'
+// Whether --fix resolves an issue: it carries its own edit, or its rule has a fixer
+function isFixable(issue: LintIssue, cfg: PickierConfig): boolean {
+  const ruleId = issue.ruleId as string
+  const pluginPlan = getPluginPlan(configForFile(cfg, issue.filePath))
+  return !!issue.fix
+    || pluginPlan.fixableRuleIds.has(ruleId)
+    || pluginPlan.fixableBareRuleNames.has(ruleId)
+}
 
-      // Count fixable issues from the cached plugin plan.
-      const pluginPlan = getPluginPlan(cfg)
+// What the checks built into the scan look for, as plugin rules say it in `meta.docs`
+const CORE_RULE_DOCS: Record<string, string> = {
+  'format': 'Require files to be formatted as `pickier format` would',
+  'indent': 'Enforce the configured indentation',
+  'no-cond-assign': 'Disallow assignment operators in conditional expressions',
+  'no-console': 'Disallow the use of console',
+  'no-debugger': 'Disallow the use of debugger',
+  'no-template-curly-in-string': 'Disallow template literal placeholder syntax in regular strings',
+  'quotes': 'Enforce the configured quote style',
+  [UNUSED_DIRECTIVE_RULE_ID]: 'Report disable directives that suppress no issue',
+}
 
-      let fixableErrors = 0
-      let fixableWarnings = 0
-      for (const issue of allIssues) {
-        const ruleId = issue.ruleId as string
-        const isFixable = pluginPlan.fixableRuleIds.has(ruleId)
-          || pluginPlan.fixableBareRuleNames.has(ruleId)
-
-        if (isFixable) {
-          if (issue.severity === 'error')
-            fixableErrors++
-          else if (issue.severity === 'warning')
-            fixableWarnings++
-        }
-      }
+// The rule behind an issue in the plugin plan of its file's config, by full id or else bare name
+function ruleInfo(cfg: PickierConfig, ruleId: string, filePath: string): RuleInfo {
+  const fileCfg = configForFile(cfg, filePath)
+  const plan = getPluginPlan(fileCfg)
+  const bare = ruleId.slice(ruleId.indexOf('/') + 1)
+  const planned = [...plan.checkRules, ...plan.fixRules, ...plan.rangeFixRules]
+  const rule = planned.find(r => r.fullRuleId === ruleId) ?? planned.find(r => r.ruleName === bare)
+  return {
+    meta: rule?.rule.meta ?? (Object.hasOwn(CORE_RULE_DOCS, ruleId) ? { docs: CORE_RULE_DOCS[ruleId] } : undefined),
+    fixable: plan.fixableRuleIds.has(ruleId) || plan.fixableBareRuleNames.has(bare),
+  }
+}
 
-      // eslint-disable-next-line no-console
-      console.log()
-      // eslint-disable-next-line no-console
-      console.log(colors.red(`✖ ${total} ${problemsText} (${errors} ${errorsText}, ${warnings} ${warningsText})`))
+// The reporters of a run: `--reporter` or `lint.reporter`, and `--output-file`
+function createReport(cfg: PickierConfig, options: LintOptions): Promise<ReporterRun> {
+  const setting = options.reporter || cfg.lint.reporter
+  return createReporterRun(Array.isArray(setting) ? setting : [setting], {
+    cfg,
+    // Determine verbose mode with proper precedence: CLI option > config > default
+    verbose: !!(options.verbose !== undefined ? options.verbose : cfg.verbose),
+    ruleInfo: (ruleId, filePath) => ruleInfo(cfg, ruleId, filePath),
+    // --diff with fixes or formatting: the console is the patch's
+  }, { outputFile: options.outputFile, console: !(options.diff && options.fix) })
+}
 
-      if (fixableErrors > 0 || fixableWarnings > 0) {
-        const fixableErrorsText = fixableErrors === 1 ? 'error' : 'errors'
-        const fixableWarningsText = fixableWarnings === 1 ? 'warning' : 'warnings'
-        // eslint-disable-next-line no-console
-        console.log(colors.gray(`  ${fixableErrors} ${fixableErrorsText} and ${fixableWarnings} ${fixableWarningsText} potentially fixable with the \`--fix\` option.`))
-      }
+function lintSummary(issues: LintIssue[], fileCount: number, cfg: PickierConfig): LintSummary {
+  const errors = issues.filter(i => i.severity === 'error').length
+  const warnings = issues.filter(i => i.severity === 'warning').length
+  trace('issues:summary', { errors, warnings })
+  if (ENV.DIAGNOSTICS)
+    getLogger().info(`[pickier:diagnostics] Errors: ${errors}, Warnings: ${warnings}`)
+
+  // Count fixable issues from the cached plugin plan of each file's config.
+  let fixableErrors = 0
+  let fixableWarnings = 0
+  for (const issue of issues) {
+    if (isFixable(issue, cfg)) {
+      if (issue.severity === 'error')
+        fixableErrors++
+      else if (issue.severity === 'warning')
+        fixableWarnings++
     }
+  }
+  return { issues, errors, warnings, fixableErrors, fixableWarnings, fileCount }
+}
 
-    // Don't print summary for JSON reporter (would invalidate JSON output)
-    if (isVerbose && reporter !== 'json') {
-      // eslint-disable-next-line no-console
-      console.log(colors.gray(`Scanned ${files.length} files, found ${errors} errors and ${warnings} warnings.`))
-    }
+function exitCode({ errors, warnings }: LintSummary, cfg: PickierConfig, options: LintOptions): number {
+  const maxWarnings = options.maxWarnings ?? cfg.lint.maxWarnings
+  const failOnWarnings = ENV.FAIL_ON_WARNINGS
+  if (errors > 0) {
+    return 1
+  }
+  if (failOnWarnings && warnings > 0) {
+    return 1
+  }
+  if (maxWarnings >= 0 && warnings > maxWarnings) {
+    return 1
+  }
+  return 0
+}
+
+/**
+ * Hand `issues` to the configured reporters, file by file and then as a
+ * summary, and return the exit code they call for.
+ */
+export async function reportLintResults(allIssues: LintIssue[], fileCount: number, cfg: PickierConfig, options: LintOptions): Promise<number> {
+  const report = await createReport(cfg, options)
+  await report.start()
+  const byFile = new Map<string, LintIssue[]>()
+  for (const issue of allIssues) {
+    const list = byFile.get(issue.filePath) || []
+    list.push(issue)
+    byFile.set(issue.filePath, list)
+  }
+  for (const [filePath, issues] of byFile)
+    await report.file(filePath, issues)
+  const summary = lintSummary(allIssues, fileCount, cfg)
+  await report.end(summary)
+  return exitCode(summary, cfg, options)
+}
 
-    const maxWarnings = options.maxWarnings ?? cfg.lint.maxWarnings
-    const failOnWarnings = ENV.FAIL_ON_WARNINGS
-    if (errors > 0) {
+export async function runLint(globs: string[], options: LintOptions): Promise<number> {
+  trace('runLint:start', { globs, options })
+  const enableDiagnostics = ENV.DIAGNOSTICS
+  if (enableDiagnostics)
+    getLogger().info('[pickier:diagnostics] Starting lint process...')
+  // --timing: where the time went, on stderr so a report on stdout stays parseable
+  const timingFormat = options.timingJson ? 'json' : options.timing ? 'table' : ENV.TIMING
+  const timing = timingFormat ? startTiming() : undefined
+  try {
+    const cfg = await resolveLintConfig(options)
+    if (!cfg) {
       trace('runLint:end', 1)
       return 1
     }
-    if (failOnWarnings && warnings > 0) {
-      trace('runLint:end', 1)
+    const targets = await timePhase('walk', undefined, () => findLintFiles(globs, cfg, options))
+    if (!targets)
       return 1
+    const { files } = targets
+
+    // OPTIMIZATION: Parallel file processing with a bounded worker queue.
+    const concurrency = ENV.CONCURRENCY
+    if (enableDiagnostics)
+      getLogger().info(`[pickier:diagnostics] Starting to process ${files.length} files with concurrency ${concurrency}...`)
+
+    const changedLines = changedLinesIn(targets.roots, options)
+    const linter = createFileLinter(cfg, options, changedLines)
+    const report = await createReport(cfg, options)
+    await report.start()
+    // --diff-lines: everything is linted, only what's on a changed line is reported
+    const reported = (issues: LintIssue[]): LintIssue[] => changedLines ? issues.filter(i => linesChanged(changedLines, i.filePath, i.line)) : issues
+    // Files go to the reporters in order as they finish, unless a baseline needs every issue first
+    const streaming = options._formatOnly || !(options.baseline || options.baselineWrite)
+    const finished: Array<LintIssue[] | undefined> = []
+    let nextReported = 0
+    let reporting = Promise.resolve()
+    const reportFinished = (index: number, issues: LintIssue[]): Promise<void> => {
+      finished[index] = issues
+      reporting = reporting.then(async () => {
+        while (finished[nextReported]) {
+          await report.file(files[nextReported], finished[nextReported]!)
+          finished[nextReported++] = undefined
+        }
+      })
+      return reporting
     }
-    if (maxWarnings >= 0 && warnings > maxWarnings) {
-      trace('runLint:end', 1)
-      return 1
+    let processedCount = 0
+    const issueArrays = await processWithConcurrency(files, concurrency, async (file, index) => {
+      if (enableDiagnostics) {
+        processedCount++
+        if (processedCount === 1 || processedCount % 10 === 0 || processedCount === files.length)
+          getLogger().info(`[pickier:diagnostics] Processing file ${processedCount}/${files.length}: ${relative(process.cwd(), file)}`)
+      }
+      const issues = await linter.lintFile(file)
+      if (streaming)
+        await reportFinished(index, reported(issues))
+      return issues
+    })
+    await reporting
+    let allIssues = issueArrays.flat()
+    linter.save()
+    // --diff: the patch, in file order
+    for (const file of files) {
+      const patch = linter.diffs.get(file)
+      if (patch)
+        process.stdout.write(patch)
+    }
+    const { issues: reportedAll, baseline } = reportedIssues(files, allIssues, options, changedLines)
+    allIssues = reportedAll
+    if (enableDiagnostics)
+      getLogger().info(`[pickier:diagnostics] Processing complete! Found ${allIssues.length} issues total`)
+
+    if (!streaming) {
+      const byFile = new Map<string, LintIssue[]>(files.map(file => [file, []]))
+      for (const issue of allIssues) {
+        const list = byFile.get(issue.filePath)
+        if (list)
+          list.push(issue)
+        else
+          byFile.set(issue.filePath, [issue])
+      }
+      for (const [file, issues] of byFile)
+        await report.file(file, issues)
+    }
+    const summary = lintSummary(allIssues, files.length, cfg)
+    await report.end(summary)
+    const code = exitCode(summary, cfg, options)
+    if (baseline && !report.machineReadable)
+      // eslint-disable-next-line no-console
+      console.log(colors.gray(describeBaseline(baseline, options)))
+    if (timing) {
+      const result = timing.report()
+      process.stderr.write(`${timingFormat === 'json' ? JSON.stringify(result, null, 2) : formatTiming(result)}\n`)
     }
-    trace('runLint:end', 0)
-    return 0
+    trace('runLint:end', code)
+    return code
   }
   catch (e: any) {
     getLogger().error('[pickier:error] runLint failed:', e?.message || e)
     trace('runLint:exception', e)
     return 1
   }
+  finally {
+    if (timing)
+      stopTiming()
+  }
 }
@@ -0,0 +1,22 @@
+import type { PickierOverride } from './types'
+
+// The directory of the config file each override was declared in
+const overrideBases = new WeakMap<PickierOverride, string>()
+
+/**
+ * Resolve the globs of `overrides` against `dir`, the directory of the
+ * config file declaring them, rather than the working directory: a config
+ * means the same files wherever pickier runs from, and whichever config
+ * extends it.
+ */
+export function setOverrideBase(overrides: PickierOverride[], dir: string): void {
+  for (const override of overrides) {
+    if (!overrideBases.has(override))
+      overrideBases.set(override, dir)
+  }
+}
+
+// The directory `override`'s globs are relative to, if it came from a config file
+export function overrideBase(override: PickierOverride): string | undefined {
+  return overrideBases.get(override)
+}
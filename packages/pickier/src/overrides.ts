@@ -0,0 +1,86 @@
+import type { PickierConfig, PickierOverride } from './types'
+import { relative } from 'node:path'
+import { overrideBase } from './override-base'
+import { expandBraces, globToRegex } from './utils'
+
+// resolved configs per base config, keyed by the indices of the overrides that matched
+const resolvedCache = new WeakMap<PickierConfig, Map<string, PickierConfig>>()
+const patternCache = new Map<string, RegExp[]>()
+
+function compile(pattern: string): RegExp[] {
+  let compiled = patternCache.get(pattern)
+  if (!compiled) {
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '')
+    // like .gitignore: a pattern without a slash matches the name at any depth
+    const anchored = normalized.includes('/') ? normalized : `**/${normalized}`
+    compiled = expandBraces(anchored).map(globToRegex)
+    patternCache.set(pattern, compiled)
+  }
+  return compiled
+}
+
+function matchesAny(patterns: string[] | string | undefined, relPath: string): boolean {
+  if (!patterns)
+    return false
+  for (const pattern of Array.isArray(patterns) ? patterns : [patterns]) {
+    if (compile(pattern).some(re => re.test(relPath)))
+      return true
+  }
+  return false
+}
+
+/**
+ * Whether `override` applies to `filePath`. Its globs are relative to the
+ * directory of the config file that declared it (see `setOverrideBase()`),
+ * or to `cwd` for a config built in code; files outside that directory
+ * never match.
+ */
+export function overrideMatches(override: PickierOverride, filePath: string, cwd: string = process.cwd()): boolean {
+  const relPath = relative(overrideBase(override) ?? cwd, filePath).replace(/\\/g, '/')
+  if (relPath === '..' || relPath.startsWith('../'))
+    return false
+  return matchesAny(override.files, relPath) && !matchesAny(override.ignores, relPath)
+}
+
+/**
+ * The config that applies to `filePath`: the base config with every matching
+ * override merged on in order, later overrides winning. Results are memoized
+ * per combination of matching overrides, so all files sharing one get the
+ * same object, and caches keyed by config (such as the plugin rule plan) are
+ * built once per combination rather than once per file. The result has no
+ * `overrides` of its own, so resolving it again returns it unchanged.
+ */
+export function configForFile(cfg: PickierConfig, filePath: string): PickierConfig {
+  const overrides = cfg.overrides
+  if (!overrides || overrides.length === 0)
+    return cfg
+
+  const matched: number[] = []
+  for (let i = 0; i < overrides.length; i++) {
+    if (overrideMatches(overrides[i], filePath))
+      matched.push(i)
+  }
+
+  let byKey = resolvedCache.get(cfg)
+  if (!byKey) {
+    byKey = new Map()
+    resolvedCache.set(cfg, byKey)
+  }
+  const key = matched.join(',')
+  let resolved = byKey.get(key)
+  if (!resolved) {
+    resolved = { ...cfg, overrides: undefined }
+    for (const i of matched) {
+      const override = overrides[i]
+      resolved = {
+        ...resolved,
+        rules: { ...resolved.rules, ...override.rules },
+        pluginRules: { ...resolved.pluginRules, ...override.pluginRules },
+        format: { ...resolved.format, ...override.format },
+        lint: { ...resolved.lint, ...override.lint },
+      }
+    }
+    byKey.set(key, resolved)
+  }
+  return resolved
+}
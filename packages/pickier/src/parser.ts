@@ -0,0 +1,3593 @@
+// Recursive-descent parser for JavaScript, TypeScript and JSX (no deps).
+// Produces an ESTree-shaped tree using the node and field names of ESLint /
+// typescript-estree so rules can match syntax instead of scanning lines.
+// Locations follow `ast.ts`: `line` and `column` are both 1-based, like `LintIssue`.
+import type { Loc, Token } from './ast'
+
+export interface Node {
+  type: string
+  start: number
+  end: number
+  range: [number, number]
+  loc: { start: Loc, end: Loc }
+  parent?: Node | null
+  [key: string]: any
+}
+
+export interface Comment {
+  type: 'Line' | 'Block'
+  value: string
+  start: number
+  end: number
+  range: [number, number]
+  loc: { start: Loc, end: Loc }
+}
+
+export interface Program extends Node {
+  type: 'Program'
+  body: Node[]
+  sourceType: 'module' | 'script'
+  comments: Comment[]
+  tokens: Token[]
+}
+
+export interface ParseOptions {
+  // Used to infer `typescript` / `jsx` when they are not given explicitly
+  filePath?: string
+  typescript?: boolean
+  jsx?: boolean
+}
+
+export interface ParseError extends SyntaxError {
+  index: number
+  line: number
+  column: number
+}
+
+export function isParseError(err: unknown): err is ParseError {
+  return err instanceof SyntaxError && typeof (err as ParseError).index === 'number'
+}
+
+export function isParsableFile(filePath: string): boolean {
+  return /\.(?:[cm]?[jt]sx?)$/i.test(filePath)
+}
+
+type TokType = 'name' | 'keyword' | 'punct' | 'num' | 'string' | 'template' | 'regex' | 'private' | 'jsxText' | 'eof'
+
+interface Tok {
+  type: TokType
+  value: string
+  start: number
+  end: number
+  // a line terminator precedes this token (drives ASI and restricted productions)
+  nl: boolean
+  escaped?: boolean
+  cooked?: string | null
+  raw?: string
+  tail?: boolean
+  chunkStart?: number
+  chunkEnd?: number
+  regex?: { pattern: string, flags: string }
+  jsx?: boolean
+}
+
+interface State { pos: number, tok: Tok, lastEnd: number, tokens: number, comments: number }
+interface ParserContext { inFunction: boolean, inAsync: boolean, inGenerator: boolean, noIn: boolean }
+
+const KEYWORDS = new Set(['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with'])
+const PUNCT3 = new Set(['...', '===', '!==', '**=', '<<=', '&&=', '||=', '??='])
+const PUNCT2 = new Set(['=>', '==', '!=', '<=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<'])
+const ASSIGN_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '>>=', '>>>=', '&=', '|=', '^=', '&&=', '||=', '??='])
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 1,
+  '&&': 2,
+  '|': 3,
+  '^': 4,
+  '&': 5,
+  '==': 6,
+  '!=': 6,
+  '===': 6,
+  '!==': 6,
+  '<': 7,
+  '>': 7,
+  '<=': 7,
+  '>=': 7,
+  'instanceof': 7,
+  'in': 7,
+  '<<': 8,
+  '>>': 8,
+  '>>>': 8,
+  '+': 9,
+  '-': 9,
+  '*': 10,
+  '/': 10,
+  '%': 10,
+  '**': 11,
+}
+const TS_KEYWORD_TYPES: Record<string, string> = {
+  any: 'TSAnyKeyword',
+  unknown: 'TSUnknownKeyword',
+  number: 'TSNumberKeyword',
+  string: 'TSStringKeyword',
+  boolean: 'TSBooleanKeyword',
+  bigint: 'TSBigIntKeyword',
+  symbol: 'TSSymbolKeyword',
+  object: 'TSObjectKeyword',
+  never: 'TSNeverKeyword',
+  undefined: 'TSUndefinedKeyword',
+  intrinsic: 'TSIntrinsicKeyword',
+}
+const TOKEN_TYPES: Record<TokType, string> = {
+  name: 'Identifier',
+  keyword: 'Keyword',
+  punct: 'Punctuator',
+  num: 'Numeric',
+  string: 'String',
+  template: 'Template',
+  regex: 'RegularExpression',
+  private: 'PrivateIdentifier',
+  jsxText: 'JSXText',
+  eof: 'EOF',
+}
+const CLASS_MODIFIERS = new Set(['declare', 'public', 'private', 'protected', 'readonly', 'abstract', 'override', 'static', 'accessor'])
+const TS_DECLARATION_WORDS = new Set(['interface', 'type', 'namespace', 'module', 'global', 'abstract', 'declare'])
+const PARAM_MODIFIERS = new Set(['public', 'private', 'protected', 'readonly', 'override'])
+const ID_START = /[\p{ID_Start}$_]/u
+const ID_CONTINUE = /[\p{ID_Continue}$\u200C\u200D]/u
+// Thrown instead of a SyntaxError while speculating so failed attempts stay cheap
+const BAIL = { bail: true }
+
+function isIdStart(c: number): boolean {
+  if (c < 128)
+    return (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || c === 36 || c === 95
+  return ID_START.test(String.fromCodePoint(c))
+}
+
+function isIdPart(c: number): boolean {
+  if (c < 128)
+    return (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || (c >= 48 && c <= 57) || c === 36 || c === 95
+  return ID_CONTINUE.test(String.fromCodePoint(c))
+}
+
+function isNewline(c: number): boolean {
+  return c === 10 || c === 13 || c === 0x2028 || c === 0x2029
+}
+
+function isDigit(c: number): boolean {
+  return c >= 48 && c <= 57
+}
+
+export function parse(text: string, options: ParseOptions = {}): Program {
+  const file = options.filePath || ''
+  const ts = options.typescript ?? (file ? /\.[cm]?tsx?$/i.test(file) : true)
+  const jsx = options.jsx ?? (file ? /\.(?:[jt]sx|[cm]?js)$/i.test(file) : false)
+  const n = text.length
+
+  const lineStarts: number[] = [0]
+  for (let i = 0; i < n; i++) {
+    if (text.charCodeAt(i) === 10)
+      lineStarts.push(i + 1)
+  }
+
+  const comments: Comment[] = []
+  const tokens: Token[] = []
+  let pos = 0
+  let tok: Tok = { type: 'eof', value: '', start: 0, end: 0, nl: false }
+  let lastEnd = 0
+  let speculating = 0
+  let inFunction = false
+  let inAsync = false
+  let inGenerator = false
+  let noIn = false
+  let sawModuleSyntax = false
+  // start offsets of `(` that already failed to parse as arrow parameters
+  const notArrowAt = new Set<number>()
+  const notFunctionTypeAt = new Set<number>()
+  // start offset of the current conditional consequent (see parseArrowAt)
+  let consequentStart = -1
+  let inExtendsClause = false
+
+  function locAt(index: number): Loc {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= index)
+        lo = mid
+      else hi = mid - 1
+    }
+    return { line: lo + 1, column: index - lineStarts[lo] + 1 }
+  }
+
+  function raise(at: number, message: string): never {
+    if (speculating > 0)
+      throw BAIL
+    const loc = locAt(at)
+    const err = new SyntaxError(`${message} (${loc.line}:${loc.column})`) as ParseError
+    err.index = at
+    err.line = loc.line
+    err.column = loc.column
+    throw err
+  }
+
+  function unexpected(t: Tok = tok): never {
+    raise(t.start, t.type === 'eof' ? 'Unexpected end of input' : `Unexpected token ${t.value}`)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tokenizer
+
+  function pushComment(type: 'Line' | 'Block', start: number, valueStart: number, valueEnd: number, end: number): void {
+    comments.push({ type, value: text.slice(valueStart, valueEnd), start, end, range: [start, end], loc: { start: locAt(start), end: locAt(end) } })
+  }
+
+  function skipSpace(): boolean {
+    let nl = false
+    while (pos < n) {
+      const c = text.charCodeAt(pos)
+      if (c === 32 || c === 9 || c === 11 || c === 12 || c === 0xA0 || c === 0xFEFF) {
+        pos++
+      }
+      else if (isNewline(c)) {
+        nl = true
+        pos++
+      }
+      else if (c === 47 && text.charCodeAt(pos + 1) === 47) {
+        const s = pos
+        pos += 2
+        while (pos < n && !isNewline(text.charCodeAt(pos))) pos++
+        pushComment('Line', s, s + 2, pos, pos)
+      }
+      else if (c === 47 && text.charCodeAt(pos + 1) === 42) {
+        const s = pos
+        const e = text.indexOf('*/', pos + 2)
+        if (e < 0)
+          raise(s, 'Unterminated comment')
+        if (!nl && /[\n\r\u2028\u2029]/.test(text.slice(s, e)))
+          nl = true
+        pos = e + 2
+        pushComment('Block', s, s + 2, e, pos)
+      }
+      else if (c > 127 && /\s/.test(text[pos])) {
+        pos++
+      }
+      else {
+        break
+      }
+    }
+    return nl
+  }
+
+  function scan(): void {
+    const nl = skipSpace()
+    const start = pos
+    if (pos >= n) {
+      tok = { type: 'eof', value: '', start: n, end: n, nl: true }
+      return
+    }
+    const c = text.charCodeAt(pos)
+    if (c === 92 || isIdStart(c < 128 ? c : text.codePointAt(pos)!)) {
+      tok = readWord(start, nl)
+      return
+    }
+    if (isDigit(c) || (c === 46 && isDigit(text.charCodeAt(pos + 1)))) {
+      tok = readNumber(start, nl)
+      return
+    }
+    if (c === 34 || c === 39) {
+      tok = readString(start, nl, c)
+      return
+    }
+    if (c === 96) {
+      tok = readTemplate(start + 1, start, nl)
+      return
+    }
+    if (c === 35 && pos + 1 < n && isIdStart(text.codePointAt(pos + 1)!)) {
+      pos++
+      const word = readWord(pos, nl)
+      tok = { type: 'private', value: word.value, start, end: word.end, nl }
+      return
+    }
+    let value = text.slice(pos, pos + 3)
+    if (!PUNCT3.has(value)) {
+      value = value.slice(0, 2)
+      if (!PUNCT2.has(value) || (value === '?.' && isDigit(text.charCodeAt(pos + 2))))
+        value = text[pos]
+    }
+    pos += value.length
+    tok = { type: 'punct', value, start, end: pos, nl }
+  }
+
+  function readWord(start: number, nl: boolean): Tok {
+    let word = ''
+    let chunk = pos
+    let escaped = false
+    while (pos < n) {
+      const c = text.charCodeAt(pos)
+      if (c < 128) {
+        if (isIdPart(c)) {
+          pos++
+          continue
+        }
+        if (c !== 92)
+          break
+        word += text.slice(chunk, pos)
+        if (text.charCodeAt(pos + 1) !== 117)
+          raise(pos, 'Expecting Unicode escape sequence \\uXXXX')
+        pos += 2
+        word += String.fromCodePoint(readCodePoint() ?? 0)
+        escaped = true
+        chunk = pos
+        continue
+      }
+      const cp = text.codePointAt(pos)!
+      if (!isIdPart(cp))
+        break
+      pos += cp > 0xFFFF ? 2 : 1
+    }
+    word += text.slice(chunk, pos)
+    return { type: !escaped && KEYWORDS.has(word) ? 'keyword' : 'name', value: word, start, end: pos, nl, escaped }
+  }
+
+  // Reads the code point of a `\u` escape; `pos` is just past the `u`
+  function readCodePoint(): number | null {
+    let hex: string
+    if (text.charCodeAt(pos) === 123) {
+      const close = text.indexOf('}', pos)
+      if (close < 0)
+        return null
+      hex = text.slice(pos + 1, close)
+      pos = close + 1
+    }
+    else {
+      hex = text.slice(pos, pos + 4)
+      pos += 4
+    }
+    if (!/^[0-9a-f]+$/i.test(hex))
+      return null
+    const cp = Number.parseInt(hex, 16)
+    return cp > 0x10FFFF ? null : cp
+  }
+
+  function readNumber(start: number, nl: boolean): Tok {
+    const c = text.charCodeAt(pos)
+    const radix = c === 48 ? text.charCodeAt(pos + 1) | 32 : 0
+    if (radix === 120 || radix === 111 || radix === 98) {
+      pos += 2
+      while (pos < n && /[\w]/.test(text[pos])) pos++
+    }
+    else {
+      while (pos < n && (isDigit(text.charCodeAt(pos)) || text[pos] === '_')) pos++
+      if (text[pos] === '.') {
+        pos++
+        while (pos < n && (isDigit(text.charCodeAt(pos)) || text[pos] === '_')) pos++
+      }
+      if ((text.charCodeAt(pos) | 32) === 101) {
+        const sign = text[pos + 1] === '+' || text[pos + 1] === '-' ? 1 : 0
+        if (isDigit(text.charCodeAt(pos + 1 + sign))) {
+          pos += 1 + sign
+          while (pos < n && (isDigit(text.charCodeAt(pos)) || text[pos] === '_')) pos++
+        }
+      }
+      if (text[pos] === 'n')
+        pos++
+    }
+    if (pos < n && isIdStart(text.codePointAt(pos)!))
+      raise(pos, 'Identifier directly after number')
+    return { type: 'num', value: text.slice(start, pos), start, end: pos, nl }
+  }
+
+  // Reads an escape sequence starting at the backslash. Returns null for
+  // escapes that are only tolerated in tagged templates.
+  function readEscape(inTemplate: boolean): string | null {
+    const at = pos
+    pos++
+    const c = text.codePointAt(pos)!
+    pos += c > 0xFFFF ? 2 : 1
+    switch (c) {
+      case 110: return '\n'
+      case 114: return '\r'
+      case 116: return '\t'
+      case 98: return '\b'
+      case 102: return '\f'
+      case 118: return '\v'
+      case 13:
+        if (text.charCodeAt(pos) === 10)
+          pos++
+        return ''
+      case 10:
+      case 0x2028:
+      case 0x2029:
+        return ''
+      case 120: {
+        const hex = text.slice(pos, pos + 2)
+        if (!/^[0-9a-f]{2}$/i.test(hex))
+          return inTemplate ? null : text.slice(at, pos)
+        pos += 2
+        return String.fromCharCode(Number.parseInt(hex, 16))
+      }
+      case 117: {
+        const cp = readCodePoint()
+        if (cp === null)
+          return inTemplate ? null : text.slice(at, pos)
+        return String.fromCodePoint(cp)
+      }
+      default:
+        if (c >= 48 && c <= 55) {
+          if (c === 48 && !isDigit(text.charCodeAt(pos)))
+            return '\0'
+          if (inTemplate)
+            return null
+          let digits = String.fromCharCode(c)
+          while (digits.length < 3 && /[0-7]/.test(text[pos] || '')) digits += text[pos++]
+          return String.fromCharCode(Number.parseInt(digits, 8))
+        }
+        if ((c === 56 || c === 57) && inTemplate)
+          return null
+        return String.fromCodePoint(c)
+    }
+  }
+
+  function readString(start: number, nl: boolean, quote: number): Tok {
+    pos++
+    let out = ''
+    let chunk = pos
+    for (;;) {
+      if (pos >= n)
+        raise(start, 'Unterminated string constant')
+      const c = text.charCodeAt(pos)
+      if (c === quote)
+        break
+      if (c === 92) {
+        out += text.slice(chunk, pos)
+        out += readEscape(false)
+        chunk = pos
+        continue
+      }
+      if (c === 10 || c === 13)
+        raise(start, 'Unterminated string constant')
+      pos++
+    }
+    out += text.slice(chunk, pos)
+    pos++
+    return { type: 'string', value: text.slice(start, pos), cooked: out, start, end: pos, nl }
+  }
+
+  // Reads one template chunk beginning at `from` (just past "`" or "}")
+  function readTemplate(from: number, start: number, nl: boolean): Tok {
+    pos = from
+    let cooked: string | null = ''
+    let chunk = pos
+    let tail = false
+    for (;;) {
+      if (pos >= n)
+        raise(start, 'Unterminated template')
+      const c = text.charCodeAt(pos)
+      if (c === 96) {
+        tail = true
+        break
+      }
+      if (c === 36 && text.charCodeAt(pos + 1) === 123)
+        break
+      if (c === 92) {
+        const before: string = text.slice(chunk, pos)
+        const esc = readEscape(true)
+        cooked = cooked === null || esc === null ? null : cooked + before + esc
+        chunk = pos
+        continue
+      }
+      pos++
+    }
+    const chunkEnd = pos
+    if (cooked !== null)
+      cooked += text.slice(chunk, pos)
+    pos += tail ? 1 : 2
+    return {
+      type: 'template',
+      value: text.slice(start, pos),
+      start,
+      end: pos,
+      nl,
+      cooked: cooked === null ? null : cooked.replace(/\r\n?/g, '\n'),
+      raw: text.slice(from, chunkEnd).replace(/\r\n?/g, '\n'),
+      tail,
+      chunkStart: from,
+      chunkEnd,
+    }
+  }
+
+  // The current `/` or `/=` token starts a regular expression literal
+  function rescanRegex(): void {
+    const start = tok.start
+    pos = start + 1
+    let inClass = false
+    for (;;) {
+      if (pos >= n || isNewline(text.charCodeAt(pos)))
+        raise(start, 'Unterminated regular expression')
+      const ch = text[pos]
+      if (ch === '\\') {
+        pos += 2
+        continue
+      }
+      if (ch === '[')
+        inClass = true
+      else if (ch === ']')
+        inClass = false
+      else if (ch === '/' && !inClass)
+        break
+      pos++
+    }
+    const pattern = text.slice(start + 1, pos)
+    pos++
+    const flagsStart = pos
+    while (pos < n && isIdPart(text.charCodeAt(pos))) pos++
+    tok = { type: 'regex', value: text.slice(start, pos), start, end: pos, nl: tok.nl, regex: { pattern, flags: text.slice(flagsStart, pos) } }
+  }
+
+  // The current `}` token closes a template substitution
+  function rescanTemplateContinuation(): void {
+    if (!is('}'))
+      unexpected()
+    tok = readTemplate(tok.start + 1, tok.start, tok.nl)
+  }
+
+  // `>` is always scanned alone so type argument lists can close one at a
+  // time; in operator position merge it with what follows.
+  function rescanGreater(): void {
+    if (tok.type !== 'punct' || tok.value !== '>')
+      return
+    let value = '>'
+    for (const op of ['>>>=', '>>>', '>>=', '>>', '>=']) {
+      if (text.startsWith(op, tok.start)) {
+        value = op
+        break
+      }
+    }
+    if (value !== '>') {
+      tok = { ...tok, value, end: tok.start + value.length }
+      pos = tok.end
+    }
+  }
+
+  // `Foo<<T>() => T>` opens type arguments with a `<<` token; split it in two
+  function splitShiftLeft(): void {
+    if (!is('<<'))
+      return
+    tok = { ...tok, value: '<', end: tok.start + 1 }
+    pos = tok.end
+  }
+
+  function next(): void {
+    if (tok.type !== 'eof')
+      tokens.push(exportToken(tok))
+    lastEnd = tok.end
+    scan()
+  }
+
+  function exportToken(t: Tok): Token {
+    let type = TOKEN_TYPES[t.type]
+    if (t.jsx)
+      type = 'JSXIdentifier'
+    else if (t.type === 'keyword' && (t.value === 'true' || t.value === 'false'))
+      type = 'Boolean'
+    else if (t.type === 'keyword' && t.value === 'null')
+      type = 'Null'
+    return { type, value: t.value, start: t.start, end: t.end }
+  }
+
+  function save(): State {
+    return { pos, tok, lastEnd, tokens: tokens.length, comments: comments.length }
+  }
+
+  function restore(s: State): void {
+    pos = s.pos
+    tok = s.tok
+    lastEnd = s.lastEnd
+    tokens.length = s.tokens
+    comments.length = s.comments
+  }
+
+  function peek(): Tok {
+    const s = save()
+    try {
+      next()
+      return tok
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  function tryParse<T>(fn: () => T): T | undefined {
+    const s = save()
+    const ctx = { inFunction, inAsync, inGenerator, noIn }
+    speculating++
+    try {
+      return fn()
+    }
+    catch (e) {
+      if (e !== BAIL)
+        throw e
+      restore(s)
+      restoreContext(ctx)
+      return undefined
+    }
+    finally {
+      speculating--
+    }
+  }
+
+  function is(value: string): boolean {
+    return tok.type === 'punct' && tok.value === value
+  }
+
+  // Reads `tok` afresh; comparisons on `tok.type` stay narrowed across `next()`
+  function isType(type: TokType): boolean {
+    return tok.type === type
+  }
+
+  function isKw(value: string): boolean {
+    return tok.type === 'keyword' && tok.value === value
+  }
+
+  function isName(value?: string): boolean {
+    return tok.type === 'name' && (value === undefined || (tok.value === value && !tok.escaped))
+  }
+
+  function isWordToken(t: Tok): boolean {
+    return t.type === 'name' || t.type === 'keyword'
+  }
+
+  function eat(value: string): boolean {
+    if (is(value)) {
+      next()
+      return true
+    }
+    return false
+  }
+
+  function expect(value: string): void {
+    if (!eat(value))
+      unexpected()
+  }
+
+  function semicolon(): void {
+    if (eat(';') || is('}') || tok.type === 'eof' || tok.nl)
+      return
+    unexpected()
+  }
+
+  function restoreContext(ctx: ParserContext): void {
+    inFunction = ctx.inFunction
+    inAsync = ctx.inAsync
+    inGenerator = ctx.inGenerator
+    noIn = ctx.noIn
+  }
+
+  function withContext<T>(ctx: Partial<ParserContext>, fn: () => T): T {
+    const saved = { inFunction, inAsync, inGenerator, noIn }
+    restoreContext({ ...saved, ...ctx })
+    try {
+      return fn()
+    }
+    finally {
+      restoreContext(saved)
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+
+  function startNode(start: number = tok.start): Node {
+    return { type: '', start, end: start, range: [start, start], loc: undefined as unknown as Node['loc'] }
+  }
+
+  function finish<T extends Node>(node: T, type: string, end: number = lastEnd): T {
+    node.type = type
+    node.end = end
+    node.range = [node.start, end]
+    node.loc = { start: locAt(node.start), end: locAt(end) }
+    return node
+  }
+
+  function identifier(start: number, name: string): Node {
+    const node = startNode(start)
+    node.name = name
+    return node
+  }
+
+  function parseIdent(allowKeywords = false): Node {
+    if (tok.type !== 'name' && !(allowKeywords && tok.type === 'keyword'))
+      unexpected()
+    const node = identifier(tok.start, tok.value)
+    next()
+    return finish(node, 'Identifier')
+  }
+
+  function parseBindingIdent(): Node {
+    return parseIdent(false)
+  }
+
+  function parsePrivateName(): Node {
+    const node = identifier(tok.start, tok.value)
+    next()
+    return finish(node, 'PrivateIdentifier')
+  }
+
+  function literalFromToken(): Node {
+    const node = startNode()
+    const t = tok
+    node.raw = t.value
+    if (t.type === 'string') {
+      node.value = t.cooked
+    }
+    else if (t.type === 'num') {
+      const digits = t.value.replace(/_/g, '')
+      if (digits.endsWith('n')) {
+        node.bigint = digits.slice(0, -1)
+        try {
+          node.value = BigInt(node.bigint)
+        }
+        catch {
+          node.value = null
+        }
+      }
+      else if (/^0\d+$/.test(digits) && /^[0-7]+$/.test(digits)) {
+        node.value = Number.parseInt(digits, 8)
+      }
+      else {
+        node.value = Number(digits)
+      }
+    }
+    else if (t.type === 'regex') {
+      node.regex = t.regex
+      try {
+        node.value = new RegExp(t.regex!.pattern, t.regex!.flags)
+      }
+      catch {
+        node.value = null
+      }
+    }
+    else if (t.value === 'null') {
+      node.value = null
+    }
+    else {
+      node.value = t.value === 'true'
+    }
+    next()
+    return finish(node, 'Literal')
+  }
+
+  // Extends an already finished node to cover a type annotation that follows it
+  function withTypeAnnotation(node: Node): Node {
+    if (ts && is(':')) {
+      node.typeAnnotation = parseTypeAnnotation()
+      finish(node, node.type)
+    }
+    return node
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+
+  function parseTopLevel(): Program {
+    const program = startNode(0) as Program
+    scan()
+    program.body = parseStatementList(true, () => tok.type === 'eof')
+    program.sourceType = sawModuleSyntax ? 'module' : 'script'
+    program.comments = comments
+    program.tokens = tokens
+    return finish(program, 'Program', n)
+  }
+
+  function parseStatementList(allowDirectives: boolean, done: () => boolean): Node[] {
+    const body: Node[] = []
+    let directives = allowDirectives
+    while (!done()) {
+      if (tok.type === 'eof')
+        unexpected()
+      const stmt = parseStatement()
+      if (directives) {
+        if (stmt.type === 'ExpressionStatement' && stmt.expression.type === 'Literal' && typeof stmt.expression.value === 'string' && stmt.expression.start === stmt.start)
+          stmt.directive = stmt.expression.raw.slice(1, -1)
+        else directives = false
+      }
+      body.push(stmt)
+    }
+    return body
+  }
+
+  function parseBlock(): Node {
+    const node = startNode()
+    expect('{')
+    node.body = parseStatementList(false, () => is('}'))
+    next()
+    return finish(node, 'BlockStatement')
+  }
+
+  function parseStatement(): Node {
+    const start = tok.start
+    if (tok.type === 'punct') {
+      if (is('{'))
+        return parseBlock()
+      if (is(';')) {
+        const node = startNode()
+        next()
+        return finish(node, 'EmptyStatement')
+      }
+      if (is('@'))
+        return parseDecoratedStatement()
+    }
+    else if (tok.type === 'keyword') {
+      switch (tok.value) {
+        case 'var':
+          return parseVarStatement(startNode(), 'var')
+        case 'const':
+          if (peek().value === 'enum') {
+            next()
+            return parseEnum(startNode(start), { const: true })
+          }
+          return parseVarStatement(startNode(), 'const')
+        case 'function':
+          return parseFunction(startNode(), true, false)
+        case 'class':
+          return parseClass(startNode(), true)
+        case 'if': return parseIf()
+        case 'for': return parseFor()
+        case 'while': {
+          const node = startNode()
+          next()
+          node.test = parseParenExpression()
+          node.body = parseStatement()
+          return finish(node, 'WhileStatement')
+        }
+        case 'do': {
+          const node = startNode()
+          next()
+          node.body = parseStatement()
+          if (!isKw('while'))
+            unexpected()
+          next()
+          node.test = parseParenExpression()
+          eat(';')
+          return finish(node, 'DoWhileStatement')
+        }
+        case 'return': {
+          const node = startNode()
+          next()
+          node.argument = is(';') || is('}') || isType('eof') || tok.nl ? null : parseExpression()
+          semicolon()
+          return finish(node, 'ReturnStatement')
+        }
+        case 'break':
+        case 'continue': {
+          const node = startNode()
+          const type = tok.value === 'break' ? 'BreakStatement' : 'ContinueStatement'
+          next()
+          node.label = isType('name') && !tok.nl ? parseIdent() : null
+          semicolon()
+          return finish(node, type)
+        }
+        case 'throw': {
+          const node = startNode()
+          next()
+          node.argument = parseExpression()
+          semicolon()
+          return finish(node, 'ThrowStatement')
+        }
+        case 'try': return parseTry()
+        case 'switch': return parseSwitch()
+        case 'with': {
+          const node = startNode()
+          next()
+          node.object = parseParenExpression()
+          node.body = parseStatement()
+          return finish(node, 'WithStatement')
+        }
+        case 'debugger': {
+          const node = startNode()
+          next()
+          semicolon()
+          return finish(node, 'DebuggerStatement')
+        }
+        case 'import': {
+          const after = peek()
+          if (!(after.type === 'punct' && (after.value === '(' || after.value === '.')))
+            return parseImport(startNode())
+          break
+        }
+        case 'export':
+          return parseExport(startNode(), [])
+        case 'enum':
+          return parseEnum(startNode(), {})
+      }
+    }
+    else if (tok.type === 'name' && !tok.escaped) {
+      switch (tok.value) {
+        case 'let': {
+          const after = peek()
+          if (after.type === 'name' || (after.type === 'punct' && (after.value === '[' || after.value === '{')))
+            return parseVarStatement(startNode(), 'let')
+          break
+        }
+        case 'async': {
+          const after = peek()
+          if (after.type === 'keyword' && after.value === 'function' && !after.nl) {
+            const node = startNode()
+            next()
+            return parseFunction(node, true, true)
+          }
+          break
+        }
+        case 'using': {
+          const after = peek()
+          if (after.type === 'name' && !after.nl)
+            return parseVarStatement(startNode(), 'using')
+          break
+        }
+        case 'await': {
+          const after = peek()
+          if (after.type === 'name' && after.value === 'using' && !after.nl) {
+            const node = startNode()
+            next()
+            return parseVarStatement(node, 'await using')
+          }
+          break
+        }
+      }
+      if (ts && TS_DECLARATION_WORDS.has(tok.value)) {
+        const decl = parseTsDeclarationStatement(startNode(), false)
+        if (decl)
+          return decl
+      }
+      const after = peek()
+      if (after.type === 'punct' && after.value === ':') {
+        const node = startNode()
+        node.label = parseIdent()
+        next()
+        node.body = parseStatement()
+        return finish(node, 'LabeledStatement')
+      }
+    }
+    const node = startNode()
+    node.expression = parseExpression()
+    semicolon()
+    return finish(node, 'ExpressionStatement')
+  }
+
+  function parseParenExpression(): Node {
+    expect('(')
+    const expr = withContext({ noIn: false }, parseExpression)
+    expect(')')
+    return expr
+  }
+
+  function parseIf(): Node {
+    const node = startNode()
+    next()
+    node.test = parseParenExpression()
+    node.consequent = parseStatement()
+    node.alternate = null
+    if (isKw('else')) {
+      next()
+      node.alternate = parseStatement()
+    }
+    return finish(node, 'IfStatement')
+  }
+
+  function parseFor(): Node {
+    const node = startNode()
+    next()
+    node.await = false
+    if (isName('await')) {
+      node.await = true
+      next()
+    }
+    expect('(')
+    let init: Node | null = null
+    if (!is(';')) {
+      const kind = declarationKindAt()
+      if (kind) {
+        const decl = startNode()
+        if (kind === 'await using')
+          next()
+        init = withContext({ noIn: true }, () => parseVar(decl, kind))
+      }
+      else {
+        init = withContext({ noIn: true }, parseExpression)
+      }
+    }
+    if (init && (isKw('in') || isName('of'))) {
+      const type = isKw('in') ? 'ForInStatement' : 'ForOfStatement'
+      next()
+      node.left = init.type === 'VariableDeclaration' ? init : toAssignable(init)
+      node.right = type === 'ForOfStatement' ? withContext({ noIn: false }, parseMaybeAssign) : withContext({ noIn: false }, parseExpression)
+      expect(')')
+      node.body = parseStatement()
+      if (type === 'ForInStatement')
+        delete node.await
+      return finish(node, type)
+    }
+    delete node.await
+    node.init = init
+    expect(';')
+    node.test = is(';') ? null : withContext({ noIn: false }, parseExpression)
+    expect(';')
+    node.update = is(')') ? null : withContext({ noIn: false }, parseExpression)
+    expect(')')
+    node.body = parseStatement()
+    return finish(node, 'ForStatement')
+  }
+
+  // Kind of the declaration starting at the current token in a for-head, if any
+  function declarationKindAt(): string | null {
+    if (isKw('var') || isKw('const'))
+      return tok.value
+    if (isName('let')) {
+      const after = peek()
+      if (after.type === 'name' || (after.type === 'punct' && (after.value === '[' || after.value === '{')))
+        return 'let'
+    }
+    if (isName('using')) {
+      const after = peek()
+      if (after.type === 'name' && after.value !== 'of')
+        return 'using'
+    }
+    if (isName('await') && peek().value === 'using')
+      return 'await using'
+    return null
+  }
+
+  function parseVarStatement(node: Node, kind: string): Node {
+    parseVar(node, kind)
+    semicolon()
+    return finish(node, 'VariableDeclaration')
+  }
+
+  // Parses declarators after the kind keyword (current token); does not consume `;`
+  function parseVar(node: Node, kind: string): Node {
+    next()
+    node.kind = kind
+    node.declarations = []
+    do {
+      const decl = startNode()
+      decl.id = parseBindingAtom()
+      if (ts && is('!')) {
+        next()
+        decl.definite = true
+      }
+      withTypeAnnotation(decl.id)
+      decl.init = eat('=') ? parseMaybeAssign() : null
+      node.declarations.push(finish(decl, 'VariableDeclarator'))
+    } while (eat(','))
+    return finish(node, 'VariableDeclaration')
+  }
+
+  function parseTry(): Node {
+    const node = startNode()
+    next()
+    node.block = parseBlock()
+    node.handler = null
+    node.finalizer = null
+    if (isKw('catch')) {
+      const clause = startNode()
+      next()
+      clause.param = null
+      if (eat('(')) {
+        clause.param = withTypeAnnotation(parseBindingAtom())
+        expect(')')
+      }
+      clause.body = parseBlock()
+      node.handler = finish(clause, 'CatchClause')
+    }
+    if (isKw('finally')) {
+      next()
+      node.finalizer = parseBlock()
+    }
+    if (!node.handler && !node.finalizer)
+      raise(node.start, 'Missing catch or finally clause')
+    return finish(node, 'TryStatement')
+  }
+
+  function parseSwitch(): Node {
+    const node = startNode()
+    next()
+    node.discriminant = parseParenExpression()
+    node.cases = []
+    expect('{')
+    while (!eat('}')) {
+      const c = startNode()
+      if (isKw('case')) {
+        next()
+        c.test = parseExpression()
+      }
+      else if (isKw('default')) {
+        next()
+        c.test = null
+      }
+      else {
+        unexpected()
+      }
+      expect(':')
+      c.consequent = parseStatementList(false, () => is('}') || isKw('case') || isKw('default'))
+      node.cases.push(finish(c, 'SwitchCase'))
+    }
+    return finish(node, 'SwitchStatement')
+  }
+
+  function parseDecoratedStatement(): Node {
+    const start = tok.start
+    const decorators = parseDecorators()
+    if (isKw('export'))
+      return parseExport(startNode(start), decorators)
+    const node = startNode(start)
+    if (isName('abstract')) {
+      next()
+      return parseClass(node, true, { abstract: true, decorators })
+    }
+    if (!isKw('class'))
+      unexpected()
+    return parseClass(node, true, { decorators })
+  }
+
+  function parseDecorators(): Node[] {
+    const decorators: Node[] = []
+    while (is('@')) {
+      const node = startNode()
+      next()
+      const start = tok.start
+      let expr: Node
+      if (is('(')) {
+        next()
+        expr = parseExpression()
+        expect(')')
+      }
+      else {
+        expr = parseIdent(true)
+        while (is('.')) {
+          next()
+          const member = startNode(start)
+          member.object = expr
+          member.property = tok.type === 'private' ? parsePrivateName() : parseIdent(true)
+          member.computed = false
+          member.optional = false
+          expr = finish(member, 'MemberExpression')
+        }
+        let typeArguments: Node | undefined
+        if (ts && is('<'))
+          typeArguments = parseTypeArguments()
+        if (is('(')) {
+          const call = startNode(start)
+          call.callee = expr
+          call.arguments = parseCallArguments()
+          call.optional = false
+          if (typeArguments)
+            call.typeArguments = typeArguments
+          expr = finish(call, 'CallExpression')
+        }
+      }
+      node.expression = expr
+      decorators.push(finish(node, 'Decorator'))
+    }
+    return decorators
+  }
+
+  // ---------------------------------------------------------------------------
+  // Modules
+
+  function parseModuleSource(): Node {
+    if (tok.type !== 'string')
+      unexpected()
+    return literalFromToken()
+  }
+
+  function parseImportAttributes(): Node[] {
+    const attributes: Node[] = []
+    if ((isKw('with') || (isName('assert') && !tok.nl)) && peek().value === '{') {
+      next()
+      expect('{')
+      while (!eat('}')) {
+        const attr = startNode()
+        attr.key = tok.type === 'string' ? literalFromToken() : parseIdent(true)
+        expect(':')
+        attr.value = parseModuleSource()
+        attributes.push(finish(attr, 'ImportAttribute'))
+        if (!is('}'))
+          expect(',')
+      }
+    }
+    return attributes
+  }
+
+  function parseModuleExportName(): Node {
+    return tok.type === 'string' ? literalFromToken() : parseIdent(true)
+  }
+
+  function parseImport(node: Node): Node {
+    sawModuleSyntax = true
+    next()
+    node.importKind = 'value'
+    if (ts && isName('type')) {
+      const after = peek()
+      if ((after.type === 'name' && after.value !== 'from') || (after.type === 'punct' && (after.value === '{' || after.value === '*')) || (after.type === 'name' && after.value === 'from' && peekIsFromClause())) {
+        node.importKind = 'type'
+        next()
+      }
+    }
+    node.specifiers = []
+    if (tok.type === 'string') {
+      node.source = parseModuleSource()
+      node.attributes = parseImportAttributes()
+      semicolon()
+      return finish(node, 'ImportDeclaration')
+    }
+    if (tok.type === 'name') {
+      const local = parseBindingIdent()
+      if (ts && is('=')) {
+        next()
+        node.id = local
+        node.moduleReference = parseModuleReference()
+        node.isExport = false
+        delete node.specifiers
+        semicolon()
+        return finish(node, 'TSImportEqualsDeclaration')
+      }
+      const spec = startNode(local.start)
+      spec.local = local
+      node.specifiers.push(finish(spec, 'ImportDefaultSpecifier'))
+      eat(',')
+    }
+    if (is('*')) {
+      const spec = startNode()
+      next()
+      if (!isName('as'))
+        unexpected()
+      next()
+      spec.local = parseBindingIdent()
+      node.specifiers.push(finish(spec, 'ImportNamespaceSpecifier'))
+    }
+    else if (is('{')) {
+      next()
+      while (!eat('}')) {
+        const spec = startNode()
+        spec.importKind = 'value'
+        if (ts && isName('type')) {
+          const after = peek()
+          if (isWordToken(after) || after.type === 'string') {
+            if (!(after.value === 'as' && isAsAlias()))
+              spec.importKind = 'type'
+            if (spec.importKind === 'type')
+              next()
+          }
+        }
+        spec.imported = parseModuleExportName()
+        if (isName('as')) {
+          next()
+          spec.local = parseBindingIdent()
+        }
+        else {
+          spec.local = spec.imported
+        }
+        node.specifiers.push(finish(spec, 'ImportSpecifier'))
+        if (!is('}'))
+          expect(',')
+      }
+    }
+    if (!isName('from'))
+      unexpected()
+    next()
+    node.source = parseModuleSource()
+    node.attributes = parseImportAttributes()
+    semicolon()
+    return finish(node, 'ImportDeclaration')
+  }
+
+  // `import type from './x'` imports a default binding named `type`
+  function peekIsFromClause(): boolean {
+    const s = save()
+    try {
+      next()
+      next()
+      return tok.type !== 'string'
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  // `{ type as }` / `{ type as as }` style specifiers: is `type` the imported name?
+  function isAsAlias(): boolean {
+    const s = save()
+    try {
+      next()
+      next()
+      // `type as X` -> `type` aliased; `type as as X` -> type-only `as` aliased
+      return !(isName('as'))
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  function parseModuleReference(): Node {
+    if (isName('require') && peek().value === '(') {
+      const node = startNode()
+      next()
+      expect('(')
+      node.expression = parseModuleSource()
+      expect(')')
+      return finish(node, 'TSExternalModuleReference')
+    }
+    return parseEntityName(true)
+  }
+
+  function parseExport(node: Node, decorators: Node[]): Node {
+    sawModuleSyntax = true
+    next()
+    if (is('=') && ts) {
+      next()
+      node.expression = parseExpression()
+      semicolon()
+      return finish(node, 'TSExportAssignment')
+    }
+    if (isName('as') && ts) {
+      next()
+      if (!isName('namespace'))
+        unexpected()
+      next()
+      node.id = parseIdent()
+      semicolon()
+      return finish(node, 'TSNamespaceExportDeclaration')
+    }
+    if (isKw('import') && ts) {
+      const decl = parseImport(startNode())
+      decl.isExport = true
+      decl.start = node.start
+      return finish(decl, decl.type)
+    }
+    if (isKw('default')) {
+      next()
+      const declStart = tok.start
+      const decls = decorators.length ? decorators : parseDecorators()
+      let declaration: Node
+      if (isKw('function')) {
+        declaration = parseFunction(startNode(), true, false, { optionalId: true })
+      }
+      else if (isName('async') && peek().value === 'function' && !peek().nl) {
+        const fnNode = startNode()
+        next()
+        declaration = parseFunction(fnNode, true, true, { optionalId: true })
+      }
+      else if (isKw('class')) {
+        declaration = parseClass(startNode(decls.length ? declStart : tok.start), true, { optionalId: true, decorators: decls })
+      }
+      else if (isName('abstract') && peek().value === 'class') {
+        const classNode = startNode()
+        next()
+        declaration = parseClass(classNode, true, { optionalId: true, abstract: true, decorators: decls })
+      }
+      else if (ts && isName('interface') && peek().type === 'name') {
+        declaration = parseTsDeclarationStatement(startNode(), false)!
+      }
+      else {
+        declaration = parseMaybeAssign()
+        semicolon()
+      }
+      node.declaration = declaration
+      node.exportKind = 'value'
+      return finish(node, 'ExportDefaultDeclaration')
+    }
+    node.exportKind = 'value'
+    if (is('*') || (ts && isName('type') && peek().value === '*')) {
+      if (isName('type')) {
+        node.exportKind = 'type'
+        next()
+      }
+      next()
+      node.exported = null
+      if (isName('as')) {
+        next()
+        node.exported = parseModuleExportName()
+      }
+      if (!isName('from'))
+        unexpected()
+      next()
+      node.source = parseModuleSource()
+      node.attributes = parseImportAttributes()
+      semicolon()
+      return finish(node, 'ExportAllDeclaration')
+    }
+    if (is('{') || (ts && isName('type') && peek().value === '{')) {
+      if (isName('type')) {
+        node.exportKind = 'type'
+        next()
+      }
+      next()
+      node.declaration = null
+      node.specifiers = []
+      while (!eat('}')) {
+        const spec = startNode()
+        spec.exportKind = 'value'
+        if (ts && isName('type')) {
+          const after = peek()
+          if ((isWordToken(after) || after.type === 'string') && !(after.value === 'as' && isAsAlias())) {
+            spec.exportKind = 'type'
+            next()
+          }
+        }
+        spec.local = parseModuleExportName()
+        spec.exported = spec.local
+        if (isName('as')) {
+          next()
+          spec.exported = parseModuleExportName()
+        }
+        node.specifiers.push(finish(spec, 'ExportSpecifier'))
+        if (!is('}'))
+          expect(',')
+      }
+      node.source = null
+      node.attributes = []
+      if (isName('from')) {
+        next()
+        node.source = parseModuleSource()
+        node.attributes = parseImportAttributes()
+      }
+      semicolon()
+      return finish(node, 'ExportNamedDeclaration')
+    }
+    let declaration: Node
+    if (decorators.length) {
+      const classNode = startNode()
+      const abstract = isName('abstract')
+      if (abstract)
+        next()
+      declaration = parseClass(classNode, true, { decorators, abstract })
+    }
+    else {
+      declaration = parseStatement()
+    }
+    if (/^TS(?:Interface|TypeAlias)Declaration$/.test(declaration.type) || (declaration.type === 'TSModuleDeclaration' && declaration.declare))
+      node.exportKind = 'type'
+    node.declaration = declaration
+    node.specifiers = []
+    node.source = null
+    node.attributes = []
+    return finish(node, 'ExportNamedDeclaration')
+  }
+
+  // ---------------------------------------------------------------------------
+  // TypeScript declarations
+
+  // Returns null when the current name does not start a TS-only declaration
+  function parseTsDeclarationStatement(node: Node, declare: boolean): Node | null {
+    if (tok.type !== 'name' && !(tok.type === 'keyword' && tok.value === 'enum'))
+      return null
+    const after = peek()
+    const sameLine = !after.nl
+    switch (tok.value) {
+      case 'interface':
+        if (after.type !== 'name' || !sameLine)
+          return null
+        return parseInterface(node, declare)
+      case 'type':
+        if (after.type !== 'name' || !sameLine)
+          return null
+        return parseTypeAlias(node, declare)
+      case 'namespace':
+        if (after.type !== 'name' || !sameLine)
+          return null
+        next()
+        return parseNamespace(node, declare, 'namespace')
+      case 'module':
+        if (!(after.type === 'name' || after.type === 'string') || !sameLine)
+          return null
+        next()
+        return parseNamespace(node, declare, 'module')
+      case 'global':
+        if (!(after.type === 'punct' && after.value === '{'))
+          return null
+        return parseNamespace(node, true, 'global')
+      case 'abstract':
+        if (!(after.type === 'keyword' && after.value === 'class') || !sameLine)
+          return null
+        next()
+        return parseClass(node, true, { abstract: true, declare })
+      case 'enum':
+        return parseEnum(node, { declare })
+      case 'declare':
+        if (!sameLine || !(isWordToken(after)))
+          return null
+        return parseDeclare(node)
+    }
+    return null
+  }
+
+  function parseDeclare(node: Node): Node {
+    next()
+    let decl: Node | null = null
+    if (isKw('var') || isKw('const') || isName('let')) {
+      if (isKw('const') && peek().value === 'enum') {
+        next()
+        decl = parseEnum(node, { const: true, declare: true })
+      }
+      else {
+        decl = parseVarStatement(node, tok.value)
+      }
+    }
+    else if (isKw('function')) {
+      decl = parseFunction(node, true, false)
+    }
+    else if (isName('async') && peek().value === 'function') {
+      next()
+      decl = parseFunction(node, true, true)
+    }
+    else if (isKw('class')) {
+      decl = parseClass(node, true, { declare: true })
+    }
+    else {
+      decl = parseTsDeclarationStatement(node, true)
+    }
+    if (!decl)
+      unexpected()
+    decl.declare = true
+    return decl
+  }
+
+  function parseInterface(node: Node, declare: boolean): Node {
+    next()
+    node.id = parseIdent()
+    node.typeParameters = is('<') ? parseTypeParameters() : undefined
+    node.extends = []
+    if (isKw('extends')) {
+      next()
+      do node.extends.push(parseHeritage('TSInterfaceHeritage'))
+      while (eat(','))
+    }
+    const body = startNode()
+    body.body = parseTypeMembers()
+    node.body = finish(body, 'TSInterfaceBody')
+    node.declare = declare
+    return finish(node, 'TSInterfaceDeclaration')
+  }
+
+  function parseHeritage(type: string): Node {
+    const node = startNode()
+    let expr: Node = parseIdent(true)
+    while (is('.')) {
+      next()
+      const member = startNode(node.start)
+      member.object = expr
+      member.property = parseIdent(true)
+      member.computed = false
+      member.optional = false
+      expr = finish(member, 'MemberExpression')
+    }
+    node.expression = expr
+    if (is('<'))
+      node.typeArguments = parseTypeArguments()
+    return finish(node, type)
+  }
+
+  function parseTypeAlias(node: Node, declare: boolean): Node {
+    next()
+    node.id = parseIdent()
+    node.typeParameters = is('<') ? parseTypeParameters() : undefined
+    expect('=')
+    node.typeAnnotation = parseType()
+    node.declare = declare
+    semicolon()
+    return finish(node, 'TSTypeAliasDeclaration')
+  }
+
+  function parseEnum(node: Node, flags: { const?: boolean, declare?: boolean }): Node {
+    next()
+    node.id = parseIdent()
+    node.const = !!flags.const
+    node.declare = !!flags.declare
+    node.members = []
+    expect('{')
+    while (!eat('}')) {
+      const member = startNode()
+      if (is('[')) {
+        next()
+        member.id = parseMaybeAssign()
+        member.computed = true
+        expect(']')
+      }
+      else {
+        member.id = tok.type === 'string' ? literalFromToken() : parseIdent(true)
+        member.computed = false
+      }
+      member.initializer = eat('=') ? parseMaybeAssign() : undefined
+      node.members.push(finish(member, 'TSEnumMember'))
+      if (!is('}'))
+        expect(',')
+    }
+    return finish(node, 'TSEnumDeclaration')
+  }
+
+  function parseNamespace(node: Node, declare: boolean, kind: 'namespace' | 'module' | 'global'): Node {
+    node.kind = kind
+    node.declare = declare
+    if (kind === 'global') {
+      node.id = parseIdent()
+    }
+    else if (tok.type === 'string') {
+      node.id = literalFromToken()
+    }
+    else {
+      let id: Node = parseIdent()
+      while (is('.')) {
+        next()
+        const q = startNode(id.start)
+        q.left = id
+        q.right = parseIdent()
+        id = finish(q, 'TSQualifiedName')
+      }
+      node.id = id
+    }
+    if (is('{')) {
+      const body = startNode()
+      next()
+      body.body = parseStatementList(false, () => is('}'))
+      next()
+      node.body = finish(body, 'TSModuleBlock')
+    }
+    else {
+      semicolon()
+    }
+    return finish(node, 'TSModuleDeclaration')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Functions and classes
+
+  function parseFunction(node: Node, isStatement: boolean, isAsync: boolean, opts: { optionalId?: boolean } = {}): Node {
+    next()
+    node.async = isAsync
+    node.generator = eat('*')
+    node.id = null
+    if (tok.type === 'name')
+      node.id = parseBindingIdent()
+    else if (isStatement && !opts.optionalId) {
+      unexpected()
+    }
+    node.expression = false
+    return withContext({ inFunction: true, inAsync: isAsync, inGenerator: node.generator }, () => {
+      parseFunctionSignature(node)
+      if (is('{')) {
+        node.body = parseFunctionBody()
+        return finish(node, isStatement ? 'FunctionDeclaration' : 'FunctionExpression')
+      }
+      if (!ts || !isStatement)
+        unexpected()
+      semicolon()
+      node.body = null
+      return finish(node, 'TSDeclareFunction')
+    })
+  }
+
+  function parseFunctionSignature(node: Node): void {
+    if (ts && is('<'))
+      node.typeParameters = parseTypeParameters()
+    node.params = parseParams()
+    if (ts && is(':'))
+      node.returnType = parseReturnType()
+  }
+
+  function parseFunctionBody(): Node {
+    const node = startNode()
+    expect('{')
+    node.body = parseStatementList(true, () => is('}'))
+    next()
+    return finish(node, 'BlockStatement')
+  }
+
+  function parseParams(): Node[] {
+    expect('(')
+    const params: Node[] = []
+    while (!eat(')')) {
+      params.push(parseParam())
+      if (!is(')'))
+        expect(',')
+    }
+    return params
+  }
+
+  function parseParam(): Node {
+    const start = tok.start
+    const decorators = is('@') ? parseDecorators() : []
+    if (ts && tok.type === 'name' && (PARAM_MODIFIERS.has(tok.value))) {
+      const after = peek()
+      if (!after.nl && (after.type === 'name' || after.type === 'keyword' || (after.type === 'punct' && (after.value === '{' || after.value === '['))) && !(after.type === 'keyword' && after.value === 'in')) {
+        const prop = startNode(start)
+        prop.accessibility = undefined
+        prop.readonly = false
+        prop.override = false
+        while (tok.type === 'name' && PARAM_MODIFIERS.has(tok.value) && isWordToken(peek())) {
+          if (tok.value === 'readonly')
+            prop.readonly = true
+          else if (tok.value === 'override')
+            prop.override = true
+          else prop.accessibility = tok.value
+          next()
+        }
+        prop.parameter = parseParamTarget()
+        prop.decorators = decorators
+        return finish(prop, 'TSParameterProperty')
+      }
+    }
+    const param = parseParamTarget()
+    if (decorators.length) {
+      param.decorators = decorators
+      param.start = start
+      finish(param, param.type, param.end)
+    }
+    return param
+  }
+
+  function parseParamTarget(): Node {
+    const start = tok.start
+    if (is('...')) {
+      const rest = startNode()
+      next()
+      rest.argument = parseBindingAtom()
+      if (ts && is('?'))
+        next()
+      return withTypeAnnotation(finish(rest, 'RestElement'))
+    }
+    let target: Node
+    if (ts && isKw('this')) {
+      const node = identifier(tok.start, 'this')
+      next()
+      target = finish(node, 'Identifier')
+    }
+    else {
+      target = parseBindingAtom()
+    }
+    if (ts && is('?')) {
+      next()
+      target.optional = true
+      finish(target, target.type)
+    }
+    withTypeAnnotation(target)
+    if (is('=')) {
+      next()
+      const assign = startNode(start)
+      assign.left = target
+      assign.right = parseMaybeAssign()
+      return finish(assign, 'AssignmentPattern')
+    }
+    return target
+  }
+
+  function parseBindingAtom(): Node {
+    if (is('['))
+      return parseArrayPattern()
+    if (is('{'))
+      return parseObjectPattern()
+    return parseBindingIdent()
+  }
+
+  function parseBindingElement(): Node {
+    const start = tok.start
+    const target = parseBindingAtom()
+    if (!is('='))
+      return target
+    next()
+    const node = startNode(start)
+    node.left = target
+    node.right = parseMaybeAssign()
+    return finish(node, 'AssignmentPattern')
+  }
+
+  function parseArrayPattern(): Node {
+    const node = startNode()
+    next()
+    node.elements = []
+    while (!eat(']')) {
+      if (is(',')) {
+        next()
+        node.elements.push(null)
+        continue
+      }
+      if (is('...')) {
+        const rest = startNode()
+        next()
+        rest.argument = parseBindingAtom()
+        node.elements.push(finish(rest, 'RestElement'))
+      }
+      else {
+        node.elements.push(parseBindingElement())
+      }
+      if (!is(']'))
+        expect(',')
+    }
+    return finish(node, 'ArrayPattern')
+  }
+
+  function parseObjectPattern(): Node {
+    const node = startNode()
+    next()
+    node.properties = []
+    while (!eat('}')) {
+      if (is('...')) {
+        const rest = startNode()
+        next()
+        rest.argument = parseBindingAtom()
+        node.properties.push(finish(rest, 'RestElement'))
+      }
+      else {
+        const prop = startNode()
+        const { key, computed } = parsePropertyName()
+        prop.key = key
+        prop.computed = computed
+        prop.kind = 'init'
+        prop.method = false
+        if (eat(':')) {
+          prop.shorthand = false
+          prop.value = parseBindingElement()
+        }
+        else {
+          if (key.type !== 'Identifier')
+            unexpected()
+          prop.shorthand = true
+          prop.value = key
+          if (eat('=')) {
+            const assign = startNode(key.start)
+            assign.left = key
+            assign.right = parseMaybeAssign()
+            prop.value = finish(assign, 'AssignmentPattern')
+          }
+        }
+        node.properties.push(finish(prop, 'Property'))
+      }
+      if (!is('}'))
+        expect(',')
+    }
+    return finish(node, 'ObjectPattern')
+  }
+
+  function parsePropertyName(): { key: Node, computed: boolean } {
+    if (is('[')) {
+      next()
+      const key = withContext({ noIn: false }, parseMaybeAssign)
+      expect(']')
+      return { key, computed: true }
+    }
+    if (tok.type === 'string' || tok.type === 'num')
+      return { key: literalFromToken(), computed: false }
+    if (tok.type === 'private')
+      return { key: parsePrivateName(), computed: false }
+    if (!isWordToken(tok))
+      unexpected()
+    return { key: parseIdent(true), computed: false }
+  }
+
+  // Can the token after a modifier-like word start a member name?
+  function startsMemberName(t: Tok): boolean {
+    return isWordToken(t) || t.type === 'string' || t.type === 'num' || t.type === 'private' || (t.type === 'punct' && (t.value === '[' || t.value === '*' || t.value === '#'))
+  }
+
+  // Parses a method's signature and body starting at `(` or `<`
+  function parseMethod(isAsync: boolean, isGenerator: boolean, allowNoBody: boolean): Node {
+    const node = startNode()
+    node.id = null
+    node.async = isAsync
+    node.generator = isGenerator
+    node.expression = false
+    return withContext({ inFunction: true, inAsync: isAsync, inGenerator: isGenerator }, () => {
+      parseFunctionSignature(node)
+      if (is('{')) {
+        node.body = parseFunctionBody()
+        return finish(node, 'FunctionExpression')
+      }
+      if (!allowNoBody)
+        unexpected()
+      semicolon()
+      node.body = null
+      return finish(node, 'TSEmptyBodyFunctionExpression')
+    })
+  }
+
+  function parseClass(node: Node, isStatement: boolean, opts: { optionalId?: boolean, abstract?: boolean, declare?: boolean, decorators?: Node[] } = {}): Node {
+    next()
+    node.id = null
+    if (tok.type === 'name' && !(ts && tok.value === 'implements'))
+      node.id = parseBindingIdent()
+    else if (isStatement && !opts.optionalId)
+      unexpected()
+    if (ts && is('<'))
+      node.typeParameters = parseTypeParameters()
+    node.superClass = null
+    if (isKw('extends')) {
+      next()
+      const start = tok.start
+      let superClass = parseSubscripts(parseExprAtom(), start, false)
+      if (superClass.type === 'TSInstantiationExpression') {
+        node.superTypeArguments = superClass.typeArguments
+        superClass = superClass.expression
+      }
+      node.superClass = superClass
+      if (ts && is('<'))
+        node.superTypeArguments = parseTypeArguments()
+    }
+    if (ts && isName('implements')) {
+      next()
+      node.implements = []
+      do node.implements.push(parseHeritage('TSClassImplements'))
+      while (eat(','))
+    }
+    node.decorators = opts.decorators || []
+    if (ts) {
+      node.abstract = !!opts.abstract
+      node.declare = !!opts.declare
+    }
+    const body = startNode()
+    expect('{')
+    body.body = []
+    while (!eat('}')) {
+      if (eat(';'))
+        continue
+      body.body.push(parseClassMember())
+    }
+    node.body = finish(body, 'ClassBody')
+    return finish(node, isStatement ? 'ClassDeclaration' : 'ClassExpression')
+  }
+
+  function parseClassMember(): Node {
+    const start = tok.start
+    const decorators = is('@') ? parseDecorators() : []
+    if (isName('static') && peek().value === '{' && peek().type === 'punct') {
+      const node = startNode(start)
+      next()
+      expect('{')
+      node.body = withContext({ inFunction: true, inAsync: false, inGenerator: false }, () => parseStatementList(false, () => is('}')))
+      next()
+      return finish(node, 'StaticBlock')
+    }
+    const node = startNode(start)
+    node.static = false
+    node.computed = false
+    let abstract = false
+    let accessor = false
+    while (tok.type === 'name' && CLASS_MODIFIERS.has(tok.value) && !tok.escaped) {
+      const after = peek()
+      if (!startsMemberName(after) || (after.nl && tok.value !== 'static'))
+        break
+      switch (tok.value) {
+        case 'static': node.static = true
+          break
+        case 'abstract': abstract = true
+          break
+        case 'accessor': accessor = true
+          break
+        case 'declare':
+        case 'readonly':
+        case 'override':
+          node[tok.value] = true
+          break
+        default: node.accessibility = tok.value
+      }
+      next()
+    }
+    if (ts && is('[') && isIndexSignatureStart()) {
+      const sig = parseIndexSignature(node)
+      semicolon()
+      return sig
+    }
+    let isAsync = false
+    let isGenerator = false
+    let kind = 'method'
+    if (isName('async')) {
+      const after = peek()
+      if (!after.nl && (startsMemberName(after))) {
+        isAsync = true
+        next()
+      }
+    }
+    if (is('*')) {
+      isGenerator = true
+      next()
+    }
+    if (!isAsync && !isGenerator && (isName('get') || isName('set'))) {
+      if (startsMemberName(peek())) {
+        kind = tok.value
+        next()
+      }
+    }
+    const { key, computed } = parsePropertyName()
+    node.key = key
+    node.computed = computed
+    if (ts && is('?')) {
+      next()
+      node.optional = true
+    }
+    if (is('(') || is('<')) {
+      if (!node.static && !computed && kind === 'method' && ((key.type === 'Identifier' && key.name === 'constructor') || (key.type === 'Literal' && key.value === 'constructor')))
+        kind = 'constructor'
+      node.kind = kind
+      node.value = parseMethod(isAsync, isGenerator, ts)
+      node.decorators = decorators
+      return finish(node, abstract ? 'TSAbstractMethodDefinition' : 'MethodDefinition')
+    }
+    if (ts && is('!')) {
+      next()
+      node.definite = true
+    }
+    if (ts && is(':'))
+      node.typeAnnotation = parseTypeAnnotation()
+    node.value = null
+    if (eat('='))
+      node.value = withContext({ inFunction: true, inAsync: false, inGenerator: false, noIn: false }, parseMaybeAssign)
+    node.decorators = decorators
+    semicolon()
+    if (abstract)
+      return finish(node, accessor ? 'TSAbstractAccessorProperty' : 'TSAbstractPropertyDefinition')
+    return finish(node, accessor ? 'AccessorProperty' : 'PropertyDefinition')
+  }
+
+  function isIndexSignatureStart(): boolean {
+    const s = save()
+    try {
+      next()
+      if (!isWordToken(tok))
+        return false
+      next()
+      return is(':')
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  // `[key: T]: U` in classes and type literals; `node` carries parsed modifiers
+  function parseIndexSignature(node: Node): Node {
+    expect('[')
+    const param = parseIdent(true)
+    withTypeAnnotation(param)
+    expect(']')
+    node.parameters = [param]
+    if (is(':'))
+      node.typeAnnotation = parseTypeAnnotation()
+    delete node.computed
+    return finish(node, 'TSIndexSignature')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+
+  function parseExpression(): Node {
+    const start = tok.start
+    const expr = parseMaybeAssign()
+    if (!is(','))
+      return expr
+    const node = startNode(start)
+    node.expressions = [expr]
+    while (eat(',')) node.expressions.push(parseMaybeAssign())
+    return finish(node, 'SequenceExpression')
+  }
+
+  function parseMaybeAssign(): Node {
+    if (isName('yield') && inGenerator)
+      return parseYield()
+    const arrow = parseArrowAt()
+    if (arrow)
+      return arrow
+    const start = tok.start
+    const left = parseMaybeConditional()
+    rescanGreater()
+    if (tok.type === 'punct' && ASSIGN_OPS.has(tok.value)) {
+      const node = startNode(start)
+      node.operator = tok.value
+      node.left = tok.value === '=' ? toAssignable(left) : left
+      next()
+      node.right = parseMaybeAssign()
+      return finish(node, 'AssignmentExpression')
+    }
+    return left
+  }
+
+  function parseYield(): Node {
+    const node = startNode()
+    next()
+    node.delegate = false
+    node.argument = null
+    if (!tok.nl && (is('*') || startsExpression(tok))) {
+      node.delegate = eat('*')
+      node.argument = parseMaybeAssign()
+    }
+    return finish(node, 'YieldExpression')
+  }
+
+  // Tries the arrow function forms that can start at the current token
+  function parseArrowAt(): Node | null {
+    const start = tok.start
+    if (tok.type === 'name') {
+      // `x => ...`
+      if (arrowFollows(tok.end)) {
+        const param = parseBindingIdent()
+        return parseArrowBody(startNode(start), [param], false)
+      }
+      if (tok.value === 'async' && !tok.escaped) {
+        const after = peek()
+        if (after.nl)
+          return null
+        if (after.type === 'name' && arrowFollows(after.end)) {
+          next()
+          const param = parseBindingIdent()
+          return parseArrowBody(startNode(start), [param], true)
+        }
+        if ((after.type === 'punct' && (after.value === '(' || (ts && after.value === '<'))) && !notArrowAt.has(start)) {
+          const head = tryParse(() => {
+            next()
+            return parseArrowHead(true)
+          })
+          if (head)
+            return parseArrowBody(startNode(start), head.params, true, head)
+          notArrowAt.add(start)
+        }
+      }
+      return null
+    }
+    if ((is('(') || (ts && is('<') && (!jsx || isGenericArrowInJsx()))) && !notArrowAt.has(start)) {
+      if (consequentStart === start) {
+        // `a ? (b): c => d` — prefer the reading where the arrow has no return type
+        // unless the typed arrow is itself followed by the `:` of the conditional
+        const typed = tryParse(() => {
+          const head = parseArrowHead(false)
+          const node = parseArrowBody(startNode(start), head.params, false, head)
+          if (!is(':'))
+            raise(tok.start, 'Unexpected arrow')
+          return node
+        })
+        if (typed)
+          return typed
+        const head = tryParse(() => parseArrowHead(false, false))
+        if (head)
+          return parseArrowBody(startNode(start), head.params, false, head)
+      }
+      else {
+        const head = tryParse(() => parseArrowHead(false))
+        if (head)
+          return parseArrowBody(startNode(start), head.params, false, head)
+      }
+      notArrowAt.add(start)
+    }
+    return null
+  }
+
+  function arrowFollows(from: number): boolean {
+    let i = from
+    while (i < n && (text[i] === ' ' || text[i] === '\t')) i++
+    return text[i] === '=' && text[i + 1] === '>'
+  }
+
+  function isGenericArrowInJsx(): boolean {
+    const s = save()
+    try {
+      next()
+      if (tok.type !== 'name')
+        return false
+      next()
+      return is(',') || isKw('extends')
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  interface ArrowHead { params: Node[], typeParameters?: Node, returnType?: Node }
+
+  // Parses `<T>(params): R =>` up to and including the arrow
+  function parseArrowHead(isAsync: boolean, allowReturnType = true): ArrowHead {
+    const head: ArrowHead = { params: [] }
+    withContext({ inAsync: isAsync, inGenerator: false }, () => {
+      if (ts && is('<'))
+        head.typeParameters = parseTypeParameters()
+      head.params = parseParams()
+      if (ts && allowReturnType && is(':'))
+        head.returnType = parseReturnType()
+    })
+    if (!is('=>') || tok.nl)
+      unexpected()
+    return head
+  }
+
+  function parseArrowBody(node: Node, params: Node[], isAsync: boolean, head?: ArrowHead): Node {
+    if (!head) {
+      if (!is('=>') || tok.nl)
+        unexpected()
+    }
+    next()
+    node.id = null
+    node.params = params
+    node.async = isAsync
+    node.generator = false
+    if (head?.typeParameters)
+      node.typeParameters = head.typeParameters
+    if (head?.returnType)
+      node.returnType = head.returnType
+    withContext({ inFunction: true, inAsync: isAsync, inGenerator: false }, () => {
+      if (is('{')) {
+        node.expression = false
+        node.body = withContext({ noIn: false }, parseFunctionBody)
+      }
+      else {
+        node.expression = true
+        node.body = parseMaybeAssign()
+      }
+    })
+    return finish(node, 'ArrowFunctionExpression')
+  }
+
+  function parseMaybeConditional(): Node {
+    const start = tok.start
+    const test = parseExprOps()
+    if (!is('?'))
+      return test
+    next()
+    const node = startNode(start)
+    node.test = test
+    const savedConsequent = consequentStart
+    consequentStart = tok.start
+    try {
+      node.consequent = withContext({ noIn: false }, parseMaybeAssign)
+    }
+    finally {
+      consequentStart = savedConsequent
+    }
+    expect(':')
+    node.alternate = parseMaybeAssign()
+    return finish(node, 'ConditionalExpression')
+  }
+
+  function binaryPrecedence(): number {
+    if (tok.type === 'punct') {
+      const prec = BINARY_PRECEDENCE[tok.value]
+      return prec === undefined ? -1 : prec
+    }
+    if (tok.type === 'keyword') {
+      if (tok.value === 'instanceof' || (tok.value === 'in' && !noIn))
+        return 7
+      return -1
+    }
+    if (ts && tok.type === 'name' && (tok.value === 'as' || tok.value === 'satisfies') && !tok.nl)
+      return 7
+    return -1
+  }
+
+  function parseExprOps(): Node {
+    const start = tok.start
+    const left = parseMaybeUnary()
+    return parseExprOp(left, start, -1)
+  }
+
+  function parseExprOp(left: Node, leftStart: number, minPrec: number): Node {
+    for (;;) {
+      rescanGreater()
+      const prec = binaryPrecedence()
+      if (prec < 0 || prec <= minPrec)
+        return left
+      if (tok.type === 'name') {
+        const node = startNode(leftStart)
+        const type = tok.value === 'as' ? 'TSAsExpression' : 'TSSatisfiesExpression'
+        next()
+        node.expression = left
+        node.typeAnnotation = parseType()
+        left = finish(node, type)
+        continue
+      }
+      const op = tok.value
+      next()
+      const rightStart = tok.start
+      const right = parseExprOp(parseMaybeUnary(), rightStart, op === '**' ? prec - 1 : prec)
+      const node = startNode(leftStart)
+      node.operator = op
+      node.left = left
+      node.right = right
+      left = finish(node, op === '||' || op === '&&' || op === '??' ? 'LogicalExpression' : 'BinaryExpression')
+    }
+  }
+
+  function parseMaybeUnary(): Node {
+    const start = tok.start
+    if (isName('await') && (inAsync || (!inFunction && isAwaitAtTopLevel()))) {
+      const node = startNode()
+      next()
+      node.argument = parseMaybeUnary()
+      return finish(node, 'AwaitExpression')
+    }
+    if ((tok.type === 'punct' && (tok.value === '!' || tok.value === '~' || tok.value === '+' || tok.value === '-' || tok.value === '++' || tok.value === '--'))
+      || (tok.type === 'keyword' && (tok.value === 'typeof' || tok.value === 'void' || tok.value === 'delete'))) {
+      const node = startNode()
+      const op = tok.value
+      next()
+      node.operator = op
+      node.prefix = true
+      node.argument = parseMaybeUnary()
+      return finish(node, op === '++' || op === '--' ? 'UpdateExpression' : 'UnaryExpression')
+    }
+    if (ts && !jsx && is('<')) {
+      const node = startNode()
+      next()
+      node.typeAnnotation = parseType()
+      expect('>')
+      node.expression = parseMaybeUnary()
+      return finish(node, 'TSTypeAssertion')
+    }
+    let expr = parseExprSubscripts()
+    while ((is('++') || is('--')) && !tok.nl) {
+      const node = startNode(start)
+      node.operator = tok.value
+      node.prefix = false
+      node.argument = expr
+      next()
+      expr = finish(node, 'UpdateExpression')
+    }
+    return expr
+  }
+
+  function isAwaitAtTopLevel(): boolean {
+    const after = peek()
+    return !after.nl && startsExpression(after) && !(after.type === 'keyword' && (after.value === 'in' || after.value === 'instanceof'))
+  }
+
+  function startsExpression(t: Tok): boolean {
+    switch (t.type) {
+      case 'name':
+      case 'num':
+      case 'string':
+      case 'template':
+      case 'regex':
+      case 'private':
+        return true
+      case 'keyword':
+        return ['this', 'super', 'null', 'true', 'false', 'function', 'class', 'new', 'typeof', 'void', 'delete', 'import'].includes(t.value)
+      case 'punct':
+        return ['(', '[', '{', '!', '~', '+', '-', '++', '--', '/', '/=', '<', '@', '#', '...'].includes(t.value)
+      default:
+        return false
+    }
+  }
+
+  function parseExprSubscripts(): Node {
+    const start = tok.start
+    return parseSubscripts(parseExprAtom(), start, false)
+  }
+
+  function parseSubscripts(base: Node, start: number, noCalls: boolean): Node {
+    let chained = false
+    for (;;) {
+      if (is('.') || (is('?.') && !noCalls)) {
+        const optional = tok.value === '?.'
+        next()
+        if (optional) {
+          chained = true
+          if (is('(')) {
+            base = finishCall(start, base, undefined, true)
+            continue
+          }
+          if (is('[')) {
+            base = finishMember(start, base, true)
+            continue
+          }
+          if (ts && is('<')) {
+            const typeArguments = parseTypeArguments()
+            base = finishCall(start, base, typeArguments, true)
+            continue
+          }
+        }
+        const node = startNode(start)
+        node.object = base
+        node.property = tok.type === 'private' ? parsePrivateName() : parseIdent(true)
+        node.computed = false
+        node.optional = optional
+        base = finish(node, 'MemberExpression')
+      }
+      else if (is('[')) {
+        base = finishMember(start, base, false)
+      }
+      else if (!noCalls && is('(')) {
+        base = finishCall(start, base, undefined, false)
+      }
+      else if (tok.type === 'template') {
+        const node = startNode(start)
+        node.tag = base
+        node.quasi = parseTemplate()
+        base = finish(node, 'TaggedTemplateExpression')
+      }
+      else if (ts && is('!') && !tok.nl) {
+        const node = startNode(start)
+        next()
+        node.expression = base
+        base = finish(node, 'TSNonNullExpression')
+      }
+      else if (ts && is('<')) {
+        const typeArguments = tryParse(parseTypeArgumentsInExpression)
+        if (!typeArguments)
+          break
+        if (!noCalls && is('(')) {
+          base = finishCall(start, base, typeArguments, false)
+        }
+        else if (isType('template')) {
+          const node = startNode(start)
+          node.tag = base
+          node.typeArguments = typeArguments
+          node.quasi = parseTemplate()
+          base = finish(node, 'TaggedTemplateExpression')
+        }
+        else {
+          const node = startNode(start)
+          node.expression = base
+          node.typeArguments = typeArguments
+          base = finish(node, 'TSInstantiationExpression')
+        }
+      }
+      else {
+        break
+      }
+    }
+    if (chained) {
+      const node = startNode(start)
+      node.expression = base
+      return finish(node, 'ChainExpression')
+    }
+    return base
+  }
+
+  function finishMember(start: number, object: Node, optional: boolean): Node {
+    const node = startNode(start)
+    expect('[')
+    node.object = object
+    node.property = withContext({ noIn: false }, parseExpression)
+    node.computed = true
+    node.optional = optional
+    expect(']')
+    return finish(node, 'MemberExpression')
+  }
+
+  function finishCall(start: number, callee: Node, typeArguments: Node | undefined, optional: boolean): Node {
+    const node = startNode(start)
+    node.callee = callee
+    node.arguments = parseCallArguments()
+    node.optional = optional
+    if (typeArguments)
+      node.typeArguments = typeArguments
+    return finish(node, 'CallExpression')
+  }
+
+  function parseCallArguments(): Node[] {
+    expect('(')
+    const args: Node[] = []
+    withContext({ noIn: false }, () => {
+      while (!eat(')')) {
+        if (is('...')) {
+          const spread = startNode()
+          next()
+          spread.argument = parseMaybeAssign()
+          args.push(finish(spread, 'SpreadElement'))
+        }
+        else {
+          args.push(parseMaybeAssign())
+        }
+        if (!is(')'))
+          expect(',')
+      }
+    })
+    return args
+  }
+
+  function parseTypeArgumentsInExpression(): Node {
+    const args = parseTypeArguments()
+    if (!canFollowTypeArguments())
+      unexpected()
+    return args
+  }
+
+  // Mirrors TypeScript's rule for `f<T>` in expressions: `a < b > c` stays a comparison
+  function canFollowTypeArguments(): boolean {
+    if (is('(') || tok.type === 'template')
+      return true
+    if (is('<') || is('>') || is('+') || is('-'))
+      return false
+    if (tok.nl || tok.type === 'eof')
+      return true
+    if (tok.type === 'punct' && (BINARY_PRECEDENCE[tok.value] !== undefined || ASSIGN_OPS.has(tok.value)))
+      return true
+    if (tok.type === 'keyword' && (tok.value === 'in' || tok.value === 'instanceof'))
+      return true
+    if (tok.type === 'name' && (tok.value === 'as' || tok.value === 'satisfies'))
+      return true
+    return !startsExpression(tok)
+  }
+
+  function parseExprAtom(): Node {
+    const start = tok.start
+    switch (tok.type) {
+      case 'name': {
+        if (tok.value === 'async' && !tok.escaped) {
+          const after = peek()
+          if (after.type === 'keyword' && after.value === 'function' && !after.nl) {
+            next()
+            return parseFunction(startNode(start), false, true)
+          }
+        }
+        return parseIdent()
+      }
+      case 'num':
+      case 'string':
+        return literalFromToken()
+      case 'template':
+        return parseTemplate()
+      case 'private':
+        return parsePrivateName()
+      case 'regex':
+        return literalFromToken()
+      case 'jsxText':
+        unexpected()
+        break
+      case 'keyword':
+        switch (tok.value) {
+          case 'this': {
+            const node = startNode()
+            next()
+            return finish(node, 'ThisExpression')
+          }
+          case 'super': {
+            const node = startNode()
+            next()
+            return finish(node, 'Super')
+          }
+          case 'null':
+          case 'true':
+          case 'false':
+            return literalFromToken()
+          case 'function':
+            return parseFunction(startNode(), false, false)
+          case 'class':
+            return parseClass(startNode(), false)
+          case 'new':
+            return parseNew()
+          case 'import':
+            return parseImportExpression()
+        }
+        break
+      case 'punct':
+        switch (tok.value) {
+          case '(': {
+            next()
+            const expr = withContext({ noIn: false }, parseExpression)
+            expect(')')
+            return expr
+          }
+          case '[':
+            return parseArrayLiteral()
+          case '{':
+            return parseObjectLiteral()
+          case '/':
+          case '/=':
+            rescanRegex()
+            return literalFromToken()
+          case '<':
+            if (jsx)
+              return parseJsxElement(false)
+            break
+          case '@': {
+            const decorators = parseDecorators()
+            if (!isKw('class'))
+              unexpected()
+            return parseClass(startNode(start), false, { decorators })
+          }
+          case '#':
+            break
+        }
+        break
+    }
+    unexpected()
+  }
+
+  function parseNew(): Node {
+    const node = startNode()
+    next()
+    if (is('.')) {
+      next()
+      const meta = identifier(node.start, 'new')
+      node.meta = finish(meta, 'Identifier', node.start + 3)
+      node.property = parseIdent(true)
+      return finish(node, 'MetaProperty')
+    }
+    const calleeStart = tok.start
+    let callee = parseSubscripts(parseExprAtom(), calleeStart, true)
+    if (callee.type === 'TSInstantiationExpression') {
+      node.typeArguments = callee.typeArguments
+      callee = callee.expression
+    }
+    node.callee = callee
+    node.arguments = is('(') ? parseCallArguments() : []
+    return finish(node, 'NewExpression')
+  }
+
+  function parseImportExpression(): Node {
+    const node = startNode()
+    next()
+    if (is('.')) {
+      next()
+      node.meta = finish(identifier(node.start, 'import'), 'Identifier', node.start + 6)
+      node.property = parseIdent(true)
+      return finish(node, 'MetaProperty')
+    }
+    expect('(')
+    withContext({ noIn: false }, () => {
+      node.source = parseMaybeAssign()
+      node.options = null
+      if (eat(',') && !is(')')) {
+        node.options = parseMaybeAssign()
+        eat(',')
+      }
+    })
+    expect(')')
+    return finish(node, 'ImportExpression')
+  }
+
+  function parseTemplate(): Node {
+    const node = startNode()
+    node.quasis = []
+    node.expressions = []
+    for (;;) {
+      const t = tok
+      const quasi = startNode(t.chunkStart!)
+      quasi.value = { raw: t.raw, cooked: t.cooked }
+      quasi.tail = !!t.tail
+      node.quasis.push(finish(quasi, 'TemplateElement', t.chunkEnd!))
+      next()
+      if (t.tail)
+        break
+      node.expressions.push(withContext({ noIn: false }, parseExpression))
+      rescanTemplateContinuation()
+    }
+    return finish(node, 'TemplateLiteral')
+  }
+
+  function parseArrayLiteral(): Node {
+    const node = startNode()
+    next()
+    node.elements = []
+    withContext({ noIn: false }, () => {
+      while (!eat(']')) {
+        if (is(',')) {
+          next()
+          node.elements.push(null)
+          continue
+        }
+        if (is('...')) {
+          const spread = startNode()
+          next()
+          spread.argument = parseMaybeAssign()
+          node.elements.push(finish(spread, 'SpreadElement'))
+        }
+        else {
+          node.elements.push(parseMaybeAssign())
+        }
+        if (!is(']'))
+          expect(',')
+      }
+    })
+    return finish(node, 'ArrayExpression')
+  }
+
+  function parseObjectLiteral(): Node {
+    const node = startNode()
+    next()
+    node.properties = []
+    withContext({ noIn: false }, () => {
+      while (!eat('}')) {
+        node.properties.push(parseObjectMember())
+        if (!is('}'))
+          expect(',')
+      }
+    })
+    return finish(node, 'ObjectExpression')
+  }
+
+  function parseObjectMember(): Node {
+    const node = startNode()
+    if (is('...')) {
+      next()
+      node.argument = parseMaybeAssign()
+      return finish(node, 'SpreadElement')
+    }
+    let isAsync = false
+    let isGenerator = false
+    let kind = 'init'
+    if (isName('async')) {
+      const after = peek()
+      if (!after.nl && startsMemberName(after)) {
+        isAsync = true
+        next()
+      }
+    }
+    if (is('*')) {
+      isGenerator = true
+      next()
+    }
+    if (!isAsync && !isGenerator && (isName('get') || isName('set')) && startsMemberName(peek())) {
+      kind = tok.value
+      next()
+    }
+    const { key, computed } = parsePropertyName()
+    node.key = key
+    node.computed = computed
+    node.kind = kind
+    if (kind !== 'init' || isAsync || isGenerator || is('(') || is('<')) {
+      node.method = kind === 'init'
+      node.shorthand = false
+      node.value = parseMethod(isAsync, isGenerator, false)
+      return finish(node, 'Property')
+    }
+    node.method = false
+    if (eat(':')) {
+      node.shorthand = false
+      node.value = parseMaybeAssign()
+      return finish(node, 'Property')
+    }
+    if (key.type !== 'Identifier')
+      unexpected()
+    node.shorthand = true
+    node.value = key
+    if (eat('=')) {
+      // only valid once converted to a pattern (`({ a = 1 } = obj)`)
+      const assign = startNode(key.start)
+      assign.left = key
+      assign.right = parseMaybeAssign()
+      node.value = finish(assign, 'AssignmentPattern')
+    }
+    return finish(node, 'Property')
+  }
+
+  function toAssignable(node: Node): Node {
+    switch (node.type) {
+      case 'ObjectExpression':
+        node.type = 'ObjectPattern'
+        for (const prop of node.properties) {
+          if (prop.type === 'SpreadElement') {
+            prop.type = 'RestElement'
+            prop.argument = toAssignable(prop.argument)
+          }
+          else {
+            prop.value = toAssignable(prop.value)
+          }
+        }
+        break
+      case 'ArrayExpression':
+        node.type = 'ArrayPattern'
+        for (const el of node.elements) {
+          if (el)
+            toAssignable(el)
+        }
+        break
+      case 'SpreadElement':
+        node.type = 'RestElement'
+        node.argument = toAssignable(node.argument)
+        break
+      case 'AssignmentExpression':
+        if (node.operator !== '=')
+          raise(node.start, 'Invalid assignment target')
+        node.type = 'AssignmentPattern'
+        delete node.operator
+        node.left = toAssignable(node.left)
+        break
+    }
+    return node
+  }
+
+  // ---------------------------------------------------------------------------
+  // JSX
+
+  // Reads a JSX name at the current token, allowing `-` inside it
+  function parseJsxIdentifier(): Node {
+    if (!isWordToken(tok))
+      unexpected()
+    let end = tok.end
+    while (end < n && (text[end] === '-' || isIdPart(text.charCodeAt(end)))) end++
+    tok = { ...tok, value: text.slice(tok.start, end), end, jsx: true }
+    pos = end
+    const node = identifier(tok.start, tok.value)
+    next()
+    return finish(node, 'JSXIdentifier')
+  }
+
+  function parseJsxName(allowMember: boolean): Node {
+    const start = tok.start
+    let name = parseJsxIdentifier()
+    if (eat(':')) {
+      const ns = startNode(start)
+      ns.namespace = name
+      ns.name = parseJsxIdentifier()
+      return finish(ns, 'JSXNamespacedName')
+    }
+    while (allowMember && is('.')) {
+      next()
+      const member = startNode(start)
+      member.object = name
+      member.property = parseJsxIdentifier()
+      name = finish(member, 'JSXMemberExpression')
+    }
+    return name
+  }
+
+  // Scans the next token inside element children: text, `{` or `<`
+  function scanJsxChild(): void {
+    const start = pos
+    if (pos >= n)
+      raise(pos, 'Unterminated JSX contents')
+    const c = text[pos]
+    if (c === '{' || c === '<') {
+      pos++
+      tok = { type: 'punct', value: c, start, end: pos, nl: false }
+      return
+    }
+    while (pos < n && text[pos] !== '{' && text[pos] !== '<') pos++
+    tok = { type: 'jsxText', value: text.slice(start, pos), start, end: pos, nl: false }
+  }
+
+  // Consumes the current `>` or `}` and continues in children or normal mode
+  function nextJsx(inChildren: boolean): void {
+    tokens.push(exportToken(tok))
+    lastEnd = tok.end
+    pos = tok.end
+    if (inChildren)
+      scanJsxChild()
+    else scan()
+  }
+
+  function parseJsxElement(inChildren: boolean): Node {
+    const start = tok.start
+    next()
+    if (is('>')) {
+      const opening = startNode(start)
+      nextJsx(true)
+      const node = startNode(start)
+      node.openingFragment = finish(opening, 'JSXOpeningFragment')
+      node.children = parseJsxChildren()
+      const closing = startNode(tok.start)
+      next()
+      expect('/')
+      if (!is('>'))
+        unexpected()
+      nextJsx(inChildren)
+      node.closingFragment = finish(closing, 'JSXClosingFragment')
+      return finish(node, 'JSXFragment')
+    }
+    const opening = startNode(start)
+    opening.name = parseJsxName(true)
+    if (ts && is('<'))
+      opening.typeArguments = parseTypeArguments()
+    opening.attributes = []
+    while (!is('>') && !is('/')) {
+      if (is('{')) {
+        const spread = startNode()
+        next()
+        expect('...')
+        spread.argument = parseMaybeAssign()
+        expect('}')
+        opening.attributes.push(finish(spread, 'JSXSpreadAttribute'))
+        continue
+      }
+      const attr = startNode()
+      attr.name = parseJsxName(false)
+      attr.value = null
+      if (eat('=')) {
+        if (tok.type === 'string') {
+          const lit = startNode()
+          lit.value = tok.value.slice(1, -1)
+          lit.raw = tok.value
+          next()
+          attr.value = finish(lit, 'Literal')
+        }
+        else if (is('{')) {
+          attr.value = parseJsxExpressionContainer(false)
+        }
+        else if (is('<')) {
+          attr.value = parseJsxElement(false)
+        }
+        else {
+          unexpected()
+        }
+      }
+      opening.attributes.push(finish(attr, 'JSXAttribute'))
+    }
+    opening.selfClosing = eat('/')
+    const node = startNode(start)
+    if (opening.selfClosing) {
+      if (!is('>'))
+        unexpected()
+      nextJsx(inChildren)
+      node.openingElement = finish(opening, 'JSXOpeningElement')
+      node.children = []
+      node.closingElement = null
+      return finish(node, 'JSXElement')
+    }
+    if (!is('>'))
+      unexpected()
+    nextJsx(true)
+    node.openingElement = finish(opening, 'JSXOpeningElement')
+    node.children = parseJsxChildren()
+    const closing = startNode(tok.start)
+    next()
+    expect('/')
+    closing.name = parseJsxName(true)
+    if (!is('>'))
+      unexpected()
+    nextJsx(inChildren)
+    node.closingElement = finish(closing, 'JSXClosingElement')
+    return finish(node, 'JSXElement')
+  }
+
+  function parseJsxChildren(): Node[] {
+    const children: Node[] = []
+    for (;;) {
+      if (tok.type === 'jsxText') {
+        const node = startNode()
+        node.value = tok.value
+        node.raw = tok.value
+        tokens.push(exportToken(tok))
+        lastEnd = tok.end
+        scanJsxChild()
+        children.push(finish(node, 'JSXText'))
+      }
+      else if (is('{')) {
+        children.push(parseJsxExpressionContainer(true))
+      }
+      else if (is('<')) {
+        let i = tok.end
+        while (i < n && /\s/.test(text[i])) i++
+        if (text[i] === '/')
+          return children
+        children.push(parseJsxElement(true))
+      }
+      else {
+        unexpected()
+      }
+    }
+  }
+
+  function parseJsxExpressionContainer(inChildren: boolean): Node {
+    const node = startNode()
+    next()
+    if (is('}')) {
+      const empty = startNode(lastEnd)
+      node.expression = finish(empty, 'JSXEmptyExpression', tok.start)
+    }
+    else if (inChildren && is('...')) {
+      next()
+      node.expression = parseExpression()
+      if (!is('}'))
+        unexpected()
+      nextJsx(true)
+      return finish(node, 'JSXSpreadChild')
+    }
+    else {
+      node.expression = withContext({ noIn: false }, parseExpression)
+    }
+    if (!is('}'))
+      unexpected()
+    nextJsx(inChildren)
+    return finish(node, 'JSXExpressionContainer')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Types
+
+  function parseTypeAnnotation(): Node {
+    const node = startNode()
+    expect(':')
+    node.typeAnnotation = parseType()
+    return finish(node, 'TSTypeAnnotation')
+  }
+
+  // `: T`, `: x is T`, `: asserts x`, `: asserts x is T`
+  function parseReturnType(): Node {
+    const node = startNode()
+    expect(':')
+    node.typeAnnotation = parseTypeOrPredicate()
+    return finish(node, 'TSTypeAnnotation')
+  }
+
+  function parseTypeOrPredicate(): Node {
+    const start = tok.start
+    if (isName('asserts') && !peek().nl && (peek().type === 'name' || (peek().type === 'keyword' && peek().value === 'this'))) {
+      next()
+      const node = startNode(start)
+      node.asserts = true
+      node.parameterName = parsePredicateName()
+      node.typeAnnotation = null
+      if (isName('is') && !tok.nl) {
+        next()
+        const ann = startNode()
+        ann.typeAnnotation = parseType()
+        node.typeAnnotation = finish(ann, 'TSTypeAnnotation')
+      }
+      return finish(node, 'TSTypePredicate')
+    }
+    if ((tok.type === 'name' || isKw('this')) && peek().value === 'is' && peek().type === 'name' && !peek().nl) {
+      const node = startNode(start)
+      node.asserts = false
+      node.parameterName = parsePredicateName()
+      next()
+      const ann = startNode()
+      ann.typeAnnotation = parseType()
+      node.typeAnnotation = finish(ann, 'TSTypeAnnotation')
+      return finish(node, 'TSTypePredicate')
+    }
+    return parseType()
+  }
+
+  function parsePredicateName(): Node {
+    if (isKw('this')) {
+      const node = startNode()
+      next()
+      return finish(node, 'TSThisType')
+    }
+    return parseIdent()
+  }
+
+  function parseType(noConditional = false): Node {
+    if (isFunctionTypeStart())
+      return parseFunctionType()
+    const start = tok.start
+    const check = parseUnionType()
+    if (noConditional || !isKw('extends') || tok.nl)
+      return check
+    next()
+    const node = startNode(start)
+    node.checkType = check
+    const savedExtends = inExtendsClause
+    inExtendsClause = true
+    try {
+      node.extendsType = parseType(true)
+    }
+    finally {
+      inExtendsClause = savedExtends
+    }
+    expect('?')
+    node.trueType = parseType()
+    expect(':')
+    node.falseType = parseType()
+    return finish(node, 'TSConditionalType')
+  }
+
+  function isFunctionTypeStart(): boolean {
+    if (is('<'))
+      return true
+    if (isKw('new') || (isName('abstract') && peek().value === 'new'))
+      return true
+    if (!is('(') || notFunctionTypeAt.has(tok.start))
+      return false
+    const s = save()
+    speculating++
+    try {
+      parseParams()
+      if (is('=>'))
+        return true
+    }
+    catch (e) {
+      if (e !== BAIL)
+        throw e
+    }
+    finally {
+      speculating--
+      restore(s)
+    }
+    notFunctionTypeAt.add(tok.start)
+    return false
+  }
+
+  function parseFunctionType(): Node {
+    const node = startNode()
+    let type = 'TSFunctionType'
+    if (isName('abstract')) {
+      next()
+      node.abstract = true
+    }
+    if (isKw('new')) {
+      next()
+      type = 'TSConstructorType'
+      node.abstract = !!node.abstract
+    }
+    if (is('<'))
+      node.typeParameters = parseTypeParameters()
+    node.params = parseParams()
+    const ret = startNode()
+    expect('=>')
+    ret.typeAnnotation = parseTypeOrPredicate()
+    node.returnType = finish(ret, 'TSTypeAnnotation')
+    return finish(node, type)
+  }
+
+  function parseUnionType(): Node {
+    return parseListType('|', 'TSUnionType', () => parseListType('&', 'TSIntersectionType', parseTypeOperator))
+  }
+
+  function parseListType(op: string, type: string, parseOperand: () => Node): Node {
+    const start = tok.start
+    eat(op)
+    const types = [parseOperand()]
+    while (eat(op)) types.push(parseOperand())
+    if (types.length === 1)
+      return types[0]
+    const node = startNode(start)
+    node.types = types
+    return finish(node, type)
+  }
+
+  function parseTypeOperator(): Node {
+    if (tok.type === 'name' && (tok.value === 'keyof' || tok.value === 'unique' || tok.value === 'readonly') && !tok.escaped) {
+      const after = peek()
+      if (!(after.type === 'punct' && [')', ',', ']', '>', '=', ';', '|', '&', '}', '?', ':'].includes(after.value)) && after.type !== 'eof') {
+        const node = startNode()
+        node.operator = tok.value
+        next()
+        node.typeAnnotation = parseTypeOperator()
+        return finish(node, 'TSTypeOperator')
+      }
+    }
+    if (isName('infer')) {
+      const node = startNode()
+      next()
+      const param = startNode()
+      param.name = parseIdent()
+      if (isKw('extends')) {
+        // outside a conditional's extends clause, `infer U extends X ? A : B` is itself the conditional
+        const constraint = tryParse(() => {
+          next()
+          const c = parseType(true)
+          if (is('?') && !inExtendsClause)
+            unexpected()
+          return c
+        })
+        if (constraint)
+          param.constraint = constraint
+      }
+      node.typeParameter = finish(param, 'TSTypeParameter')
+      return finish(node, 'TSInferType')
+    }
+    return parsePostfixType()
+  }
+
+  function parsePostfixType(): Node {
+    const start = tok.start
+    let type = parseNonArrayType()
+    while (!tok.nl && is('[')) {
+      next()
+      const node = startNode(start)
+      if (eat(']')) {
+        node.elementType = type
+        type = finish(node, 'TSArrayType')
+      }
+      else {
+        node.objectType = type
+        node.indexType = parseType()
+        expect(']')
+        type = finish(node, 'TSIndexedAccessType')
+      }
+    }
+    return type
+  }
+
+  function parseNonArrayType(): Node {
+    if (tok.type === 'name') {
+      const keywordType = TS_KEYWORD_TYPES[tok.value]
+      if (keywordType && !tok.escaped && peek().value !== '.') {
+        const node = startNode()
+        next()
+        return finish(node, keywordType)
+      }
+      return parseTypeReference()
+    }
+    if (tok.type === 'string' || tok.type === 'num' || isKw('true') || isKw('false')) {
+      const node = startNode()
+      node.literal = literalFromToken()
+      return finish(node, 'TSLiteralType')
+    }
+    if (tok.type === 'template')
+      return parseTemplateLiteralType()
+    if (tok.type === 'keyword') {
+      switch (tok.value) {
+        case 'void':
+        case 'null': {
+          const node = startNode()
+          const type = tok.value === 'void' ? 'TSVoidKeyword' : 'TSNullKeyword'
+          next()
+          return finish(node, type)
+        }
+        case 'this': {
+          const node = startNode()
+          next()
+          return finish(node, 'TSThisType')
+        }
+        case 'typeof': {
+          const node = startNode()
+          next()
+          node.exprName = isKw('import') ? parseImportType() : parseEntityName(true)
+          if (is('<') && !tok.nl)
+            node.typeArguments = parseTypeArguments()
+          return finish(node, 'TSTypeQuery')
+        }
+        case 'import':
+          return parseImportType()
+        default:
+          // `as const` and other keyword-named references
+          return parseTypeReference()
+      }
+    }
+    if (is('-') && peek().type === 'num') {
+      const node = startNode()
+      const unary = startNode()
+      next()
+      unary.operator = '-'
+      unary.prefix = true
+      unary.argument = literalFromToken()
+      node.literal = finish(unary, 'UnaryExpression')
+      return finish(node, 'TSLiteralType')
+    }
+    if (is('{'))
+      return isMappedTypeStart() ? parseMappedType() : parseTypeLiteral()
+    if (is('['))
+      return parseTupleType()
+    if (is('(')) {
+      next()
+      const type = parseType()
+      expect(')')
+      return type
+    }
+    unexpected()
+  }
+
+  function parseEntityName(allowKeywords: boolean): Node {
+    const start = tok.start
+    let name: Node
+    if (isKw('this')) {
+      const node = startNode()
+      next()
+      name = finish(node, 'ThisExpression')
+    }
+    else {
+      name = parseIdent(allowKeywords)
+    }
+    while (is('.')) {
+      next()
+      const node = startNode(start)
+      node.left = name
+      node.right = parseIdent(true)
+      name = finish(node, 'TSQualifiedName')
+    }
+    return name
+  }
+
+  function parseTypeReference(): Node {
+    const node = startNode()
+    node.typeName = parseEntityName(true)
+    if ((is('<') || is('<<')) && !tok.nl)
+      node.typeArguments = parseTypeArguments()
+    return finish(node, 'TSTypeReference')
+  }
+
+  function parseImportType(): Node {
+    const node = startNode()
+    next()
+    expect('(')
+    const arg = startNode()
+    arg.literal = parseModuleSource()
+    node.argument = finish(arg, 'TSLiteralType')
+    if (eat(',')) {
+      if (!is(')'))
+        node.options = parseMaybeAssign()
+      eat(',')
+    }
+    expect(')')
+    node.qualifier = null
+    if (eat('.'))
+      node.qualifier = parseEntityName(true)
+    if (is('<'))
+      node.typeArguments = parseTypeArguments()
+    return finish(node, 'TSImportType')
+  }
+
+  function parseTemplateLiteralType(): Node {
+    const node = startNode()
+    node.quasis = []
+    node.types = []
+    for (;;) {
+      const t = tok
+      const quasi = startNode(t.chunkStart!)
+      quasi.value = { raw: t.raw, cooked: t.cooked }
+      quasi.tail = !!t.tail
+      node.quasis.push(finish(quasi, 'TemplateElement', t.chunkEnd!))
+      next()
+      if (t.tail)
+        break
+      node.types.push(parseType())
+      rescanTemplateContinuation()
+    }
+    return finish(node, 'TSTemplateLiteralType')
+  }
+
+  function isMappedTypeStart(): boolean {
+    const s = save()
+    try {
+      next()
+      if (is('+') || is('-'))
+        next()
+      if (isName('readonly'))
+        next()
+      if (!is('['))
+        return false
+      next()
+      if (tok.type !== 'name')
+        return false
+      next()
+      return isKw('in')
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  function parseMappedType(): Node {
+    const node = startNode()
+    expect('{')
+    node.readonly = undefined
+    if (is('+') || is('-')) {
+      node.readonly = tok.value
+      next()
+      next()
+    }
+    else if (isName('readonly')) {
+      node.readonly = true
+      next()
+    }
+    expect('[')
+    const param = startNode()
+    param.name = parseIdent()
+    next()
+    param.constraint = parseType()
+    node.typeParameter = finish(param, 'TSTypeParameter')
+    node.nameType = null
+    if (isName('as')) {
+      next()
+      node.nameType = parseType()
+    }
+    expect(']')
+    node.optional = undefined
+    if (is('+') || is('-')) {
+      node.optional = tok.value
+      next()
+      expect('?')
+    }
+    else if (eat('?')) {
+      node.optional = true
+    }
+    node.typeAnnotation = undefined
+    if (eat(':'))
+      node.typeAnnotation = parseType()
+    if (!eat(';'))
+      eat(',')
+    expect('}')
+    return finish(node, 'TSMappedType')
+  }
+
+  function parseTypeLiteral(): Node {
+    const node = startNode()
+    node.members = parseTypeMembers()
+    return finish(node, 'TSTypeLiteral')
+  }
+
+  function parseTypeMembers(): Node[] {
+    expect('{')
+    const members: Node[] = []
+    while (!eat('}')) {
+      members.push(parseTypeMember())
+      if (!eat(';') && !eat(',') && !is('}') && !tok.nl)
+        unexpected()
+    }
+    return members
+  }
+
+  function parseTypeMember(): Node {
+    const node = startNode()
+    if (is('(') || is('<')) {
+      parseSignature(node)
+      return finish(node, 'TSCallSignatureDeclaration')
+    }
+    if (isKw('new') && (peek().value === '(' || peek().value === '<')) {
+      next()
+      parseSignature(node)
+      return finish(node, 'TSConstructSignatureDeclaration')
+    }
+    node.readonly = false
+    if (isName('readonly') && startsMemberName(peek()) && !peek().nl) {
+      node.readonly = true
+      next()
+    }
+    if (is('[') && isIndexSignatureStart())
+      return parseIndexSignature(node)
+    let kind = 'method'
+    if ((isName('get') || isName('set')) && startsMemberName(peek()) && !peek().nl) {
+      kind = tok.value
+      next()
+    }
+    const { key, computed } = parsePropertyName()
+    node.key = key
+    node.computed = computed
+    node.optional = eat('?')
+    if (is('(') || is('<')) {
+      node.kind = kind
+      parseSignature(node)
+      return finish(node, 'TSMethodSignature')
+    }
+    node.typeAnnotation = is(':') ? parseTypeAnnotation() : undefined
+    return finish(node, 'TSPropertySignature')
+  }
+
+  function parseSignature(node: Node): void {
+    if (is('<'))
+      node.typeParameters = parseTypeParameters()
+    node.params = parseParams()
+    if (is(':'))
+      node.returnType = parseReturnType()
+  }
+
+  function parseTupleType(): Node {
+    const node = startNode()
+    next()
+    node.elementTypes = []
+    while (!eat(']')) {
+      const start = tok.start
+      const rest = eat('...')
+      let element: Node
+      const after = peek()
+      if (isWordToken(tok) && ((after.type === 'punct' && after.value === ':') || (after.type === 'punct' && after.value === '?' && isNamedTupleOptional()))) {
+        const member = startNode(tok.start)
+        member.label = parseIdent(true)
+        member.optional = eat('?')
+        expect(':')
+        member.elementType = parseType()
+        element = finish(member, 'TSNamedTupleMember')
+      }
+      else {
+        element = parseType()
+        if (is('?')) {
+          next()
+          const opt = startNode(element.start)
+          opt.typeAnnotation = element
+          element = finish(opt, 'TSOptionalType')
+        }
+      }
+      if (rest) {
+        const restNode = startNode(start)
+        restNode.typeAnnotation = element
+        element = finish(restNode, 'TSRestType')
+      }
+      node.elementTypes.push(element)
+      if (!is(']'))
+        expect(',')
+    }
+    return finish(node, 'TSTupleType')
+  }
+
+  function isNamedTupleOptional(): boolean {
+    const s = save()
+    try {
+      next()
+      next()
+      return is(':')
+    }
+    finally {
+      restore(s)
+    }
+  }
+
+  function parseTypeParameters(): Node {
+    splitShiftLeft()
+    const node = startNode()
+    expect('<')
+    node.params = []
+    while (!eat('>')) {
+      const param = startNode()
+      param.const = false
+      param.in = false
+      param.out = false
+      while (tok.type === 'name' || isKw('const') || isKw('in')) {
+        const after = peek()
+        if (!(after.type === 'name' || (after.type === 'keyword' && after.value === 'in')))
+          break
+        if (tok.value === 'const')
+          param.const = true
+        else if (tok.value === 'in')
+          param.in = true
+        else if (tok.value === 'out')
+          param.out = true
+        else break
+        next()
+      }
+      param.name = parseIdent()
+      if (isKw('extends')) {
+        next()
+        param.constraint = parseType()
+      }
+      if (eat('='))
+        param.default = parseType()
+      node.params.push(finish(param, 'TSTypeParameter'))
+      if (!is('>'))
+        expect(',')
+    }
+    return finish(node, 'TSTypeParameterDeclaration')
+  }
+
+  function parseTypeArguments(): Node {
+    splitShiftLeft()
+    const node = startNode()
+    expect('<')
+    node.params = []
+    while (!eat('>')) {
+      node.params.push(parseType())
+      if (!is('>'))
+        expect(',')
+    }
+    return finish(node, 'TSTypeParameterInstantiation')
+  }
+
+  // ---------------------------------------------------------------------------
+
+  if (text.startsWith('#!')) {
+    while (pos < n && !isNewline(text.charCodeAt(pos))) pos++
+    pushComment('Line', 0, 2, pos, pos)
+  }
+  const program = parseTopLevel()
+  walk(program, {
+    enter(node, parent) {
+      Object.defineProperty(node, 'parent', { value: parent, writable: true, configurable: true, enumerable: false })
+    },
+  })
+  return program
+}
+
+const SKIP_KEYS = new Set(['type', 'start', 'end', 'range', 'loc', 'parent', 'comments', 'tokens'])
+
+export function forEachChild(node: Node, cb: (child: Node, key: string) => void): void {
+  for (const key in node) {
+    if (SKIP_KEYS.has(key))
+      continue
+    const value = node[key]
+    if (!value || typeof value !== 'object')
+      continue
+    if (Array.isArray(value)) {
+      for (const child of value) {
+        if (child && typeof child.type === 'string')
+          cb(child, key)
+      }
+    }
+    else if (typeof value.type === 'string') {
+      cb(value, key)
+    }
+  }
+}
+
+export interface Visitor {
+  // Return false to skip the node's children
+  enter?: (node: Node, parent: Node | null) => void | false
+  leave?: (node: Node, parent: Node | null) => void
+}
+
+export function walk(root: Node, visitor: Visitor): void {
+  const visit = (node: Node, parent: Node | null): void => {
+    if (visitor.enter && visitor.enter(node, parent) === false)
+      return
+    forEachChild(node, child => visit(child, node))
+    if (visitor.leave)
+      visitor.leave(node, parent)
+  }
+  visit(root, null)
+}
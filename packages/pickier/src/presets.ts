@@ -0,0 +1,49 @@
+import type { PickierOptions, PickierPlugin, RulesConfigMap } from './types'
+import { getAllPlugins } from './plugins'
+
+export type PresetName = 'pickier:recommended' | 'pickier:strict' | 'pickier:stylistic'
+
+export const PRESET_NAMES: readonly PresetName[] = ['pickier:recommended', 'pickier:strict', 'pickier:stylistic']
+
+// Compatibility prefixes re-exporting rules of other plugins; listing them too would configure each rule twice
+const ALIAS_PLUGINS = new Set(['eslint', 'unused-imports', 'perfectionist'])
+// Rules that only format code, which `pickier:stylistic` turns on separately
+const STYLISTIC_PLUGINS = new Set(['style'])
+// Plugins left out of `pickier:strict`: documents rather than code, and spell-checking needs an optional dependency
+const NON_STRICT_PLUGINS = new Set(['markdown', 'spell'])
+
+function collect(include: (plugin: PickierPlugin, ruleName: string) => boolean, severity: 'warn' | 'error'): RulesConfigMap {
+  const pluginRules: RulesConfigMap = {}
+  for (const plugin of getAllPlugins()) {
+    if (ALIAS_PLUGINS.has(plugin.name))
+      continue
+    for (const ruleName of Object.keys(plugin.rules)) {
+      if (!plugin.rules[ruleName].meta?.wip && include(plugin, ruleName))
+        pluginRules[`${plugin.name}/${ruleName}`] = severity
+    }
+  }
+  return pluginRules
+}
+
+/**
+ * The built-in presets, derived from rule metadata so new rules join them
+ * without a second list to maintain:
+ *
+ * - `pickier:recommended` turns on every rule marked `meta.recommended`, the style rules aside
+ * - `pickier:strict` adds every other code rule of those plugins
+ * - `pickier:stylistic` turns on the recommended style rules, as warnings
+ *
+ * Experimental (`meta.wip`) rules are never part of a preset.
+ */
+export function getPreset(name: string): PickierOptions | undefined {
+  switch (name) {
+    case 'pickier:recommended':
+      return { pluginRules: collect((plugin, rule) => !STYLISTIC_PLUGINS.has(plugin.name) && !!plugin.rules[rule].meta?.recommended, 'error') }
+    case 'pickier:strict':
+      return { extends: ['pickier:recommended'], pluginRules: collect(plugin => !STYLISTIC_PLUGINS.has(plugin.name) && !NON_STRICT_PLUGINS.has(plugin.name), 'error') }
+    case 'pickier:stylistic':
+      return { pluginRules: collect((plugin, rule) => STYLISTIC_PLUGINS.has(plugin.name) && !!plugin.rules[rule].meta?.recommended, 'warn') }
+    default:
+      return undefined
+  }
+}
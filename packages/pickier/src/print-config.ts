@@ -0,0 +1,217 @@
+import type { LintExclusion } from './linter'
+import type { PickierConfig, PickierOptions } from './types'
+import type { ConfigLayer } from './utils'
+import { isAbsolute, relative, resolve, sep } from 'node:path'
+import { defaultConfig } from './config'
+import { getRulesConfig, RULE_ALIASES } from './fixes'
+import { getPluginDefinitions, lintExclusion } from './linter'
+import { configForFile, overrideMatches } from './overrides'
+import { colors, ENV, loadConfigFromPath, readConfigLayers } from './utils'
+
+export interface ConfigSetting {
+  /** `lint.reporter`, `rules.style/curly`, ...; `ignores` and `plugins` take one setting per entry */
+  key: string
+  value: unknown
+  /** Where the value comes from: `default`, a config file or preset, an override, an alias or a CLI flag */
+  origin: string
+}
+
+export interface FileConfig {
+  /** The file, relative to the working directory */
+  file: string
+  /** The config file in use, if any: without one the defaults apply */
+  configFile?: string
+  /** What keeps the file from being linted, and where the pattern responsible comes from */
+  ignored?: LintExclusion & { origin?: string }
+  settings: ConfigSetting[]
+}
+
+export interface PrintConfigOptions {
+  config?: string
+  /** Comma-separated extensions, as for `--ext` */
+  ext?: string
+  ignorePath?: string
+  json?: boolean
+}
+
+// Sections merged key by key, as `layerConfig()` and overrides do
+const KEYED_SECTIONS = new Set(['lint', 'format', 'rules', 'pluginRules', 'globals'])
+
+// Record what `options` sets as coming from `source`, over what earlier layers set
+function recordLayer(origins: Map<string, string>, source: string, options: PickierOptions): void {
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || key === 'extends' || key === 'overrides')
+      continue
+    if (KEYED_SECTIONS.has(key)) {
+      for (const name of Object.keys(value))
+        origins.set(`${key}.${name}`, source)
+    }
+    else if (key === 'ignores') {
+      // ignores add up, so a pattern keeps the layer that first named it
+      for (const pattern of value as string[]) {
+        if (!origins.has(`ignores.${pattern}`))
+          origins.set(`ignores.${pattern}`, source)
+      }
+    }
+    else if (key === 'plugins') {
+      for (const plugin of value as NonNullable<PickierOptions['plugins']>)
+        origins.set(`plugins.${typeof plugin === 'string' ? plugin : plugin.name}`, source)
+    }
+    else {
+      origins.set(key, source)
+    }
+  }
+}
+
+// Where the resolved setting of `ruleId` comes from, following `getRulesConfig()` in reverse precedence
+function ruleOrigin(ruleId: string, cfg: PickierConfig, origins: Map<string, string>): string {
+  const pluginDefs = getPluginDefinitions(cfg)
+  const own = (map: object | undefined, key: string): boolean => !!map && Object.prototype.hasOwnProperty.call(map, key)
+  const from = (key: string): string => own(cfg.rules, key) ? origins.get(`rules.${key}`)! : origins.get(`pluginRules.${key}`) ?? 'default'
+
+  const slash = ruleId.indexOf('/')
+  const name = ruleId.slice(slash + 1)
+  if (slash > 0 && (own(cfg.rules, name) || own(cfg.pluginRules, name))
+    && pluginDefs.some(p => p.name === ruleId.slice(0, slash) && own(p.rules, name))) {
+    return `${from(name)}, as '${name}'`
+  }
+  const merged = { ...cfg.pluginRules, ...cfg.rules } as Record<string, unknown>
+  const alias = Object.keys(RULE_ALIASES).find(a => RULE_ALIASES[a] === ruleId && merged[a])
+  if (alias)
+    return `${from(alias)}, as '${alias}'`
+  if (ruleId === 'regexp/no-unused-capturing-group' && cfg.rules?.noUnusedCapturingGroup)
+    return `${from('noUnusedCapturingGroup')}, as 'noUnusedCapturingGroup'`
+  return from(ruleId)
+}
+
+/**
+ * The config that applies to `file`, each value with the default, preset,
+ * config file, override, alias or CLI flag it comes from, and whether the
+ * file would be linted when named on the command line.
+ */
+export async function resolveFileConfig(file: string, options: PrintConfigOptions = {}): Promise<FileConfig> {
+  const cwd = process.cwd()
+  const abs = resolve(cwd, file)
+  const label = (path: string): string => isAbsolute(path) ? relative(cwd, path) || path : path
+
+  const cfg = await loadConfigFromPath(options.config)
+  let configFile = options.config
+    ? resolve(cwd, options.config)
+    : ENV.NO_AUTO_CONFIG ? undefined : (await import('./config')).getConfigPath()
+
+  // Replay the layers the config is made of, later ones winning
+  let layers: ConfigLayer[] = []
+  if (configFile) {
+    try {
+      layers = await readConfigLayers(configFile)
+    }
+    catch {
+      // `loadConfigFromPath()` fell back to the defaults
+      configFile = undefined
+    }
+  }
+  const origins = new Map<string, string>()
+  recordLayer(origins, 'default', defaultConfig)
+  for (const layer of layers) {
+    const source = label(layer.source)
+    recordLayer(origins, source, layer.options)
+    for (const override of layer.options.overrides || []) {
+      if (overrideMatches(override, abs))
+        recordLayer(origins, `${source}, override for ${override.files.join(', ')}`, { rules: override.rules, pluginRules: override.pluginRules, format: override.format, lint: override.lint })
+    }
+  }
+
+  const fileCfg = configForFile(cfg, abs)
+  const extensions = options.ext?.split(',').map(e => e.trim().replace(/^\./, ''))
+  const settings: ConfigSetting[] = []
+  const add = (key: string, value: unknown, origin = origins.get(key) ?? 'default'): void => {
+    settings.push({ key, value, origin })
+  }
+
+  for (const section of ['lint', 'format'] as const) {
+    for (const [key, value] of Object.entries(fileCfg[section])) {
+      if (key === 'extensions' && extensions)
+        add(`${section}.${key}`, extensions, '--ext')
+      else
+        add(`${section}.${key}`, value)
+    }
+  }
+  const rulesConfig = getRulesConfig(fileCfg, getPluginDefinitions(fileCfg))
+  for (const ruleId of Object.keys(rulesConfig).sort())
+    add(`rules.${ruleId}`, rulesConfig[ruleId], ruleOrigin(ruleId, fileCfg, origins))
+  for (const pattern of fileCfg.ignores)
+    add('ignores', pattern, origins.get(`ignores.${pattern}`))
+  for (const plugin of fileCfg.plugins || []) {
+    const name = typeof plugin === 'string' ? plugin : plugin.name
+    add('plugins', name, origins.get(`plugins.${name}`))
+  }
+  for (const key of ['verbose', 'env', 'tailwind'] as const) {
+    if (fileCfg[key] !== undefined)
+      add(key, fileCfg[key])
+  }
+  for (const [name, value] of Object.entries(fileCfg.globals || {}))
+    add(`globals.${name}`, value)
+
+  const exclusion = lintExclusion(abs, fileCfg, { ext: options.ext, ignorePath: options.ignorePath })
+  let ignored: FileConfig['ignored']
+  if (exclusion?.reason === 'ignores') {
+    // the project's own ignores only apply inside it; built-in ones always do
+    const inside = abs === cwd || abs.startsWith(cwd + sep)
+    ignored = { ...exclusion, origin: (inside && origins.get(`ignores.${exclusion.pattern}`)) || 'built-in' }
+  }
+  else if (exclusion?.reason === 'ignore-file') {
+    ignored = { ...exclusion, ignoreFile: label(exclusion.ignoreFile!) }
+  }
+  else if (exclusion?.reason === 'extension') {
+    ignored = { ...exclusion, origin: extensions ? '--ext' : origins.get('lint.extensions') ?? 'default' }
+  }
+  else {
+    ignored = exclusion
+  }
+
+  return { file: label(abs), configFile: configFile && label(configFile), ignored, settings }
+}
+
+function describeExclusion(ignored: NonNullable<FileConfig['ignored']>): string {
+  switch (ignored.reason) {
+    case 'node_modules':
+      return 'yes, it is inside node_modules'
+    case 'ignores':
+      return `yes, by '${ignored.pattern}' in ignores (${ignored.origin})`
+    case 'ignore-file':
+      return `yes, by '${ignored.pattern}' in ${ignored.ignoreFile}`
+    case 'extension':
+      return `yes, its extension is not in lint.extensions (${ignored.origin})`
+  }
+}
+
+/** `pickier print-config`: the file's status, then each setting with its origin, a section at a time */
+export function formatFileConfig(resolved: FileConfig): string {
+  const lines = [
+    `${colors.bold('File:')} ${resolved.file}`,
+    `${colors.bold('Config:')} ${resolved.configFile ?? 'none, the defaults apply'}`,
+    `${colors.bold('Ignored:')} ${resolved.ignored ? colors.yellow(describeExclusion(resolved.ignored)) : 'no'}`,
+  ]
+
+  const sections = new Map<string, ConfigSetting[]>()
+  for (const setting of resolved.settings) {
+    const section = setting.key.split('.')[0]
+    sections.set(section, [...sections.get(section) || [], setting])
+  }
+  for (const [section, settings] of sections) {
+    // `format.quotes` shows as `quotes  "single"`; an entry of a list, such as an ignore pattern, as its value alone
+    const rows = settings.map(s => [s.key.slice(section.length + 1), typeof s.value === 'string' && s.key === section ? s.value : JSON.stringify(s.value), s.origin])
+    const nameWidth = Math.max(...rows.map(([name]) => name.length))
+    const valueWidth = Math.max(...rows.map(([, value]) => value.length))
+    const nameColumn = (name: string): string => nameWidth > 0 ? name.padEnd(nameWidth + 2) : ''
+    lines.push('', colors.bold(section), ...rows.map(([name, value, origin]) => `  ${nameColumn(name)}${value.padEnd(valueWidth)}  ${colors.gray(origin)}`))
+  }
+  return lines.join('\n')
+}
+
+/** `pickier print-config`: print the resolved config of `file` and return the exit code */
+export async function runPrintConfig(file: string, options: PrintConfigOptions = {}): Promise<number> {
+  const resolved = await resolveFileConfig(file, options)
+  process.stdout.write(`${options.json ? JSON.stringify(resolved, null, 2) : formatFileConfig(resolved)}\n`)
+  return 0
+}
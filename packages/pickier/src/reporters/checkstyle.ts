@@ -0,0 +1,26 @@
+import type { LintIssue } from '../types'
+import { escapeXml, findRepoRoot, reportPath, sortIssues } from './utils'
+
+/**
+ * A Checkstyle XML report of `issues`, as read by Jenkins Warnings NG and
+ * most other code-quality tooling: an `<error>` per issue, grouped by file,
+ * with the rule as its `source`.
+ */
+export function formatCheckstyle(issues: LintIssue[], root: string = findRepoRoot()): string {
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">']
+  let current: string | undefined
+  for (const issue of sortIssues(issues)) {
+    const path = reportPath(issue.filePath, root)
+    if (path !== current) {
+      if (current !== undefined)
+        out.push('  </file>')
+      out.push(`  <file name="${escapeXml(path)}">`)
+      current = path
+    }
+    out.push(`    <error line="${issue.line}" column="${issue.column}" severity="${issue.severity}" message="${escapeXml(issue.message)}" source="${escapeXml(`pickier.${issue.ruleId}`)}" />`)
+  }
+  if (current !== undefined)
+    out.push('  </file>')
+  out.push('</checkstyle>')
+  return out.join('\n')
+}
@@ -0,0 +1,27 @@
+import type { LintIssue } from '../types'
+import { findRepoRoot, issueFingerprints, reportPath, sortIssues } from './utils'
+
+export interface GitLabCodeQualityIssue {
+  description: string
+  check_name: string
+  fingerprint: string
+  severity: 'info' | 'minor' | 'major' | 'critical' | 'blocker'
+  location: { path: string, lines: { begin: number } }
+}
+
+/**
+ * A GitLab Code Quality report of `issues`: the JSON array the merge request
+ * widget compares between the source and target branches. The fingerprints
+ * are what it matches issues by, so they don't change with line numbers.
+ */
+export function formatGitlab(issues: LintIssue[], root: string = findRepoRoot()): string {
+  const fingerprints = issueFingerprints(issues, root)
+  const report: GitLabCodeQualityIssue[] = sortIssues(issues).map(issue => ({
+    description: `${issue.message} (${issue.ruleId})`,
+    check_name: issue.ruleId,
+    fingerprint: fingerprints.get(issue)!,
+    severity: issue.severity === 'error' ? 'major' : 'minor',
+    location: { path: reportPath(issue.filePath, root), lines: { begin: issue.line } },
+  }))
+  return JSON.stringify(report, null, 2)
+}
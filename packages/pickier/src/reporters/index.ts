@@ -0,0 +1,187 @@
+import type { LintIssue, LintSummary, PickierConfig, PickierReporter, Reporter, ReporterContext, ReporterSetting, RuleInfoLookup } from '../types'
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname, isAbsolute, relative, resolve } from 'node:path'
+import { formatStylish, formatVerbose } from '../formatter'
+import { colors } from '../utils'
+import { formatCheckstyle } from './checkstyle'
+import { formatGitlab } from './gitlab'
+import { formatJunit } from './junit'
+import { formatSarif } from './sarif'
+
+// The totals stylish and compact end with, like ESLint
+function printSummary(summary: LintSummary, { log, verbose }: ReporterContext): void {
+  const { errors, warnings, fixableErrors, fixableWarnings } = summary
+  if (summary.issues.length > 0) {
+    const total = errors + warnings
+    const problemsText = total === 1 ? 'problem' : 'problems'
+    const errorsText = errors === 1 ? 'error' : 'errors'
+    const warningsText = warnings === 1 ? 'warning' : 'warnings'
+    log('')
+    log(colors.red(`✖ ${total} ${problemsText} (${errors} ${errorsText}, ${warnings} ${warningsText})`))
+    if (fixableErrors > 0 || fixableWarnings > 0) {
+      const fixableErrorsText = fixableErrors === 1 ? 'error' : 'errors'
+      const fixableWarningsText = fixableWarnings === 1 ? 'warning' : 'warnings'
+      log(colors.gray(`  ${fixableErrors} ${fixableErrorsText} and ${fixableWarnings} ${fixableWarningsText} potentially fixable with the \`--fix\` option.`))
+    }
+  }
+  if (verbose)
+    log(colors.gray(`Scanned ${summary.fileCount} files, found ${errors} errors and ${warnings} warnings.`))
+}
+
+// A reporter printing the whole report of the run once it is over
+function atEnd(format: (summary: LintSummary, context: ReporterContext) => string): PickierReporter {
+  return {
+    onEnd(summary, context) {
+      context.log(format(summary, context))
+    },
+  }
+}
+
+export const BUILTIN_REPORTERS: Record<Reporter, PickierReporter> = {
+  stylish: {
+    onFile(issues, _filePath, { log, verbose }) {
+      if (issues.length > 0)
+        log((verbose ? formatVerbose(issues) : formatStylish(issues)).replace(/\n$/, ''))
+    },
+    onEnd(summary, context) {
+      // the blank line that closes the last file's block
+      if (summary.issues.length > 0)
+        context.log('')
+      printSummary(summary, context)
+    },
+  },
+  compact: {
+    onFile(issues, _filePath, { log }) {
+      for (const i of issues)
+        log(`${relative(process.cwd(), i.filePath)}:${i.line}:${i.column} ${i.severity} ${i.ruleId} ${i.message}`)
+    },
+    onEnd: printSummary,
+  },
+  json: atEnd(({ errors, warnings, issues }) => JSON.stringify({ errors, warnings, issues }, null, 2)),
+  sarif: atEnd(({ issues }, { ruleInfo }) => formatSarif(issues, ruleInfo)),
+  junit: atEnd(({ issues }) => formatJunit(issues)),
+  checkstyle: atEnd(({ issues }) => formatCheckstyle(issues)),
+  gitlab: atEnd(({ issues }) => formatGitlab(issues)),
+}
+
+// Built-ins whose output other tools parse, so nothing else may be printed along
+const MACHINE_READABLE_REPORTERS = new Set<string>(['json', 'sarif', 'junit', 'checkstyle', 'gitlab'])
+
+/**
+ * Split `json:out/report.json` into the reporter and the file it writes to.
+ * A colon before `/` or `\` belongs to a Windows drive letter, not the split.
+ */
+export function parseReporterSpec(spec: string): { name: string, outputFile?: string } {
+  const at = spec.search(/:(?![\\/])/)
+  if (at <= 0 || at === spec.length - 1)
+    return { name: spec }
+  return { name: spec.slice(0, at), outputFile: spec.slice(at + 1) }
+}
+
+function isReporter(value: any): value is PickierReporter {
+  return !!value && typeof value === 'object'
+    && ['onStart', 'onFile', 'onEnd'].some(hook => typeof value[hook] === 'function')
+    && ['onStart', 'onFile', 'onEnd'].every(hook => value[hook] === undefined || typeof value[hook] === 'function')
+}
+
+/**
+ * The reporter `name` stands for: a built-in, or the path (relative to the
+ * cwd) of a module default-exporting a `PickierReporter` or a function that
+ * returns one.
+ */
+export async function loadReporter(name: string): Promise<PickierReporter> {
+  if (Object.hasOwn(BUILTIN_REPORTERS, name))
+    return BUILTIN_REPORTERS[name as Reporter]
+  // Only paths: a bare word is far more likely a misspelt built-in than a package
+  if (!name.startsWith('.') && !isAbsolute(name))
+    throw new Error(`Unknown reporter '${name}': expected one of ${Object.keys(BUILTIN_REPORTERS).join(', ')} or a path to a reporter module`)
+  const file = resolve(process.cwd(), name)
+  let mod: any
+  try {
+    mod = await import(file)
+  }
+  catch (e: any) {
+    throw new Error(`Cannot load reporter '${name}' (${file}): ${e?.message || e}`)
+  }
+  let reporter = mod?.default ?? mod
+  if (typeof reporter === 'function')
+    reporter = await reporter()
+  if (!isReporter(reporter))
+    throw new Error(`Reporter '${name}' (${file}) is not a pickier reporter: expected an object with \`onStart\`, \`onFile\` or \`onEnd\` hooks`)
+  return reporter
+}
+
+export interface ReporterRun {
+  /** What the console gets is meant for other tools, so nothing else may be printed there */
+  machineReadable: boolean
+  start: () => Promise<void>
+  /** Report one file's issues; call in file order */
+  file: (filePath: string, issues: LintIssue[]) => Promise<void>
+  /** Report the totals and write the outfiles */
+  end: (summary: LintSummary) => Promise<void>
+}
+
+interface ReporterEntry {
+  reporter: PickierReporter
+  context: ReporterContext
+  // the lines bound for the outfile, written at the end
+  lines?: string[]
+  outputFile?: string
+}
+
+/**
+ * Load the reporters of one run. `outputFile` (`--output-file`) goes to the
+ * first of them; when every reporter writes to a file, the console gets
+ * stylish. Without `console`, reporters that would print are left out.
+ */
+export async function createReporterRun(
+  settings: ReporterSetting[],
+  shared: { cfg: PickierConfig, verbose: boolean, ruleInfo: RuleInfoLookup },
+  { outputFile, console: toConsole = true }: { outputFile?: string, console?: boolean } = {},
+): Promise<ReporterRun> {
+  let specs = settings.map((setting, index): { name?: string, reporter?: PickierReporter, outputFile?: string } => {
+    const spec = typeof setting === 'string' ? parseReporterSpec(setting) : { reporter: setting }
+    return index === 0 && outputFile ? { ...spec, outputFile } : spec
+  })
+  if (!toConsole)
+    specs = specs.filter(spec => spec.outputFile)
+  else if (specs.every(spec => spec.outputFile))
+    specs.push({ name: 'stylish' })
+
+  const entries: ReporterEntry[] = []
+  let machineReadable = !toConsole
+  for (const spec of specs) {
+    const reporter = spec.reporter ?? await loadReporter(spec.name!)
+    if (!spec.outputFile) {
+      // A reporter of the user's own may print anything, so it gets the console to itself as well
+      machineReadable ||= !spec.name || MACHINE_READABLE_REPORTERS.has(spec.name) || !Object.hasOwn(BUILTIN_REPORTERS, spec.name)
+      // eslint-disable-next-line no-console
+      entries.push({ reporter, context: { ...shared, log: text => console.log(text) } })
+      continue
+    }
+    const lines: string[] = []
+    entries.push({ reporter, lines, outputFile: spec.outputFile, context: { ...shared, log: text => lines.push(text) } })
+  }
+
+  return {
+    machineReadable,
+    async start() {
+      for (const { reporter, context } of entries)
+        await reporter.onStart?.(context)
+    },
+    async file(filePath, issues) {
+      for (const { reporter, context } of entries)
+        await reporter.onFile?.(issues, filePath, context)
+    },
+    async end(summary) {
+      for (const { reporter, context, lines, outputFile } of entries) {
+        await reporter.onEnd?.(summary, context)
+        if (lines && outputFile) {
+          const target = resolve(process.cwd(), outputFile)
+          mkdirSync(dirname(target), { recursive: true })
+          writeFileSync(target, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf8')
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import type { LintIssue } from '../types'
+import { escapeXml, findRepoRoot, issueFingerprints, reportPath, sortIssues } from './utils'
+
+/**
+ * A JUnit XML report of `issues`, as rendered by Jenkins and GitLab test
+ * widgets: a test suite per file with a failing test case per issue. Test
+ * case names pair the rule with the issue's fingerprint, so a test keeps its
+ * history while the lines around it move.
+ */
+export function formatJunit(issues: LintIssue[], root: string = findRepoRoot()): string {
+  const fingerprints = issueFingerprints(issues, root)
+  const byFile = new Map<string, LintIssue[]>()
+  for (const issue of sortIssues(issues)) {
+    const path = reportPath(issue.filePath, root)
+    const list = byFile.get(path)
+    if (list)
+      list.push(issue)
+    else byFile.set(path, [issue])
+  }
+
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>']
+  out.push(`<testsuites name="pickier" tests="${issues.length}" failures="${issues.length}" errors="0">`)
+  for (const [path, list] of byFile) {
+    const file = escapeXml(path)
+    out.push(`  <testsuite name="${file}" tests="${list.length}" failures="${list.length}" errors="0">`)
+    for (const issue of list) {
+      const name = escapeXml(`${issue.ruleId} ${fingerprints.get(issue)}`)
+      const text = `${path}:${issue.line}:${issue.column} ${issue.severity} ${issue.message} (${issue.ruleId})`
+      out.push(`    <testcase name="${name}" classname="${file}" file="${file}" line="${issue.line}">`)
+      out.push(`      <failure message="${escapeXml(issue.message)}" type="${issue.severity}">${escapeXml(text)}</failure>`)
+      out.push('    </testcase>')
+    }
+    out.push('  </testsuite>')
+  }
+  out.push('</testsuites>')
+  return out.join('\n')
+}
@@ -0,0 +1,94 @@
+import type { LintIssue, RuleInfoLookup } from '../types'
+import { isAbsolute } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { version } from '../../package.json'
+import { findRepoRoot, reportPath } from './utils'
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+// Plugins whose findings are supply-chain problems, tagged so code scanning files them under security
+const SECURITY_PLUGINS = new Set(['lockfile', 'publint'])
+
+function ruleTags(ruleId: string): string[] {
+  const plugin = ruleId.includes('/') ? ruleId.slice(0, ruleId.indexOf('/')) : 'core'
+  return SECURITY_PLUGINS.has(plugin) ? [plugin, 'security'] : [plugin]
+}
+
+function artifactLocation(filePath: string, root: string): { uri: string, uriBaseId?: string } {
+  const rel = reportPath(filePath, root)
+  if (!isAbsolute(rel))
+    return { uri: rel.split('/').map(encodeURIComponent).join('/'), uriBaseId: '%SRCROOT%' }
+  return { uri: pathToFileURL(filePath).href }
+}
+
+/**
+ * A SARIF 2.1.0 log of `issues` with one run, as read by GitHub code scanning
+ * and other security dashboards. Rules are described from their `meta`
+ * (an issue's `help` is about that issue, so it stays out), artifact paths are relative to `root`, and an issue that carries its own
+ * edit gets it as a SARIF fix.
+ */
+export function formatSarif(issues: LintIssue[], ruleInfo: RuleInfoLookup, root: string = findRepoRoot()): string {
+  const rules: Array<Record<string, unknown>> = []
+  const ruleIndex = new Map<string, number>()
+
+  const results = issues.map((issue) => {
+    let index = ruleIndex.get(issue.ruleId)
+    if (index === undefined) {
+      const { meta, fixable } = ruleInfo(issue.ruleId, issue.filePath)
+      index = rules.length
+      ruleIndex.set(issue.ruleId, index)
+      rules.push({
+        id: issue.ruleId,
+        ...(meta?.docs && { shortDescription: { text: meta.docs } }),
+        properties: {
+          recommended: !!meta?.recommended,
+          fixable,
+          tags: ruleTags(issue.ruleId),
+        },
+      })
+    }
+
+    const location = artifactLocation(issue.filePath, root)
+    return {
+      ruleId: issue.ruleId,
+      ruleIndex: index,
+      level: issue.severity === 'error' ? 'error' : 'warning',
+      message: { text: issue.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: location,
+          region: { startLine: Math.max(1, issue.line), startColumn: Math.max(1, issue.column) },
+        },
+      }],
+      ...(issue.fix && {
+        fixes: [{
+          description: { text: issue.help || `Fix ${issue.ruleId}` },
+          artifactChanges: [{
+            artifactLocation: location,
+            replacements: [{
+              deletedRegion: { charOffset: issue.fix.range[0], charLength: issue.fix.range[1] - issue.fix.range[0] },
+              insertedContent: { text: issue.fix.text },
+            }],
+          }],
+        }],
+      }),
+    }
+  })
+
+  return JSON.stringify({
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'pickier',
+          version,
+          informationUri: 'https://github.com/pickier/pickier',
+          rules,
+        },
+      },
+      originalUriBaseIds: { '%SRCROOT%': { uri: `${pathToFileURL(root).href}/` } },
+      results,
+    }],
+  }, null, 2)
+}
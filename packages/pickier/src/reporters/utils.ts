@@ -0,0 +1,71 @@
+import type { LintIssue } from '../types'
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, isAbsolute, join, relative } from 'node:path'
+
+/** The repository an artifact path is relative to: the nearest directory up from `cwd` with `.git`, else `cwd` */
+export function findRepoRoot(cwd: string = process.cwd()): string {
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, '.git')))
+      return dir
+    if (dirname(dir) === dir)
+      return cwd
+  }
+}
+
+/** `file` relative to `root` with forward slashes, or as given when it's outside */
+export function reportPath(file: string, root: string): string {
+  const rel = relative(root, file)
+  return rel.startsWith('..') || isAbsolute(rel) ? file : rel.replace(/\\/g, '/')
+}
+
+/** Issues in a stable order: by path, then line, column, rule and message */
+export function sortIssues(issues: LintIssue[]): LintIssue[] {
+  return [...issues].sort((a, b) => a.filePath.localeCompare(b.filePath)
+    || a.line - b.line
+    || a.column - b.column
+    || a.ruleId.localeCompare(b.ruleId)
+    || a.message.localeCompare(b.message))
+}
+
+/**
+ * A fingerprint per issue that stays put while the code around it changes:
+ * a hash of the file's path under `root`, the rule and the issue's line with
+ * its whitespace collapsed. Issues sharing all three are told apart by their
+ * order in the file. Lines are read from disk, as the issues were reported on
+ * what's there now.
+ */
+export function issueFingerprints(issues: LintIssue[], root: string): Map<LintIssue, string> {
+  const lines = new Map<string, string[]>()
+  const seen = new Map<string, number>()
+  const fingerprints = new Map<LintIssue, string>()
+  for (const issue of sortIssues(issues)) {
+    let content = lines.get(issue.filePath)
+    if (!content) {
+      try {
+        content = readFileSync(issue.filePath, 'utf8').split('\n')
+      }
+      catch {
+        content = []
+      }
+      lines.set(issue.filePath, content)
+    }
+    const line = (content[issue.line - 1] ?? '').trim().replace(/\s+/g, ' ')
+    const key = `${reportPath(issue.filePath, root)}\0${issue.ruleId}\0${line}`
+    const occurrence = seen.get(key) ?? 0
+    seen.set(key, occurrence + 1)
+    fingerprints.set(issue, createHash('sha1').update(`${key}\0${occurrence}`).digest('hex').slice(0, 32))
+  }
+  return fingerprints
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+}
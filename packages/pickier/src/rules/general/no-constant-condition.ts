@@ -19,7 +19,7 @@ export const noConstantConditionRule: RuleModule = {
         { pattern: /\b(if|while)\s*\(\s*(['"`][^'"`]*['"`])\s*\)/g, type: 'string' },
       ]
 
-      for (const { pattern, type } of patterns) {
+      for (const { pattern } of patterns) {
         let match
         while ((match = pattern.exec(line)) !== null) {
           const keyword = match[1]
@@ -1,4 +1,15 @@
-import type { RuleModule } from '../../types'
+import type { Definition } from '../../scope'
+import type { LintIssue, RuleModule } from '../../types'
+import { getScopeManager } from '../../ast'
+
+// TypeScript merges these with other declarations of the same name: interfaces
+// with interfaces and classes, namespaces with functions, classes and enums,
+// overload signatures with their implementation
+function mergesByDesign(def: Definition): boolean {
+  return def.node.type === 'TSInterfaceDeclaration'
+    || def.node.type === 'TSModuleDeclaration'
+    || def.node.type === 'TSDeclareFunction'
+}
 
 export const noRedeclareRule: RuleModule = {
   meta: {
@@ -6,60 +17,27 @@ export const noRedeclareRule: RuleModule = {
     recommended: true,
   },
   check: (text, ctx) => {
-    const issues: ReturnType<RuleModule['check']> = []
-    const lines = text.split(/\r?\n/)
-
-    // Track declarations (simple heuristic - function-scoped)
-    const declared = new Map<string, number>() // varName -> line
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-
-      // Match variable declarations
-      const declPattern = /\b(var|let|const)\s+(\w+)/g
-      let match
-
-      for (match = declPattern.exec(line); match !== null; match = declPattern.exec(line)) {
-        const varName = match[2]
-        const prevLine = declared.get(varName)
-
-        if (prevLine !== undefined) {
-          issues.push({
-            filePath: ctx.filePath,
-            line: i + 1,
-            column: Math.max(1, match.index + 1),
-            ruleId: 'eslint/no-redeclare',
-            message: `'${varName}' is already defined`,
-            severity: 'error',
-          })
-        }
-        else {
-          declared.set(varName, i)
-        }
-      }
-
-      // Also check function declarations
-      const funcPattern = /\bfunction\s+(\w+)/g
-      for (match = funcPattern.exec(line); match !== null; match = funcPattern.exec(line)) {
-        const funcName = match[1]
-        const prevLine = declared.get(funcName)
-
-        if (prevLine !== undefined) {
-          issues.push({
-            filePath: ctx.filePath,
-            line: i + 1,
-            column: Math.max(1, match.index + 1),
-            ruleId: 'eslint/no-redeclare',
-            message: `'${funcName}' is already defined`,
-            severity: 'error',
-          })
-        }
-        else {
-          declared.set(funcName, i)
-        }
+    const scopeManager = getScopeManager(text, ctx)
+    if (!scopeManager)
+      return []
+
+    const issues: LintIssue[] = []
+    for (const variable of scopeManager.variables) {
+      const defs = variable.defs.filter(def => !mergesByDesign(def))
+      // enums merge with each other
+      if (defs.length < 2 || defs.every(def => def.type === 'TSEnumName'))
+        continue
+      for (const def of defs.slice(1)) {
+        issues.push({
+          filePath: ctx.filePath,
+          line: def.name.loc.start.line,
+          column: def.name.loc.start.column,
+          ruleId: 'eslint/no-redeclare',
+          message: `'${variable.name}' is already defined`,
+          severity: 'error',
+        })
       }
     }
-
-    return issues
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column)
   },
 }
@@ -35,7 +35,7 @@ export const noSparseArraysRule: RuleModule = {
 
     return issues
   },
-  fix: (text, ctx) => {
+  fix: (text) => {
     const lines = text.split(/\r?\n/)
     let modified = false
 
@@ -1,14 +1,47 @@
-import type { RuleModule } from '../../types'
+import type { LintIssue, RuleModule } from '../../types'
+import { getScopeManager } from '../../ast'
+import { resolveGlobals } from '../../globals'
 
 export const noUndefRule: RuleModule = {
   meta: {
     docs: 'Disallow undeclared variables',
     recommended: true,
-    wip: true, // Complex - needs proper scope tracking
+    schema: {
+      type: 'object',
+      properties: { typeof: { type: 'boolean' } },
+      additionalProperties: false,
+    },
   },
-  check: (_text, _ctx) => {
-    // This is a complex rule that requires proper scope tracking and AST parsing
-    // For now, marking as WIP to be implemented properly later
-    return []
+  check: (text, ctx) => {
+    const scopeManager = getScopeManager(text, ctx)
+    // without a syntax tree there is nothing to resolve against
+    if (!scopeManager)
+      return []
+
+    const opts: any = ctx.options || {}
+    const checkTypeof = opts.typeof === true
+    const globals = resolveGlobals(ctx.config)
+    const issues: LintIssue[] = []
+
+    for (const ref of scopeManager.globalScope.through) {
+      // type positions can name lib types (`Record`, `HTMLElement`) that only the compiler knows
+      if (!ref.isValueReference)
+        continue
+      const id = ref.identifier
+      if (globals.has(id.name))
+        continue
+      if (!checkTypeof && id.parent?.type === 'UnaryExpression' && id.parent.operator === 'typeof')
+        continue
+      issues.push({
+        filePath: ctx.filePath,
+        line: id.loc.start.line,
+        column: id.loc.start.column,
+        ruleId: 'eslint/no-undef',
+        message: `'${id.name}' is not defined`,
+        severity: 'error',
+        help: `Declare or import '${id.name}', or add it to the \`globals\` config (or enable the \`env\` that provides it)`,
+      })
+    }
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column)
   },
 }
@@ -31,7 +31,7 @@ export const useIsNaNRule: RuleModule = {
 
     return issues
   },
-  fix: (text, ctx) => {
+  fix: (text) => {
     const lines = text.split(/\r?\n/)
     let modified = false
 
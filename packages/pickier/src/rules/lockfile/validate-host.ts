@@ -27,6 +27,14 @@ export const validateHost: RuleModule = {
   meta: {
     docs: 'Ensure all packages are from allowed registry hosts',
     recommended: true,
+    schema: {
+      type: 'object',
+      properties: {
+        allowedHosts: { type: 'array', items: { type: 'string' } },
+        emptyHostname: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
   },
 
   check(content: string, context: RuleContext): LintIssue[] {
@@ -22,6 +22,14 @@ export const validateIntegrity: RuleModule = {
   meta: {
     docs: 'Ensure all packages use strong integrity hashes (SHA512)',
     recommended: true,
+    schema: {
+      type: 'object',
+      properties: {
+        requiredAlgorithm: { enum: ['sha1', 'sha256', 'sha384', 'sha512'] },
+        exclude: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
   },
 
   check(content: string, context: RuleContext): LintIssue[] {
@@ -26,6 +26,13 @@ export const validatePackageNames: RuleModule = {
   meta: {
     docs: 'Ensure package names match their resolved URLs',
     recommended: true,
+    schema: {
+      type: 'object',
+      properties: {
+        aliases: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
   },
 
   check(content: string, context: RuleContext): LintIssue[] {
@@ -20,6 +20,13 @@ export const validateScheme: RuleModule = {
   meta: {
     docs: 'Ensure all packages use allowed URL schemes',
     recommended: true,
+    schema: {
+      type: 'object',
+      properties: {
+        allowedSchemes: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
   },
 
   check(content: string, context: RuleContext): LintIssue[] {
@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const codeBlockStyleRule: RuleModule = {
   meta: {
     docs: 'Code block style should be consistent',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['fenced', 'indented', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -42,6 +42,11 @@ function fenceBoundaryLines(lines: string[]): Set<number> {
 export const codeFenceStyleRule: RuleModule = {
   meta: {
     docs: 'Code fence style should be consistent (backtick or tilde)',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['backtick', 'tilde', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
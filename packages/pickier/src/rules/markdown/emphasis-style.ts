@@ -45,6 +45,11 @@ const UNDERSCORE_EMPHASIS = new RegExp(UNDERSCORE_EMPHASIS_SOURCE)
 export const emphasisStyleRule: RuleModule = {
   meta: {
     docs: 'Emphasis style should be consistent (asterisk or underscore)',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['asterisk', 'underscore', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -7,6 +7,11 @@ import { getCodeBlockLines } from './_fence-tracking'
 export const headingStyleRule: RuleModule = {
   meta: {
     docs: 'Heading style should be consistent (atx, setext, or consistent)',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['atx', 'setext', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const hrStyleRule: RuleModule = {
   meta: {
     docs: 'Horizontal rule style should be consistent',
+    schema: {
+      type: 'object',
+      properties: { style: { type: 'string' } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -6,6 +6,16 @@ import type { LintIssue, RuleModule } from '../../types'
 export const lineLengthRule: RuleModule = {
   meta: {
     docs: 'Lines should not exceed a specified length',
+    schema: {
+      type: 'object',
+      properties: {
+        line_length: { type: 'integer', minimum: 1 },
+        code_blocks: { type: 'boolean' },
+        tables: { type: 'boolean' },
+        headings: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
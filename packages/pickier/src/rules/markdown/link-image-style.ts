@@ -7,6 +7,11 @@ import { getCodeBlockLines } from './_fence-tracking'
 export const linkImageStyleRule: RuleModule = {
   meta: {
     docs: 'Link and image style should be consistent',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['inline', 'reference', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
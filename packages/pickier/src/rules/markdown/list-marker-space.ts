@@ -6,6 +6,16 @@ import type { LintIssue, RuleModule } from '../../types'
 export const listMarkerSpaceRule: RuleModule = {
   meta: {
     docs: 'Spaces after list markers should be consistent',
+    schema: {
+      type: 'object',
+      properties: {
+        ul_single: { type: 'integer', minimum: 1 },
+        ul_multi: { type: 'integer', minimum: 1 },
+        ol_single: { type: 'integer', minimum: 1 },
+        ol_multi: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const noInlineHtmlRule: RuleModule = {
   meta: {
     docs: 'Inline HTML should not be used',
+    schema: {
+      type: 'object',
+      properties: { allowed_elements: { type: 'array', items: { type: 'string' } } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const noMultipleBlanksRule: RuleModule = {
   meta: {
     docs: 'Multiple consecutive blank lines should not be used',
+    schema: {
+      type: 'object',
+      properties: { maximum: { type: 'integer', minimum: 0 } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
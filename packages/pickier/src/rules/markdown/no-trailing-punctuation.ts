@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const noTrailingPunctuationRule: RuleModule = {
   meta: {
     docs: 'Headings should not end with punctuation',
+    schema: {
+      type: 'object',
+      properties: { punctuation: { type: 'string' } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
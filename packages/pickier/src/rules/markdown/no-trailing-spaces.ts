@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const noTrailingSpacesRule: RuleModule = {
   meta: {
     docs: 'Lines should not end with trailing spaces',
+    schema: {
+      type: 'object',
+      properties: { br_spaces: { type: 'integer', minimum: 0 } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
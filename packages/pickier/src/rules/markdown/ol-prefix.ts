@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const olPrefixRule: RuleModule = {
   meta: {
     docs: 'Ordered list item prefix should follow specified style',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['one', 'ordered', 'one_or_ordered'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -7,6 +7,14 @@ import { getCodeBlockLines } from './_fence-tracking'
 export const properNamesRule: RuleModule = {
   meta: {
     docs: 'Proper names should have correct capitalization',
+    schema: {
+      type: 'object',
+      properties: {
+        names: { type: 'array', items: { type: 'string' } },
+        code_blocks: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -6,6 +6,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const requiredHeadingsRule: RuleModule = {
   meta: {
     docs: 'Document should have required heading structure',
+    schema: {
+      type: 'object',
+      properties: { headings: { type: 'array', items: { type: 'string' } } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
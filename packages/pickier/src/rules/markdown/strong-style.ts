@@ -18,6 +18,11 @@ import { getCodeBlockLines, maskInlineCode, replaceOutsideInlineCode } from './_
 export const strongStyleRule: RuleModule = {
   meta: {
     docs: 'Strong style should be consistent (asterisk or underscore)',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['asterisk', 'underscore', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
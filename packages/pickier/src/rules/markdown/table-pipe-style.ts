@@ -7,6 +7,11 @@ import { findTableRows } from './_shared'
 export const tablePipeStyleRule: RuleModule = {
   meta: {
     docs: 'Table pipe style should be consistent',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['leading_only', 'trailing_only', 'leading_and_trailing', 'no_leading_or_trailing'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
@@ -15,6 +15,11 @@ import type { LintIssue, RuleModule } from '../../types'
 export const ulIndentRule: RuleModule = {
   meta: {
     docs: 'Unordered list indentation should be consistent',
+    schema: {
+      type: 'object',
+      properties: { indent: { type: 'integer', minimum: 1 } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
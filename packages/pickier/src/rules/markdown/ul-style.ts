@@ -7,6 +7,11 @@ import { getCodeBlockLines } from './_fence-tracking'
 export const ulStyleRule: RuleModule = {
   meta: {
     docs: 'Unordered list style should be consistent',
+    schema: {
+      type: 'object',
+      properties: { style: { enum: ['asterisk', 'dash', 'plus', 'consistent'] } },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
     const issues: LintIssue[] = []
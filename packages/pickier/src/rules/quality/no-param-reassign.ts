@@ -31,7 +31,7 @@ export const noParamReassignRule: RuleModule = {
       }
 
       // Check for parameter reassignment (simple heuristic)
-      for (const [funcKey, params] of functionParams.entries()) {
+      for (const params of functionParams.values()) {
         for (const param of params) {
           // Match assignments to the parameter
           const assignPattern = new RegExp(`\\b${param}\\s*=\\s*[^=]`, 'g')
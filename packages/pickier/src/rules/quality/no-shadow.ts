@@ -1,4 +1,18 @@
-import type { RuleModule } from '../../types'
+import type { Variable } from '../../scope'
+import type { LintIssue, RuleModule } from '../../types'
+import { getScopeManager } from '../../ast'
+
+// the upper-scope variable `variable` would shadow, if any
+function shadowed(variable: Variable): Variable | null {
+  for (let scope = variable.scope.upper; scope; scope = scope.upper) {
+    const outer = scope.variables.get(variable.name)
+    // a type and a value of the same name do not shadow each other
+    if (outer && outer.defs.length > 0
+      && ((outer.isValueVariable && variable.isValueVariable) || (outer.isTypeVariable && variable.isTypeVariable)))
+      return outer
+  }
+  return null
+}
 
 export const noShadowRule: RuleModule = {
   meta: {
@@ -6,57 +20,31 @@ export const noShadowRule: RuleModule = {
     recommended: false,
   },
   check: (text, ctx) => {
-    const issues: ReturnType<RuleModule['check']> = []
-    const lines = text.split(/\r?\n/)
-
-    // Track declared variables per scope (simplified - just tracks top-level and function scopes)
-    const topLevelVars = new Set<string>()
-    const scopeStack: Set<string>[] = [topLevelVars]
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-
-      // Detect function/block scope entry
-      if (line.match(/\bfunction\s+\w+\s*\(|=>\s*\{|\{\s*$/)) {
-        scopeStack.push(new Set())
-      }
-
-      // Detect variable declarations
-      const declarations = [
-        ...line.matchAll(/\b(const|let|var)\s+(\w+)/g),
-        ...line.matchAll(/function\s+(\w+)\s*\(/g),
-      ]
-
-      for (const match of declarations) {
-        const varName = match[2] || match[1]
-
-        // Check if this variable shadows one from an outer scope
-        for (let j = 0; j < scopeStack.length - 1; j++) {
-          if (scopeStack[j].has(varName)) {
-            issues.push({
-              filePath: ctx.filePath,
-              line: i + 1,
-              column: 1,
-              ruleId: 'eslint/no-shadow',
-              message: `'${varName}' is already declared in the upper scope`,
-              severity: 'error',
-            })
-            break
-          }
-        }
-
-        // Add to current scope
-        scopeStack[scopeStack.length - 1].add(varName)
-      }
-
-      // Detect scope exit (simplified)
-      if (line.match(/^\s*\}\s*$/)) {
-        if (scopeStack.length > 1) {
-          scopeStack.pop()
-        }
-      }
+    const scopeManager = getScopeManager(text, ctx)
+    if (!scopeManager)
+      return []
+
+    const issues: LintIssue[] = []
+    for (const variable of scopeManager.variables) {
+      if (variable.scope.type === 'global' || variable.defs[0].type === 'TSEnumMember')
+        continue
+      const outer = shadowed(variable)
+      if (!outer)
+        continue
+      const inner = variable.identifiers[0]
+      const outerDef = outer.defs[0]
+      // a `let`/`const`/class declared after the shadowing one was not reachable yet
+      if (outerDef.type !== 'FunctionName' && outerDef.name.start > inner.start)
+        continue
+      issues.push({
+        filePath: ctx.filePath,
+        line: inner.loc.start.line,
+        column: inner.loc.start.column,
+        ruleId: 'eslint/no-shadow',
+        message: `'${variable.name}' is already declared in the upper scope`,
+        severity: 'error',
+      })
     }
-
-    return issues
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column)
   },
 }
@@ -1,65 +1,91 @@
-import type { RuleModule } from '../../types'
+import type { Node } from '../../parser'
+import type { Reference } from '../../scope'
+import type { LintIssue, RuleModule } from '../../types'
+import { getScopeManager } from '../../ast'
+
+interface Options {
+  functions?: boolean
+  classes?: boolean
+  variables?: boolean
+  allowNamedExports?: boolean
+}
+
+const FUNCTIONS = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'])
+
+// `typeof x` in a type annotation reads no value at runtime
+function inTypeQuery(id: Node): boolean {
+  let node = id.parent
+  while (node && (node.type === 'TSQualifiedName' || node.type === 'MemberExpression'))
+    node = node.parent
+  return node?.type === 'TSTypeQuery'
+}
+
+// the reference runs before its function's own body does: the variable is in its TDZ (`const a = a + 1`)
+function readInOwnInitializer(ref: Reference): boolean {
+  const def = ref.resolved!.defs[0]
+  const init = def.type === 'Variable' ? def.node.init : null
+  if (!init || ref.identifier.start < init.start || ref.identifier.end > init.end)
+    return false
+  for (let node = ref.identifier.parent; node; node = node.parent) {
+    if (FUNCTIONS.has(node.type))
+      return false
+    if (node === init)
+      break
+  }
+  return true
+}
+
+// made from a function that may run later, when the declaration has been evaluated
+function fromNestedFunction(ref: Reference): boolean {
+  return ref.from.variableScope !== ref.resolved!.scope.variableScope
+}
 
 export const noUseBeforeDefineRule: RuleModule = {
   meta: {
     docs: 'Disallow the use of variables before they are defined',
     recommended: false,
+    schema: {
+      type: 'object',
+      properties: {
+        functions: { type: 'boolean' },
+        classes: { type: 'boolean' },
+        variables: { type: 'boolean' },
+        allowNamedExports: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
   },
   check: (text, ctx) => {
-    const issues: ReturnType<RuleModule['check']> = []
-    const lines = text.split(/\r?\n/)
-
-    // Track variable declarations and their line numbers
-    const declarations = new Map<string, number>()
-
-    // First pass: collect all declarations
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
+    const scopeManager = getScopeManager(text, ctx)
+    if (!scopeManager)
+      return []
 
-      const declMatches = [
-        ...line.matchAll(/\b(const|let|var)\s+(\w+)/g),
-        ...line.matchAll(/\bfunction\s+(\w+)\s*\(/g),
-        ...line.matchAll(/\bclass\s+(\w+)/g),
-      ]
-
-      for (const match of declMatches) {
-        const varName = match[2] || match[1]
-        if (!declarations.has(varName)) {
-          declarations.set(varName, i + 1)
-        }
-      }
-    }
-
-    // Second pass: check for usage before declaration
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-
-      // Skip declaration lines themselves
-      if (line.match(/\b(const|let|var|function|class)\s+\w+/)) {
+    const opts: Options = (ctx.options as Options) || {}
+    const issues: LintIssue[] = []
+    for (const variable of scopeManager.variables) {
+      const def = variable.defs[0]
+      if (opts.functions === false && def.type === 'FunctionName')
         continue
-      }
-
-      // Find variable usage
-      const usageMatches = line.matchAll(/\b(\w+)\b/g)
-
-      for (const match of usageMatches) {
-        const varName = match[1]
-
-        // Check if this variable is declared later
-        const declLine = declarations.get(varName)
-        if (declLine && declLine > i + 1) {
-          issues.push({
-            filePath: ctx.filePath,
-            line: i + 1,
-            column: match.index! + 1,
-            ruleId: 'eslint/no-use-before-define',
-            message: `'${varName}' was used before it was defined`,
-            severity: 'error',
-          })
-        }
+      for (const ref of variable.references) {
+        // type positions and declaration initializers are not uses
+        if (ref.init || !ref.isValueReference || inTypeQuery(ref.identifier))
+          continue
+        if (opts.allowNamedExports && ref.identifier.parent?.type === 'ExportSpecifier')
+          continue
+        if (((opts.variables === false && def.type === 'Variable') || (opts.classes === false && def.type === 'ClassName')) && fromNestedFunction(ref))
+          continue
+        if (variable.identifiers[0].end < ref.identifier.end && !readInOwnInitializer(ref))
+          continue
+        issues.push({
+          filePath: ctx.filePath,
+          line: ref.identifier.loc.start.line,
+          column: ref.identifier.loc.start.column,
+          ruleId: 'eslint/no-use-before-define',
+          message: `'${variable.name}' was used before it was defined`,
+          severity: 'error',
+        })
       }
     }
-
-    return issues
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column)
   },
 }
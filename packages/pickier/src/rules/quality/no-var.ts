@@ -35,7 +35,7 @@ export const noVarRule: RuleModule = {
 
     return issues
   },
-  fix: (text, ctx) => {
+  fix: (text) => {
     const lines = text.split(/\r?\n/)
 
     // For each var, determine if it should be const or let based on reassignment
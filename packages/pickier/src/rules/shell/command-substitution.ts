@@ -73,7 +73,7 @@ export const commandSubstitutionRule: RuleModule = {
     }
     return issues
   },
-  fix(content, ctx) {
+  fix(content) {
     const lines = content.split(/\r?\n/)
     const result: string[] = []
     let inHeredoc = false
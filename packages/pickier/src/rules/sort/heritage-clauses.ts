@@ -2,7 +2,20 @@
 import type { RuleModule } from '../../types'
 
 export const sortHeritageClausesRule: RuleModule = {
-  meta: { docs: 'Enforce sorted TypeScript heritage clauses (extends/implements lists)' },
+  meta: {
+    docs: 'Enforce sorted TypeScript heritage clauses (extends/implements lists)',
+    schema: {
+      type: 'object',
+      properties: {
+        type: { enum: ['alphabetical', 'natural', 'line-length', 'unsorted'] },
+        order: { enum: ['asc', 'desc'] },
+        ignoreCase: { type: 'boolean' },
+        groups: { type: 'array', items: { type: ['string', 'array'], items: { type: 'string' } } },
+        customGroups: { type: 'object', additionalProperties: { type: ['string', 'array'], items: { type: 'string' } } },
+      },
+      additionalProperties: false,
+    },
+  },
   check: (text, ctx) => {
     const opts: any = ctx.options || {}
     const type: 'alphabetical' | 'natural' | 'line-length' | 'unsorted' = opts.type || 'alphabetical'
@@ -1,7 +1,19 @@
 import type { RuleModule } from '../../types'
 
 export const sortNamedImportsRule: RuleModule = {
-  meta: { docs: 'Enforce sorted named imports within each import statement' },
+  meta: {
+    docs: 'Enforce sorted named imports within each import statement',
+    schema: {
+      type: 'object',
+      properties: {
+        type: { enum: ['alphabetical', 'line-length'] },
+        order: { enum: ['asc', 'desc'] },
+        ignoreCase: { type: 'boolean' },
+        ignoreAlias: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+  },
   check: (text, ctx) => {
     const opts: any = ctx.options || {}
     const type: 'alphabetical' | 'line-length' = opts.type || 'alphabetical'
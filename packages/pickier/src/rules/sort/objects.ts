@@ -1,7 +1,19 @@
 import type { RuleModule } from '../../types'
 
 export const sortObjectsRule: RuleModule = {
-  meta: { docs: 'Enforce sorted object keys' },
+  meta: {
+    docs: 'Enforce sorted object keys',
+    schema: {
+      type: 'object',
+      properties: {
+        type: { enum: ['alphabetical', 'line-length'] },
+        order: { enum: ['asc', 'desc'] },
+        ignoreCase: { type: 'boolean' },
+        partitionByNewLine: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+  },
   check: (text, ctx) => {
     const opts: any = ctx.options || {}
     const type: 'alphabetical' | 'line-length' = opts.type || 'alphabetical'
@@ -1,7 +1,14 @@
 import type { RuleModule } from '../../types'
 
 export const maxStatementsPerLineRule: RuleModule = {
-  meta: { docs: 'Limit the number of statements allowed on a single line' },
+  meta: {
+    docs: 'Limit the number of statements allowed on a single line',
+    schema: {
+      type: 'object',
+      properties: { max: { type: 'integer', minimum: 1 } },
+      additionalProperties: false,
+    },
+  },
   check: (text, ctx) => {
     const max: number = (ctx.options && typeof (ctx.options as any).max === 'number') ? (ctx.options as any).max : 1
     const issues: ReturnType<RuleModule['check']> = []
@@ -58,7 +58,6 @@ export const noUnsafeAssignmentRule: RuleModule = {
 
       // eslint-disable-next-line no-cond-assign
       while ((match = asCastPattern.exec(cleanedLine)) !== null) {
-        const varName = match[1]
         const castIdx = match.index
 
         // Check if this cast is being assigned to something
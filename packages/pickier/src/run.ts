@@ -1,7 +1,9 @@
 import type { FormatOptions, LintOptions } from './types'
 import { readFileSync, statSync, writeFileSync } from 'node:fs'
 import { isAbsolute, resolve } from 'node:path'
+import { unifiedDiff } from './diff'
 import { formatCode } from './format'
+import { findRepoRoot, reportPath } from './reporters/utils'
 import { loadConfigFromPath } from './utils'
 
 export type RunOptions = (Partial<LintOptions> & Partial<FormatOptions>) & {
@@ -11,9 +13,15 @@ export type RunOptions = (Partial<LintOptions> & Partial<FormatOptions>) & {
 export async function runUnified(globs: string[], options: RunOptions): Promise<number> {
   const mode = options.mode || 'auto'
 
+  // --stdin: the text comes from stdin and stands in for --stdin-filename
+  if (options.stdin) {
+    const { readStdin, runStdin } = await import('./stdin')
+    return runStdin(await readStdin(), options)
+  }
+
   // FAST PATH: format mode with a single concrete file (no glob chars)
   // Avoids importing linter.ts and its heavy deps (plugins, logger)
-  if (mode === 'format' && globs.length === 1 && !/[*?[\]{}()!]/.test(globs[0])) {
+  if (mode === 'format' && !options.watch && globs.length === 1 && !/[*?[\]{}()!]/.test(globs[0])) {
     try {
       const p = globs[0]
       const filePath = isAbsolute(p) ? p : resolve(process.cwd(), p)
@@ -22,6 +30,10 @@ export async function runUnified(globs: string[], options: RunOptions): Promise<
         const cfg = await loadConfigFromPath(options.config)
         const src = readFileSync(filePath, 'utf8')
         const fmt = formatCode(src, cfg, filePath)
+        if (options.diff) {
+          process.stdout.write(unifiedDiff(reportPath(filePath, findRepoRoot()), src, fmt, { color: !!process.stdout.isTTY }))
+          return fmt === src ? 0 : 1
+        }
         if (options.check && fmt !== src)
           return 1
         if (options.write && fmt !== src) {
@@ -36,10 +48,11 @@ export async function runUnified(globs: string[], options: RunOptions): Promise<
   }
 
   // Full path: dynamically import linter to defer its heavy deps
-  const { runLint } = await import('./linter')
+  // --watch keeps the run going, linting files again as they change
+  const lint = options.watch ? (await import('./watch')).runWatch : (await import('./linter')).runLint
 
   if (mode === 'lint')
-    return runLint(globs, options as LintOptions)
+    return lint(globs, options as LintOptions)
 
   if (mode === 'format') {
     const lintOpts: LintOptions = {
@@ -49,7 +62,7 @@ export async function runUnified(globs: string[], options: RunOptions): Promise<
       ext: options.ext,
       _formatOnly: true,
     }
-    return runLint(globs, lintOpts)
+    return lint(globs, lintOpts)
   }
 
   // auto mode: infer from flags. We only write fixes when the user explicitly
@@ -58,7 +71,7 @@ export async function runUnified(globs: string[], options: RunOptions): Promise<
   // accidental destructive edits on docs/templates from a casual invocation.
   const wantsFix = options.fix === true || options.write === true || options.check === true
   if (!wantsFix)
-    return runLint(globs, options as LintOptions)
+    return lint(globs, options as LintOptions)
 
   const lintOpts: LintOptions = {
     ...(options as any),
@@ -66,5 +79,5 @@ export async function runUnified(globs: string[], options: RunOptions): Promise<
     dryRun: !!options.check,
     ext: options.ext,
   }
-  return runLint(globs, lintOpts)
+  return lint(globs, lintOpts)
 }
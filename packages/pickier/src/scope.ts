@@ -0,0 +1,747 @@
+/**
+ * Lexical scope analysis over the ESTree produced by `parser.ts`.
+ *
+ * `analyzeScope()` walks a program once, records every binding (imports,
+ * declarations, parameters, destructuring targets, catch bindings, type names)
+ * and every identifier reference, then resolves each reference against the
+ * scope chain it was made from. Declarations are collected before anything is
+ * resolved, so hoisting falls out naturally: a reference to a function declared
+ * further down still finds it.
+ *
+ * TypeScript keeps values and types in separate namespaces, and so does this
+ * analyzer: an interface only satisfies type references, a `let` only satisfies
+ * value references, and classes, enums, namespaces and imports satisfy both.
+ * Type-only positions (annotations, `implements`, type arguments) produce type
+ * references; `typeof x` in a type produces a value reference.
+ */
+import type { Node, Program } from './parser'
+import { forEachChild } from './parser'
+
+export type ScopeType =
+  | 'global'
+  | 'module'
+  | 'function'
+  | 'block'
+  | 'for'
+  | 'switch'
+  | 'catch'
+  | 'class'
+  | 'class-static-block'
+  | 'with'
+  | 'ts-module'
+  | 'ts-enum'
+  | 'type'
+
+export type DefinitionType =
+  | 'Variable'
+  | 'FunctionName'
+  | 'ClassName'
+  | 'Parameter'
+  | 'CatchClause'
+  | 'ImportBinding'
+  | 'TSEnumName'
+  | 'TSEnumMember'
+  | 'TSModuleName'
+  | 'Type'
+  | 'TypeParameter'
+
+export interface Definition {
+  type: DefinitionType
+  /** The binding identifier */
+  name: Node
+  /** The declaring node: a VariableDeclarator, the function of a parameter, an import specifier, ... */
+  node: Node
+  /** The VariableDeclaration of a 'Variable', the ImportDeclaration of an 'ImportBinding' */
+  parent: Node | null
+  /** Declaration keyword of a 'Variable' */
+  kind?: string
+}
+
+export interface Variable {
+  name: string
+  scope: Scope
+  /** Empty for implicit variables such as a function's `arguments` */
+  defs: Definition[]
+  identifiers: Node[]
+  references: Reference[]
+  isValueVariable: boolean
+  isTypeVariable: boolean
+}
+
+export interface Reference {
+  identifier: Node
+  from: Scope
+  resolved: Variable | null
+  isRead: boolean
+  isWrite: boolean
+  /** A write made by a declaration initializer (`const a = 1`, `for (const a of b)`) */
+  init: boolean
+  /** The value being written, when there is one */
+  writeExpr: Node | null
+  isValueReference: boolean
+  isTypeReference: boolean
+}
+
+export interface Scope {
+  type: ScopeType
+  block: Node
+  upper: Scope | null
+  childScopes: Scope[]
+  /** Nearest scope that `var` declarations hoist to */
+  variableScope: Scope
+  variables: Map<string, Variable>
+  /** References made directly in this scope */
+  references: Reference[]
+  /** References from this scope or below that it does not resolve */
+  through: Reference[]
+}
+
+export interface ScopeManager {
+  globalScope: Scope
+  scopes: Scope[]
+  /** Every declared variable, in declaration order */
+  variables: Variable[]
+  /** The scope opened by `node`, if it opens one */
+  acquire: (node: Node) => Scope | null
+}
+
+const VARIABLE_SCOPES = new Set<ScopeType>(['global', 'module', 'function', 'class-static-block', 'ts-module'])
+
+const SIGNATURES = new Set([
+  'TSCallSignatureDeclaration',
+  'TSConstructSignatureDeclaration',
+  'TSConstructorType',
+  'TSFunctionType',
+  'TSMethodSignature',
+])
+
+const CLASS_MEMBERS = new Set([
+  'MethodDefinition',
+  'PropertyDefinition',
+  'AccessorProperty',
+  'TSAbstractMethodDefinition',
+  'TSAbstractPropertyDefinition',
+  'TSAbstractAccessorProperty',
+])
+
+// expression wrappers that may appear as assignment targets
+const TS_WRAPPERS = new Set(['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'TSTypeAssertion'])
+
+interface Namespaces { value: boolean, type: boolean }
+
+const BOTH: Namespaces = { value: true, type: true }
+const VALUE: Namespaces = { value: true, type: false }
+const TYPE: Namespaces = { value: false, type: true }
+
+interface RefFlags {
+  read?: boolean
+  write?: boolean
+  init?: boolean
+  writeExpr?: Node | null
+  ns?: Namespaces
+}
+
+/** Build the scope tree of `program` and resolve every reference in it. */
+export function analyzeScope(program: Program): ScopeManager {
+  const scopes: Scope[] = []
+  const variables: Variable[] = []
+  const byBlock = new Map<Node, Scope>()
+
+  function createScope(type: ScopeType, block: Node, upper: Scope | null): Scope {
+    const scope = {
+      type,
+      block,
+      upper,
+      childScopes: [],
+      variables: new Map(),
+      references: [],
+      through: [],
+    } as unknown as Scope
+    scope.variableScope = VARIABLE_SCOPES.has(type) || !upper ? scope : upper.variableScope
+    if (upper)
+      upper.childScopes.push(scope)
+    scopes.push(scope)
+    if (!byBlock.has(block))
+      byBlock.set(block, scope)
+    return scope
+  }
+
+  const globalScope = createScope('global', program, null)
+  let current = program.sourceType === 'module' ? createScope('module', program, globalScope) : globalScope
+
+  function within(type: ScopeType, block: Node, body: () => void): void {
+    const saved = current
+    current = createScope(type, block, saved)
+    try {
+      body()
+    }
+    finally {
+      current = saved
+    }
+  }
+
+  function declare(scope: Scope, id: Node, def: Omit<Definition, 'name'>, ns: Namespaces): Variable {
+    const name: string = id.name
+    let variable = scope.variables.get(name)
+    if (!variable) {
+      variable = { name, scope, defs: [], identifiers: [], references: [], isValueVariable: false, isTypeVariable: false }
+      scope.variables.set(name, variable)
+      variables.push(variable)
+    }
+    variable.defs.push({ ...def, name: id })
+    variable.identifiers.push(id)
+    variable.isValueVariable ||= ns.value
+    variable.isTypeVariable ||= ns.type
+    return variable
+  }
+
+  function reference(id: Node, flags: RefFlags = {}): void {
+    const ns = flags.ns || VALUE
+    current.references.push({
+      identifier: id,
+      from: current,
+      resolved: null,
+      isRead: flags.read ?? !flags.write,
+      isWrite: !!flags.write,
+      init: !!flags.init,
+      writeExpr: flags.writeExpr ?? null,
+      isValueReference: ns.value,
+      isTypeReference: ns.type,
+    })
+  }
+
+  // leftmost identifier of `a`, `a.b.c` or `A.B.C`
+  function rootIdentifier(node: Node | null | undefined): Node | null {
+    while (node) {
+      if (node.type === 'Identifier')
+        return node
+      if (node.type === 'TSQualifiedName')
+        node = node.left
+      else if (node.type === 'MemberExpression')
+        node = node.object
+      else return null
+    }
+    return null
+  }
+
+  function visitAll(nodes: Array<Node | null | undefined> | null | undefined): void {
+    if (nodes) {
+      for (const node of nodes) visit(node)
+    }
+  }
+
+  /**
+   * Declare every identifier bound by `pattern` and visit the expressions and
+   * types it contains. `onBinding` sees each bound identifier.
+   */
+  function bindPattern(pattern: Node | null | undefined, onBinding: (id: Node) => void): void {
+    if (!pattern)
+      return
+    switch (pattern.type) {
+      case 'Identifier':
+        visit(pattern.typeAnnotation)
+        visitAll(pattern.decorators)
+        if (pattern.name !== 'this')
+          onBinding(pattern)
+        return
+      case 'ObjectPattern':
+        visit(pattern.typeAnnotation)
+        for (const prop of pattern.properties) {
+          if (prop.type === 'RestElement') {
+            bindPattern(prop.argument, onBinding)
+            continue
+          }
+          if (prop.computed)
+            visit(prop.key)
+          bindPattern(prop.value, onBinding)
+        }
+        return
+      case 'ArrayPattern':
+        visit(pattern.typeAnnotation)
+        for (const element of pattern.elements) bindPattern(element, onBinding)
+        return
+      case 'RestElement':
+        visit(pattern.typeAnnotation)
+        bindPattern(pattern.argument, onBinding)
+        return
+      case 'AssignmentPattern':
+        bindPattern(pattern.left, onBinding)
+        visit(pattern.right)
+        return
+      case 'TSParameterProperty':
+        visitAll(pattern.decorators)
+        bindPattern(pattern.parameter, onBinding)
+        return
+      default:
+        visit(pattern)
+    }
+  }
+
+  /** Record writes to the targets of an assignment, `for-in/of` head or update. */
+  function assignTargets(target: Node | null | undefined, writeExpr: Node | null, alsoRead: boolean): void {
+    if (!target)
+      return
+    switch (target.type) {
+      case 'Identifier':
+        reference(target, { read: alsoRead, write: true, writeExpr })
+        return
+      case 'ObjectPattern':
+        for (const prop of target.properties) {
+          if (prop.type === 'RestElement') {
+            assignTargets(prop.argument, null, false)
+            continue
+          }
+          if (prop.computed)
+            visit(prop.key)
+          assignTargets(prop.value, null, false)
+        }
+        return
+      case 'ArrayPattern':
+        for (const element of target.elements) assignTargets(element, null, false)
+        return
+      case 'RestElement':
+        assignTargets(target.argument, null, false)
+        return
+      case 'AssignmentPattern':
+        assignTargets(target.left, target.right, false)
+        visit(target.right)
+        return
+      default:
+        if (TS_WRAPPERS.has(target.type)) {
+          assignTargets(target.expression, writeExpr, alsoRead)
+          visit(target.typeAnnotation)
+          return
+        }
+        visit(target)
+    }
+  }
+
+  function visitVariableDeclaration(node: Node, writeExpr: Node | null): void {
+    const scope = node.kind === 'var' ? current.variableScope : current
+    for (const declarator of node.declarations) {
+      const value = writeExpr || declarator.init || null
+      bindPattern(declarator.id, (id) => {
+        declare(scope, id, { type: 'Variable', node: declarator, parent: node, kind: node.kind }, VALUE)
+        if (value)
+          reference(id, { write: true, init: true, writeExpr: value })
+      })
+      visit(declarator.init)
+    }
+  }
+
+  function visitFunction(node: Node): void {
+    within('function', node, () => {
+      if (node.type === 'FunctionExpression' && node.id)
+        declare(current, node.id, { type: 'FunctionName', node, parent: null }, VALUE)
+      if (node.type !== 'ArrowFunctionExpression')
+        current.variables.set('arguments', { name: 'arguments', scope: current, defs: [], identifiers: [], references: [], isValueVariable: true, isTypeVariable: false })
+      visit(node.typeParameters)
+      for (const param of node.params)
+        bindPattern(param, id => declare(current, id, { type: 'Parameter', node, parent: null }, VALUE))
+      visit(node.returnType)
+      if (node.body?.type === 'BlockStatement')
+        visitAll(node.body.body)
+      else visit(node.body)
+    })
+  }
+
+  // overloads, `declare function` and signature types: parameter names bind nothing
+  function visitSignature(node: Node): void {
+    within('type', node, () => {
+      visit(node.typeParameters)
+      for (const param of node.params || []) visitParamTypes(param)
+      visit(node.returnType)
+    })
+  }
+
+  function visitParamTypes(param: Node | null | undefined): void {
+    if (!param)
+      return
+    switch (param.type) {
+      case 'TSParameterProperty':
+        visitParamTypes(param.parameter)
+        return
+      case 'AssignmentPattern':
+        visitParamTypes(param.left)
+        visit(param.right)
+        return
+      case 'RestElement':
+        visit(param.typeAnnotation)
+        visitParamTypes(param.argument)
+        return
+      default:
+        visit(param.typeAnnotation)
+    }
+  }
+
+  function visitClass(node: Node): void {
+    visitAll(node.decorators)
+    within('class', node, () => {
+      if (node.type === 'ClassExpression' && node.id)
+        declare(current, node.id, { type: 'ClassName', node, parent: null }, BOTH)
+      visit(node.typeParameters)
+      visit(node.superClass)
+      visit(node.superTypeArguments)
+      visitAll(node.implements)
+      for (const member of node.body.body) {
+        if (CLASS_MEMBERS.has(member.type)) {
+          visitAll(member.decorators)
+          if (member.computed)
+            visit(member.key)
+          visit(member.typeAnnotation)
+          visit(member.value)
+        }
+        else {
+          visit(member)
+        }
+      }
+    })
+  }
+
+  function visitModule(node: Node): void {
+    if (node.kind === 'global') {
+      // `declare global { ... }` adds to the global scope itself
+      const saved = current
+      current = globalScope
+      try {
+        visitAll(node.body?.body)
+      }
+      finally {
+        current = saved
+      }
+      return
+    }
+    const root = rootIdentifier(node.id)
+    if (root)
+      declare(current, root, { type: 'TSModuleName', node, parent: null }, BOTH)
+    within('ts-module', node, () => visitAll(node.body?.body))
+  }
+
+  function visitJsxName(name: Node | null | undefined): void {
+    if (!name)
+      return
+    if (name.type === 'JSXIdentifier') {
+      // lowercase names are intrinsic elements, not bindings
+      if (/^[A-Z_$]/.test(name.name))
+        reference(name)
+    }
+    else if (name.type === 'JSXMemberExpression') {
+      let object = name.object
+      while (object.type === 'JSXMemberExpression')
+        object = object.object
+      if (object.type === 'JSXIdentifier' && object.name !== 'this')
+        reference(object)
+    }
+  }
+
+  function visit(node: Node | null | undefined): void {
+    if (!node || typeof node.type !== 'string')
+      return
+    switch (node.type) {
+      case 'Identifier':
+        reference(node)
+        return
+      case 'Literal':
+      case 'ThisExpression':
+      case 'Super':
+      case 'MetaProperty':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'ExportAllDeclaration':
+      case 'TSNamespaceExportDeclaration':
+      case 'TSLiteralType':
+      case 'JSXText':
+      case 'JSXClosingElement':
+      case 'JSXIdentifier':
+      case 'JSXNamespacedName':
+        return
+      case 'LabeledStatement':
+        visit(node.body)
+        return
+
+      // declarations
+      case 'VariableDeclaration':
+        visitVariableDeclaration(node, null)
+        return
+      case 'FunctionDeclaration':
+        if (node.id)
+          declare(current, node.id, { type: 'FunctionName', node, parent: null }, VALUE)
+        visitFunction(node)
+        return
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        visitFunction(node)
+        return
+      case 'TSDeclareFunction':
+        if (node.id)
+          declare(current, node.id, { type: 'FunctionName', node, parent: null }, VALUE)
+        visitSignature(node)
+        return
+      case 'TSEmptyBodyFunctionExpression':
+        visitSignature(node)
+        return
+      case 'ClassDeclaration':
+        if (node.id)
+          declare(current, node.id, { type: 'ClassName', node, parent: null }, BOTH)
+        visitClass(node)
+        return
+      case 'ClassExpression':
+        visitClass(node)
+        return
+      case 'ImportDeclaration':
+        for (const spec of node.specifiers) {
+          const typeOnly = node.importKind === 'type' || spec.importKind === 'type'
+          declare(current, spec.local, { type: 'ImportBinding', node: spec, parent: node }, typeOnly ? TYPE : BOTH)
+        }
+        return
+      case 'TSImportEqualsDeclaration':
+        declare(current, node.id, { type: 'ImportBinding', node, parent: null }, node.importKind === 'type' ? TYPE : BOTH)
+        if (node.moduleReference?.type !== 'TSExternalModuleReference') {
+          const root = rootIdentifier(node.moduleReference)
+          if (root)
+            reference(root, { ns: BOTH })
+        }
+        return
+      case 'ExportNamedDeclaration':
+        if (node.declaration) {
+          visit(node.declaration)
+        }
+        else if (!node.source) {
+          for (const spec of node.specifiers) {
+            if (spec.local?.type === 'Identifier')
+              reference(spec.local, { ns: node.exportKind === 'type' || spec.exportKind === 'type' ? TYPE : BOTH })
+          }
+        }
+        return
+      case 'ExportDefaultDeclaration':
+      case 'TSExportAssignment': {
+        const target = node.declaration || node.expression
+        if (target?.type === 'Identifier')
+          reference(target, { ns: BOTH })
+        else visit(target)
+        return
+      }
+      case 'TSEnumDeclaration':
+        declare(current, node.id, { type: 'TSEnumName', node, parent: null }, BOTH)
+        within('ts-enum', node, () => {
+          for (const member of node.members) {
+            if (member.computed)
+              visit(member.id)
+            else if (member.id.type === 'Identifier')
+              declare(current, member.id, { type: 'TSEnumMember', node: member, parent: node }, VALUE)
+          }
+          for (const member of node.members) visit(member.initializer)
+        })
+        return
+      case 'TSModuleDeclaration':
+        visitModule(node)
+        return
+      case 'TSInterfaceDeclaration':
+        declare(current, node.id, { type: 'Type', node, parent: null }, TYPE)
+        within('type', node, () => {
+          visit(node.typeParameters)
+          visitAll(node.extends)
+          visit(node.body)
+        })
+        return
+      case 'TSTypeAliasDeclaration':
+        declare(current, node.id, { type: 'Type', node, parent: null }, TYPE)
+        within('type', node, () => {
+          visit(node.typeParameters)
+          visit(node.typeAnnotation)
+        })
+        return
+      case 'TSTypeParameter':
+        declare(current, node.name, { type: 'TypeParameter', node, parent: null }, TYPE)
+        visit(node.constraint)
+        visit(node.default)
+        return
+
+      // scopes
+      case 'BlockStatement':
+        within('block', node, () => visitAll(node.body))
+        return
+      case 'StaticBlock':
+        within('class-static-block', node, () => visitAll(node.body))
+        return
+      case 'ForStatement': {
+        const scoped = node.init?.type === 'VariableDeclaration' && node.init.kind !== 'var'
+        const run = (): void => {
+          visit(node.init)
+          visit(node.test)
+          visit(node.update)
+          visit(node.body)
+        }
+        if (scoped)
+          within('for', node, run)
+        else run()
+        return
+      }
+      case 'ForInStatement':
+      case 'ForOfStatement': {
+        const scoped = node.left.type === 'VariableDeclaration' && node.left.kind !== 'var'
+        const run = (): void => {
+          if (node.left.type === 'VariableDeclaration')
+            visitVariableDeclaration(node.left, node.right)
+          else assignTargets(node.left, node.right, false)
+          visit(node.right)
+          visit(node.body)
+        }
+        if (scoped)
+          within('for', node, run)
+        else run()
+        return
+      }
+      case 'SwitchStatement':
+        visit(node.discriminant)
+        within('switch', node, () => visitAll(node.cases))
+        return
+      case 'CatchClause':
+        within('catch', node, () => {
+          bindPattern(node.param, id => declare(current, id, { type: 'CatchClause', node, parent: null }, VALUE))
+          visit(node.body)
+        })
+        return
+      case 'WithStatement':
+        visit(node.object)
+        within('with', node, () => visit(node.body))
+        return
+
+      // expressions
+      case 'MemberExpression':
+        visit(node.object)
+        if (node.computed)
+          visit(node.property)
+        return
+      case 'Property':
+        if (node.computed)
+          visit(node.key)
+        visit(node.value)
+        return
+      case 'AssignmentExpression':
+        assignTargets(node.left, node.right, node.operator !== '=')
+        visit(node.right)
+        return
+      case 'UpdateExpression':
+        if (node.argument.type === 'Identifier')
+          reference(node.argument, { read: true, write: true })
+        else assignTargets(node.argument, null, true)
+        return
+
+      // types
+      case 'TSTypeReference': {
+        const root = rootIdentifier(node.typeName)
+        if (root)
+          reference(root, { ns: TYPE })
+        visit(node.typeArguments)
+        return
+      }
+      case 'TSQualifiedName': {
+        const root = rootIdentifier(node)
+        if (root)
+          reference(root, { ns: TYPE })
+        return
+      }
+      case 'TSTypeQuery':
+        if (node.exprName?.type === 'TSImportType') {
+          visit(node.exprName)
+        }
+        else {
+          const root = rootIdentifier(node.exprName)
+          if (root)
+            reference(root)
+        }
+        visit(node.typeArguments)
+        return
+      case 'TSInterfaceHeritage':
+      case 'TSClassImplements': {
+        const root = rootIdentifier(node.expression)
+        if (root)
+          reference(root, { ns: TYPE })
+        visit(node.typeArguments)
+        return
+      }
+      case 'TSPropertySignature':
+        if (node.computed)
+          visit(node.key)
+        visit(node.typeAnnotation)
+        return
+      case 'TSIndexSignature':
+        for (const param of node.parameters || []) visit(param.typeAnnotation)
+        visit(node.typeAnnotation)
+        return
+      case 'TSMappedType':
+        within('type', node, () => {
+          declare(current, node.typeParameter.name, { type: 'TypeParameter', node: node.typeParameter, parent: null }, TYPE)
+          visit(node.typeParameter.constraint)
+          visit(node.nameType)
+          visit(node.typeAnnotation)
+        })
+        return
+      case 'TSConditionalType':
+        visit(node.checkType)
+        // `infer` bindings are visible in the true branch only
+        within('type', node, () => {
+          visit(node.extendsType)
+          visit(node.trueType)
+        })
+        visit(node.falseType)
+        return
+      case 'TSInferType':
+        declare(current, node.typeParameter.name, { type: 'TypeParameter', node: node.typeParameter, parent: null }, TYPE)
+        visit(node.typeParameter.constraint)
+        return
+      case 'TSTypePredicate':
+        visit(node.typeAnnotation)
+        return
+      case 'TSImportType':
+        visit(node.typeArguments)
+        return
+      case 'TSNamedTupleMember':
+        visit(node.elementType)
+        return
+
+      // JSX
+      case 'JSXOpeningElement':
+        visitJsxName(node.name)
+        visit(node.typeArguments)
+        visitAll(node.attributes)
+        return
+      case 'JSXAttribute':
+        visit(node.value)
+        return
+    }
+    if (SIGNATURES.has(node.type)) {
+      if (node.computed)
+        visit(node.key)
+      visitSignature(node)
+      return
+    }
+    forEachChild(node, visit)
+  }
+
+  visitAll(program.body)
+
+  // resolve every reference against its scope chain
+  for (const scope of scopes) {
+    for (const ref of scope.references) {
+      const name: string = ref.identifier.name
+      for (let s: Scope | null = scope; s; s = s.upper) {
+        const variable = s.variables.get(name)
+        if (variable && ((ref.isValueReference && variable.isValueVariable) || (ref.isTypeReference && variable.isTypeVariable))) {
+          ref.resolved = variable
+          variable.references.push(ref)
+          break
+        }
+        s.through.push(ref)
+      }
+    }
+  }
+
+  return {
+    globalScope,
+    scopes,
+    variables,
+    acquire: node => byBlock.get(node) || null,
+  }
+}
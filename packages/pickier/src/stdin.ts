@@ -0,0 +1,57 @@
+import type { RunOptions } from './run'
+import { resolve } from 'node:path'
+import { unifiedDiff } from './diff'
+import { formatCode } from './format'
+import { fixText, isLintTarget, lintText, reportLintResults, resolveLintConfig } from './linter'
+import { configForFile } from './overrides'
+import { findRepoRoot, reportPath } from './reporters/utils'
+
+// What the stdin text is linted as without `--stdin-filename`
+export const DEFAULT_STDIN_FILENAME = 'stdin.ts'
+
+export async function readStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream)
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/**
+ * `--stdin`: lint, fix or format `text` as if it were the file at
+ * `--stdin-filename`, which doesn't have to exist. Linting prints the issues
+ * with the configured reporter; fixing and formatting write the resulting
+ * text to stdout, or with `--check` only exit non-zero when it would differ
+ * (with `--diff`, printing how).
+ * A path the run would skip (ignored, or not a linted extension) reports
+ * nothing and passes the text through unchanged.
+ */
+export async function runStdin(text: string, options: RunOptions): Promise<number> {
+  const cfg = await resolveLintConfig(options)
+  if (!cfg)
+    return 1
+  const file = resolve(process.cwd(), options.stdinFilename || DEFAULT_STDIN_FILENAME)
+  const included = isLintTarget(file, cfg, options)
+  const mode = options.mode || 'auto'
+
+  // same choice as runUnified: auto mode only changes anything when asked to
+  const transform = mode === 'format'
+    ? 'format'
+    : options.fix || (mode === 'auto' && (options.write || options.check)) ? 'fix' : undefined
+  if (transform) {
+    let output = text
+    if (included) {
+      output = transform === 'format'
+        ? formatCode(text, configForFile(cfg, file), file)
+        : await fixText(text, cfg, file, options)
+    }
+    if (options.diff)
+      process.stdout.write(unifiedDiff(reportPath(file, findRepoRoot()), text, output, { color: !!process.stdout.isTTY }))
+    if (options.check || options.dryRun || options.diff)
+      return output === text ? 0 : 1
+    process.stdout.write(output)
+    return 0
+  }
+
+  const issues = included ? await lintText(text, cfg, file) : []
+  return reportLintResults(issues, included ? 1 : 0, cfg, options)
+}
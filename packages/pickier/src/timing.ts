@@ -0,0 +1,151 @@
+import { relative } from 'node:path'
+
+// Work outside the plugin rules that a run times as a whole
+export type TimingPhase = 'walk' | 'scan' | 'format'
+
+export interface RuleTiming {
+  ruleId: string
+  /** Milliseconds in `check`, when linting */
+  check: number
+  /** Milliseconds fixing: in `fix`, and in `check` collecting the edits of a fixable rule */
+  fix: number
+  calls: number
+}
+
+export interface FileTiming {
+  filePath: string
+  /** Milliseconds in the rules, the built-in checks and the formatter for this file */
+  time: number
+}
+
+export interface TimingReport {
+  /** Milliseconds the whole run took */
+  total: number
+  phases: Record<TimingPhase, number>
+  /** Slowest first */
+  rules: RuleTiming[]
+  /** Slowest first */
+  files: FileTiming[]
+}
+
+export interface TimingCollector {
+  rule: (ruleId: string, kind: 'check' | 'fix', filePath: string, time: number) => void
+  phase: (phase: TimingPhase, time: number, filePath?: string) => void
+  report: () => TimingReport
+}
+
+let active: TimingCollector | undefined
+// The clock of the active collector
+let now: () => number = () => performance.now()
+
+// to a microsecond, which is all performance.now() promises
+const round = (time: number): number => Math.round(time * 1000) / 1000
+
+/**
+ * Start collecting `--timing` numbers for a run: from now until
+ * `stopTiming()`, `timeRule()` and `timePhase()` record what they measure.
+ * `clock` returns milliseconds; tests pass one they advance themselves.
+ */
+export function startTiming(clock: () => number = () => performance.now()): TimingCollector {
+  now = clock
+  const started = clock()
+  const phases: Record<TimingPhase, number> = { walk: 0, scan: 0, format: 0 }
+  const rules = new Map<string, RuleTiming>()
+  const files = new Map<string, number>()
+  const addFile = (filePath: string, time: number): void => {
+    files.set(filePath, (files.get(filePath) ?? 0) + time)
+  }
+  active = {
+    rule(ruleId, kind, filePath, time) {
+      let entry = rules.get(ruleId)
+      if (!entry)
+        rules.set(ruleId, entry = { ruleId, check: 0, fix: 0, calls: 0 })
+      entry[kind] += time
+      entry.calls++
+      addFile(filePath, time)
+    },
+    phase(phase, time, filePath) {
+      phases[phase] += time
+      if (filePath)
+        addFile(filePath, time)
+    },
+    report() {
+      return {
+        total: round(clock() - started),
+        phases: { walk: round(phases.walk), scan: round(phases.scan), format: round(phases.format) },
+        rules: [...rules.values()]
+          .map(r => ({ ...r, check: round(r.check), fix: round(r.fix) }))
+          .sort((a, b) => b.check + b.fix - (a.check + a.fix)),
+        files: [...files].map(([filePath, time]) => ({ filePath, time: round(time) })).sort((a, b) => b.time - a.time),
+      }
+    },
+  }
+  return active
+}
+
+export function stopTiming(): void {
+  active = undefined
+}
+
+// Run `fn`, handing its duration to `record` once it settles; just `fn()` when nothing is timed
+function measure<T>(fn: () => T, record: (collector: TimingCollector, time: number) => void): T {
+  const collector = active
+  if (!collector)
+    return fn()
+  const clock = now
+  const started = clock()
+  const result = fn()
+  if (result instanceof Promise) {
+    return result.finally(() => record(collector, clock() - started)) as T
+  }
+  record(collector, clock() - started)
+  return result
+}
+
+/** Time one call of a rule's `check` or `fix` on `filePath` */
+export function timeRule<T>(ruleId: string, kind: 'check' | 'fix', filePath: string, fn: () => T): T {
+  return measure(fn, (collector, time) => collector.rule(ruleId, kind, filePath, time))
+}
+
+/** Time a phase of the run, for one file or (the file walk) the whole run */
+export function timePhase<T>(phase: TimingPhase, filePath: string | undefined, fn: () => T): T {
+  return measure(fn, (collector, time) => collector.phase(phase, time, filePath))
+}
+
+const ms = (time: number): string => time.toFixed(1)
+
+function table(head: string[], rows: string[][]): string {
+  const widths = head.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)))
+  // the first column is a name, the others right-aligned numbers
+  const cell = (text: string, i: number): string => i === 0 ? text.padEnd(widths[i]) : text.padStart(widths[i])
+  const line = (row: string[]): string => row.map(cell).join(' | ')
+  const rule = widths.map((w, i) => i === 0 ? `:${'-'.repeat(w - 1)}` : `${'-'.repeat(w - 1)}:`).join(' | ')
+  return [line(head), rule, ...rows.map(line)].join('\n')
+}
+
+/**
+ * The `--timing` tables: where the time went, then the `limit` slowest rules
+ * and files. Rule times are relative to the time spent in all rules.
+ */
+export function formatTiming(report: TimingReport, limit = 10): string {
+  const inRules = report.rules.reduce((sum, r) => sum + r.check + r.fix, 0)
+  const lines = [
+    `Total: ${ms(report.total)} ms (file walk ${ms(report.phases.walk)} ms, built-in checks ${ms(report.phases.scan)} ms, formatter ${ms(report.phases.format)} ms, plugin rules ${ms(inRules)} ms)`,
+  ]
+  if (report.rules.length > 0) {
+    lines.push('', table(['Rule', 'Check (ms)', 'Fix (ms)', 'Calls', 'Relative'], report.rules.slice(0, limit).map(r => [
+      r.ruleId,
+      ms(r.check),
+      ms(r.fix),
+      String(r.calls),
+      `${inRules > 0 ? ms(((r.check + r.fix) / inRules) * 100) : '0.0'}%`,
+    ])))
+  }
+  if (report.files.length > 0) {
+    lines.push('', table(['File', 'Time (ms)'], report.files.slice(0, limit).map(f => [
+      relative(process.cwd(), f.filePath) || f.filePath,
+      ms(f.time),
+    ])))
+  }
+  return lines.join('\n')
+}
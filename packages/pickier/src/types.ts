@@ -1,3 +1,7 @@
+import type { SourceMap, Token } from './ast'
+import type { Comment, Program } from './parser'
+import type { ScopeManager } from './scope'
+
 export type RuleSeverity = 'off' | 'warn' | 'error'
 
 export interface PickierRulesConfig {
@@ -22,14 +26,84 @@ export interface LintIssue {
   message: string
   severity: 'warning' | 'error'
   help?: string
+  /** Edit that resolves the issue; applied by `--fix` and offered as the editor quick fix */
+  fix?: LintFix
+  /** Alternative edits that change behaviour, so are only ever applied on request */
+  suggestions?: LintSuggestion[]
+}
+
+/**
+ * Replace the text between two offsets of the linted content
+ * (`range[0]` inclusive, `range[1]` exclusive) with `text`. An empty range
+ * inserts, an empty `text` deletes.
+ */
+export interface LintFix {
+  range: [number, number]
+  text: string
+}
+
+export interface LintSuggestion {
+  desc: string
+  fix: LintFix
 }
 
 export type Extension = 'ts' | 'js' | 'html' | 'css' | 'json' | 'jsonc' | 'md' | 'yaml' | 'yml' | 'stx' | 'lock' | 'sh' | 'bash' | 'zsh'
 
+export type Reporter = 'stylish' | 'json' | 'compact' | 'sarif' | 'junit' | 'checkstyle' | 'gitlab'
+
+/**
+ * A reporter as configured: a built-in name or a module path, either
+ * optionally followed by `:<outfile>` (`json:report.json`), or a reporter
+ * object.
+ */
+export type ReporterSetting = Reporter | (string & {}) | PickierReporter
+
+/** What a run tells its reporters once every file is linted */
+export interface LintSummary {
+  /** Every issue reported, in file order */
+  issues: LintIssue[]
+  errors: number
+  warnings: number
+  /** Issues `--fix` would resolve */
+  fixableErrors: number
+  fixableWarnings: number
+  /** Files linted, with or without issues */
+  fileCount: number
+}
+
+export interface ReporterContext {
+  cfg: PickierConfig
+  verbose: boolean
+  /** Print one line (or block) to the reporter's output: the console, or its outfile */
+  log: (text: string) => void
+  ruleInfo: RuleInfoLookup
+}
+
+/**
+ * Receives the results of a lint run. `onFile` is called once per linted
+ * file, in file order, as soon as that file and every one before it is done,
+ * so a large run can start printing early; `onEnd` gets the totals. A module
+ * given as a reporter default-exports one of these, or a function returning
+ * one.
+ */
+export interface PickierReporter {
+  onStart?: (context: ReporterContext) => void | Promise<void>
+  onFile?: (issues: LintIssue[], filePath: string, context: ReporterContext) => void | Promise<void>
+  onEnd?: (summary: LintSummary, context: ReporterContext) => void | Promise<void>
+}
+
 export interface PickierLintConfig {
   extensions: Extension[]
-  reporter: 'stylish' | 'json' | 'compact'
+  // one reporter or several, each printing to the console or its own outfile
+  reporter: ReporterSetting | ReporterSetting[]
+  // reuse the issues of files unchanged since the last run
   cache: boolean
+  // cache file, or a directory to keep `.pickiercache` in (default: `.pickiercache` in the cwd)
+  cacheLocation?: string
+  // how a file counts as unchanged: same content hash, or same size and mtime
+  cacheStrategy?: 'content' | 'metadata'
+  // report `eslint-disable` / `pickier-disable` directives that suppress nothing (default: 'off')
+  reportUnusedDisableDirectives?: 'off' | 'warn' | 'error'
   maxWarnings: number
 }
 
@@ -65,6 +139,12 @@ export interface PickierTailwindConfig {
   attributes?: string[]
 }
 
+// Predefined sets of global variables, see `general/no-undef`
+export type PickierEnv = 'browser' | 'node' | 'bun' | 'bun:test' | 'worker'
+
+// `true`/`false` are accepted as aliases for 'writable'/'readonly'; 'off' removes a global an environment provides
+export type PickierGlobalSetting = 'readonly' | 'writable' | 'off' | boolean
+
 export interface PickierConfig {
   verbose: boolean
   ignores: string[]
@@ -73,22 +153,50 @@ export interface PickierConfig {
   rules: PickierRulesConfig
   // Tailwind CSS class ordering
   tailwind?: PickierTailwindConfig
+  // Environments whose globals are predefined (default: browser, node and bun)
+  env?: PickierEnv[]
+  // Additional global variables
+  globals?: Record<string, PickierGlobalSetting>
   // Plugin system (optional)
   plugins?: Array<PickierPlugin | string>
   // Support both bare rule IDs (preferred) and legacy plugin-prefixed IDs
   pluginRules?: RulesConfigMap
+  // Per-glob adjustments, merged in order onto the config of each matching file
+  overrides?: PickierOverride[]
+}
+
+/**
+ * Settings for the files matching `files` (and none of `ignores`). Globs are
+ * relative to the directory of the config file declaring them (the working
+ * directory for a config built in code); one without a `/` matches the file
+ * name at any depth, so `*.d.ts` covers every declaration file.
+ */
+export interface PickierOverride {
+  files: string[]
+  ignores?: string[]
+  rules?: Partial<PickierRulesConfig>
+  pluginRules?: RulesConfigMap
+  format?: Partial<PickierFormatConfig>
+  // the lint settings that can differ from file to file
+  lint?: Pick<PickierLintConfig, 'reportUnusedDisableDirectives'>
 }
 
 // User-facing config type — all fields optional, merged with defaults at runtime
 export type PickierOptions = Partial<{
+  // Configs this one builds on, lowest precedence first: built-in presets
+  // (`pickier:recommended`), package names, or paths relative to this file
+  extends: string | string[]
   verbose: boolean
   ignores: string[]
   lint: Partial<PickierLintConfig>
   format: Partial<PickierFormatConfig>
   rules: Partial<PickierRulesConfig>
   tailwind: PickierTailwindConfig
+  env: PickierEnv[]
+  globals: Record<string, PickierGlobalSetting>
   plugins: Array<PickierPlugin | string>
   pluginRules: RulesConfigMap
+  overrides: PickierOverride[]
 }>
 
 // Plugin system types
@@ -110,12 +218,74 @@ export interface RuleMeta {
    * doing exactly what the author wants there, and sets this to opt out.
    */
   editsStringContent?: boolean
+  /**
+   * `check` attaches `fix` edits to its issues. `--fix` re-runs such rules
+   * on every pass and applies their edits together with those of every other
+   * fixable rule.
+   */
+  fixable?: boolean
+  /**
+   * Whether the fix can change what the code does, as reordering calls
+   * whose side effects depend on each other can. `--fix` leaves
+   * `'unsafe'` fixes out unless `--fix-unsafe` is given. Default: `'safe'`.
+   */
+  fixSafety?: 'safe' | 'unsafe'
+  /**
+   * Shape of the options given with the severity (`['warn', options]`).
+   * Config validation reports options that don't match it; rules without a
+   * schema accept anything.
+   */
+  schema?: RuleOptionSchema
+}
+
+// What a report can say about a rule beyond its issues
+export interface RuleInfo {
+  meta?: RuleMeta
+  /** `--fix` resolves the rule's issues, whether or not each carries its own edit */
+  fixable: boolean
 }
 
+export type RuleInfoLookup = (ruleId: string, filePath: string) => RuleInfo
+
+/** The subset of JSON Schema rule options are described with */
+export interface RuleOptionSchema {
+  type?: RuleOptionType | RuleOptionType[]
+  enum?: readonly unknown[]
+  // object keywords
+  properties?: Record<string, RuleOptionSchema>
+  required?: string[]
+  additionalProperties?: boolean | RuleOptionSchema
+  // array keywords
+  items?: RuleOptionSchema
+  // number keywords
+  minimum?: number
+  maximum?: number
+  // matches when any of the alternatives does
+  anyOf?: RuleOptionSchema[]
+}
+
+export type RuleOptionType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
 export interface RuleContext {
   filePath: string
   config: PickierConfig
   options?: unknown
+  /**
+   * ESTree-shaped syntax tree of the content being checked, parsed on first
+   * access and shared by every rule that runs on the same text. `null` for
+   * non-JS/TS files and for code that does not parse. The engine always
+   * provides it; contexts built by hand (e.g. in tests) may leave it out.
+   */
+  readonly ast?: Program | null
+  readonly tokens?: Token[]
+  readonly comments?: Comment[]
+  readonly sourceMap?: SourceMap
+  /**
+   * Scopes, variables and references of `ast`, computed once per text and
+   * shared the same way. `null` whenever `ast` is. Rules that may be called
+   * with hand-built contexts should go through `getScopeManager()`.
+   */
+  readonly scopeManager?: ScopeManager | null
 }
 
 export interface RuleModule {
@@ -124,6 +294,8 @@ export interface RuleModule {
   // Optional fixer to automatically transform content.
   // If provided and the rule is enabled (not 'off'), the engine may call it when --fix is used.
   // The fixer should be idempotent and safe to run multiple times.
+  // Prefer attaching `fix` to issues (with `meta.fixable`): a whole-content
+  // fixer cannot be offered per issue in editors.
   fix?: (content: string, context: RuleContext) => string
 }
 
@@ -137,11 +309,50 @@ export interface LintOptions {
   fix?: boolean
   dryRun?: boolean
   maxWarnings?: number
-  reporter?: 'stylish' | 'json' | 'compact'
+  // built-in names or module paths, each optionally followed by `:<outfile>`
+  reporter?: string | string[]
+  // write the reporter's output to this file, and show `stylish` on the console
+  outputFile?: string
   config?: string
   ignorePath?: string
   ext?: string
   cache?: boolean
+  cacheLocation?: string
+  cacheStrategy?: 'content' | 'metadata'
+  // exit non-zero when the config has unknown rules, bad severities or invalid rule options
+  strictConfig?: boolean
+  // report disable directives that suppress nothing as errors (`--fix` removes them)
+  reportUnusedDisableDirectives?: boolean
+  // keep running, linting files again as they change
+  watch?: boolean
+  // take the files from git instead of walking the globs, which then only narrow them down
+  staged?: boolean
+  changed?: boolean
+  since?: string
+  // only report issues on lines added or modified since this git ref
+  diffLines?: string
+  // with `fix` and `diffLines`, leave lines outside the changed ones as they are
+  fixDiffLines?: boolean
+  // with `fix`, only apply the fixes of these rules: full ids or bare names, comma-separated
+  fixRule?: string | string[]
+  // with `fix`, only apply the fixes of rules from these plugins (`style`, `ts`, ...)
+  fixType?: string | string[]
+  // with `fix`, also apply the fixes of rules marked `fixSafety: 'unsafe'`
+  fixUnsafe?: boolean
+  // only report issues missing from this baseline file, and drop its entries for issues that are gone
+  baseline?: string
+  // record every current issue in this baseline file
+  baselineWrite?: string
+  // read the text to lint, fix or format from stdin instead of files
+  stdin?: boolean
+  // the path the stdin text stands in for: it decides the config, ignores and language
+  stdinFilename?: string
+  // print the time spent per rule, per file and in the file walk to stderr once done
+  timing?: boolean
+  // the same as JSON
+  timingJson?: boolean
+  // print a unified diff of what fixing or formatting would change, instead of writing it
+  diff?: boolean
   verbose?: boolean
   /** @internal Fast path: skip scanning/plugin checks, only apply fixers */
   _formatOnly?: boolean
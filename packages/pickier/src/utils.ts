@@ -1,7 +1,10 @@
-import type { PickierConfig, PickierOptions, RuleSeverity, RulesConfigMap } from './types'
+import type { IgnoreFiles } from './ignore-files'
+import type { PickierConfig, PickierOptions, PickierPlugin, RuleSeverity, RulesConfigMap } from './types'
 import { readdirSync, readFileSync, statSync } from 'node:fs'
-import { extname, isAbsolute, join, resolve } from 'node:path'
+import { createRequire } from 'node:module'
+import { dirname, extname, isAbsolute, join, resolve } from 'node:path'
 import { defaultConfig } from './config'
+import { setOverrideBase } from './override-base'
 
 /**
  * Maximum number of fixer passes to run.
@@ -21,13 +24,15 @@ interface GlobOptions {
   onlyFiles?: boolean
   absolute?: boolean
   cwd?: string
+  /** Also skip what `.gitignore` / `.pickierignore` files (and `--ignore-path`) exclude */
+  ignoreFiles?: IgnoreFiles
 }
 
 /**
  * Convert a glob pattern to a RegExp.
  * Supports: * ** ? [...] and negation is handled at call-site.
  */
-function globToRegex(pattern: string): RegExp {
+export function globToRegex(pattern: string): RegExp {
   let src = ''
   let i = 0
   while (i < pattern.length) {
@@ -73,13 +78,23 @@ function globToRegex(pattern: string): RegExp {
   return new RegExp(`^${src}$`)
 }
 
+// `**/*.{ts,js}` -> `**/*.ts`, `**/*.js`; braces don't nest in practice
+export function expandBraces(pattern: string): string[] {
+  const m = pattern.match(/\{([^{}]*)\}/)
+  if (!m)
+    return [pattern]
+  const head = pattern.slice(0, m.index)
+  const tail = pattern.slice(m.index! + m[0].length)
+  return m[1].split(',').flatMap(alt => expandBraces(`${head}${alt}${tail}`))
+}
+
 type IgnoreMatcher = (absPath: string) => boolean
 
 /**
  * Walk a directory recursively, yielding file paths.
  * Skips directories matching ignore patterns.
  */
-function* walkDirWithMatcher(dir: string, ignoreMatcher: IgnoreMatcher, dot: boolean): Generator<string> {
+function* walkDirWithMatcher(dir: string, ignoreMatcher: IgnoreMatcher, dot: boolean, ignoreFiles?: IgnoreFiles): Generator<string> {
   let entries: string[]
   try {
     entries = readdirSync(dir)
@@ -94,8 +109,9 @@ function* walkDirWithMatcher(dir: string, ignoreMatcher: IgnoreMatcher, dot: boo
     let st
     try { st = statSync(full) }
     catch { continue }
+    if (ignoreFiles?.ignores(full, st.isDirectory())) continue
     if (st.isDirectory()) {
-      yield* walkDirWithMatcher(full, ignoreMatcher, dot)
+      yield* walkDirWithMatcher(full, ignoreMatcher, dot, ignoreFiles)
     }
     else {
       yield full
@@ -103,8 +119,8 @@ function* walkDirWithMatcher(dir: string, ignoreMatcher: IgnoreMatcher, dot: boo
   }
 }
 
-function* walkDir(dir: string, ignore: string[], dot: boolean, cwd: string): Generator<string> {
-  yield* walkDirWithMatcher(dir, createIgnoreMatcher(ignore, cwd), dot)
+function* walkDir(dir: string, ignore: string[], dot: boolean, cwd: string, ignoreFiles?: IgnoreFiles): Generator<string> {
+  yield* walkDirWithMatcher(dir, createIgnoreMatcher(ignore, cwd), dot, ignoreFiles)
 }
 
 /**
@@ -128,7 +144,7 @@ export async function glob(patterns: string[], opts: GlobOptions = {}): Promise<
       for await (const file of g.scan({ cwd, dot, onlyFiles: opts.onlyFiles ?? true, followSymlinks: false })) {
         const full = isAbsolute(file) ? file : join(cwd, file)
         const rel = full.startsWith(`${cwd}/`) ? full.slice(cwd.length + 1) : full
-        if (ignoreMatcher(full)) continue
+        if (ignoreMatcher(full) || opts.ignoreFiles?.ignores(full)) continue
         results.push(absolute ? full : rel)
       }
     }
@@ -145,11 +161,11 @@ export async function glob(patterns: string[], opts: GlobOptions = {}): Promise<
         const st = statSync(full)
         if (!st.isDirectory()) {
           const rel = full.startsWith(`${cwd}/`) ? full.slice(cwd.length + 1) : full
-          if (!ignoreMatcher(full))
+          if (!ignoreMatcher(full) && !opts.ignoreFiles?.ignores(full))
             results.push(absolute ? full : rel)
         }
         else {
-          for (const f of walkDir(full, ignore, dot, cwd))
+          for (const f of walkDir(full, ignore, dot, cwd, opts.ignoreFiles))
             results.push(absolute ? f : (f.startsWith(`${cwd}/`) ? f.slice(cwd.length + 1) : f))
         }
       }
@@ -157,7 +173,7 @@ export async function glob(patterns: string[], opts: GlobOptions = {}): Promise<
       continue
     }
     const re = globToRegex(pattern)
-    for (const f of walkDir(cwd, ignore, dot, cwd)) {
+    for (const f of walkDir(cwd, ignore, dot, cwd, opts.ignoreFiles)) {
       const rel = f.startsWith(`${cwd}/`) ? f.slice(cwd.length + 1) : f
       if (re.test(rel) || re.test(rel.replace(/\\/g, '/')))
         results.push(absolute ? f : rel)
@@ -222,6 +238,7 @@ export interface EnvConfig {
   readonly DIAGNOSTICS: boolean
   readonly FAIL_ON_WARNINGS: boolean
   readonly NO_AUTO_CONFIG: boolean
+  readonly TIMING: false | 'table' | 'json'
 }
 
 export const ENV: EnvConfig = {
@@ -253,6 +270,11 @@ export const ENV: EnvConfig = {
   get NO_AUTO_CONFIG(): boolean {
     return process.env.PICKIER_NO_AUTO_CONFIG === '1'
   },
+  /** Print where a run's time went. Set PICKIER_TIMING=1 for tables, PICKIER_TIMING=json for JSON. */
+  get TIMING(): false | 'table' | 'json' {
+    const value = process.env.PICKIER_TIMING
+    return value === 'json' ? 'json' : value === '1' ? 'table' : false
+  },
 }
 
 /**
@@ -498,10 +520,211 @@ export function mergeConfig(base: PickierConfig, override: PickierOptions): Pick
     lint: { ...base.lint, ...(override.lint || {}) },
     format: { ...base.format, ...(override.format || {}) },
     rules: { ...base.rules, ...(override.rules || {}) },
+    globals: base.globals || override.globals ? { ...base.globals, ...override.globals } : undefined,
     pluginRules: mergedPluginRules as any,
   } as PickierConfig
 }
 
+function pluginKey(plugin: PickierPlugin | string): string {
+  return typeof plugin === 'string' ? plugin : plugin.name
+}
+
+/**
+ * Put `over` on top of `base`, both user-facing configs, the way `extends`
+ * layers them: objects (`lint`, `format`, `rules`, `pluginRules`, `globals`)
+ * merge key by key with `over` winning, `ignores` and `overrides` add up, and
+ * `plugins` add up with a plugin of the same name replacing the earlier one.
+ * Everything else is replaced when `over` sets it.
+ */
+export function layerConfig(base: PickierOptions, over: PickierOptions): PickierOptions {
+  const layered: PickierOptions = { ...base, ...over }
+  if (base.lint || over.lint)
+    layered.lint = { ...base.lint, ...over.lint }
+  if (base.format || over.format)
+    layered.format = { ...base.format, ...over.format }
+  if (base.rules || over.rules)
+    layered.rules = { ...base.rules, ...over.rules }
+  if (base.pluginRules || over.pluginRules)
+    layered.pluginRules = { ...base.pluginRules, ...over.pluginRules }
+  if (base.globals || over.globals)
+    layered.globals = { ...base.globals, ...over.globals }
+  if (base.ignores || over.ignores)
+    layered.ignores = [...new Set([...(base.ignores || []), ...(over.ignores || [])])]
+  if (base.overrides || over.overrides)
+    layered.overrides = [...(base.overrides || []), ...(over.overrides || [])]
+  if (base.plugins || over.plugins) {
+    const later = new Set((over.plugins || []).map(pluginKey))
+    layered.plugins = [...(base.plugins || []).filter(p => !later.has(pluginKey(p))), ...(over.plugins || [])]
+  }
+  delete layered.extends
+  return layered
+}
+
+// Bumped by `invalidateConfigFiles()`; part of the import specifier so edited config modules load afresh
+let configGeneration = 0
+
+/**
+ * Make the next load re-read config files (and the configs they extend)
+ * instead of reusing the modules imported before, e.g. after one was edited
+ * during `--watch`.
+ */
+export function invalidateConfigFiles(): void {
+  configGeneration++
+}
+
+async function readConfigFile(abs: string): Promise<PickierOptions> {
+  if (extname(abs).toLowerCase() === '.json')
+    return JSON.parse(readFileSync(abs, 'utf8')) as PickierOptions
+  const mod = await import(configGeneration > 0 ? `${abs}?v=${configGeneration}` : abs)
+  return (mod.default || mod) as PickierOptions
+}
+
+// `./x` and absolute paths resolve against `fromDir`, anything else as a package from there
+function resolveSpecifier(specifier: string, fromDir: string): string {
+  return specifier.startsWith('.') || isAbsolute(specifier)
+    ? resolve(fromDir, specifier)
+    : createRequire(join(fromDir, 'noop.js')).resolve(specifier)
+}
+
+function invalidPluginReason(value: any): string | undefined {
+  if (!value || typeof value !== 'object')
+    return 'expected a default export with a `name` string and a `rules` object'
+  if (typeof value.name !== 'string' || value.name === '')
+    return 'the plugin has no `name`'
+  if (value.name.includes('/'))
+    return `the plugin name '${value.name}' contains a '/'`
+  if (!value.rules || typeof value.rules !== 'object')
+    return 'the plugin has no `rules` object'
+  for (const [ruleName, rule] of Object.entries<any>(value.rules)) {
+    if (!rule || typeof rule.check !== 'function')
+      return `rule '${value.name}/${ruleName}' has no \`check\` function`
+  }
+  return undefined
+}
+
+// Plugins `resolvePlugins()` loaded by name, as opposed to inline ones
+const loadedPlugins = new WeakSet<PickierPlugin>()
+
+/** Whether `plugin` was loaded from a string in `plugins` rather than given inline */
+export function isLoadedPlugin(plugin: PickierPlugin): boolean {
+  return loadedPlugins.has(plugin)
+}
+
+async function loadPlugin(specifier: string, fromDir: string, builtInNames: Set<string>): Promise<PickierPlugin> {
+  let file: string
+  try {
+    file = resolveSpecifier(specifier, fromDir)
+  }
+  catch {
+    throw new Error(`Cannot find plugin '${specifier}' from ${fromDir}`)
+  }
+  let mod: any
+  try {
+    mod = await import(file)
+  }
+  catch (e: any) {
+    throw new Error(`Cannot load plugin '${specifier}' (${file}): ${e?.message || e}`)
+  }
+  const plugin = mod?.default ?? mod
+  const reason = invalidPluginReason(plugin)
+  if (reason)
+    throw new Error(`Plugin '${specifier}' (${file}) is not a pickier plugin: ${reason}`)
+  if (builtInNames.has(plugin.name))
+    throw new Error(`Plugin '${specifier}' is named '${plugin.name}', which is a built-in plugin; give it another name`)
+  loadedPlugins.add(plugin)
+  return plugin as PickierPlugin
+}
+
+/**
+ * Load the plugins `options.plugins` names by string, module specifiers or
+ * paths relative to `fromDir` (the directory of the config file naming them),
+ * replacing each with the plugin it exports. Plugins are checked for the
+ * `PickierPlugin` shape, and may not take the name of a built-in plugin or
+ * of another plugin in the same list.
+ */
+export async function resolvePlugins(options: PickierOptions, fromDir: string): Promise<PickierOptions> {
+  if (!options.plugins?.some(p => typeof p === 'string'))
+    return options
+
+  const { getAllPlugins } = await import('./plugins')
+  const builtInNames = new Set(getAllPlugins().map(p => p.name))
+  const plugins: PickierPlugin[] = []
+  const origin = new Map<string, string>()
+  for (const entry of options.plugins) {
+    const plugin = typeof entry === 'string' ? await loadPlugin(entry, fromDir, builtInNames) : entry
+    const label = typeof entry === 'string' ? `'${entry}'` : 'an inline plugin'
+    const previous = origin.get(plugin.name)
+    if (previous)
+      throw new Error(`Plugins ${previous} and ${label} are both named '${plugin.name}'`)
+    origin.set(plugin.name, label)
+    plugins.push(plugin)
+  }
+  return { ...options, plugins }
+}
+
+/**
+ * Flatten `options.extends`, depth first: each entry is a built-in preset
+ * (`pickier:recommended`), a path relative to `fromDir`, or a package name
+ * resolved from `fromDir`. Extended configs are layered in order beneath
+ * `options` itself, each with its string `plugins` loaded relative to its own
+ * file. A config that can't be found, or extends itself, is an error rather
+ * than a silently smaller config. `onLayer` sees each preset and file, named
+ * by the last entry of its chain, in the order they are layered.
+ */
+export async function resolveExtends(options: PickierOptions, fromDir: string, chain: string[] = [], onLayer?: (source: string, options: PickierOptions) => void): Promise<PickierOptions> {
+  const entries = typeof options.extends === 'string' ? [options.extends] : options.extends || []
+  let layered: PickierOptions = {}
+  for (const entry of entries) {
+    if (entry.startsWith('pickier:')) {
+      const { getPreset, PRESET_NAMES } = await import('./presets')
+      const preset = getPreset(entry)
+      if (!preset)
+        throw new Error(`Unknown preset '${entry}' in extends. Available presets: ${PRESET_NAMES.join(', ')}`)
+      layered = layerConfig(layered, await resolveExtends(preset, fromDir, [...chain, entry], onLayer))
+      continue
+    }
+
+    let file: string
+    try {
+      file = resolveSpecifier(entry, fromDir)
+    }
+    catch {
+      throw new Error(`Cannot find config '${entry}' extended from ${fromDir}`)
+    }
+    if (chain.includes(file))
+      throw new Error(`Circular extends: ${[...chain, file].join(' -> ')}`)
+    let extended: PickierOptions
+    try {
+      extended = await readConfigFile(file)
+    }
+    catch (e: any) {
+      throw new Error(`Cannot load config '${entry}' (${file}): ${e?.message || e}`)
+    }
+    layered = layerConfig(layered, await resolveExtends(extended, dirname(file), [...chain, file], onLayer))
+  }
+  const resolved = await resolvePlugins(options, fromDir)
+  if (resolved.overrides?.length)
+    setOverrideBase(resolved.overrides, fromDir)
+  onLayer?.(chain.at(-1) ?? fromDir, resolved)
+  return layerConfig(layered, resolved)
+}
+
+/** A preset or config file, with what it sets itself */
+export interface ConfigLayer {
+  source: string
+  options: PickierOptions
+}
+
+/**
+ * The config file at `abs` as the layers it is made of: every preset and
+ * file it extends, depth first, then the file itself. Later layers win.
+ */
+export async function readConfigLayers(abs: string): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = []
+  await resolveExtends(await readConfigFile(abs), dirname(abs), [abs], (source, options) => layers.push({ source, options }))
+  return layers
+}
+
 // Cached copy of defaultConfig for NO_AUTO_CONFIG fast path
 // Avoids re-allocating mergeConfig({}) on every call
 let _cachedDefaultConfig: PickierConfig | null = null
@@ -529,27 +752,18 @@ export async function loadConfigFromPath(pathLike: string | undefined): Promise<
   }
 
   const abs = isAbsolute(pathLike) ? pathLike : resolve(process.cwd(), pathLike)
-  const ext = extname(abs).toLowerCase()
-
-  if (ext === '.json') {
-    try {
-      const raw = readFileSync(abs, 'utf8')
-      return mergeConfig(defaultConfig, JSON.parse(raw) as PickierOptions)
-    }
-    catch {
-      console.warn(`[pickier:warn] Config file not found: ${abs}. Using default config values.`)
-      return mergeConfig(defaultConfig, {})
-    }
-  }
 
+  let options: PickierOptions
   try {
-    const mod = await import(abs)
-    return mergeConfig(defaultConfig, (mod.default || mod) as PickierOptions)
+    options = await readConfigFile(abs)
   }
   catch {
     console.warn(`[pickier:warn] Config file not found: ${abs}. Using default config values.`)
     return mergeConfig(defaultConfig, {})
   }
+
+  // An `extends` or plugin that can't be loaded throws: linting with half a config would pass silently
+  return mergeConfig(defaultConfig, await resolveExtends(options, dirname(abs), [abs]))
 }
 
 export function expandPatterns(patterns: string[]): string[] {
@@ -630,18 +844,28 @@ export function withAlwaysIgnores(ignores: readonly string[]): string[] {
  * glob strings for every path.
  */
 export function createIgnoreMatcher(ignoreGlobs: readonly string[], cwd: string = process.cwd()): IgnoreMatcher {
+  const ignoredBy = createIgnorePatternMatcher(ignoreGlobs, cwd)
+  return (absPath: string): boolean => ignoredBy(absPath) !== undefined
+}
+
+/**
+ * Like {@link createIgnoreMatcher}, but the matcher returns the ignore
+ * pattern that excludes a path (posix-separated, as compiled) instead of a
+ * boolean, for explaining why a file is left out.
+ */
+export function createIgnorePatternMatcher(ignoreGlobs: readonly string[], cwd: string = process.cwd()): (absPath: string) => string | undefined {
   // ALWAYS_IGNORES first, and not conditional on the caller passing anything:
   // an empty list used to mean "ignore nothing", which walked straight into
   // node_modules.
   const compiled = compileIgnoreGlobs([...ALWAYS_IGNORES, ...ignoreGlobs])
   if (compiled.length === 0)
-    return () => false
+    return () => undefined
 
   // Patterns that survive an outside-the-project scan, where a project's own
   // `docs/**` or test globs must not be applied to arbitrary external paths.
   const universalRaw = new Set<string>([...UNIVERSAL_IGNORES, ...ALWAYS_IGNORES])
 
-  return (absPath: string): boolean => {
+  return (absPath: string): string | undefined => {
     const normalizedAbs = toPosixPath(absPath)
     const normalizedCwd = toPosixPath(cwd).replace(/\/$/, '')
     // Require a separator after the root so siblings sharing a name prefix
@@ -660,18 +884,18 @@ export function createIgnoreMatcher(ignoreGlobs: readonly string[], cwd: string
 
       if (pattern.kind === 'extension') {
         if (rel.endsWith(`.${pattern.value}`))
-          return true
+          return pattern.raw
         continue
       }
 
       if (pattern.kind === 'segment' || pattern.kind === 'suffix') {
         const name = pattern.value
         if (rel.includes(`/${name}/`) || rel.endsWith(`/${name}`))
-          return true
+          return pattern.raw
       }
     }
 
-    return false
+    return undefined
   }
 }
 
@@ -0,0 +1,236 @@
+import type { PickierConfig, PickierPlugin, RuleModule, RuleOptionSchema, RulesConfigMap } from './types'
+import { getAllPlugins } from './plugins'
+import { normalizeRuleSeverity } from './utils'
+
+export interface ConfigProblem {
+  /** Where in the config, e.g. `pluginRules['pickier/sort-objects']` */
+  path: string
+  message: string
+}
+
+// Keys the built-in scan reads from `rules` / `pluginRules` besides plugin rule ids
+const BUILT_IN_RULE_IDS = [
+  'noDebugger',
+  'noConsole',
+  'curly',
+  'noUnusedCapturingGroup',
+  'noCondAssign',
+  'noTemplateCurlyInString',
+  'no-debugger',
+  'no-console',
+  'no-cond-assign',
+  'no-template-curly-in-string',
+  'quotes',
+  'indent',
+  'style/quotes',
+  'style/indent',
+  'antfu/curly',
+  'antfu/if-newline',
+  'antfu/no-top-level-await',
+]
+
+function describe(value: unknown): string {
+  if (value === null)
+    return 'null'
+  if (Array.isArray(value))
+    return 'an array'
+  if (typeof value === 'string')
+    return `'${value}'`
+  if (typeof value === 'object')
+    return 'an object'
+  return String(value)
+}
+
+function typeMatches(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+function shapeMatches(value: unknown, schema: RuleOptionSchema): boolean {
+  if (schema.type && !(Array.isArray(schema.type) ? schema.type : [schema.type]).some(type => typeMatches(value, type)))
+    return false
+  return !schema.enum || schema.enum.includes(value)
+}
+
+/**
+ * Check `value` against a rule option schema; returns one message per
+ * mismatch, each starting with the path to the offending value.
+ */
+export function validateRuleOptions(value: unknown, schema: RuleOptionSchema, path = 'options'): string[] {
+  if (schema.anyOf) {
+    const results = schema.anyOf.map(alternative => ({ errors: validateRuleOptions(value, alternative, path), shapeMatches: shapeMatches(value, alternative) }))
+    if (results.some(result => result.errors.length === 0))
+      return []
+    // an alternative of the right type tells the user the most, then the one with the fewest errors
+    results.sort((a, b) => Number(b.shapeMatches) - Number(a.shapeMatches) || a.errors.length - b.errors.length)
+    return results[0].errors
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => typeMatches(value, type)))
+      return [`${path} must be ${types.join(' or ')}, got ${describe(value)}`]
+  }
+  if (schema.enum && !schema.enum.includes(value))
+    return [`${path} must be one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}`]
+
+  const errors: string[] = []
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      errors.push(`${path} must be at least ${schema.minimum}, got ${value}`)
+    if (schema.maximum !== undefined && value > schema.maximum)
+      errors.push(`${path} must be at most ${schema.maximum}, got ${value}`)
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateRuleOptions(item, schema.items!, `${path}[${i}]`)))
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (!(key in record))
+        errors.push(`${path}.${key} is required`)
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key]
+      if (property)
+        errors.push(...validateRuleOptions(item, property, `${path}.${key}`))
+      else if (schema.additionalProperties === false)
+        errors.push(`${path}.${key} is not a known option${suggest(key, Object.keys(schema.properties || {}))}`)
+      else if (schema.additionalProperties && typeof schema.additionalProperties === 'object')
+        errors.push(...validateRuleOptions(item, schema.additionalProperties, `${path}.${key}`))
+    }
+  }
+  return errors
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// ". Did you mean 'x'?" for the closest candidate, if any is close enough to be a typo
+function suggest(name: string, candidates: Iterable<string>): string {
+  const bareName = name.slice(name.indexOf('/') + 1)
+  let best: string | undefined
+  let bestDistance = Infinity
+  for (const candidate of candidates) {
+    // the right rule under another plugin's prefix counts as a near miss
+    const distance = candidate.endsWith(`/${bareName}`) ? 1 : editDistance(name.toLowerCase(), candidate.toLowerCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best !== undefined && bestDistance <= Math.max(2, Math.floor(name.length / 4)) ? `. Did you mean '${best}'?` : ''
+}
+
+interface RuleIndex {
+  ids: Set<string>
+  byId: Map<string, RuleModule>
+  byName: Map<string, RuleModule[]>
+  pluginNames: Set<string>
+}
+
+function indexRules(cfg: PickierConfig): RuleIndex {
+  const plugins: PickierPlugin[] = [
+    ...getAllPlugins(),
+    ...(cfg.plugins || []).filter((p): p is PickierPlugin => typeof p !== 'string'),
+  ]
+  const index: RuleIndex = { ids: new Set(BUILT_IN_RULE_IDS), byId: new Map(), byName: new Map(), pluginNames: new Set() }
+  for (const plugin of plugins) {
+    index.pluginNames.add(plugin.name)
+    for (const [name, rule] of Object.entries(plugin.rules || {})) {
+      const id = `${plugin.name}/${name}`
+      index.ids.add(id)
+      index.byId.set(id, rule)
+      const owners = index.byName.get(name) || []
+      owners.push(rule)
+      index.byName.set(name, owners)
+    }
+  }
+  return index
+}
+
+// The implementations a configured id reaches, following the same fallbacks as `getRuleSetting()`
+function rulesFor(id: string, index: RuleIndex): RuleModule[] | undefined {
+  const slash = id.indexOf('/')
+  if (slash < 0)
+    return index.byName.get(id) || (index.ids.has(id) ? [] : undefined)
+  const direct = index.byId.get(id)
+  if (direct)
+    return [direct]
+  const prefix = id.slice(0, slash)
+  const name = id.slice(slash + 1)
+  const alternative = prefix === 'general' ? 'pickier' : prefix === 'pickier' ? 'general' : undefined
+  const viaAlternative = alternative ? index.byId.get(`${alternative}/${name}`) : undefined
+  if (viaAlternative)
+    return [viaAlternative]
+  return index.ids.has(id) ? [] : undefined
+}
+
+function validateRuleMap(map: RulesConfigMap | Record<string, unknown> | undefined, path: string, index: RuleIndex, problems: ConfigProblem[]): void {
+  for (const [id, raw] of Object.entries(map || {})) {
+    const at = `${path}['${id}']`
+    const rules = rulesFor(id, index)
+    if (!rules) {
+      const prefix = id.includes('/') ? id.slice(0, id.indexOf('/')) : undefined
+      const hint = prefix && !index.pluginNames.has(prefix)
+        ? ` (no plugin named '${prefix}' is loaded)${suggest(id, index.ids)}`
+        : suggest(id, index.ids)
+      problems.push({ path: at, message: `unknown rule '${id}'${hint}` })
+      continue
+    }
+
+    if (!normalizeRuleSeverity(raw)) {
+      const severity = Array.isArray(raw) ? raw[0] : raw
+      problems.push({ path: at, message: `invalid severity ${describe(severity)}; expected 'off', 'warn' or 'error'` })
+      continue
+    }
+    if (!Array.isArray(raw) || raw.length < 2)
+      continue
+    for (const rule of rules) {
+      const schema = rule.meta?.schema
+      if (!schema)
+        continue
+      for (const error of validateRuleOptions(raw[1], schema))
+        problems.push({ path: at, message: `invalid options: ${error}` })
+      // aliases share one implementation; report its schema once
+      break
+    }
+  }
+}
+
+/**
+ * Report config entries that would otherwise be silently ignored: unknown
+ * rule ids (with the closest known id as a suggestion), severities other than
+ * `off` / `warn` / `error`, and options that don't match the rule's
+ * `meta.schema`. Covers `rules` and `pluginRules`, and the same maps of every
+ * `overrides` block.
+ */
+export function validateConfig(cfg: PickierConfig): ConfigProblem[] {
+  const index = indexRules(cfg)
+  const problems: ConfigProblem[] = []
+  validateRuleMap(cfg.rules as unknown as Record<string, unknown>, 'rules', index, problems)
+  validateRuleMap(cfg.pluginRules, 'pluginRules', index, problems)
+  cfg.overrides?.forEach((override, i) => {
+    validateRuleMap(override.rules as Record<string, unknown> | undefined, `overrides[${i}].rules`, index, problems)
+    validateRuleMap(override.pluginRules, `overrides[${i}].pluginRules`, index, problems)
+  })
+  return problems
+}
@@ -0,0 +1,327 @@
+import type { FSWatcher } from 'node:fs'
+import type { ChangedLines } from './git'
+import type { FileLinter, LintTargets } from './linter'
+import type { LintIssue, LintOptions, PickierConfig } from './types'
+import { existsSync, statSync, watch } from 'node:fs'
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import { getConfigPath, resetConfig } from './config'
+import { linesChanged } from './git'
+import { IGNORE_FILE_NAMES } from './ignore-files'
+import { changedLinesIn, createFileLinter, describeBaseline, findLintFiles, reportedIssues, reportLintResults, resolveLintConfig } from './linter'
+import { colors, invalidateConfigFiles, readConfigLayers } from './utils'
+
+// Wait this long after the last file event before linting, so a save that
+// touches several files (or one file several times) is linted once
+const DEBOUNCE_MS = 50
+
+// Files the config search picks up: `pickier.config.ts`, `.config/pickier.ts`, `lint.config.json`, ...
+const CONFIG_FILE_RE = /^\.?(?:pickier|code-style|lint)(?:\.config)?\.(?:[cm]?[jt]s|json)$/
+
+export interface WatchChange {
+  filePath: string
+  /** Problems in the file before the change */
+  before: number
+  /** Problems now; 0 once the file is deleted or no longer linted */
+  after: number
+}
+
+export interface WatchUpdate {
+  /** The config or an ignore file changed, so every file was linted again */
+  reloaded: boolean
+  /** Files linted again */
+  linted: string[]
+  /** Files whose number of problems changed */
+  changes: WatchChange[]
+}
+
+export interface LintWatcher {
+  /** Issues of every linted file, as of the last update */
+  readonly issues: Map<string, LintIssue[]>
+  /** Directories the globs search */
+  readonly roots: string[]
+  /** The config file and every file it extends: editing one reloads the config */
+  readonly configFiles: string[]
+  /**
+   * Lint the given paths again, whether changed, created or deleted. A config
+   * or ignore file among them reloads the config and lints every file.
+   */
+  update: (paths: string[]) => Promise<WatchUpdate>
+  /** Whether a change to the path can matter: the config, an ignore file or a path outside the ignored trees */
+  watches: (path: string) => boolean
+  /** Print the current issues with the configured reporter; returns the exit code for them */
+  report: () => Promise<number>
+}
+
+interface WatchState {
+  cfg: PickierConfig
+  targets: LintTargets
+  linter: FileLinter
+  configPath: string | undefined
+  configFiles: string[]
+  /** With `--diff-lines`, kept up to date as files change; the file linter reads it too */
+  changedLines: ChangedLines | undefined
+}
+
+// Size and mtime as of the last lint, so the events for our own --fix writes don't lint a file twice
+function fileStamp(file: string): string | undefined {
+  try {
+    const st = statSync(file)
+    return st.isFile() ? `${st.size}:${st.mtimeMs}` : undefined
+  }
+  catch {
+    return undefined
+  }
+}
+
+// The files a config is made of, presets left out: those aren't files
+async function configFilesOf(configPath: string | undefined): Promise<string[]> {
+  if (!configPath)
+    return []
+  try {
+    return (await readConfigLayers(configPath)).map(layer => layer.source).filter(source => isAbsolute(source))
+  }
+  catch {
+    return [configPath]
+  }
+}
+
+/**
+ * A lint run that stays loaded: the config, the plugin plan it resolves to
+ * and the ignore matchers are reused, and `update()` only lints the files
+ * that changed. Throws when the config or file discovery would make a plain
+ * run fail before linting anything.
+ */
+export async function createLintWatcher(globs: string[], options: LintOptions): Promise<LintWatcher> {
+  const issues = new Map<string, LintIssue[]>()
+  const stamps = new Map<string, string>()
+  let state: WatchState
+
+  async function load(): Promise<WatchState> {
+    const cfg = await resolveLintConfig(options)
+    if (!cfg)
+      throw new Error('Invalid config (see above)')
+    const targets = await findLintFiles(globs, cfg, options)
+    if (!targets)
+      throw new Error('Too many files to watch')
+    const configPath = options.config ? resolve(process.cwd(), options.config) : getConfigPath()
+    const changedLines = changedLinesIn(targets.roots, options)
+    return { cfg, targets, linter: createFileLinter(cfg, options, changedLines), configPath, configFiles: await configFilesOf(configPath), changedLines }
+  }
+
+  // The diff against the `--diff-lines` ref moves with every edit
+  function refreshChangedLines(): void {
+    if (!state.changedLines)
+      return
+    const current = changedLinesIn(state.targets.roots, options)!
+    state.changedLines.clear()
+    for (const [file, ranges] of current)
+      state.changedLines.set(file, ranges)
+  }
+
+  // Problems in `file` a report shows, on the changed lines only with `--diff-lines`
+  function problemCount(file: string): number {
+    const changed = state.changedLines
+    return issues.get(file)?.filter(i => (i.severity === 'error' || i.severity === 'warning')
+      && (!changed || linesChanged(changed, i.filePath, i.line))).length ?? 0
+  }
+
+  async function lintFile(file: string): Promise<void> {
+    issues.set(file, await state.linter.lintFile(file))
+    stamps.set(file, fileStamp(file)!)
+  }
+
+  async function lintAll(): Promise<void> {
+    issues.clear()
+    stamps.clear()
+    for (const file of state.targets.files)
+      await lintFile(file)
+    state.linter.save()
+  }
+
+  function reloads(path: string): boolean {
+    if (path === state.configPath || state.configFiles.includes(path) || (options.ignorePath && path === resolve(process.cwd(), options.ignorePath)))
+      return true
+    if (IGNORE_FILE_NAMES.includes(basename(path)))
+      return true
+    const dir = dirname(path)
+    return !options.config && CONFIG_FILE_RE.test(basename(path))
+      && (dir === process.cwd() || dir === join(process.cwd(), '.config'))
+  }
+
+  async function reload(): Promise<void> {
+    // edited config modules have to be imported again, and a config that
+    // appeared or went away found again
+    invalidateConfigFiles()
+    if (!options.config)
+      resetConfig()
+    state = await load()
+    await lintAll()
+  }
+
+  state = await load()
+  await lintAll()
+
+  return {
+    issues,
+    get roots() {
+      return state.targets.roots
+    },
+    get configFiles() {
+      return state.configFiles
+    },
+
+    async update(paths) {
+      const before = new Map([...issues.keys()].map(file => [file, problemCount(file)]))
+      const unique = [...new Set(paths.map(p => resolve(process.cwd(), p)))]
+      const reloaded = unique.some(reloads)
+      const linted: string[] = []
+      if (reloaded) {
+        await reload()
+        linted.push(...issues.keys())
+      }
+      else {
+        refreshChangedLines()
+        for (const file of unique) {
+          const stamp = fileStamp(file)
+          if (stamp && state.targets.includes(file)) {
+            if (stamps.get(file) !== stamp) {
+              await lintFile(file)
+              linted.push(file)
+            }
+          }
+          else if (issues.has(file)) {
+            issues.delete(file)
+            stamps.delete(file)
+          }
+        }
+        state.linter.save()
+      }
+
+      const changes: WatchChange[] = []
+      for (const file of new Set([...before.keys(), ...issues.keys()])) {
+        const after = problemCount(file)
+        if ((before.get(file) ?? 0) !== after)
+          changes.push({ filePath: file, before: before.get(file) ?? 0, after })
+      }
+      return { reloaded, linted, changes }
+    },
+
+    watches(path) {
+      const abs = resolve(process.cwd(), path)
+      return reloads(abs) || !state.targets.ignores(abs)
+    },
+
+    async report() {
+      const { issues: reported, baseline } = reportedIssues([...issues.keys()], [...issues.values()].flat(), options, state.changedLines)
+      const code = await reportLintResults(reported, issues.size, state.cfg, options)
+      if (baseline)
+        process.stdout.write(`${colors.gray(describeBaseline(baseline, options))}\n`)
+      return code
+    },
+  }
+}
+
+function describeChange(change: WatchChange): string {
+  const file = relative(process.cwd(), change.filePath)
+  const delta = change.after - change.before
+  const text = `${file}: ${change.before} → ${change.after} ${change.after === 1 ? 'problem' : 'problems'}`
+  return delta < 0 ? colors.green(`  ${text}`) : colors.red(`  ${text}`)
+}
+
+// Print the issues and the changes of `update`; returns the exit code for the issues
+async function redraw(watcher: LintWatcher, update: WatchUpdate | undefined): Promise<number> {
+  const interactive = !!process.stdout.isTTY
+  // clear the screen and move to the top, so each run replaces the last
+  if (interactive)
+    process.stdout.write('\x1B[2J\x1B[3J\x1B[H')
+  const code = await watcher.report()
+  if (update?.reloaded)
+    process.stdout.write(`${colors.gray('The config or an ignore file changed, so every file was linted again.')}\n`)
+  for (const change of update?.changes ?? [])
+    process.stdout.write(`${describeChange(change)}\n`)
+  process.stdout.write(`${colors.gray(`Watching ${watcher.issues.size} files for changes. Press Ctrl+C to stop.`)}\n`)
+  return code
+}
+
+/**
+ * `--watch`: lint (or fix, or format) once, then again for every file that
+ * changes under the globs' directories until `signal` aborts or the process
+ * is interrupted. Resolves with the exit code for the issues at that point.
+ */
+export async function runWatch(globs: string[], options: LintOptions, signal?: AbortSignal): Promise<number> {
+  let watcher: LintWatcher
+  let code: number
+  try {
+    watcher = await createLintWatcher(globs, options)
+    code = await redraw(watcher, undefined)
+  }
+  catch (e: any) {
+    process.stderr.write(`pickier: ${e?.message || e}\n`)
+    return 1
+  }
+
+  const pending = new Set<string>()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running: Promise<void> = Promise.resolve()
+
+  const flush = (): void => {
+    timer = undefined
+    const paths = [...pending]
+    pending.clear()
+    running = running.then(async () => {
+      const update = await watcher.update(paths)
+      if (update.reloaded)
+        watchConfigDirs()
+      if (update.linted.length > 0 || update.changes.length > 0)
+        code = await redraw(watcher, update)
+    }).catch((e: any) => {
+      process.stderr.write(`pickier: ${e?.message || e}\n`)
+    })
+  }
+
+  const onEvent = (dir: string) => (_event: string, name: string | Buffer | null): void => {
+    if (!name)
+      return
+    // events under node_modules, build output and other ignored trees don't schedule a run
+    const path = join(dir, name.toString())
+    if (!watcher.watches(path))
+      return
+    pending.add(path)
+    clearTimeout(timer)
+    timer = setTimeout(flush, DEBOUNCE_MS)
+  }
+  const watchers: FSWatcher[] = []
+  const watchedDirs = new Set<string>()
+  for (const root of watcher.roots) {
+    if (existsSync(root))
+      watchers.push(watch(root, { recursive: true }, onEvent(root)))
+  }
+  // a config file outside the linted directories, or one it extends, has to be noticed too
+  const watchConfigDirs = (): void => {
+    for (const dir of [process.cwd(), join(process.cwd(), '.config'), ...watcher.configFiles.map(file => dirname(file))]) {
+      if (watchedDirs.has(dir) || !existsSync(dir) || watcher.roots.some(root => dir === root || dir.startsWith(`${root}${sep}`)))
+        continue
+      watchedDirs.add(dir)
+      watchers.push(watch(dir, onEvent(dir)))
+    }
+  }
+  watchConfigDirs()
+
+  await new Promise<void>((resolveStop) => {
+    const stop = (): void => resolveStop()
+    if (signal) {
+      if (signal.aborted)
+        return stop()
+      signal.addEventListener('abort', stop, { once: true })
+    }
+    else {
+      process.once('SIGINT', stop)
+    }
+  })
+
+  clearTimeout(timer)
+  for (const w of watchers)
+    w.close()
+  await running
+  return code
+}
@@ -0,0 +1,84 @@
+import type { LintIssue } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { applyBaseline, readBaseline } from '../../src/baseline'
+import { runLint, runLintProgrammatic } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-baseline-'))
+  mkdirSync(join(dir, '.git'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+function issue(filePath: string, line: number): LintIssue {
+  return { filePath, line, column: 1, ruleId: 'no-debugger', message: 'Unexpected debugger statement', severity: 'error' }
+}
+
+describe('applyBaseline', () => {
+  it('records issues per file with a count for identical lines', () => {
+    const dir = project({ 'a.ts': 'debugger\nexport const a = 1\n  debugger\n' })
+    const location = join(dir, 'baseline.json')
+    const file = join(dir, 'a.ts')
+    const result = applyBaseline(location, [file], [issue(file, 1), issue(file, 3)], true)
+    expect(result).toEqual({ issues: [], baselined: 2, removed: 0 })
+    const { files } = readBaseline(location)
+    expect(Object.keys(files)).toEqual(['a.ts'])
+    expect(files['a.ts']).toMatchObject([{ ruleId: 'no-debugger', message: 'Unexpected debugger statement', count: 2 }])
+  })
+
+  it('matches issues that moved and reports the ones beyond the recorded count', () => {
+    const dir = project({ 'a.ts': 'debugger\n' })
+    const location = join(dir, 'baseline.json')
+    const file = join(dir, 'a.ts')
+    applyBaseline(location, [file], [issue(file, 1)], true)
+    writeFileSync(file, 'export const a = 1\ndebugger\ndebugger\n')
+    const result = applyBaseline(location, [file], [issue(file, 2), issue(file, 3)])
+    expect(result.issues).toEqual([issue(file, 3)])
+    expect(result.baselined).toBe(1)
+  })
+
+  it('shrinks as issues are fixed and forgets deleted files', () => {
+    const dir = project({ 'a.ts': 'debugger\ndebugger\n', 'b.ts': 'debugger\n' })
+    const location = join(dir, 'baseline.json')
+    const [a, b] = [join(dir, 'a.ts'), join(dir, 'b.ts')]
+    applyBaseline(location, [a, b], [issue(a, 1), issue(a, 2), issue(b, 1)], true)
+    rmSync(b)
+    writeFileSync(a, 'debugger\n')
+    expect(applyBaseline(location, [a], [issue(a, 1)])).toEqual({ issues: [], baselined: 1, removed: 2 })
+    expect(readBaseline(location).files).toMatchObject({ 'a.ts': [{ count: 1 }] })
+  })
+
+  it('rejects a malformed baseline file', () => {
+    const dir = project({ 'baseline.json': '{"files": []}' })
+    expect(() => readBaseline(join(dir, 'baseline.json'))).toThrow('Invalid baseline file')
+  })
+})
+
+describe('runLint with a baseline', () => {
+  it('only reports issues missing from the baseline', async () => {
+    const dir = project({ 'a.ts': 'debugger\nexport const a = 1\n' })
+    const location = join(dir, '.pickier-baseline.json')
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', baselineWrite: location })).toBe(0)
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', baseline: location })).toBe(0)
+
+    writeFileSync(join(dir, 'a.ts'), 'export const b = 2\ndebugger\nexport const a = 1\ndebugger\n')
+    const { issues } = await runLintProgrammatic([join(dir, 'a.ts')], { baseline: location })
+    expect(issues.map(i => i.line)).toEqual([4])
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', baseline: location })).toBe(1)
+  })
+
+  it('drops fixed issues from the baseline file', async () => {
+    const dir = project({ 'a.ts': 'debugger\n' })
+    const location = join(dir, '.pickier-baseline.json')
+    await runLint([join(dir, 'a.ts')], { reporter: 'json', baselineWrite: location })
+    writeFileSync(join(dir, 'a.ts'), 'export const a = 1\n')
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', baseline: location })).toBe(0)
+    expect(JSON.parse(readFileSync(location, 'utf8'))).toEqual({ version: 1, files: {} })
+  })
+})
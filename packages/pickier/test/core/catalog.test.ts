@@ -0,0 +1,89 @@
+import type { PickierConfig } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { explainRule, findRule, formatRules, listRules, runRules } from '../../src/catalog'
+import { defaultConfig } from '../../src/config'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\x1B\[\d+m/g, '')
+
+async function captureStdout(run: () => Promise<number>): Promise<{ code: number, out: string }> {
+  const write = process.stdout.write
+  let out = ''
+  process.stdout.write = ((chunk: string) => {
+    out += String(chunk)
+    return true
+  }) as typeof process.stdout.write
+  try {
+    return { code: await run(), out }
+  }
+  finally {
+    process.stdout.write = write
+  }
+}
+
+describe('listRules', () => {
+  it('lists the ids of one implementation as one rule, under the id that runs', () => {
+    const entry = findRule(listRules(defaultConfig), 'pickier/prefer-const')!
+    expect(entry.ruleId).toBe('general/prefer-const')
+    expect(entry.aliases).toEqual(['pickier/prefer-const'])
+    expect(entry).toMatchObject({ plugin: 'general', severity: 'error', fixable: true })
+    expect(listRules(defaultConfig).filter(e => [e.ruleId, ...e.aliases].includes('pickier/prefer-const'))).toHaveLength(1)
+  })
+
+  it('resolves severities and options from the config', () => {
+    const cfg: PickierConfig = { ...defaultConfig, pluginRules: { ...defaultConfig.pluginRules, 'prefer-const': 'off', 'style/max-statements-per-line': ['error', { max: 2 }] } }
+    const entries = listRules(cfg)
+    expect(findRule(entries, 'prefer-const')!.severity).toBe('off')
+    expect(findRule(entries, 'style/max-statements-per-line')).toMatchObject({ severity: 'error', options: { max: 2 } })
+  })
+
+  it('filters by plugin and by what is enabled', () => {
+    const style = listRules(defaultConfig, { plugin: 'style' })
+    expect(style.length).toBeGreaterThan(0)
+    expect(style.every(e => [e.ruleId, ...e.aliases].some(id => id.startsWith('style/')))).toBe(true)
+    const enabled = listRules(defaultConfig, { enabled: true })
+    expect(enabled.every(e => e.severity !== 'off')).toBe(true)
+    expect(enabled.length).toBeLessThan(listRules(defaultConfig).length)
+  })
+})
+
+describe('formatRules and explainRule', () => {
+  it('prints a line per rule with a count, and one rule with its options', () => {
+    const entries = listRules(defaultConfig, { plugin: 'general' })
+    const lines = plain(formatRules(entries)).split('\n')
+    expect(lines.find(l => l.startsWith('general/prefer-const'))).toMatch(/^general\/prefer-const +error +fixable +also pickier\/prefer-const$/)
+    expect(lines.at(-1)).toMatch(new RegExp(`^${entries.length} rules, \\d+ enabled$`))
+
+    const text = plain(explainRule(findRule(entries, 'no-unused-vars')!))
+    expect(text).toContain('Report variables and parameters')
+    expect(text).toContain('Fixable: yes\n')
+    expect(text).toContain('"varsIgnorePattern"')
+  })
+})
+
+describe('runRules', () => {
+  it('explains a rule from a config file as JSON', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-catalog-'))
+    const config = join(dir, 'pickier.config.json')
+    writeFileSync(config, JSON.stringify({ pluginRules: { 'general/prefer-template': 'error' } }))
+    const { code, out } = await captureStdout(() => runRules({ config, explain: 'prefer-template', json: true }))
+    expect(code).toBe(0)
+    expect(JSON.parse(out)).toMatchObject({ ruleId: 'general/prefer-template', severity: 'error' })
+  })
+
+  it('fails for a rule that does not exist', async () => {
+    const stderr = process.stderr.write
+    process.stderr.write = (() => true) as typeof process.stderr.write
+    try {
+      expect((await captureStdout(() => runRules({ explain: 'no-such-rule' }))).code).toBe(1)
+    }
+    finally {
+      process.stderr.write = stderr
+    }
+  })
+})
@@ -50,9 +50,10 @@ describe('CLI argv fast-path parsing', () => {
     expect(cliSrc).toContain('globs.length = 0')
   })
 
-  it('skips --ext and --ignore-path values', () => {
+  it('passes --ext and --ignore-path values on', () => {
     expect(cliSrc).toContain("a === '--ext'")
     expect(cliSrc).toContain("a === '--ignore-path'")
+    expect(cliSrc).toContain('ignorePath = argv[++i]')
   })
 
   it('collects non-flag arguments as globs', () => {
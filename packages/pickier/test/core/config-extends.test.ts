@@ -0,0 +1,122 @@
+import type { PickierPlugin } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getPreset } from '../../src/presets'
+import { layerConfig, loadConfigFromPath } from '../../src/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function tmp(): string {
+  return mkdtempSync(join(tmpdir(), 'pickier-extends-'))
+}
+
+function writeJson(path: string, value: unknown): string {
+  writeFileSync(path, JSON.stringify(value), 'utf8')
+  return path
+}
+
+const plugin = (name: string): PickierPlugin => ({ name, rules: {} })
+
+describe('layerConfig', () => {
+  it('merges objects key by key and adds up lists', () => {
+    const layered = layerConfig(
+      { ignores: ['a/**'], rules: { noConsole: 'off' }, pluginRules: { 'x/one': 'warn', 'x/two': 'warn' }, format: { indent: 4 }, overrides: [{ files: ['a'] }] },
+      { ignores: ['b/**', 'a/**'], pluginRules: { 'x/two': 'error' }, format: { quotes: 'double' }, overrides: [{ files: ['b'] }] },
+    )
+    expect(layered.ignores).toEqual(['a/**', 'b/**'])
+    expect(layered.rules).toEqual({ noConsole: 'off' })
+    expect(layered.pluginRules).toEqual({ 'x/one': 'warn', 'x/two': 'error' })
+    expect(layered.format).toEqual({ indent: 4, quotes: 'double' })
+    expect(layered.overrides?.map(o => o.files[0])).toEqual(['a', 'b'])
+  })
+
+  it('replaces a plugin of the same name and keeps the others', () => {
+    const mine = plugin('shared')
+    const layered = layerConfig({ plugins: [plugin('base'), plugin('shared')] }, { plugins: [mine, 'local-plugin'] })
+    expect(layered.plugins?.map(p => typeof p === 'string' ? p : p.name)).toEqual(['base', 'shared', 'local-plugin'])
+    expect(layered.plugins?.[1]).toBe(mine)
+  })
+})
+
+describe('extends', () => {
+  it('layers relative configs beneath the extending one, depth first', async () => {
+    const dir = tmp()
+    mkdirSync(join(dir, 'shared'))
+    writeJson(join(dir, 'shared', 'root.json'), { format: { indent: 8, quotes: 'double' }, ignores: ['legacy/**'] })
+    writeJson(join(dir, 'shared', 'base.json'), { extends: './root.json', format: { indent: 4 }, rules: { noConsole: 'off' } })
+    const configPath = writeJson(join(dir, 'pickier.config.json'), { extends: ['./shared/base.json'], rules: { noConsole: 'error' } })
+
+    const cfg = await loadConfigFromPath(configPath)
+    expect(cfg.format.indent).toBe(4)
+    expect(cfg.format.quotes).toBe('double')
+    expect(cfg.rules.noConsole).toBe('error')
+    expect(cfg.ignores).toContain('legacy/**')
+    expect(cfg.ignores).toContain('**/node_modules/**')
+    expect((cfg as any).extends).toBeUndefined()
+  })
+
+  it('resolves package names from the config file directory', async () => {
+    const dir = tmp()
+    const pkg = join(dir, 'node_modules', '@acme', 'pickier-config')
+    mkdirSync(pkg, { recursive: true })
+    writeJson(join(pkg, 'package.json'), { name: '@acme/pickier-config', main: 'index.js' })
+    writeFileSync(join(pkg, 'index.js'), `module.exports = { pluginRules: { 'pickier/prefer-template': 'off' }, format: { semi: true } }\n`)
+    const configPath = writeJson(join(dir, 'pickier.config.json'), { extends: '@acme/pickier-config' })
+
+    const cfg = await loadConfigFromPath(configPath)
+    expect(cfg.pluginRules?.['pickier/prefer-template']).toBe('off')
+    expect(cfg.format.semi).toBe(true)
+  })
+
+  it('lets the config file win over the presets it extends', async () => {
+    const dir = tmp()
+    const configPath = writeJson(join(dir, 'pickier.config.json'), {
+      extends: ['pickier:recommended', 'pickier:stylistic'],
+      pluginRules: { 'general/no-undef': 'warn' },
+    })
+
+    const cfg = await loadConfigFromPath(configPath)
+    expect(cfg.pluginRules?.['general/no-undef']).toBe('warn')
+    expect(cfg.pluginRules?.['quality/eqeqeq']).toBe('error')
+    expect(cfg.pluginRules?.['style/brace-style']).toBe('warn')
+  })
+
+  it('fails loudly on configs it cannot resolve', async () => {
+    const dir = tmp()
+    await expect(loadConfigFromPath(writeJson(join(dir, 'a.json'), { extends: 'pickier:nope' }))).rejects.toThrow('Unknown preset \'pickier:nope\'')
+    await expect(loadConfigFromPath(writeJson(join(dir, 'b.json'), { extends: './missing.json' }))).rejects.toThrow('Cannot load config \'./missing.json\'')
+    await expect(loadConfigFromPath(writeJson(join(dir, 'c.json'), { extends: '@acme/not-installed' }))).rejects.toThrow('Cannot find config \'@acme/not-installed\'')
+
+    writeJson(join(dir, 'd.json'), { extends: './e.json' })
+    writeJson(join(dir, 'e.json'), { extends: './d.json' })
+    await expect(loadConfigFromPath(join(dir, 'd.json'))).rejects.toThrow('Circular extends')
+  })
+})
+
+describe('presets', () => {
+  it('builds recommended from rule metadata, without style or experimental rules', () => {
+    const rules = getPreset('pickier:recommended')!.pluginRules!
+    expect(rules['general/no-undef']).toBe('error')
+    expect(rules['quality/eqeqeq']).toBe('error')
+    expect(Object.keys(rules).some(id => id.startsWith('style/'))).toBe(false)
+    // compatibility prefixes would configure the same rules twice
+    expect(Object.keys(rules).some(id => id.startsWith('eslint/'))).toBe(false)
+  })
+
+  it('strict extends recommended with the remaining code rules', () => {
+    const strict = getPreset('pickier:strict')!
+    expect(strict.extends).toEqual(['pickier:recommended'])
+    const recommended = getPreset('pickier:recommended')!.pluginRules!
+    const notRecommended = Object.keys(strict.pluginRules!).filter(id => !(id in recommended))
+    expect(notRecommended.length).toBeGreaterThan(0)
+    expect(notRecommended.some(id => id.startsWith('markdown/') || id.startsWith('spell/') || id.startsWith('style/'))).toBe(false)
+  })
+
+  it('stylistic turns on the recommended style rules as warnings', () => {
+    const rules = getPreset('pickier:stylistic')!.pluginRules!
+    expect(Object.keys(rules).length).toBeGreaterThan(0)
+    expect(Object.entries(rules).every(([id, severity]) => id.startsWith('style/') && severity === 'warn')).toBe(true)
+  })
+})
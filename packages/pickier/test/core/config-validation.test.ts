@@ -0,0 +1,112 @@
+import type { PickierConfig } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { runLint } from '../../src/linter'
+import { validateConfig, validateRuleOptions } from '../../src/validation'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function withRules(overrides: Partial<PickierConfig>): PickierConfig {
+  return { ...defaultConfig, rules: { noDebugger: 'off', noConsole: 'off' }, pluginRules: {}, ...overrides }
+}
+
+describe('validateConfig', () => {
+  it('accepts the default config', () => {
+    expect(validateConfig(defaultConfig)).toEqual([])
+  })
+
+  it('reports unknown rules with the closest known id', () => {
+    const problems = validateConfig(withRules({ pluginRules: { 'pickier/no-unused-var': 'error', 'ts/sort-objects': 'warn' } }))
+    expect(problems).toEqual([
+      { path: `pluginRules['pickier/no-unused-var']`, message: `unknown rule 'pickier/no-unused-var'. Did you mean 'pickier/no-unused-vars'?` },
+      { path: `pluginRules['ts/sort-objects']`, message: `unknown rule 'ts/sort-objects'. Did you mean 'pickier/sort-objects'?` },
+    ])
+  })
+
+  it('names plugins that are not loaded', () => {
+    const [problem] = validateConfig(withRules({ pluginRules: { 'react/jsx-key': 'error' } }))
+    expect(problem.message).toContain(`no plugin named 'react' is loaded`)
+  })
+
+  it('accepts general/ and pickier/ ids interchangeably, and bare rule names', () => {
+    expect(validateConfig(withRules({ pluginRules: { 'general/no-unused-vars': 'error', 'pickier/prefer-const': 'error', 'no-debugger': 'off' } }))).toEqual([])
+  })
+
+  it('reports invalid severities', () => {
+    const problems = validateConfig(withRules({ pluginRules: { 'pickier/sort-objects': 'eror', 'pickier/prefer-const': [2] } as any }))
+    expect(problems.map(p => p.message)).toEqual([
+      `invalid severity 'eror'; expected 'off', 'warn' or 'error'`,
+      `invalid severity 2; expected 'off', 'warn' or 'error'`,
+    ])
+  })
+
+  it('checks rule options against the rule schema', () => {
+    const problems = validateConfig(withRules({
+      pluginRules: {
+        'pickier/sort-objects': ['warn', { order: 'up', ignorecase: true }],
+        'style/max-statements-per-line': ['warn', { max: 0 }],
+        'pickier/no-unused-vars': ['error', { varsIgnorePattern: '^_' }],
+      },
+    }))
+    expect(problems.map(p => p.message)).toEqual([
+      `invalid options: options.order must be one of 'asc', 'desc', got 'up'`,
+      `invalid options: options.ignorecase is not a known option. Did you mean 'ignoreCase'?`,
+      `invalid options: options.max must be at least 1, got 0`,
+    ])
+  })
+
+  it('validates the rules of overrides', () => {
+    const problems = validateConfig(withRules({
+      overrides: [{ files: ['**/*.test.ts'], pluginRules: { 'pickier/no-consol': 'off' } }],
+    }))
+    expect(problems).toHaveLength(1)
+    expect(problems[0].path).toBe(`overrides[0].pluginRules['pickier/no-consol']`)
+  })
+
+  it('knows the rules of user plugins', () => {
+    const plugin = { name: 'acme', rules: { 'no-foo': { meta: { docs: 'no foo' }, check: () => [] } } }
+    expect(validateConfig(withRules({ plugins: [plugin], pluginRules: { 'acme/no-foo': 'error' } }))).toEqual([])
+  })
+})
+
+describe('validateRuleOptions', () => {
+  it('walks arrays, nested objects and alternatives', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        groups: { type: 'array' as const, items: { anyOf: [{ type: 'string' as const }, { type: 'array' as const, items: { type: 'string' as const } }] } },
+      },
+      required: ['groups'],
+    }
+    expect(validateRuleOptions({ groups: ['a', ['b', 'c']] }, schema)).toEqual([])
+    expect(validateRuleOptions({ groups: ['a', [1]] }, schema)).toEqual(['options.groups[1][0] must be string, got 1'])
+    expect(validateRuleOptions({}, schema)).toEqual(['options.groups is required'])
+    expect(validateRuleOptions('x', schema)).toEqual([`options must be object, got 'x'`])
+  })
+})
+
+describe('runLint with an invalid config', () => {
+  function setup(): { dir: string, configPath: string } {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-config-validation-'))
+    writeFileSync(join(dir, 'a.ts'), 'export const a = 1\n')
+    const configPath = join(dir, 'pickier.json')
+    writeFileSync(configPath, JSON.stringify({
+      lint: { extensions: ['ts'] },
+      pluginRules: { 'pickier/no-unused-var': 'error' },
+    }))
+    return { dir, configPath }
+  }
+
+  it('only warns by default', async () => {
+    const { dir, configPath } = setup()
+    expect(await runLint([join(dir, 'a.ts')], { config: configPath, reporter: 'json' })).toBe(0)
+  })
+
+  it('fails with strictConfig', async () => {
+    const { dir, configPath } = setup()
+    expect(await runLint([join(dir, 'a.ts')], { config: configPath, reporter: 'json', strictConfig: true })).toBe(1)
+  })
+})
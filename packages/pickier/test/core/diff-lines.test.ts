@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { applyLineEdits, diffLines } from '../../src/diff'
+import { gitChangedLines, linesChanged } from '../../src/git'
+import { runLint, runLintProgrammatic } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function git(dir: string, ...args: string[]): void {
+  execFileSync('git', args, { cwd: dir, stdio: 'ignore' })
+}
+
+// A repository with one commit holding `src/a.ts`: five lines, a debugger statement on line 2
+function repo(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-diff-lines-'))
+  git(dir, 'init', '-q', '-b', 'main')
+  git(dir, 'config', 'user.email', 'test@example.com')
+  git(dir, 'config', 'user.name', 'test')
+  mkdirSync(join(dir, 'src'))
+  writeFileSync(join(dir, 'src/a.ts'), 'export const a = 1\ndebugger\nexport const b = 2\nexport const c = 3\nexport const d = 4\n')
+  git(dir, 'add', '.')
+  git(dir, 'commit', '-q', '-m', 'initial')
+  return dir
+}
+
+describe('diffLines', () => {
+  it('finds the replaced, inserted and deleted lines', () => {
+    expect(diffLines(['a', 'b', 'c', 'd'], ['a', 'B', 'c', 'x', 'd'])).toEqual([
+      { start: 1, deleteCount: 1, lines: ['B'] },
+      { start: 3, deleteCount: 0, lines: ['x'] },
+    ])
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c'])).toEqual([{ start: 1, deleteCount: 1, lines: [] }])
+    expect(diffLines(['a'], ['a'])).toEqual([])
+  })
+
+  it('applies only the edits that are kept', () => {
+    const before = 'a\nb\nc\nd'
+    const after = 'a\nB\nc\nD'
+    expect(applyLineEdits(before, after, from => from === 4)).toBe('a\nb\nc\nD')
+    expect(applyLineEdits(before, after, () => true)).toBe(after)
+    expect(applyLineEdits(before, after, () => false)).toBe(before)
+  })
+})
+
+describe('gitChangedLines', () => {
+  it('lists the added and modified lines, and untracked files whole', () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'export const a = 1\ndebugger\nexport const b = 20\nexport const c = 3\nexport const d = 4\ndebugger\n')
+    writeFileSync(join(dir, 'src/new.ts'), 'debugger\n')
+    const changed = gitChangedLines('HEAD', dir)
+    expect(changed.get(join(dir, 'src/a.ts'))).toEqual([[3, 3], [6, 6]])
+    expect(linesChanged(changed, join(dir, 'src/new.ts'), 100)).toBe(true)
+    expect(linesChanged(changed, join(dir, 'src/a.ts'), 2)).toBe(false)
+  })
+
+  it('reads an added line starting with `++ ` as content, not as a file header', () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'export const a = 1\ndebugger\n++ b/src/other.ts\nexport const c = 3\nexport const d = 4\ndebugger\n')
+    const changed = gitChangedLines('HEAD', dir)
+    expect([...changed.keys()]).toEqual([join(dir, 'src/a.ts')])
+    expect(changed.get(join(dir, 'src/a.ts'))).toEqual([[3, 3], [6, 6]])
+  })
+
+  it('fails for an unknown ref', () => {
+    expect(() => gitChangedLines('nope', repo())).toThrow('failed')
+  })
+})
+
+describe('runLint with --diff-lines', () => {
+  it('only reports issues on changed lines', async () => {
+    const dir = repo()
+    expect(await runLint([dir], { reporter: 'json', diffLines: 'HEAD' })).toBe(0)
+    writeFileSync(join(dir, 'src/a.ts'), 'export const a = 1\ndebugger\nexport const b = 2\nexport const c = 3\ndebugger\n')
+    const { issues } = await runLintProgrammatic([dir], { diffLines: 'HEAD' })
+    expect(issues.map(i => i.line)).toEqual([5])
+    expect(await runLint([dir], { reporter: 'json', diffLines: 'HEAD' })).toBe(1)
+  })
+
+  it('restricts --fix to the changed lines with --fix-diff-lines', async () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'export const a = 1\ndebugger\nexport const b = 2\nexport const c = 3\ndebugger\n')
+    expect(await runLint([dir], { reporter: 'json', diffLines: 'HEAD', fix: true, fixDiffLines: true })).toBe(0)
+    expect(readFileSync(join(dir, 'src/a.ts'), 'utf8')).toBe('export const a = 1\ndebugger\nexport const b = 2\nexport const c = 3\n')
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { unifiedDiff } from '../../src/diff'
+import { runLint } from '../../src/linter'
+import { runStdin } from '../../src/stdin'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-diff-output-'))
+  mkdirSync(join(dir, '.git'))
+  mkdirSync(join(dir, 'src'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+// Run inside `dir` with stdout and the console captured
+async function capture(dir: string, run: () => Promise<number>): Promise<{ code: number, out: string }> {
+  const cwd = process.cwd()
+  const write = process.stdout.write
+  const log = console.log
+  let out = ''
+  process.stdout.write = ((chunk: string) => {
+    out += String(chunk)
+    return true
+  }) as typeof process.stdout.write
+  console.log = (...args: unknown[]) => {
+    out += `${args.join(' ')}\n`
+  }
+  process.chdir(dir)
+  try {
+    return { code: await run(), out }
+  }
+  finally {
+    process.chdir(cwd)
+    process.stdout.write = write
+    console.log = log
+  }
+}
+
+describe('unifiedDiff', () => {
+  it('shows each change with three lines of context, merging close ones', () => {
+    const before = `${Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n')}\n`
+    const after = before.replace('line 2\n', 'line two\n').replace('line 5\n', '').replace('line 18\n', 'line 18\nline 18.5\n')
+    expect(unifiedDiff('src/a.ts', before, after)).toBe([
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,8 +1,7 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '@@ -16,5 +15,6 @@',
+      ' line 16',
+      ' line 17',
+      ' line 18',
+      '+line 18.5',
+      ' line 19',
+      ' line 20',
+      '',
+    ].join('\n'))
+  })
+
+  it('marks a missing final newline and is empty without changes', () => {
+    expect(unifiedDiff('a.ts', 'a\nb', 'a\nb\n')).toBe('--- a/a.ts\n+++ b/a.ts\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n')
+    expect(unifiedDiff('a.ts', '', 'a\n')).toBe('--- a/a.ts\n+++ b/a.ts\n@@ -0,0 +1 @@\n+a\n')
+    expect(unifiedDiff('a.ts', 'a\n', 'a\n')).toBe('')
+  })
+
+  it('colors removed and added lines when asked', () => {
+    const diff = unifiedDiff('a.ts', 'a\n', 'b\n', { color: true })
+    expect(diff).toContain('\x1B[31m-a\x1B[0m')
+    expect(diff).toContain('\x1B[32m+b\x1B[0m')
+    expect(diff).toContain('\x1B[36m@@ -1 +1 @@\x1B[0m')
+  })
+})
+
+describe('--diff', () => {
+  it('prints the fixes as a patch git can apply, writing nothing', async () => {
+    const source = 'export const a = 1\ndebugger\nexport const b = 2\n'
+    const dir = project({ 'src/a.ts': source })
+    const { code, out } = await capture(dir, () => runLint([join(dir, 'src')], { fix: true, diff: true }))
+    expect(code).toBe(0)
+    expect(out).toBe('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,3 +1,2 @@\n export const a = 1\n-debugger\n export const b = 2\n')
+    expect(readFileSync(join(dir, 'src/a.ts'), 'utf8')).toBe(source)
+
+    execFileSync('git', ['init', '-q'], { cwd: dir })
+    writeFileSync(join(dir, 'fix.patch'), out)
+    execFileSync('git', ['apply', 'fix.patch'], { cwd: dir })
+    expect(readFileSync(join(dir, 'src/a.ts'), 'utf8')).toBe('export const a = 1\nexport const b = 2\n')
+  })
+
+  it('shows what formatting would change and fails the check', async () => {
+    const dir = project({ 'src/a.ts': 'export const a = "x"\n', 'src/b.ts': 'export const b = 1\n' })
+    const { code, out } = await capture(dir, () => runLint([join(dir, 'src')], { fix: true, diff: true, _formatOnly: true }))
+    expect(code).toBe(1)
+    expect(out).toBe('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-export const a = "x"\n+export const a = \'x\'\n')
+    expect(readFileSync(join(dir, 'src/a.ts'), 'utf8')).toBe('export const a = "x"\n')
+  })
+
+  it('prints the changes to stdin text instead of the text', async () => {
+    const dir = project({})
+    const { code, out } = await capture(dir, () => runStdin('debugger\nexport const a = 1\n', { stdin: true, stdinFilename: 'src/a.ts', mode: 'lint', fix: true, diff: true }))
+    expect(code).toBe(1)
+    expect(out).toBe('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,2 +1 @@\n-debugger\n export const a = 1\n')
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test'
+import { mergeFixes } from '../../src/fixes'
+
+describe('mergeFixes', () => {
+  it('applies edits in source order regardless of the order given', () => {
+    const { output, applied } = mergeFixes('let a = 1; let b = 2', [
+      { range: [11, 14], text: 'const' },
+      { range: [0, 3], text: 'const' },
+    ])
+    expect(output).toBe('const a = 1; const b = 2')
+    expect(applied).toHaveLength(2)
+  })
+
+  it('skips edits that overlap or touch one already taken', () => {
+    const { output, skipped } = mergeFixes('abcdef', [
+      { range: [1, 3], text: 'X' },
+      { range: [2, 4], text: 'Y' },
+      { range: [3, 3], text: 'Z' },
+      { range: [4, 6], text: 'W' },
+    ])
+    expect(output).toBe('aXdW')
+    expect(skipped.map(f => f.text)).toEqual(['Y', 'Z'])
+  })
+
+  it('inserts and deletes with empty ranges and empty text', () => {
+    expect(mergeFixes('ab', [{ range: [0, 0], text: '_' }, { range: [2, 2], text: ';' }]).output).toBe('_ab;')
+    expect(mergeFixes('a  b', [{ range: [1, 3], text: ' ' }]).output).toBe('a b')
+  })
+
+  it('drops ranges outside the text or running backwards', () => {
+    const { output, applied } = mergeFixes('abc', [
+      { range: [2, 1], text: 'X' },
+      { range: [1, 9], text: 'Y' },
+      { range: [-1, 0], text: 'Z' },
+    ])
+    expect(output).toBe('abc')
+    expect(applied).toEqual([])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { gitChangedFiles } from '../../src/git'
+import { runLint, runLintProgrammatic } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function git(dir: string, ...args: string[]): void {
+  execFileSync('git', args, { cwd: dir, stdio: 'ignore' })
+}
+
+// A repository with one commit on `main`, then a feature branch with one more
+function repo(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-git-'))
+  git(dir, 'init', '-q', '-b', 'main')
+  git(dir, 'config', 'user.email', 'test@example.com')
+  git(dir, 'config', 'user.name', 'test')
+  mkdirSync(join(dir, 'src'))
+  for (const name of ['a.ts', 'b.ts', 'c.ts', 'old.ts'])
+    writeFileSync(join(dir, 'src', name), `export const ${name[0]} = 1\n`)
+  git(dir, 'add', '.')
+  git(dir, 'commit', '-q', '-m', 'initial')
+  git(dir, 'checkout', '-q', '-b', 'feature')
+  writeFileSync(join(dir, 'src/b.ts'), 'debugger\n')
+  git(dir, 'commit', '-q', '-am', 'feature work')
+  return dir
+}
+
+const rel = (dir: string, files: string[]): string[] => files.map(f => f.slice(dir.length + 1))
+
+describe('gitChangedFiles', () => {
+  it('lists staged files, with renames under the new name and without deletions', () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'debugger\n')
+    git(dir, 'mv', 'src/old.ts', 'src/new.ts')
+    git(dir, 'rm', '-q', 'src/c.ts')
+    git(dir, 'add', 'src/a.ts')
+    expect(rel(dir, gitChangedFiles({ staged: true }, dir))).toEqual(['src/a.ts', 'src/new.ts'])
+  })
+
+  it('lists changed and untracked files against HEAD', () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'debugger\n')
+    writeFileSync(join(dir, 'src/untracked.ts'), 'debugger\n')
+    writeFileSync(join(dir, '.gitignore'), 'src/ignored.ts\n')
+    writeFileSync(join(dir, 'src/ignored.ts'), 'debugger\n')
+    rmSync(join(dir, 'src/c.ts'))
+    expect(rel(dir, gitChangedFiles({ changed: true }, join(dir, 'src')))).toEqual(['.gitignore', 'src/a.ts', 'src/untracked.ts'])
+  })
+
+  it('lists files changed since a ref, from where the branch forked', () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'debugger\n')
+    expect(rel(dir, gitChangedFiles({ since: 'main' }, dir))).toEqual(['src/a.ts', 'src/b.ts'])
+  })
+
+  it('fails for an unknown ref or outside a repository', () => {
+    expect(() => gitChangedFiles({ since: 'nope' }, repo())).toThrow('git merge-base nope HEAD failed')
+    expect(() => gitChangedFiles({ staged: true }, mkdtempSync(join(tmpdir(), 'pickier-no-git-')))).toThrow('git rev-parse --show-toplevel failed')
+  })
+})
+
+describe('runLint with a git selection', () => {
+  it('lints only the selected files, narrowed by the globs', async () => {
+    const dir = repo()
+    // b.ts has a debugger statement but is committed, so only the staged file counts
+    writeFileSync(join(dir, 'src/a.ts'), 'export const a = 2\n')
+    git(dir, 'add', 'src/a.ts')
+    expect(await runLint([dir], { reporter: 'json', staged: true })).toBe(0)
+    expect(await runLint([dir], { reporter: 'json', since: 'main' })).toBe(1)
+    expect(await runLint([join(dir, 'src/a.ts')], { reporter: 'json', since: 'main' })).toBe(0)
+    expect((await runLintProgrammatic([dir], { since: 'main' })).issues.map(i => i.filePath)).toEqual([join(dir, 'src/b.ts')])
+  })
+
+  it('applies the extension filter and ignore files', async () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'notes.txt'), 'debugger\n')
+    writeFileSync(join(dir, '.pickierignore'), 'src/skip.ts\n')
+    writeFileSync(join(dir, 'src/skip.ts'), 'debugger\n')
+    expect(await runLint([dir], { reporter: 'json', changed: true })).toBe(0)
+  })
+
+  it('fixes and format-checks the selected files', async () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'debugger\nexport const a = 2\n')
+    writeFileSync(join(dir, 'src/c.ts'), 'export const c = 2   \n')
+    expect(await runLint([dir], { reporter: 'json', changed: true, fix: true })).toBe(0)
+    expect(readFileSync(join(dir, 'src/a.ts'), 'utf8')).toBe('export const a = 2\n')
+    expect(await runLint([dir], { changed: true, fix: true, dryRun: true, _formatOnly: true })).toBe(1)
+    expect(await runLint([dir], { staged: true, fix: true, dryRun: true, _formatOnly: true })).toBe(0)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { createIgnoreFiles, parseIgnoreFile } from '../../src/ignore-files'
+import { runLint, runLintProgrammatic } from '../../src/linter'
+import { runFormat } from '../../src/formatter'
+import { glob } from '../../src/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// A temporary repository: `.git` marks its root, so ignore files above it don't apply
+function repo(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-ignore-files-'))
+  mkdirSync(join(dir, '.git'))
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, path)), { recursive: true })
+    writeFileSync(join(dir, path), content)
+  }
+  return dir
+}
+
+function ignores(content: string, rel: string, isDirectory = false): boolean {
+  const dir = repo({ '.gitignore': content })
+  return createIgnoreFiles().ignores(join(dir, rel), isDirectory)
+}
+
+describe('gitignore semantics', () => {
+  it('matches a name without slashes at any depth', () => {
+    expect(ignores('*.gen.ts\n', 'a/b/c.gen.ts')).toBe(true)
+    expect(ignores('build\n', 'pkg/build/x.ts')).toBe(true)
+    expect(ignores('build\n', 'pkg/builder.ts')).toBe(false)
+  })
+
+  it('anchors patterns with a leading or inner slash', () => {
+    expect(ignores('/gen\n', 'gen/x.ts')).toBe(true)
+    expect(ignores('/gen\n', 'src/gen/x.ts')).toBe(false)
+    expect(ignores('src/gen\n', 'src/gen/x.ts')).toBe(true)
+    expect(ignores('src/gen\n', 'lib/src/gen/x.ts')).toBe(false)
+  })
+
+  it('matches directory-only patterns against directories', () => {
+    expect(ignores('out/\n', 'out', true)).toBe(true)
+    expect(ignores('out/\n', 'out')).toBe(false)
+    expect(ignores('out/\n', 'a/out/x.ts')).toBe(true)
+  })
+
+  it('re-includes with negation, but not inside an ignored directory', () => {
+    expect(ignores('*.ts\n!keep.ts\n', 'keep.ts')).toBe(false)
+    expect(ignores('*.ts\n!keep.ts\n', 'drop.ts')).toBe(true)
+    expect(ignores('gen/\n!gen/keep.ts\n', 'gen/keep.ts')).toBe(true)
+  })
+
+  it('supports ** in every position', () => {
+    expect(ignores('**/fixtures\n', 'a/b/fixtures/x.ts')).toBe(true)
+    expect(ignores('docs/**\n', 'docs/a/b.md')).toBe(true)
+    expect(ignores('a/**/z.ts\n', 'a/z.ts')).toBe(true)
+    expect(ignores('a/**/z.ts\n', 'a/b/c/z.ts')).toBe(true)
+  })
+
+  it('skips comments and blank lines, and honours escapes', () => {
+    const file = parseIgnoreFile('# comment\n\n\\#hash\n\\!bang\n', '/x')
+    expect(file.rules).toHaveLength(2)
+    expect(file.rules[0].regex.test('#hash')).toBe(true)
+    expect(file.rules[1].negated).toBe(false)
+  })
+})
+
+describe('ignore file discovery', () => {
+  it('reads .gitignore and .pickierignore in nested directories, deeper files winning', () => {
+    const dir = repo({
+      '.gitignore': '*.gen.ts\n',
+      'pkg/.pickierignore': '!keep.gen.ts\nfixtures/\n',
+    })
+    const matcher = createIgnoreFiles()
+    expect(matcher.ignores(join(dir, 'a.gen.ts'))).toBe(true)
+    expect(matcher.ignores(join(dir, 'pkg/keep.gen.ts'))).toBe(false)
+    expect(matcher.ignores(join(dir, 'keep.gen.ts'))).toBe(true)
+    expect(matcher.ignores(join(dir, 'pkg/fixtures/a.ts'))).toBe(true)
+    expect(matcher.ignores(join(dir, 'fixtures/a.ts'))).toBe(false)
+  })
+
+  it('stops at the repository root', () => {
+    const outer = repo({ '.gitignore': 'inner\n' })
+    mkdirSync(join(outer, 'inner', '.git'), { recursive: true })
+    expect(createIgnoreFiles().ignores(join(outer, 'inner', 'a.ts'))).toBe(false)
+  })
+
+  it('reads --ignore-path relative to its own directory', () => {
+    const dir = repo({ 'config/lint-ignore': 'vendor/\n' })
+    const matcher = createIgnoreFiles({ ignorePath: join(dir, 'config/lint-ignore') })
+    expect(matcher.ignores(join(dir, 'config/vendor/a.ts'))).toBe(true)
+    expect(matcher.ignores(join(dir, 'vendor/a.ts'))).toBe(false)
+  })
+
+  it('names the file and pattern that exclude a path', () => {
+    const dir = repo({
+      '.gitignore': '*.gen.ts\n',
+      'pkg/.pickierignore': '!keep.gen.ts\nfixtures/\n',
+    })
+    const matcher = createIgnoreFiles()
+    expect(matcher.ignoredBy(join(dir, 'a.gen.ts'))).toEqual({ file: join(dir, '.gitignore'), pattern: '*.gen.ts' })
+    expect(matcher.ignoredBy(join(dir, 'pkg/fixtures/a.ts'))).toEqual({ file: join(dir, 'pkg/.pickierignore'), pattern: 'fixtures/' })
+    expect(matcher.ignoredBy(join(dir, 'pkg/keep.gen.ts'))).toBeUndefined()
+  })
+
+  it('fails on a missing --ignore-path file', () => {
+    expect(() => createIgnoreFiles({ ignorePath: '/nonexistent/.lintignore' })).toThrow(`Cannot read ignore file '/nonexistent/.lintignore'`)
+  })
+})
+
+describe('file discovery honours ignore files', () => {
+  const sources = {
+    '.gitignore': 'generated/\n',
+    '.pickierignore': 'legacy.ts\n',
+    'src/a.ts': 'export const a = 1\n',
+    // trailing spaces so the format check would flag them too
+    'src/generated/b.ts': 'debugger  \n',
+    'src/legacy.ts': 'debugger  \n',
+  }
+
+  it('in glob()', async () => {
+    const dir = repo(sources)
+    const files = await glob(['**/*.ts'], { cwd: dir, ignoreFiles: createIgnoreFiles() })
+    expect(files).toEqual([join(dir, 'src/a.ts')])
+  })
+
+  it('in the directory scan of runLint()', async () => {
+    const dir = repo(sources)
+    expect(await runLint([dir], { reporter: 'json' })).toBe(0)
+  })
+
+  it('in runLintProgrammatic() and runFormat()', async () => {
+    const dir = repo(sources)
+    expect((await runLintProgrammatic([dir], {})).errors).toBe(0)
+    expect(await runFormat([dir], { check: true })).toBe(0)
+  })
+
+  it('with --ignore-path', async () => {
+    const dir = repo({ 'src/a.ts': 'debugger\n', 'lint-ignore': 'src/a.ts\n' })
+    expect(await runLint([dir], { reporter: 'json' })).toBe(1)
+    expect(await runLint([dir], { reporter: 'json', ignorePath: join(dir, 'lint-ignore') })).toBe(0)
+  })
+})
@@ -0,0 +1,135 @@
+import type { PickierConfig } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { formatCode } from '../../src/format'
+import { lintText, runLint } from '../../src/linter'
+import { configForFile, overrideMatches } from '../../src/overrides'
+import { loadConfigFromPath } from '../../src/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+const at = (rel: string) => resolve(process.cwd(), rel)
+
+function withOverrides(overrides: PickierConfig['overrides']): PickierConfig {
+  return { ...defaultConfig, overrides }
+}
+
+describe('overrides', () => {
+  it('matches globs relative to the working directory, and bare names at any depth', () => {
+    expect(overrideMatches({ files: ['scripts/**'] }, at('scripts/release.ts'))).toBe(true)
+    expect(overrideMatches({ files: ['scripts/**'] }, at('src/scripts/release.ts'))).toBe(false)
+    expect(overrideMatches({ files: ['*.d.ts'] }, at('src/types/env.d.ts'))).toBe(true)
+    expect(overrideMatches({ files: ['**/*.{sh,bash}'] }, at('bin/setup.bash'))).toBe(true)
+    expect(overrideMatches({ files: ['./src/**/*.ts'] }, at('src/a.ts'))).toBe(true)
+    expect(overrideMatches({ files: ['src/**'], ignores: ['**/*.test.ts'] }, at('src/a.test.ts'))).toBe(false)
+  })
+
+  it('merges matching overrides in order, later ones winning', () => {
+    const cfg = withOverrides([
+      { files: ['scripts/**'], rules: { noConsole: 'off' }, format: { indent: 4 } },
+      { files: ['**/deploy.ts'], rules: { noConsole: 'error' }, pluginRules: { 'pickier/prefer-const': 'off' } },
+    ])
+
+    const script = configForFile(cfg, at('scripts/build.ts'))
+    expect(script.rules.noConsole).toBe('off')
+    expect(script.format.indent).toBe(4)
+    expect(script.format.quotes).toBe('single')
+
+    const deploy = configForFile(cfg, at('scripts/deploy.ts'))
+    expect(deploy.rules.noConsole).toBe('error')
+    expect(deploy.format.indent).toBe(4)
+    expect(deploy.pluginRules?.['pickier/prefer-const']).toBe('off')
+    expect(deploy.pluginRules?.['pickier/no-unused-vars']).toBe('error')
+
+    expect(configForFile(cfg, at('src/index.ts')).rules.noConsole).toBe('warn')
+    expect(cfg.rules.noConsole).toBe('warn')
+  })
+
+  it('returns one object per combination of matching overrides', () => {
+    const cfg = withOverrides([{ files: ['scripts/**'], rules: { noConsole: 'off' } }])
+    const a = configForFile(cfg, at('scripts/a.ts'))
+    expect(configForFile(cfg, at('scripts/b.ts'))).toBe(a)
+    expect(configForFile(cfg, at('src/c.ts'))).not.toBe(a)
+    // resolved configs carry no overrides, so resolving again is a no-op
+    expect(configForFile(a, at('src/c.ts'))).toBe(a)
+    expect(configForFile(defaultConfig, at('scripts/a.ts'))).toBe(defaultConfig)
+  })
+
+  it('applies rule overrides when linting', async () => {
+    const cfg = withOverrides([{ files: ['scripts/**'], rules: { noConsole: 'off' } }])
+    const code = 'console.log(1)\n'
+
+    const src = await lintText(code, cfg, at('src/a.ts'))
+    expect(src.some(i => i.ruleId === 'no-console')).toBe(true)
+    const script = await lintText(code, cfg, at('scripts/a.ts'))
+    expect(script.some(i => i.ruleId === 'no-console')).toBe(false)
+  })
+
+  it('applies plugin rule overrides when linting', async () => {
+    const cfg = withOverrides([{ files: ['legacy/**'], pluginRules: { 'prefer-const': 'off' } }])
+    const code = 'let a = 1\nexport { a }\n'
+
+    expect((await lintText(code, cfg, at('src/a.ts'))).some(i => i.ruleId === 'prefer-const')).toBe(true)
+    expect((await lintText(code, cfg, at('legacy/a.ts'))).some(i => i.ruleId === 'prefer-const')).toBe(false)
+  })
+
+  it('applies format overrides when formatting', () => {
+    const cfg = withOverrides([{ files: ['vendor-shims/**'], format: { quotes: 'double' } }])
+    const code = `const a = 'x'\n`
+
+    expect(formatCode(code, cfg, at('src/a.ts'))).toBe(`const a = 'x'\n`)
+    expect(formatCode(code, cfg, at('vendor-shims/a.ts'))).toBe(`const a = "x"\n`)
+  })
+
+  it('lints each file of a run with its own config', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-overrides-'))
+    mkdirSync(join(dir, 'scripts'))
+    writeFileSync(join(dir, 'scripts', 'release.ts'), 'console.log(1)\n')
+    writeFileSync(join(dir, 'index.ts'), 'console.log(1)\n')
+    const configPath = join(dir, 'pickier.config.json')
+    writeFileSync(configPath, JSON.stringify({
+      rules: { noConsole: 'error' },
+      overrides: [{ files: ['**/scripts/**'], rules: { noConsole: 'off' } }],
+    }))
+
+    expect(await runLint([join(dir, 'index.ts')], { config: configPath, reporter: 'json' })).toBe(1)
+    expect(await runLint([join(dir, 'scripts')], { config: configPath, reporter: 'json' })).toBe(0)
+  })
+
+  it('matches globs from the config file\'s directory when run from a subdirectory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-overrides-'))
+    mkdirSync(join(dir, '.git'))
+    mkdirSync(join(dir, 'scripts'))
+    writeFileSync(join(dir, 'scripts', 'release.ts'), 'console.log(1)\n')
+    writeFileSync(join(dir, 'pickier.config.json'), JSON.stringify({
+      rules: { noConsole: 'error' },
+      overrides: [{ files: ['scripts/**'], rules: { noConsole: 'off' } }],
+    }))
+
+    const cwd = process.cwd()
+    process.chdir(join(dir, 'scripts'))
+    try {
+      expect(await runLint(['release.ts'], { config: '../pickier.config.json', reporter: 'json' })).toBe(0)
+    }
+    finally {
+      process.chdir(cwd)
+    }
+  })
+
+  it('matches the globs of an extended config from that config\'s directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-overrides-'))
+    mkdirSync(join(dir, 'shared'))
+    writeFileSync(join(dir, 'shared', 'base.json'), JSON.stringify({
+      rules: { noConsole: 'error' },
+      overrides: [{ files: ['tools/**'], rules: { noConsole: 'off' } }],
+    }))
+    writeFileSync(join(dir, 'pickier.json'), JSON.stringify({ extends: './shared/base.json' }))
+
+    const cfg = await loadConfigFromPath(join(dir, 'pickier.json'))
+    expect(configForFile(cfg, join(dir, 'shared', 'tools', 'a.ts')).rules.noConsole).toBe('off')
+    expect(configForFile(cfg, join(dir, 'tools', 'a.ts')).rules.noConsole).toBe('error')
+  })
+})
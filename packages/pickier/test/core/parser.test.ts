@@ -0,0 +1,255 @@
+import type { Node } from '../../src/parser'
+import type { PickierConfig, PickierPlugin, RuleContext } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { readdirSync, readFileSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { createRuleContext, createSourceCode } from '../../src/ast'
+import { defaultConfig } from '../../src/config'
+import { lintText } from '../../src/linter'
+import { isParseError, parse, walk } from '../../src/parser'
+
+function types(code: string, filePath = 'a.ts'): string[] {
+  const out: string[] = []
+  walk(parse(code, { filePath }), { enter: node => void out.push(node.type) })
+  return out
+}
+
+function find(code: string, type: string, filePath = 'a.ts'): Node {
+  let found: Node | undefined
+  walk(parse(code, { filePath }), {
+    enter(node) {
+      if (!found && node.type === type)
+        found = node
+    },
+  })
+  if (!found)
+    throw new Error(`no ${type} in ${code}`)
+  return found
+}
+
+describe('parser: expressions and statements', () => {
+  it('produces ranges and 1-based locations', () => {
+    const ast = parse('const a = 1\nlet b = a + 2\n')
+    expect(ast.type).toBe('Program')
+    expect(ast.body).toHaveLength(2)
+    const decl = ast.body[1]
+    expect(decl.type).toBe('VariableDeclaration')
+    expect(decl.kind).toBe('let')
+    expect(decl.range).toEqual([12, 25])
+    expect(decl.loc.start).toEqual({ line: 2, column: 1 })
+    expect(decl.declarations[0].init.type).toBe('BinaryExpression')
+  })
+
+  it('links every node to its parent', () => {
+    const ast = parse('function f(a) { return a.b }')
+    const member = find('function f(a) { return a.b }', 'MemberExpression')
+    expect(member.parent?.type).toBe('ReturnStatement')
+    expect(ast.body[0].parent).toBe(ast)
+  })
+
+  it('tells regex literals from division', () => {
+    const code = 'const r = a / b / c; if (/x\\//.test(s)) {}'
+    const literal = find(code, 'Literal')
+    expect(types(code).filter(t => t === 'BinaryExpression')).toHaveLength(2)
+    expect(literal.regex).toEqual({ pattern: 'x\\/', flags: '' })
+    const regex = parse(code).tokens.find(t => t.type === 'RegularExpression')
+    expect(regex?.value).toBe('/x\\//')
+  })
+
+  it('parses nested template literals', () => {
+    // eslint-disable-next-line no-template-curly-in-string
+    const tpl = find('const s = `a${b + `c${d}`}e`', 'TemplateLiteral')
+    expect(tpl.quasis.map((q: Node) => q.value.cooked)).toEqual(['a', 'e'])
+    expect(tpl.expressions[0].right.type).toBe('TemplateLiteral')
+  })
+
+  it('recognizes arrow functions, including typed and async forms', () => {
+    expect(types('const f = x => x')).toContain('ArrowFunctionExpression')
+    const arrow = find('const f = async (a: number, { b }: T = {}): Promise<void> => {}', 'ArrowFunctionExpression')
+    expect(arrow.async).toBe(true)
+    expect(arrow.params.map((p: Node) => p.type)).toEqual(['Identifier', 'AssignmentPattern'])
+    expect(arrow.returnType.type).toBe('TSTypeAnnotation')
+    expect(types('const v = (a + b) * c')).not.toContain('ArrowFunctionExpression')
+  })
+
+  it('keeps the conditional reading of `a ? (b) : c => d`', () => {
+    const cond = find('x = a ? (b) : c => d', 'ConditionalExpression')
+    expect(cond.consequent.type).toBe('Identifier')
+    expect(cond.alternate.type).toBe('ArrowFunctionExpression')
+  })
+
+  it('applies ASI', () => {
+    const ast = parse('let a = 1\nlet b = 2\nreturnValue()\n[1].map(f)')
+    expect(ast.body).toHaveLength(3)
+  })
+
+  it('handles optional chaining, destructuring assignment and classes', () => {
+    expect(types('a?.b.c()')).toContain('ChainExpression')
+    expect(find('({ a, b = 1 } = o)', 'ObjectPattern').properties).toHaveLength(2)
+    const cls = find('class A extends B { #x = 1; static { init() } get y() { return this.#x } }', 'ClassBody')
+    expect(cls.body.map((m: Node) => m.type)).toEqual(['PropertyDefinition', 'StaticBlock', 'MethodDefinition'])
+  })
+
+  it('collects comments and skips a hashbang', () => {
+    const ast = parse('#!/usr/bin/env bun\n// one\nconst a = 1 /* two */\n')
+    expect(ast.comments.map(c => c.value)).toEqual(['/usr/bin/env bun', ' one', ' two '])
+    expect(ast.body).toHaveLength(1)
+  })
+
+  it('reports syntax errors with a position', () => {
+    let error: unknown
+    try {
+      parse('const = 1')
+    }
+    catch (e) {
+      error = e
+    }
+    expect(isParseError(error)).toBe(true)
+    expect((error as any).line).toBe(1)
+    expect((error as any).column).toBe(7)
+  })
+})
+
+describe('parser: TypeScript', () => {
+  it('parses type-only syntax into TS nodes', () => {
+    const code = `
+      import type { A } from './a'
+      interface I<T> extends A { readonly x?: T; m(): void; [k: string]: unknown }
+      type M<T> = { readonly [K in keyof T]?: T[K] }
+      type C<T> = T extends infer U extends string ? U : never
+      enum E { A = 1, B }
+      declare global { interface Window { x: number } }
+      let v = x as const satisfies Y
+    `
+    const all = types(code)
+    for (const t of ['TSInterfaceDeclaration', 'TSIndexSignature', 'TSMappedType', 'TSConditionalType', 'TSInferType', 'TSEnumDeclaration', 'TSModuleDeclaration', 'TSAsExpression', 'TSSatisfiesExpression'])
+      expect(all).toContain(t)
+    expect(find(code, 'ImportDeclaration').importKind).toBe('type')
+    expect(find(code, 'TSModuleDeclaration').kind).toBe('global')
+  })
+
+  it('distinguishes generic calls from comparisons', () => {
+    expect(find('f<T>(x)', 'CallExpression').typeArguments.params).toHaveLength(1)
+    expect(types('a < b > c')).not.toContain('TSTypeParameterInstantiation')
+    expect(find('a >>= 1', 'AssignmentExpression').operator).toBe('>>=')
+    expect(find('x = a >> b', 'BinaryExpression').operator).toBe('>>')
+  })
+
+  it('parses parameter properties, overloads and abstract members', () => {
+    const code = `abstract class S {
+      constructor(private readonly a: string, public b?: number) {}
+      abstract run(): void
+      go(x: string): void
+      go(x: any) {}
+    }
+    function f(a: string): void
+    function f(a: any) {}`
+    const all = types(code)
+    expect(all).toContain('TSParameterProperty')
+    expect(all).toContain('TSAbstractMethodDefinition')
+    expect(all).toContain('TSEmptyBodyFunctionExpression')
+    expect(all).toContain('TSDeclareFunction')
+  })
+})
+
+describe('parser: JSX', () => {
+  it('parses elements, attributes, text and expression containers', () => {
+    const code = 'const el = <div className="x" {...p}>Don\'t {v}<br/><>{/* c */}</></div>'
+    const all = types(code, 'a.tsx')
+    for (const t of ['JSXElement', 'JSXAttribute', 'JSXSpreadAttribute', 'JSXText', 'JSXExpressionContainer', 'JSXFragment', 'JSXEmptyExpression'])
+      expect(all).toContain(t)
+    expect(find(code, 'JSXText', 'a.tsx').value).toBe('Don\'t ')
+  })
+
+  it('parses generic arrows in .tsx and type assertions in .ts', () => {
+    expect(types('const g = <T,>(x: T) => x', 'a.tsx')).toContain('ArrowFunctionExpression')
+    expect(types('const v = <any>x', 'a.ts')).toContain('TSTypeAssertion')
+  })
+})
+
+describe('parser: repository sources', () => {
+  function collect(dir: string, out: string[] = []): string[] {
+    for (const entry of readdirSync(dir)) {
+      const full = join(dir, entry)
+      if (statSync(full).isDirectory())
+        collect(full, out)
+      else if (/\.ts$/.test(entry))
+        out.push(full)
+    }
+    return out
+  }
+
+  it('parses every file under src/', () => {
+    const failures: string[] = []
+    for (const file of collect(join(import.meta.dir, '../../src'))) {
+      try {
+        parse(readFileSync(file, 'utf8'), { filePath: file })
+      }
+      catch (e: any) {
+        failures.push(`${file}: ${e.message}`)
+      }
+    }
+    expect(failures).toEqual([])
+  })
+})
+
+describe('RuleContext syntax tree', () => {
+  it('parses lazily and only once per source', () => {
+    const source = createSourceCode('a.ts', 'const a = 1')
+    const first = createRuleContext(source, defaultConfig)
+    const second = createRuleContext(source, defaultConfig, { x: 1 })
+    expect(first.ast).not.toBeNull()
+    expect(second.ast).toBe(first.ast!)
+    expect(first.tokens!.map(t => t.value)).toEqual(['const', 'a', '=', '1'])
+    expect(first.sourceMap!.indexToLoc(6)).toEqual({ line: 1, column: 7 })
+  })
+
+  it('shares one scope manager between contexts of a source', () => {
+    const source = createSourceCode('a.ts', 'let a = 1\nfunction f(b) { return a + b }')
+    const first = createRuleContext(source, defaultConfig)
+    const second = createRuleContext(source, defaultConfig, { x: 1 })
+    expect(second.scopeManager).toBe(first.scopeManager!)
+    expect(first.scopeManager!.variables.map(v => v.name)).toEqual(['a', 'f', 'b'])
+    expect(createRuleContext(createSourceCode('a.ts', 'const = '), defaultConfig).scopeManager).toBeNull()
+  })
+
+  it('is null for non-code files and unparsable code', () => {
+    expect(createRuleContext(createSourceCode('a.md', '# hi'), defaultConfig).ast).toBeNull()
+    const broken = createSourceCode('a.ts', 'const = ')
+    expect(broken.ast).toBeNull()
+    expect(broken.parseError?.line).toBe(1)
+    expect(broken.tokens.length).toBeGreaterThan(0)
+  })
+
+  it('is available to plugin rules run by the engine', async () => {
+    const seen: Array<string | null> = []
+    const plugin: PickierPlugin = {
+      name: 'tree',
+      rules: {
+        'no-var-decl': {
+          check(_content: string, ctx: RuleContext) {
+            seen.push(ctx.ast ? ctx.ast.type : null)
+            const issues: any[] = []
+            if (ctx.ast) {
+              walk(ctx.ast, {
+                enter(node) {
+                  if (node.type === 'VariableDeclaration' && node.kind === 'var')
+                    issues.push({ filePath: ctx.filePath, line: node.loc.start.line, column: node.loc.start.column, ruleId: 'tree/no-var-decl', message: 'Unexpected var', severity: 'error' })
+                },
+              })
+            }
+            return issues
+          },
+        },
+      },
+    }
+    const cfg: PickierConfig = { ...defaultConfig, plugins: [plugin], pluginRules: { 'tree/no-var-decl': 'error' } }
+    // `var` inside a template literal or a regex is not a declaration
+    // eslint-disable-next-line no-template-curly-in-string
+    const code = 'const t = `var x = ${1}`\nconst r = /var y/\n  var z = 1\n'
+    const issues = await lintText(code, cfg, 'sample.ts')
+    const own = issues.filter(i => i.ruleId === 'tree/no-var-decl')
+    expect(seen).toEqual(['Program'])
+    expect(own.map(i => [i.line, i.column])).toEqual([[3, 3]])
+  })
+})
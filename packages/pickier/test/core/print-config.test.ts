@@ -0,0 +1,93 @@
+import type { FileConfig } from '../../src/print-config'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { formatFileConfig, resolveFileConfig } from '../../src/print-config'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\x1B\[\d+m/g, '')
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-print-config-'))
+  mkdirSync(join(dir, '.git'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+// Resolve inside `dir`, as the CLI would from there
+async function resolveIn(dir: string, file: string, options: Parameters<typeof resolveFileConfig>[1] = {}): Promise<FileConfig> {
+  const cwd = process.cwd()
+  process.chdir(dir)
+  try {
+    return await resolveFileConfig(file, options)
+  }
+  finally {
+    process.chdir(cwd)
+  }
+}
+
+const origin = (resolved: FileConfig, key: string, value?: unknown): string | undefined =>
+  resolved.settings.find(s => s.key === key && (value === undefined || s.value === value))?.origin
+
+const config = JSON.stringify({
+  extends: ['./base.json'],
+  format: { quotes: 'double' },
+  pluginRules: { 'antfu/curly': 'error', 'prefer-const': 'warn' },
+  overrides: [{ files: ['src/**'], format: { semi: true } }],
+})
+
+describe('resolveFileConfig', () => {
+  it('gives each value the default, config file, override or alias it comes from', async () => {
+    const dir = project({ 'base.json': JSON.stringify({ format: { indent: 4 }, ignores: ['**/generated/**'] }), 'pickier.config.json': config })
+    const resolved = await resolveIn(dir, 'src/a.ts', { config: 'pickier.config.json' })
+    expect(resolved).toMatchObject({ file: join('src', 'a.ts'), configFile: 'pickier.config.json' })
+    expect(resolved.ignored).toBeUndefined()
+    expect(origin(resolved, 'format.indentStyle')).toBe('default')
+    expect(origin(resolved, 'format.indent')).toBe('base.json')
+    expect(origin(resolved, 'format.quotes')).toBe('pickier.config.json')
+    expect(origin(resolved, 'format.semi')).toBe('pickier.config.json, override for src/**')
+    expect(origin(resolved, 'rules.style/curly')).toBe('pickier.config.json, as \'antfu/curly\'')
+    expect(origin(resolved, 'rules.general/prefer-const')).toBe('pickier.config.json, as \'prefer-const\'')
+    expect(origin(resolved, 'ignores', '**/generated/**')).toBe('base.json')
+    expect(origin(resolved, 'ignores', '**/dist/**')).toBe('default')
+
+    // the override only applies under src/
+    expect(origin(await resolveIn(dir, 'b.ts', { config: 'pickier.config.json' }), 'format.semi')).toBe('default')
+  })
+
+  it('says which pattern, ignore file or setting leaves the file out', async () => {
+    const dir = project({ '.gitignore': 'secret.ts\n', 'pickier.config.json': JSON.stringify({ ignores: ['**/generated/**'] }) })
+    const options = { config: 'pickier.config.json' }
+    expect((await resolveIn(dir, 'generated/a.ts', options)).ignored).toEqual({ reason: 'ignores', pattern: '**/generated/**', origin: 'pickier.config.json' })
+    expect((await resolveIn(dir, 'dist/a.ts', options)).ignored).toEqual({ reason: 'ignores', pattern: '**/dist/**', origin: 'default' })
+    expect((await resolveIn(dir, 'secret.ts', options)).ignored).toEqual({ reason: 'ignore-file', pattern: 'secret.ts', ignoreFile: '.gitignore' })
+    expect((await resolveIn(dir, 'node_modules/x/a.ts', options)).ignored).toEqual({ reason: 'node_modules' })
+    expect((await resolveIn(dir, 'a.vue', options)).ignored).toEqual({ reason: 'extension', origin: 'default' })
+
+    const withExt = await resolveIn(dir, 'a.vue', { ...options, ext: '.vue' })
+    expect(withExt.ignored).toBeUndefined()
+    expect(withExt.settings.find(s => s.key === 'lint.extensions')).toEqual({ key: 'lint.extensions', value: ['vue'], origin: '--ext' })
+  })
+
+  it('uses the defaults without a config file', async () => {
+    const resolved = await resolveIn(project({}), 'a.ts')
+    expect(resolved.configFile).toBeUndefined()
+    expect(resolved.settings.every(s => s.origin === 'default')).toBe(true)
+  })
+})
+
+describe('formatFileConfig', () => {
+  it('prints the file\'s status, then the settings a section at a time', async () => {
+    const dir = project({ 'base.json': '{}', 'pickier.config.json': config })
+    const text = plain(formatFileConfig(await resolveIn(dir, 'dist/a.ts', { config: 'pickier.config.json' })))
+    const lines = text.split('\n')
+    expect(lines.slice(0, 3)).toEqual(['File: dist/a.ts', 'Config: pickier.config.json', 'Ignored: yes, by \'**/dist/**\' in ignores (default)'])
+    expect(lines).toContain('format')
+    expect(lines.find(l => l.trimStart().startsWith('quotes '))).toMatch(/^ {2}quotes +"double" +pickier\.config\.json$/)
+    expect(lines.find(l => l.trimStart().startsWith('**/dist/**'))).toMatch(/^ {2}\*\*\/dist\/\*\* +default$/)
+  })
+})
@@ -0,0 +1,59 @@
+import type { Reference, Scope } from '../../src/scope'
+import { describe, expect, it } from 'bun:test'
+import { parse } from '../../src/parser'
+import { analyzeScope } from '../../src/scope'
+
+function analyze(code: string, filePath = 'a.ts') {
+  return analyzeScope(parse(code, { filePath }))
+}
+
+function names(refs: Reference[]): string[] {
+  return refs.map(r => r.identifier.name)
+}
+
+function scopeTypes(scope: Scope): string[] {
+  return [scope.type, ...scope.childScopes.flatMap(scopeTypes)]
+}
+
+describe('scope analysis', () => {
+  it('builds nested scopes for modules, functions, blocks and loops', () => {
+    const manager = analyze('import a from \'a\'\nfunction f(x) { if (x) { let y = 1 } for (const i of a) {} }\n')
+    expect(scopeTypes(manager.globalScope)).toEqual(['global', 'module', 'function', 'block', 'for', 'block'])
+    const fn = manager.acquire(manager.globalScope.childScopes[0].block.body[1])!
+    expect([...fn.variables.keys()]).toEqual(['arguments', 'x'])
+  })
+
+  it('hoists var to the function scope and keeps let in its block', () => {
+    const manager = analyze('function f() { { var a = 1; let b = 2 } return a + b }')
+    const fn = manager.scopes.find(s => s.type === 'function')!
+    expect(fn.variables.has('a')).toBe(true)
+    expect(fn.variables.has('b')).toBe(false)
+    expect(names(manager.globalScope.through)).toEqual(['b'])
+  })
+
+  it('links references to variables with read/write flags', () => {
+    const manager = analyze('let n = 0\nn++\nn += 2\nconst m = n\n')
+    const n = manager.variables.find(v => v.name === 'n')!
+    expect(n.defs[0].kind).toBe('let')
+    expect(n.references.map(r => [r.isRead, r.isWrite, r.init])).toEqual([
+      [false, true, true],
+      [true, true, false],
+      [true, true, false],
+      [true, false, false],
+    ])
+  })
+
+  it('separates the value and type namespaces', () => {
+    const manager = analyze('interface I {}\nconst v: I = I\n')
+    expect(manager.globalScope.through.map(r => [r.identifier.name, r.isValueReference])).toEqual([['I', true]])
+    const iface = manager.variables.find(v => v.name === 'I')!
+    expect(iface.isTypeVariable && !iface.isValueVariable).toBe(true)
+    expect(iface.references).toHaveLength(1)
+  })
+
+  it('does not bind parameter names of signatures and overloads', () => {
+    const manager = analyze('declare function f(a: string): void\ntype F = (b: number) => void\ninterface I { m(c: C): void }\n')
+    expect(manager.variables.map(v => v.name)).toEqual(['f', 'F', 'I'])
+    expect(names(manager.globalScope.through)).toEqual(['C'])
+  })
+})
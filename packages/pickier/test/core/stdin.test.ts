@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { Readable } from 'node:stream'
+import { defaultConfig } from '../../src/config'
+import { fixText } from '../../src/linter'
+import { readStdin, runStdin } from '../../src/stdin'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-stdin-'))
+  mkdirSync(join(dir, '.git'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+// Run with stdout captured, from inside `dir`
+async function capture(dir: string, run: () => Promise<number>): Promise<{ code: number, out: string }> {
+  const cwd = process.cwd()
+  const write = process.stdout.write
+  const log = console.log
+  let out = ''
+  process.stdout.write = ((chunk: string) => {
+    out += String(chunk)
+    return true
+  }) as typeof process.stdout.write
+  console.log = (...args: unknown[]) => {
+    out += `${args.join(' ')}\n`
+  }
+  process.chdir(dir)
+  try {
+    return { code: await run(), out }
+  }
+  finally {
+    process.chdir(cwd)
+    process.stdout.write = write
+    console.log = log
+  }
+}
+
+describe('readStdin', () => {
+  it('reads the whole stream', async () => {
+    expect(await readStdin(Readable.from([Buffer.from('const a'), Buffer.from(' = 1\n')]))).toBe('const a = 1\n')
+  })
+})
+
+describe('fixText', () => {
+  it('returns the content --fix would write', async () => {
+    expect(await fixText('debugger\nexport const a = 1\n', defaultConfig, 'a.ts')).toBe('export const a = 1\n')
+  })
+})
+
+describe('runStdin', () => {
+  it('lints the text as the named file with the reporter', async () => {
+    const dir = project({})
+    const { code, out } = await capture(dir, () => runStdin('debugger\n', { stdin: true, stdinFilename: 'src/foo.ts', reporter: 'json', mode: 'lint' }))
+    expect(code).toBe(1)
+    expect(JSON.parse(out).issues).toMatchObject([{ filePath: join(dir, 'src/foo.ts'), line: 1, ruleId: 'no-debugger' }])
+  })
+
+  it('writes fixed and formatted text to stdout', async () => {
+    const dir = project({})
+    const fixed = await capture(dir, () => runStdin('debugger\nexport const a = 1\n', { stdin: true, stdinFilename: 'a.ts', mode: 'lint', fix: true }))
+    expect(fixed).toEqual({ code: 0, out: 'export const a = 1\n' })
+    const formatted = await capture(dir, () => runStdin('export const a = 1   \n\n\n', { stdin: true, stdinFilename: 'a.ts', mode: 'format' }))
+    expect(formatted).toEqual({ code: 0, out: 'export const a = 1\n' })
+    const checked = await capture(dir, () => runStdin('export const a = 1   \n', { stdin: true, stdinFilename: 'a.ts', mode: 'format', check: true }))
+    expect(checked).toEqual({ code: 1, out: '' })
+  })
+
+  it('skips a path the run would ignore, passing the text through', async () => {
+    const dir = project({ '.gitignore': 'dist/\n' })
+    const linted = await capture(dir, () => runStdin('debugger\n', { stdin: true, stdinFilename: 'dist/a.ts', reporter: 'json', mode: 'lint' }))
+    expect(JSON.parse(linted.out).issues).toEqual([])
+    const fixed = await capture(dir, () => runStdin('debugger\n', { stdin: true, stdinFilename: 'notes.txt', mode: 'lint', fix: true }))
+    expect(fixed).toEqual({ code: 0, out: 'debugger\n' })
+  })
+
+  it('is reachable from the CLI', () => {
+    const dir = project({})
+    const cli = resolve(__dirname, '../../bin/cli.ts')
+    const result = spawnSync(process.execPath, [cli, '--stdin', '--stdin-filename', 'src/foo.ts', '--fix'], {
+      cwd: dir,
+      input: 'debugger\nexport const a = 1\n',
+      encoding: 'utf8',
+      timeout: 30_000,
+    })
+    expect(result.stdout).toBe('export const a = 1\n')
+    expect(result.status).toBe(0)
+  })
+})
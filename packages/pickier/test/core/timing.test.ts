@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+import { formatTiming, startTiming, stopTiming, timePhase, timeRule } from '../../src/timing'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// A clock that only moves when a test says so
+let clock = 0
+const busy = (ms: number): void => {
+  clock += ms
+}
+
+describe('timing', () => {
+  it('adds up rule and phase time per rule and per file, slowest first', async () => {
+    clock = 0
+    const collector = startTiming(() => clock)
+    try {
+      timeRule('style/fast', 'check', '/p/a.ts', () => busy(1))
+      timeRule('style/slow', 'check', '/p/a.ts', () => busy(3))
+      timeRule('style/slow', 'fix', '/p/b.ts', () => busy(2))
+      timePhase('scan', '/p/b.ts', () => busy(5))
+      await timePhase('walk', undefined, async () => busy(0.5))
+      busy(0.25)
+    }
+    finally {
+      stopTiming()
+    }
+    timeRule('style/after', 'check', '/p/a.ts', () => busy(100))
+
+    const report = collector.report()
+    expect(report.rules).toEqual([
+      { ruleId: 'style/slow', check: 3, fix: 2, calls: 2 },
+      { ruleId: 'style/fast', check: 1, fix: 0, calls: 1 },
+    ])
+    expect(report.files).toEqual([{ filePath: '/p/b.ts', time: 7 }, { filePath: '/p/a.ts', time: 4 }])
+    expect(report.phases).toEqual({ walk: 0.5, scan: 5, format: 0 })
+    expect(report.total).toBe(111.75)
+  })
+
+  it('formats the slowest rules and files as tables', () => {
+    const text = formatTiming({
+      total: 120,
+      phases: { walk: 10, scan: 20, format: 0 },
+      rules: [{ ruleId: 'general/no-unused-vars', check: 60, fix: 15, calls: 3 }, { ruleId: 'style/quotes', check: 25, fix: 0, calls: 3 }],
+      files: [{ filePath: join(process.cwd(), 'src/a.ts'), time: 80 }],
+    })
+    expect(text.split('\n')).toEqual([
+      'Total: 120.0 ms (file walk 10.0 ms, built-in checks 20.0 ms, formatter 0.0 ms, plugin rules 100.0 ms)',
+      '',
+      'Rule                   | Check (ms) | Fix (ms) | Calls | Relative',
+      ':--------------------- | ---------: | -------: | ----: | -------:',
+      'general/no-unused-vars |       60.0 |     15.0 |     3 |    75.0%',
+      'style/quotes           |       25.0 |      0.0 |     3 |    25.0%',
+      '',
+      'File     | Time (ms)',
+      ':------- | --------:',
+      'src/a.ts |      80.0',
+    ])
+  })
+})
+
+describe('runLint with --timing', () => {
+  it('writes the JSON report to stderr, leaving stdout to the reporter', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-timing-'))
+    mkdirSync(join(dir, '.git'))
+    writeFileSync(join(dir, 'a.ts'), 'debugger\nexport const a = 1\n')
+    let err = ''
+    const logs: string[] = []
+    const write = process.stderr.write
+    const log = console.log
+    process.stderr.write = ((chunk: string) => {
+      err += String(chunk)
+      return true
+    }) as typeof process.stderr.write
+    console.log = (...args: unknown[]) => logs.push(args.join(' '))
+    try {
+      expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', timingJson: true })).toBe(1)
+    }
+    finally {
+      process.stderr.write = write
+      console.log = log
+    }
+    expect(JSON.parse(logs.join('\n')).errors).toBe(1)
+    const report = JSON.parse(err)
+    expect(report.files.map((f: any) => f.filePath)).toEqual([join(dir, 'a.ts')])
+    expect(report.rules.length).toBeGreaterThan(0)
+    expect(report.rules.every((r: any) => r.calls === 1)).toBe(true)
+    expect(report.phases.scan).toBeGreaterThan(0)
+  })
+})
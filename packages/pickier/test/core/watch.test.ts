@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createLintWatcher, runWatch } from '../../src/watch'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-watch-'))
+  mkdirSync(join(dir, '.git'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+// `project()` with its files committed, for `--diff-lines`
+function repo(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-watch-'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  for (const args of [['init', '-q'], ['add', '.'], ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'initial']])
+    execFileSync('git', args, { cwd: dir, stdio: 'ignore' })
+  return dir
+}
+
+// Run `fn` with console output swallowed
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log
+  console.log = () => {}
+  try {
+    return await fn()
+  }
+  finally {
+    console.log = log
+  }
+}
+
+describe('createLintWatcher', () => {
+  it('lints every file up front', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'b.ts': 'export const b = 1\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json' })
+    expect([...watcher.issues.keys()].sort()).toEqual([join(dir, 'a.ts'), join(dir, 'b.ts')])
+    expect(watcher.issues.get(join(dir, 'a.ts'))!.map(i => i.ruleId)).toEqual(['no-debugger'])
+    expect(watcher.roots).toEqual([dir])
+  })
+
+  it('lints only the files that changed, and reports the delta', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'b.ts': 'export const b = 1\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json' })
+    writeFileSync(join(dir, 'a.ts'), 'export const a = 1\n')
+    writeFileSync(join(dir, 'c.ts'), 'debugger\ndebugger\n')
+    const update = await watcher.update([join(dir, 'a.ts'), join(dir, 'b.ts'), join(dir, 'c.ts')])
+    expect(update.reloaded).toBe(false)
+    expect(update.linted).toEqual([join(dir, 'a.ts'), join(dir, 'c.ts')])
+    expect(update.changes).toEqual([
+      { filePath: join(dir, 'a.ts'), before: 1, after: 0 },
+      { filePath: join(dir, 'c.ts'), before: 0, after: 2 },
+    ])
+  })
+
+  it('drops deleted and newly ignored files', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'b.ts': 'debugger\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json' })
+    rmSync(join(dir, 'a.ts'))
+    writeFileSync(join(dir, 'notes.txt'), 'debugger\n')
+    const update = await watcher.update([join(dir, 'a.ts'), join(dir, 'notes.txt')])
+    expect(update.changes).toEqual([{ filePath: join(dir, 'a.ts'), before: 1, after: 0 }])
+    expect([...watcher.issues.keys()]).toEqual([join(dir, 'b.ts')])
+  })
+
+  it('reloads the config when it changes', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'pickier.json': JSON.stringify({ rules: { noDebugger: 'error' } }) })
+    const config = join(dir, 'pickier.json')
+    const watcher = await createLintWatcher([join(dir, 'a.ts')], { reporter: 'json', config })
+    expect(watcher.issues.get(join(dir, 'a.ts'))).toHaveLength(1)
+    writeFileSync(config, JSON.stringify({ rules: { noDebugger: 'off' } }))
+    const update = await watcher.update([config])
+    expect(update.reloaded).toBe(true)
+    expect(update.changes).toEqual([{ filePath: join(dir, 'a.ts'), before: 1, after: 0 }])
+  })
+
+  it('reloads the config when a config it extends changes', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'base.json': JSON.stringify({ rules: { noDebugger: 'error' } }), 'pickier.json': JSON.stringify({ extends: './base.json' }) })
+    const watcher = await createLintWatcher([join(dir, 'a.ts')], { reporter: 'json', config: join(dir, 'pickier.json') })
+    expect(watcher.configFiles).toEqual([join(dir, 'base.json'), join(dir, 'pickier.json')])
+    writeFileSync(join(dir, 'base.json'), JSON.stringify({ rules: { noDebugger: 'off' } }))
+    const update = await watcher.update([join(dir, 'base.json')])
+    expect(update.reloaded).toBe(true)
+    expect(update.changes).toEqual([{ filePath: join(dir, 'a.ts'), before: 1, after: 0 }])
+  })
+
+  it('relints everything when an ignore file changes', async () => {
+    const dir = project({ 'a.ts': 'debugger\n', 'b.ts': 'debugger\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json' })
+    writeFileSync(join(dir, '.gitignore'), 'b.ts\n')
+    const update = await watcher.update([join(dir, '.gitignore')])
+    expect(update.reloaded).toBe(true)
+    expect([...watcher.issues.keys()]).toEqual([join(dir, 'a.ts')])
+  })
+
+  it('only watches paths outside the ignored trees, plus the config and ignore files', async () => {
+    const dir = project({ 'a.ts': 'export const a = 1\n', '.gitignore': 'out/\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json' })
+    expect(watcher.watches(join(dir, 'a.ts'))).toBe(true)
+    expect(watcher.watches(join(dir, 'src', 'new.ts'))).toBe(true)
+    expect(watcher.watches(join(dir, '.gitignore'))).toBe(true)
+    expect(watcher.watches(join(dir, 'node_modules', 'pkg', 'index.js'))).toBe(false)
+    expect(watcher.watches(join(dir, 'dist', 'a.js'))).toBe(false)
+    expect(watcher.watches(join(dir, 'out', 'a.ts'))).toBe(false)
+  })
+
+  it('only counts and reports problems on changed lines with --diff-lines', async () => {
+    const dir = repo({ 'a.ts': 'debugger\nexport const a = 1\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json', diffLines: 'HEAD' })
+    expect(await quietly(() => watcher.report())).toBe(0)
+    writeFileSync(join(dir, 'a.ts'), 'debugger\nexport const a = 1\ndebugger\n')
+    expect((await watcher.update([join(dir, 'a.ts')])).changes).toEqual([{ filePath: join(dir, 'a.ts'), before: 0, after: 1 }])
+    expect(await quietly(() => watcher.report())).toBe(1)
+  })
+
+  it('holds the issues of a --baseline back from the report', async () => {
+    const dir = project({ 'a.ts': 'debugger\n' })
+    const baseline = join(dir, 'baseline.json')
+    const writer = await createLintWatcher([join(dir, 'a.ts')], { reporter: 'json', baselineWrite: baseline })
+    expect(await quietly(() => writer.report())).toBe(0)
+    expect(existsSync(baseline)).toBe(true)
+    const watcher = await createLintWatcher([join(dir, 'a.ts')], { reporter: 'json', baseline })
+    expect(await quietly(() => watcher.report())).toBe(0)
+  })
+
+  it('does not lint a file again for its own --fix write', async () => {
+    const dir = project({ 'a.ts': 'export const a = 1\n' })
+    const watcher = await createLintWatcher([dir], { reporter: 'json', fix: true })
+    writeFileSync(join(dir, 'a.ts'), 'debugger\nexport const a = 1\n')
+    expect((await watcher.update([join(dir, 'a.ts')])).linted).toEqual([join(dir, 'a.ts')])
+    expect(readFileSync(join(dir, 'a.ts'), 'utf8')).toBe('export const a = 1\n')
+    expect((await watcher.update([join(dir, 'a.ts')])).linted).toEqual([])
+  })
+})
+
+describe('runWatch', () => {
+  it('lints files as they change until stopped', async () => {
+    const dir = project({ 'a.ts': 'export const a = 1\n' })
+    const controller = new AbortController()
+    const writes: string[] = []
+    const write = process.stdout.write
+    process.stdout.write = ((chunk: string) => {
+      writes.push(String(chunk))
+      return true
+    }) as typeof process.stdout.write
+    try {
+      const done = runWatch([dir], { reporter: 'compact' }, controller.signal)
+      await Bun.sleep(200)
+      writeFileSync(join(dir, 'a.ts'), 'debugger\n')
+      for (let i = 0; i < 40 && !writes.some(w => w.includes('0 → 1 problem')); i++)
+        await Bun.sleep(50)
+      controller.abort()
+      expect(await done).toBe(1)
+    }
+    finally {
+      process.stdout.write = write
+    }
+    expect(writes.some(w => w.includes('a.ts: 0 → 1 problem'))).toBe(true)
+  })
+
+  it('fails for warnings over --max-warnings, as a plain run does', async () => {
+    const dir = project({ 'a.ts': 'console.log(1)\n' })
+    const controller = new AbortController()
+    const write = process.stdout.write
+    process.stdout.write = (() => true) as typeof process.stdout.write
+    try {
+      const done = runWatch([dir], { reporter: 'compact', maxWarnings: 0 }, controller.signal)
+      await Bun.sleep(100)
+      controller.abort()
+      expect(await done).toBe(1)
+    }
+    finally {
+      process.stdout.write = write
+    }
+  })
+})
@@ -1,9 +1,10 @@
-import { describe, expect, it } from 'bun:test'
+import { describe, expect, it, spyOn } from 'bun:test'
 import { mkdtempSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import type { PickierConfig } from '../../src/types'
 import { applyFixes, applyPluginFixes, formatStylish, formatVerbose } from '../../src/formatter'
+import { preferConstRule } from '../../src/rules/general/prefer-const'
 
 function tmp(): string {
   return mkdtempSync(join(tmpdir(), 'pickier-formatter-unit-'))
@@ -55,6 +56,40 @@ describe('applyPluginFixes', () => {
     const result = applyPluginFixes(file, src, cfg)
     expect(result).toBe(src)
   })
+
+  it('leaves range fixes under a disable directive alone', () => {
+    const file = join(tmp(), 'test.ts')
+    const src = '// eslint-disable-next-line prefer-const\nlet a = 1\nlet b = 2\nexport { a, b }\n'
+    expect(applyPluginFixes(file, src, baseCfg)).toBe('// eslint-disable-next-line prefer-const\nlet a = 1\nconst b = 2\nexport { a, b }\n')
+  })
+
+  it('hands range-fix rules their configured options', () => {
+    const seen: unknown[] = []
+    const check = preferConstRule.check
+    const spy = spyOn(preferConstRule, 'check').mockImplementation((content, ctx) => {
+      seen.push(ctx.options)
+      return check(content, ctx)
+    })
+    try {
+      applyPluginFixes(join(tmp(), 'test.ts'), 'let a = 1\nexport { a }\n', { ...baseCfg, pluginRules: { 'prefer-const': ['error', { probe: true }] } })
+    }
+    finally {
+      spy.mockRestore()
+    }
+    expect(seen).toContainEqual({ probe: true })
+  })
+
+  it('skips a rule that throws instead of failing the run', () => {
+    const spy = spyOn(preferConstRule, 'check').mockImplementation(() => {
+      throw new Error('boom')
+    })
+    try {
+      expect(applyPluginFixes(join(tmp(), 'test.ts'), 'let a = 1\nexport { a }\n', baseCfg)).toBe('let a = 1\nexport { a }\n')
+    }
+    finally {
+      spy.mockRestore()
+    }
+  })
 })
 
 // ─── applyFixes ──────────────────────────────────────────────────────────────
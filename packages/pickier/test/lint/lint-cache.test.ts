@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'bun:test'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+
+// sources live in `src/` so the config file itself is not linted
+function tmp(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-cache-'))
+  mkdirSync(join(dir, 'src'))
+  return dir
+}
+
+// A plugin that records every file it checks, so a test can tell a cache hit
+// (nothing recorded) from a real lint run
+function writeConfig(dir: string, extra = '', name = 'pickier.config.ts'): string {
+  const cfgPath = join(dir, name)
+  writeFileSync(cfgPath, `
+import { appendFileSync } from 'node:fs'
+
+export default {
+  verbose: false,
+  ignores: [],
+  lint: { extensions: ['ts'], reporter: 'json', cache: false, maxWarnings: -1 },
+  format: { extensions: ['ts'], trimTrailingWhitespace: true, maxConsecutiveBlankLines: 1, finalNewline: 'one', indent: 2, quotes: 'single', semi: false },
+  rules: { noDebugger: 'error', noConsole: 'off' },
+  plugins: [{ name: 'spy', rules: { 'record': { check(content, ctx) {
+    appendFileSync(${JSON.stringify(join(dir, 'checked.log'))}, ctx.filePath + '\\n')
+    return content.includes('TODO') ? [{ filePath: ctx.filePath, line: 1, column: 1, ruleId: 'spy/record', message: 'TODO left in', severity: 'error' }] : []
+  }}}}],
+  pluginRules: { 'spy/record': 'error', 'pickier/no-unused-vars': 'off' },${extra}
+}
+`, 'utf8')
+  return cfgPath
+}
+
+function checked(dir: string): string[] {
+  const log = join(dir, 'checked.log')
+  if (!existsSync(log))
+    return []
+  const lines = readFileSync(log, 'utf8').split('\n').filter(Boolean)
+  writeFileSync(log, '')
+  return lines
+}
+
+describe('lint cache', () => {
+  it('reuses the issues of unchanged files and re-lints changed ones', async () => {
+    const dir = tmp()
+    const src = join(dir, 'src')
+    writeFileSync(join(src, 'a.ts'), 'export const TODO = 1\n')
+    writeFileSync(join(src, 'b.ts'), 'export const b = 2\n')
+    const config = writeConfig(dir)
+    const opts = { config, reporter: 'json' as const, cache: true, cacheLocation: join(dir, '.pickiercache') }
+
+    expect(await runLint([src], opts)).toBe(1)
+    expect(checked(dir)).toHaveLength(2)
+    expect(existsSync(join(dir, '.pickiercache'))).toBe(true)
+
+    // nothing changed: issues (and the exit code) come from the cache
+    expect(await runLint([src], opts)).toBe(1)
+    expect(checked(dir)).toEqual([])
+
+    writeFileSync(join(src, 'a.ts'), 'export const a = 1\n')
+    expect(await runLint([src], opts)).toBe(0)
+    expect(checked(dir)).toEqual([join(src, 'a.ts')])
+  })
+
+  it('starts over when the config changes', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'src', 'a.ts'), 'export const a = 1\n')
+    const opts = { reporter: 'json' as const, cache: true, cacheLocation: join(dir, '.pickiercache') }
+
+    await runLint([join(dir, 'src')], { ...opts, config: writeConfig(dir) })
+    expect(checked(dir)).toHaveLength(1)
+
+    await runLint([join(dir, 'src')], { ...opts, config: writeConfig(dir, `\n  rules: { noDebugger: 'off', noConsole: 'off' },`, 'pickier.strict.config.ts') })
+    expect(checked(dir)).toHaveLength(1)
+  })
+
+  it('metadata strategy trusts size and mtime, and falls back to the hash when only mtime moved', async () => {
+    const dir = tmp()
+    const file = join(dir, 'src', 'a.ts')
+    writeFileSync(file, 'export const a = 1\n')
+    const opts = { config: writeConfig(dir), reporter: 'json' as const, cache: true, cacheLocation: `${dir}/`, cacheStrategy: 'metadata' as const }
+
+    await runLint([join(dir, 'src')], opts)
+    expect(checked(dir)).toHaveLength(1)
+    // a directory location keeps `.pickiercache` inside it
+    expect(existsSync(join(dir, '.pickiercache'))).toBe(true)
+
+    const later = new Date(Date.now() + 60_000)
+    utimesSync(file, later, later)
+    await runLint([join(dir, 'src')], opts)
+    expect(checked(dir)).toEqual([])
+
+    // same size, new content, new mtime
+    writeFileSync(file, 'export const b = 1\n')
+    await runLint([join(dir, 'src')], opts)
+    expect(checked(dir)).toEqual([file])
+  })
+
+  it('still fixes files with cached issues and does not cache the rewrite', async () => {
+    const dir = tmp()
+    const file = join(dir, 'src', 'a.ts')
+    writeFileSync(file, 'debugger\nexport const a = 1\n')
+    const opts = { config: writeConfig(dir), reporter: 'json' as const, cache: true, cacheLocation: join(dir, '.pickiercache') }
+
+    expect(await runLint([join(dir, 'src')], opts)).toBe(1)
+    checked(dir)
+    expect(await runLint([join(dir, 'src')], { ...opts, fix: true })).toBe(0)
+    expect(readFileSync(file, 'utf8')).toBe('export const a = 1\n')
+
+    expect(await runLint([join(dir, 'src')], opts)).toBe(0)
+    expect(checked(dir)).toHaveLength(2)
+  })
+
+  it('rejects an unknown strategy', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'src', 'a.ts'), 'export const a = 1\n')
+    const code = await runLint([join(dir, 'src')], { config: writeConfig(dir), reporter: 'json', cache: true, cacheLocation: join(dir, '.pickiercache'), cacheStrategy: 'mtime' as any })
+    expect(code).toBe(1)
+    expect(existsSync(join(dir, '.pickiercache'))).toBe(false)
+  })
+})
@@ -0,0 +1,123 @@
+import type { LintIssue } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+import { formatCheckstyle } from '../../src/reporters/checkstyle'
+import { formatGitlab } from '../../src/reporters/gitlab'
+import { formatJunit } from '../../src/reporters/junit'
+import { issueFingerprints } from '../../src/reporters/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function repo(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-ci-reporters-'))
+  mkdirSync(join(dir, '.git'))
+  mkdirSync(join(dir, 'src'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+function issue(filePath: string, line: number, extra: Partial<LintIssue> = {}): LintIssue {
+  return { filePath, line, column: 1, ruleId: 'no-debugger', message: 'Unexpected debugger statement', severity: 'error', ...extra }
+}
+
+describe('issueFingerprints', () => {
+  it('survives line shifts and tells identical lines apart', () => {
+    const dir = repo({ 'src/a.ts': 'debugger\ndebugger\n' })
+    const file = join(dir, 'src/a.ts')
+    const first = [issue(file, 1), issue(file, 2)]
+    const before = issueFingerprints(first, dir)
+    expect(new Set(before.values()).size).toBe(2)
+
+    writeFileSync(file, 'export const a = 1\n\ndebugger\ndebugger\n')
+    const shifted = [issue(file, 4), issue(file, 3)]
+    const after = issueFingerprints(shifted, dir)
+    expect(after.get(shifted[1])).toBe(before.get(first[0])!)
+    expect(after.get(shifted[0])).toBe(before.get(first[1])!)
+  })
+})
+
+describe('formatJunit', () => {
+  it('has a suite per file and a failing case per issue', () => {
+    const dir = repo({ 'src/a.ts': 'debugger\n', 'src/b.ts': 'x\n' })
+    const xml = formatJunit([
+      issue(join(dir, 'src/b.ts'), 1, { ruleId: 'style/quotes', message: 'Use "single" <quotes>', severity: 'warning' }),
+      issue(join(dir, 'src/a.ts'), 1),
+    ], dir)
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="pickier" tests="2" failures="2" errors="0">')).toBe(true)
+    expect(xml.indexOf('<testsuite name="src/a.ts"')).toBeLessThan(xml.indexOf('<testsuite name="src/b.ts"'))
+    expect(xml).toMatch(/<testcase name="no-debugger [0-9a-f]{32}" classname="src\/a.ts" file="src\/a.ts" line="1">/)
+    expect(xml).toContain('<failure message="Use &quot;single&quot; &lt;quotes&gt;" type="warning">')
+    expect(formatJunit([], dir)).toBe('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="pickier" tests="0" failures="0" errors="0">\n</testsuites>')
+  })
+})
+
+describe('formatCheckstyle', () => {
+  it('groups errors by file with the rule as source', () => {
+    const dir = repo({})
+    const xml = formatCheckstyle([issue(join(dir, 'src/a.ts'), 2, { column: 3 }), issue(join(dir, 'src/a.ts'), 1)], dir)
+    expect(xml).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<checkstyle version="4.3">',
+      '  <file name="src/a.ts">',
+      '    <error line="1" column="1" severity="error" message="Unexpected debugger statement" source="pickier.no-debugger" />',
+      '    <error line="2" column="3" severity="error" message="Unexpected debugger statement" source="pickier.no-debugger" />',
+      '  </file>',
+      '</checkstyle>',
+    ].join('\n'))
+  })
+})
+
+describe('formatGitlab', () => {
+  it('lists code quality issues with fingerprints', () => {
+    const dir = repo({ 'src/a.ts': 'debugger\n' })
+    const report = JSON.parse(formatGitlab([issue(join(dir, 'src/a.ts'), 1), issue(join(dir, 'src/a.ts'), 1, { ruleId: 'style/x', severity: 'warning', message: 'X' })], dir))
+    expect(report).toHaveLength(2)
+    expect(report[0]).toMatchObject({
+      description: 'Unexpected debugger statement (no-debugger)',
+      check_name: 'no-debugger',
+      severity: 'major',
+      location: { path: 'src/a.ts', lines: { begin: 1 } },
+    })
+    expect(report[0].fingerprint).toMatch(/^[0-9a-f]{32}$/)
+    expect(report[1].severity).toBe('minor')
+  })
+})
+
+describe('runLint with --output-file', () => {
+  it('writes the report to the file and shows stylish on the console', async () => {
+    const dir = repo({ 'src/a.ts': 'debugger\n' })
+    const logs: string[] = []
+    const originalLog = console.log
+    const cwd = process.cwd()
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    process.chdir(dir)
+    try {
+      expect(await runLint([join(dir, 'src')], { reporter: 'gitlab', outputFile: 'reports/gl.json' })).toBe(1)
+    }
+    finally {
+      process.chdir(cwd)
+      console.log = originalLog
+    }
+    const report = JSON.parse(readFileSync(join(dir, 'reports/gl.json'), 'utf8'))
+    expect(report.map((i: any) => i.check_name)).toEqual(['no-debugger'])
+    expect(logs.join('\n')).toContain('1 problem (1 error, 0 warnings)')
+  })
+
+  it('prints the chosen report without one', async () => {
+    const dir = repo({ 'src/a.ts': 'export const a = 1\n' })
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      expect(await runLint([join(dir, 'src')], { reporter: 'checkstyle' })).toBe(0)
+    }
+    finally {
+      console.log = originalLog
+    }
+    expect(logs).toEqual(['<?xml version="1.0" encoding="UTF-8"?>\n<checkstyle version="4.3">\n</checkstyle>'])
+  })
+})
@@ -0,0 +1,109 @@
+import type { LintIssue, PickierConfig } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { lintText, runLint } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// Flags every line containing TODO, whatever the file type
+const todoPlugin = {
+  name: 'test',
+  rules: {
+    'no-todo': {
+      meta: { docs: 'no TODO' },
+      check: (text: string): LintIssue[] => text.split('\n').flatMap((line, i) => line.includes('TODO')
+        ? [{ filePath: '', line: i + 1, column: 1, ruleId: 'test/no-todo', message: 'TODO', severity: 'error' as const }]
+        : []),
+    },
+  },
+}
+
+const cfg: PickierConfig = {
+  ...defaultConfig,
+  plugins: [todoPlugin],
+  pluginRules: { 'test/no-todo': 'error' },
+}
+
+const markdownCfg: PickierConfig = { ...defaultConfig, pluginRules: { 'markdown/line-length': 'error' } }
+
+async function lines(src: string, file: string, config: PickierConfig = cfg): Promise<string[]> {
+  const issues = await lintText(src, config, file)
+  return issues.map(i => `${i.line} ${i.ruleId}`)
+}
+
+const long = 'word '.repeat(30).trim()
+
+describe('disable directives by file type', () => {
+  it('takes # comments in shell, YAML and TOML', async () => {
+    for (const file of ['a.sh', 'a.bash', 'a.yaml', 'a.yml', 'a.toml']) {
+      const src = '# pickier-disable-next-line test/no-todo\nkey: TODO\nother: TODO\n'
+      expect(await lines(src, file)).toEqual(['3 test/no-todo'])
+    }
+  })
+
+  it('suppresses shell rule findings', async () => {
+    const src = '#!/bin/bash\n# pickier-disable-next-line shell/quote-variables -- word splitting is intended\necho $flags\necho $name\n'
+    expect((await lines(src, 'run.sh', defaultConfig)).filter(l => l.endsWith('shell/quote-variables'))).toEqual(['4 shell/quote-variables'])
+  })
+
+  it('takes HTML comments in Markdown, with ranges', async () => {
+    const src = [
+      '# Title',
+      '',
+      '<!-- pickier-disable markdown/line-length -->',
+      long,
+      '<!-- pickier-enable markdown/line-length -->',
+      '',
+      long,
+      '',
+    ].join('\n')
+    expect(await lines(src, 'README.md', markdownCfg)).toEqual(['7 markdown/line-length'])
+  })
+
+  it('ignores // directives in Markdown', async () => {
+    const src = `# Title\n\n// pickier-disable-next-line markdown/line-length\n${long}\n`
+    expect(await lines(src, 'README.md', markdownCfg)).toEqual(['4 markdown/line-length'])
+  })
+
+  it('disables a whole file from its first line', async () => {
+    expect(await lines('<!-- pickier-disable -->\n# TODO\n\nTODO\n', 'a.md')).toEqual([])
+    expect(await lines('# pickier-disable test/no-todo\nTODO: 1\n', 'a.yaml')).toEqual([])
+  })
+
+  it('takes /* */ comments in CSS', async () => {
+    const src = 'a {\n  /* pickier-disable-next-line test/no-todo */\n  color: red; /* TODO */\n  margin: 0; /* TODO */\n}\n'
+    expect(await lines(src, 'a.css')).toEqual(['4 test/no-todo'])
+  })
+
+  it('takes HTML, // and /* */ comments in HTML and STX', async () => {
+    const src = [
+      '<!-- pickier-disable-next-line test/no-todo -->',
+      '<p>TODO</p>',
+      '<script>',
+      '  // pickier-disable-next-line test/no-todo',
+      '  const a = "TODO"',
+      '</script>',
+      '<p>TODO</p>',
+      '',
+    ].join('\n')
+    expect(await lines(src, 'a.html')).toEqual(['7 test/no-todo'])
+    expect(await lines(src, 'a.stx')).toEqual(['7 test/no-todo'])
+  })
+})
+
+describe('unused directives in other languages', () => {
+  it('are reported and removed with --fix', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-disable-other-languages-'))
+    const md = join(dir, 'a.md')
+    const yaml = join(dir, 'a.yaml')
+    writeFileSync(md, '# Title\n\n<!-- pickier-disable-next-line markdown/line-length -->\nShort line.\n')
+    writeFileSync(yaml, '# pickier-disable-next-line yml/no-empty-document\nkey: value\n')
+    expect(await runLint([dir], { reporter: 'json', reportUnusedDisableDirectives: true })).toBe(1)
+    expect(await runLint([dir], { reporter: 'json', fix: true, reportUnusedDisableDirectives: true })).toBe(0)
+    expect(readFileSync(md, 'utf8')).toBe('# Title\n\nShort line.\n')
+    expect(readFileSync(yaml, 'utf8')).toBe('key: value\n')
+  })
+})
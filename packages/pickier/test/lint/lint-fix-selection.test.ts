@@ -0,0 +1,73 @@
+import type { PickierConfig, PickierPlugin } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { fixText, runLint } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+// `semi/require` appends a semicolon to `x = 1` lines with range fixes;
+// `rename/no-foo` rewrites `foo` to `bar` with a fixer marked unsafe
+const plugins: PickierPlugin[] = [
+  { name: 'semi', rules: {
+    require: {
+      meta: { fixable: true },
+      check(content, ctx) {
+        const issues: ReturnType<NonNullable<PickierPlugin['rules'][string]>['check']> = []
+        let offset = 0
+        content.split('\n').forEach((line, i) => {
+          if (/^\w+ = \d+$/.test(line))
+            issues.push({ filePath: ctx.filePath, line: i + 1, column: line.length + 1, ruleId: 'semi/require', message: 'Missing semicolon', severity: 'error', fix: { range: [offset + line.length, offset + line.length], text: ';' } })
+          offset += line.length + 1
+        })
+        return issues
+      },
+    },
+  } },
+  { name: 'rename', rules: {
+    'no-foo': {
+      meta: { fixSafety: 'unsafe' },
+      check: (content, ctx) => content.includes('foo') ? [{ filePath: ctx.filePath, line: 1, column: 1, ruleId: 'rename/no-foo', message: 'Use bar', severity: 'error' }] : [],
+      fix: content => content.replace(/\bfoo\b/g, 'bar'),
+    },
+  } },
+]
+
+const cfg: PickierConfig = { ...defaultConfig, plugins, pluginRules: { 'semi/require': 'error', 'rename/no-foo': 'error' } }
+
+describe('fixText with a fix selection', () => {
+  it('leaves unsafe fixes out unless asked for them', async () => {
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts')).toBe('foo = 1;\n')
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts', { fixUnsafe: true })).toBe('bar = 1;\n')
+  })
+
+  it('still renames an unused parameter without --fix-unsafe', async () => {
+    expect(await fixText('const f = (a: number) => 1\nexport { f }\n', defaultConfig, 'a.ts')).toBe('const f = (_a: number) => 1\nexport { f }\n')
+  })
+
+  it('only applies the fixes of the chosen rules', async () => {
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts', { fixRule: 'require' })).toBe('foo = 1;\ndebugger\n')
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts', { fixRule: 'no-debugger,semi/require' })).toBe('foo = 1;\n')
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts', { fixRule: ['no-debugger', 'rename/no-foo'] })).toBe('foo = 1\n')
+  })
+
+  it('only applies the fixes of rules from the chosen plugins', async () => {
+    expect(await fixText('foo = 1\ndebugger\n', cfg, 'a.ts', { fixType: 'rename', fixUnsafe: true })).toBe('bar = 1\ndebugger\n')
+    expect(await fixText('foo = 1\n   x = 2\n', cfg, 'a.ts', { fixType: 'style' })).toBe('foo = 1\n  x = 2\n')
+  })
+})
+
+describe('runLint with --fix-rule and --fix-type', () => {
+  it('picks a rule by the id of any plugin it runs for', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-fix-selection-'))
+    mkdirSync(join(dir, '.git'))
+    const file = join(dir, 'a.ts')
+    for (const options of [{ fixRule: 'pickier/prefer-const' }, { fixRule: 'prefer-const' }, { fixType: 'general' }]) {
+      writeFileSync(file, 'let k = 2\nexport const v = k\ndebugger\n')
+      await runLint([dir], { fix: true, reporter: 'json', ...options })
+      expect(readFileSync(file, 'utf8')).toBe('const k = 2\nexport const v = k\ndebugger\n')
+    }
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+import { BUILTIN_REPORTERS, loadReporter, parseReporterSpec } from '../../src/reporters'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function repo(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-reporters-'))
+  mkdirSync(join(dir, '.git'))
+  mkdirSync(join(dir, 'src'))
+  for (const [path, content] of Object.entries(files))
+    writeFileSync(join(dir, path), content)
+  return dir
+}
+
+// Run inside `dir` with the console captured
+async function capture(dir: string, run: () => Promise<number>): Promise<{ code: number, logs: string[] }> {
+  const logs: string[] = []
+  const originalLog = console.log
+  const cwd = process.cwd()
+  console.log = (...args: any[]) => logs.push(args.join(' '))
+  process.chdir(dir)
+  try {
+    return { code: await run(), logs }
+  }
+  finally {
+    process.chdir(cwd)
+    console.log = originalLog
+  }
+}
+
+const RECORDING_REPORTER = `
+export default function createReporter() {
+  return {
+    onStart(context) {
+      context.log('start')
+    },
+    onFile(issues, filePath, context) {
+      context.log(\`file \${filePath.split('/').pop()} \${issues.length}\`)
+    },
+    onEnd(summary, context) {
+      context.log(\`end \${summary.fileCount} files \${summary.errors} errors \${summary.fixableErrors} fixable\`)
+    },
+  }
+}
+`
+
+describe('parseReporterSpec', () => {
+  it('splits off the outfile but not a drive letter', () => {
+    expect(parseReporterSpec('json')).toEqual({ name: 'json' })
+    expect(parseReporterSpec('json:out/report.json')).toEqual({ name: 'json', outputFile: 'out/report.json' })
+    expect(parseReporterSpec('./reporter.ts:C:\\report.txt')).toEqual({ name: './reporter.ts', outputFile: 'C:\\report.txt' })
+    expect(parseReporterSpec('C:\\reporter.ts')).toEqual({ name: 'C:\\reporter.ts' })
+  })
+})
+
+describe('loadReporter', () => {
+  it('finds built-ins by name and rejects unknown names', async () => {
+    expect(await loadReporter('compact')).toBe(BUILTIN_REPORTERS.compact)
+    await expect(loadReporter('jsno')).rejects.toThrow('Unknown reporter \'jsno\'')
+  })
+
+  it('rejects a module that exports no hooks', async () => {
+    const dir = repo({ 'reporter.ts': 'export default { name: \'x\' }\n' })
+    await expect(loadReporter(join(dir, 'reporter.ts'))).rejects.toThrow('is not a pickier reporter')
+  })
+})
+
+describe('runLint with custom and multiple reporters', () => {
+  it('calls a reporter module once per file in order, then with the summary', async () => {
+    const dir = repo({ 'reporter.ts': RECORDING_REPORTER, 'src/a.ts': 'debugger\n', 'src/b.ts': 'export const b = 1\n', 'src/c.ts': 'debugger\ndebugger\n' })
+    const { code, logs } = await capture(dir, () => runLint([join(dir, 'src')], { reporter: './reporter.ts' }))
+    expect(code).toBe(1)
+    expect(logs[0]).toBe('start')
+    expect(logs.slice(1, 4).sort()).toEqual(['file a.ts 1', 'file b.ts 0', 'file c.ts 2'])
+    expect(logs[4]).toBe('end 3 files 3 errors 3 fixable')
+    expect(logs).toHaveLength(5)
+  })
+
+  it('prints one reporter and writes the others to their files', async () => {
+    const dir = repo({ 'reporter.ts': RECORDING_REPORTER, 'src/a.ts': 'debugger\n' })
+    const { code, logs } = await capture(dir, () => runLint([join(dir, 'src')], { reporter: ['compact', 'json:out/report.json', './reporter.ts:out/custom.txt'] }))
+    expect(code).toBe(1)
+    expect(logs[0]).toBe('src/a.ts:1:1 error no-debugger Unexpected debugger statement')
+    expect(JSON.parse(readFileSync(join(dir, 'out/report.json'), 'utf8'))).toMatchObject({ errors: 1, issues: [{ ruleId: 'no-debugger' }] })
+    expect(readFileSync(join(dir, 'out/custom.txt'), 'utf8')).toBe('start\nfile a.ts 1\nend 1 files 1 errors 1 fixable\n')
+  })
+
+  it('shows stylish on the console when every reporter writes to a file', async () => {
+    const dir = repo({ 'src/a.ts': 'debugger\n' })
+    const { logs } = await capture(dir, () => runLint([join(dir, 'src')], { reporter: 'checkstyle:checkstyle.xml' }))
+    expect(logs.join('\n')).toContain('1 problem (1 error, 0 warnings)')
+    expect(readFileSync(join(dir, 'checkstyle.xml'), 'utf8')).toContain('source="pickier.no-debugger"')
+  })
+
+  it('fails the run for a reporter that does not exist', async () => {
+    const dir = repo({ 'src/a.ts': 'export const a = 1\n' })
+    expect((await capture(dir, () => runLint([join(dir, 'src')], { reporter: './missing.ts' }))).code).toBe(1)
+  })
+})
@@ -0,0 +1,98 @@
+import type { LintIssue } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+import { formatSarif, SARIF_SCHEMA } from '../../src/reporters/sarif'
+import { findRepoRoot } from '../../src/reporters/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function repo(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'pickier-lint-sarif-'))
+  mkdirSync(join(dir, '.git'))
+  mkdirSync(join(dir, 'src'))
+  return dir
+}
+
+describe('formatSarif', () => {
+  const root = '/work/repo'
+  const issues: LintIssue[] = [
+    { filePath: '/work/repo/src/a.ts', line: 3, column: 5, ruleId: 'ts/no-explicit-any', message: 'Unexpected any', severity: 'error' },
+    { filePath: '/work/repo/src/b.ts', line: 1, column: 1, ruleId: 'style/quotes', message: 'Use single quotes', severity: 'warning', help: 'Change "a" to \'a\'', fix: { range: [10, 13], text: '\'a\'' } },
+    { filePath: '/work/repo/package-lock.json', line: 7, column: 1, ruleId: 'lockfile/validate-https', message: 'Uses http', severity: 'error' },
+    { filePath: '/elsewhere/c.ts', line: 2, column: 1, ruleId: 'ts/no-explicit-any', message: 'Unexpected any', severity: 'error' },
+  ]
+  const lookup = (ruleId: string) => ruleId === 'ts/no-explicit-any'
+    ? { meta: { docs: 'Disallow the any type', recommended: true }, fixable: false }
+    : { fixable: ruleId === 'style/quotes' }
+
+  it('describes each rule once from its meta', () => {
+    const log = JSON.parse(formatSarif(issues, lookup, root))
+    expect(log.$schema).toBe(SARIF_SCHEMA)
+    expect(log.version).toBe('2.1.0')
+    const { driver } = log.runs[0].tool
+    expect(driver.name).toBe('pickier')
+    expect(driver.rules.map((r: any) => r.id)).toEqual(['ts/no-explicit-any', 'style/quotes', 'lockfile/validate-https'])
+    expect(driver.rules[0]).toMatchObject({ shortDescription: { text: 'Disallow the any type' }, properties: { recommended: true, fixable: false, tags: ['ts'] } })
+    expect(driver.rules[1].properties).toMatchObject({ fixable: true })
+    // no docs to describe it with, and one issue's help says nothing of the rule
+    expect(driver.rules[1].shortDescription).toBeUndefined()
+    expect(driver.rules[1].help).toBeUndefined()
+    expect(driver.rules[2].properties.tags).toEqual(['lockfile', 'security'])
+  })
+
+  it('maps issues to results relative to the repository root', () => {
+    const { results, originalUriBaseIds } = JSON.parse(formatSarif(issues, lookup, root)).runs[0]
+    expect(originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///work/repo/')
+    expect(results[0]).toMatchObject({
+      ruleId: 'ts/no-explicit-any',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Unexpected any' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/a.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 3, startColumn: 5 } } }],
+    })
+    expect(results[1].level).toBe('warning')
+    expect(results[3].ruleIndex).toBe(0)
+    expect(results[3].locations[0].physicalLocation.artifactLocation).toEqual({ uri: 'file:///elsewhere/c.ts' })
+  })
+
+  it('includes the edit of an issue that carries one as a fix', () => {
+    const { results } = JSON.parse(formatSarif(issues, lookup, root)).runs[0]
+    expect(results[0].fixes).toBeUndefined()
+    expect(results[1].fixes[0].artifactChanges[0]).toEqual({
+      artifactLocation: { uri: 'src/b.ts', uriBaseId: '%SRCROOT%' },
+      replacements: [{ deletedRegion: { charOffset: 10, charLength: 3 }, insertedContent: { text: '\'a\'' } }],
+    })
+  })
+})
+
+describe('runLint with the sarif reporter', () => {
+  it('prints only the SARIF log', async () => {
+    const dir = repo()
+    writeFileSync(join(dir, 'src/a.ts'), 'debugger\n')
+    const logs: string[] = []
+    const originalLog = console.log
+    const cwd = process.cwd()
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    process.chdir(join(dir, 'src'))
+    try {
+      expect(await runLint([join(dir, 'src')], { reporter: 'sarif' })).toBe(1)
+    }
+    finally {
+      process.chdir(cwd)
+      console.log = originalLog
+    }
+    expect(logs).toHaveLength(1)
+    const { results, tool } = JSON.parse(logs[0]).runs[0]
+    expect(results).toMatchObject([{ ruleId: 'no-debugger', level: 'error', locations: [{ physicalLocation: { artifactLocation: { uri: 'src/a.ts' } } }] }])
+    expect(tool.driver.rules[0].properties.fixable).toBe(true)
+    expect(tool.driver.rules[0].shortDescription.text).toBe('Disallow the use of debugger')
+  })
+
+  it('finds the repository root above the working directory', () => {
+    const dir = repo()
+    expect(findRepoRoot(join(dir, 'src'))).toBe(dir)
+  })
+})
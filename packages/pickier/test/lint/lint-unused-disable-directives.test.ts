@@ -0,0 +1,147 @@
+import type { PickierConfig } from '../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { lintText, runLint } from '../../src/linter'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+const cfg: PickierConfig = {
+  ...defaultConfig,
+  rules: { ...defaultConfig.rules, noDebugger: 'error', noConsole: 'error' },
+  lint: { ...defaultConfig.lint, reportUnusedDisableDirectives: 'warn' },
+}
+
+async function unused(src: string): Promise<string[]> {
+  const issues = await lintText(src, cfg, 'a.ts')
+  return issues.filter(i => i.ruleId === 'unused-disable-directive').map(i => `${i.line}: ${i.message}`)
+}
+
+describe('unused disable directives', () => {
+  it('are not reported unless enabled', async () => {
+    const issues = await lintText('// eslint-disable-next-line no-console\nexport const a = 1\n', defaultConfig, 'a.ts')
+    expect(issues).toEqual([])
+  })
+
+  it('reports a disable-next-line that suppresses nothing', async () => {
+    const src = [
+      '// eslint-disable-next-line no-console',
+      'console.log(1)',
+      '// eslint-disable-next-line no-console',
+      'export const a = 1',
+      '',
+    ].join('\n')
+    expect(await unused(src)).toEqual([`3: Unused eslint-disable-next-line directive (no problems were reported from 'no-console')`])
+  })
+
+  it('reports each dead rule id of a multi-rule directive', async () => {
+    const src = '// pickier-disable-next-line no-console, no-debugger, pickier/prefer-const -- legacy\nconsole.log(1)\n'
+    expect(await unused(src)).toEqual([
+      `1: Unused pickier-disable-next-line directive (no problems were reported from 'no-debugger')`,
+      `1: Unused pickier-disable-next-line directive (no problems were reported from 'pickier/prefer-const')`,
+    ])
+  })
+
+  it('tracks range and file-level directives', async () => {
+    const src = [
+      '/* eslint-disable no-debugger */',
+      'export const a = 1',
+      '// eslint-disable no-console',
+      'console.log(1)',
+      '// eslint-enable no-console',
+      '/* eslint-disable */',
+      'export const b = 2',
+      '',
+    ].join('\n')
+    expect(await unused(src)).toEqual([
+      `1: Unused eslint-disable directive (no problems were reported from 'no-debugger')`,
+      `6: Unused eslint-disable directive (no problems were reported)`,
+    ])
+  })
+
+  it('attaches the edit that removes the directive', async () => {
+    const src = '// eslint-disable-next-line no-console, no-debugger\nconsole.log(1)\n'
+    const [issue] = (await lintText(src, cfg, 'a.ts')).filter(i => i.ruleId === 'unused-disable-directive')
+    expect(issue.fix).toBeDefined()
+    const { range, text } = issue.fix!
+    expect(src.slice(0, range[0]) + text + src.slice(range[1])).toBe('// eslint-disable-next-line no-console\nconsole.log(1)\n')
+  })
+})
+
+describe('--report-unused-disable-directives', () => {
+  function setup(src: string): { dir: string, file: string } {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-unused-directives-'))
+    const file = join(dir, 'a.ts')
+    writeFileSync(file, src)
+    return { dir, file }
+  }
+
+  it('reports them as errors', async () => {
+    const { file } = setup('// eslint-disable-next-line no-console\nexport const a = 1\n')
+    expect(await runLint([file], { reporter: 'json' })).toBe(0)
+    expect(await runLint([file], { reporter: 'json', reportUnusedDisableDirectives: true })).toBe(1)
+  })
+
+  it('removes dead comments and dead rule ids with --fix', async () => {
+    const { file } = setup([
+      'export function f(): void {',
+      '  // eslint-disable-next-line no-console',
+      '  const a = 1',
+      '  // eslint-disable-next-line no-console, no-debugger -- needed for logs',
+      '  console.log(a)',
+      '}',
+      '/* eslint-disable no-debugger */ export const b = 2',
+      '',
+    ].join('\n'))
+    expect(await runLint([file], { reporter: 'json', fix: true, reportUnusedDisableDirectives: true })).toBe(0)
+    expect(readFileSync(file, 'utf8')).toBe([
+      'export function f(): void {',
+      '  const a = 1',
+      '  // eslint-disable-next-line no-console -- needed for logs',
+      '  console.log(a)',
+      '}',
+      'export const b = 2',
+      '',
+    ].join('\n'))
+  })
+
+  it('reports them with --fix when the fix selection leaves them out', async () => {
+    const { file } = setup('// eslint-disable-next-line no-console\nlet a = 1\nexport { a }\n')
+    expect(await runLint([file], { reporter: 'json', fix: true, fixRule: 'prefer-const', reportUnusedDisableDirectives: true })).toBe(1)
+    expect(readFileSync(file, 'utf8')).toBe('// eslint-disable-next-line no-console\nconst a = 1\nexport { a }\n')
+  })
+})
+
+describe('reportUnusedDisableDirectives in overrides', () => {
+  const src = '// eslint-disable-next-line no-console\nexport const a = 1\n'
+
+  function setup(): { dir: string, config: string } {
+    const dir = mkdtempSync(join(tmpdir(), 'pickier-unused-overrides-'))
+    mkdirSync(join(dir, 'legacy'))
+    writeFileSync(join(dir, 'a.ts'), src)
+    writeFileSync(join(dir, 'legacy', 'b.ts'), src)
+    const config = join(dir, 'pickier.config.json')
+    writeFileSync(config, JSON.stringify({
+      lint: { extensions: ['ts'], cache: false },
+      overrides: [{ files: ['legacy/**'], lint: { reportUnusedDisableDirectives: 'error' } }],
+    }))
+    return { dir, config }
+  }
+
+  it('reports them only in the matching files', async () => {
+    const { dir, config } = setup()
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', config })).toBe(0)
+    expect(await runLint([join(dir, 'legacy', 'b.ts')], { reporter: 'json', config })).toBe(1)
+  })
+
+  it('is outranked by the CLI flag', async () => {
+    const { dir, config } = setup()
+    writeFileSync(config, JSON.stringify({
+      lint: { extensions: ['ts'], cache: false },
+      overrides: [{ files: ['*.ts'], lint: { reportUnusedDisableDirectives: 'off' } }],
+    }))
+    expect(await runLint([join(dir, 'a.ts')], { reporter: 'json', config, reportUnusedDisableDirectives: true })).toBe(1)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runLint } from '../../src/linter'
+import { loadConfigFromPath, resolvePlugins } from '../../src/utils'
+
+process.env.PICKIER_NO_AUTO_CONFIG = '1'
+
+function tmp(): string {
+  return mkdtempSync(join(tmpdir(), 'pickier-plugin-load-'))
+}
+
+// A plugin module flagging `TODO`, under the given plugin name
+function pluginSource(name: string): string {
+  return `export default {
+  name: '${name}',
+  rules: {
+    'no-todo': {
+      check(content, ctx) {
+        const line = content.split('\\n').findIndex(l => l.includes('TODO'))
+        return line < 0 ? [] : [{ filePath: ctx.filePath, line: line + 1, column: 1, ruleId: '${name}/no-todo', message: 'TODO left in', severity: 'error' }]
+      },
+    },
+  },
+}
+`
+}
+
+describe('string plugins', () => {
+  it('loads plugins from a JSON config, relative to the config file', async () => {
+    const dir = tmp()
+    mkdirSync(join(dir, 'config', 'plugins'), { recursive: true })
+    writeFileSync(join(dir, 'config', 'plugins', 'todo.ts'), pluginSource('todo'))
+    const configPath = join(dir, 'config', 'pickier.json')
+    writeFileSync(configPath, JSON.stringify({
+      lint: { extensions: ['ts'] },
+      plugins: ['./plugins/todo.ts'],
+      pluginRules: { 'todo/no-todo': 'error' },
+    }))
+    writeFileSync(join(dir, 'a.ts'), 'export const a = 1 // TODO\n')
+
+    const cfg = await loadConfigFromPath(configPath)
+    expect(cfg.plugins?.map(p => typeof p === 'string' ? p : p.name)).toEqual(['todo'])
+    expect(await runLint([join(dir, 'a.ts')], { config: configPath, reporter: 'json' })).toBe(1)
+  })
+
+  it('keeps the built-in rules running alongside a loaded plugin', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'todo.ts'), pluginSource('todo'))
+    const configPath = join(dir, 'pickier.json')
+    writeFileSync(configPath, JSON.stringify({ plugins: ['./todo.ts'], pluginRules: { 'todo/no-todo': 'error', 'no-undef': 'error' } }))
+    writeFileSync(join(dir, 'a.ts'), 'let a = 1 // TODO\nexport const b = a + missing\n')
+
+    const logs: string[] = []
+    const log = console.log
+    console.log = (...args: unknown[]) => logs.push(args.join(' '))
+    try {
+      expect(await runLint([join(dir, 'a.ts')], { config: configPath, reporter: 'json' })).toBe(1)
+    }
+    finally {
+      console.log = log
+    }
+    const ruleNames = JSON.parse(logs.join('\n')).issues.map((i: { ruleId: string }) => i.ruleId.replace(/^(eslint|general)\//, ''))
+    expect(ruleNames).toEqual(expect.arrayContaining(['todo/no-todo', 'prefer-const', 'no-undef']))
+  })
+
+  it('resolves package names, and plugins of extended configs from their own directory', async () => {
+    const dir = tmp()
+    const pkg = join(dir, 'shared', 'node_modules', 'pickier-plugin-acme')
+    mkdirSync(pkg, { recursive: true })
+    writeFileSync(join(pkg, 'package.json'), JSON.stringify({ name: 'pickier-plugin-acme', main: 'index.js' }))
+    writeFileSync(join(pkg, 'index.js'), pluginSource('acme').replace('export default', 'module.exports ='))
+    writeFileSync(join(dir, 'shared', 'base.json'), JSON.stringify({ plugins: ['pickier-plugin-acme'] }))
+    const configPath = join(dir, 'pickier.json')
+    writeFileSync(configPath, JSON.stringify({ extends: './shared/base.json' }))
+
+    const cfg = await loadConfigFromPath(configPath)
+    expect(cfg.plugins?.map(p => typeof p === 'string' ? p : p.name)).toEqual(['acme'])
+  })
+
+  it('rejects modules that do not export a plugin', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'nothing.ts'), 'export const x = 1\n')
+    writeFileSync(join(dir, 'no-check.ts'), `export default { name: 'bad', rules: { 'a-rule': {} } }\n`)
+
+    await expect(resolvePlugins({ plugins: ['./nothing.ts'] }, dir)).rejects.toThrow('the plugin has no `name`')
+    await expect(resolvePlugins({ plugins: ['./no-check.ts'] }, dir)).rejects.toThrow('rule \'bad/a-rule\' has no `check` function')
+    await expect(resolvePlugins({ plugins: ['./missing.ts'] }, dir)).rejects.toThrow('Cannot load plugin \'./missing.ts\'')
+    await expect(resolvePlugins({ plugins: ['pickier-plugin-missing'] }, dir)).rejects.toThrow('Cannot find plugin \'pickier-plugin-missing\'')
+  })
+
+  it('rejects name collisions with built-in and other plugins', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'style.ts'), pluginSource('style'))
+    writeFileSync(join(dir, 'todo.ts'), pluginSource('todo'))
+
+    await expect(resolvePlugins({ plugins: ['./style.ts'] }, dir)).rejects.toThrow('named \'style\', which is a built-in plugin')
+    await expect(resolvePlugins({ plugins: [{ name: 'todo', rules: {} }, './todo.ts'] }, dir)).rejects.toThrow('Plugins an inline plugin and \'./todo.ts\' are both named \'todo\'')
+  })
+
+  it('fails the run when a configured plugin cannot be loaded', async () => {
+    const dir = tmp()
+    const configPath = join(dir, 'pickier.json')
+    writeFileSync(configPath, JSON.stringify({ plugins: ['./missing.ts'] }))
+    writeFileSync(join(dir, 'a.ts'), 'export const a = 1\n')
+
+    expect(await runLint([join(dir, 'a.ts')], { config: configPath, reporter: 'json' })).toBe(1)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { defaultConfig } from '../../src/config'
+import { lintText, runLint } from '../../src/linter'
+
+function tmp(): string {
+  return mkdtempSync(join(tmpdir(), 'pickier-range-fix-'))
+}
+
+// Two fixable rules: `semi/require` appends a semicolon to `x = 1` lines and
+// `rename/no-foo` rewrites every `foo` to `bar` (with a suggestion to use `baz`)
+const PLUGINS = `
+  plugins: [
+    { name: 'semi', rules: {
+      'require': { meta: { fixable: true }, check(content, ctx) {
+        const issues = []
+        let offset = 0
+        content.split('\\n').forEach((line, i) => {
+          if (/^\\w+ = \\d+$/.test(line))
+            issues.push({ filePath: ctx.filePath, line: i + 1, column: line.length + 1, ruleId: 'semi/require', message: 'Missing semicolon', severity: 'error', fix: { range: [offset + line.length, offset + line.length], text: ';' } })
+          offset += line.length + 1
+        })
+        return issues
+      }}
+    }},
+    { name: 'rename', rules: {
+      'no-foo': { meta: { fixable: true }, check(content, ctx) {
+        const issues = []
+        for (const m of content.matchAll(/\\bfoo\\b/g)) {
+          const line = content.slice(0, m.index).split('\\n').length
+          issues.push({ filePath: ctx.filePath, line, column: 1, ruleId: 'rename/no-foo', message: 'Use bar', severity: 'error',
+            fix: { range: [m.index, m.index + 3], text: 'bar' },
+            suggestions: [{ desc: 'Rename to baz', fix: { range: [m.index, m.index + 3], text: 'baz' } }] })
+        }
+        return issues
+      }}
+    }},
+  ],
+  pluginRules: { 'semi/require': 'error', 'rename/no-foo': 'error', 'pickier/no-unused-vars': 'off', 'prefer-const': 'off' },
+`
+
+function writeConfig(dir: string): string {
+  const cfgPath = join(dir, 'pickier.config.ts')
+  writeFileSync(cfgPath, `
+export default {
+  verbose: false,
+  ignores: [],
+  lint: { extensions: ['ts'], reporter: 'json', cache: false, maxWarnings: -1 },
+  format: { extensions: ['ts'], trimTrailingWhitespace: true, maxConsecutiveBlankLines: 1, finalNewline: 'one', indent: 2, quotes: 'single', semi: false },
+  rules: { noDebugger: 'off', noConsole: 'off' },
+  ${PLUGINS}
+}
+`, 'utf8')
+  return cfgPath
+}
+
+describe('range fixes on issues', () => {
+  it('merges the edits of several rules and applies them with --fix', async () => {
+    const dir = tmp()
+    const file = join(dir, 'a.ts')
+    writeFileSync(file, 'foo = 1\nlet y = foo\nfoo = 2\n', 'utf8')
+
+    const code = await runLint([dir], { config: writeConfig(dir), fix: true, reporter: 'json' })
+    expect(code).toBe(0)
+    // `rename` and `semi` both edit lines 1 and 3 without overlapping; suggestions are never applied
+    expect(readFileSync(file, 'utf8')).toBe('bar = 1;\nlet y = bar\nbar = 2;\n')
+  })
+
+  it('does not apply fixes of issues under a disable directive', async () => {
+    const dir = tmp()
+    const file = join(dir, 'b.ts')
+    writeFileSync(file, '// eslint-disable-next-line rename/no-foo\nfoo = 1\nfoo = 2\n', 'utf8')
+
+    await runLint([dir], { config: writeConfig(dir), fix: true, reporter: 'json' })
+    expect(readFileSync(file, 'utf8')).toBe('// eslint-disable-next-line rename/no-foo\nfoo = 1;\nbar = 2;\n')
+  })
+
+  it('reports fixes and suggestions through lintText', async () => {
+    const cfg = {
+      ...defaultConfig,
+      plugins: [{
+        name: 'rename',
+        rules: {
+          'no-foo': {
+            meta: { fixable: true },
+            check: (content: string, ctx: any) => [{
+              filePath: ctx.filePath,
+              line: 1,
+              column: 7,
+              ruleId: 'rename/no-foo',
+              message: 'Use bar',
+              severity: 'error' as const,
+              fix: { range: [6, 9] as [number, number], text: 'bar' },
+              suggestions: [{ desc: 'Rename to baz', fix: { range: [6, 9] as [number, number], text: 'baz' } }],
+            }].filter(() => content.includes('foo')),
+          },
+        },
+      }],
+      pluginRules: { 'rename/no-foo': 'error' as const },
+    }
+
+    const [issue] = (await lintText('const foo = 1\nexport { foo }\n', cfg, 'c.ts')).filter(i => i.ruleId === 'rename/no-foo')
+    expect(issue.fix).toEqual({ range: [6, 9], text: 'bar' })
+    expect(issue.suggestions?.[0].desc).toBe('Rename to baz')
+  })
+})
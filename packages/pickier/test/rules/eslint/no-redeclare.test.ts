@@ -54,4 +54,18 @@ describe('eslint/no-redeclare', () => {
     const code = await runLint([dir], { config: cfg(dir), reporter: 'json' })
     expect(code).toBe(0)
   })
+
+  it('passes for declaration merging and names in separate scopes', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'd.ts'), [
+      'interface Box { a: number }',
+      'interface Box { b: number }',
+      'function f() { const x = 1; return x }',
+      'function g() { const x = 2; return x }',
+      'export { f, g }',
+      '',
+    ].join('\n'), 'utf8')
+    const code = await runLint([dir], { config: cfg(dir), reporter: 'json' })
+    expect(code).toBe(0)
+  })
 })
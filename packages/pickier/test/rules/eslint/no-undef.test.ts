@@ -0,0 +1,111 @@
+import type { PickierConfig, PickierOptions } from '../../../src/types'
+import { describe, expect, it } from 'bun:test'
+import { defaultConfig } from '../../../src/config'
+import { lintText } from '../../../src/linter'
+import { mergeConfig } from '../../../src/utils'
+
+function config(options: PickierOptions = {}, ruleOptions?: unknown): PickierConfig {
+  return mergeConfig(defaultConfig, {
+    ...options,
+    rules: { noDebugger: 'off', noConsole: 'off' },
+    pluginRules: { 'general/no-undef': ruleOptions ? ['error', ruleOptions] : 'error', 'pickier/no-unused-vars': 'off' },
+  })
+}
+
+async function undef(code: string, options?: PickierOptions, ruleOptions?: unknown, filePath = 'a.ts'): Promise<string[]> {
+  const issues = await lintText(code, config(options, ruleOptions), filePath)
+  return issues.filter(i => i.ruleId === 'eslint/no-undef').map(i => `${i.line}:${i.column} ${i.message}`)
+}
+
+describe('general/no-undef', () => {
+  it('reports reads and writes of undeclared names', async () => {
+    expect(await undef('const a = b + 1\ncounter = a\n')).toEqual([
+      '1:11 \'b\' is not defined',
+      '2:1 \'counter\' is not defined',
+    ])
+  })
+
+  it('resolves imports, hoisted functions, params, destructuring and catch bindings', async () => {
+    const code = [
+      'import def, { named as alias } from \'./m\'',
+      'import * as ns from \'./ns\'',
+      'const { x, y: [z, ...rest] = [] } = def',
+      'export function run(p = x, { q } = {}) {',
+      '  try { return later(p, q, z, rest, alias, ns, arguments) }',
+      '  catch ({ message }) { return message }',
+      '}',
+      'function later(...args: unknown[]) { return args }',
+      'for (const k in ns) later(k)',
+      'label: for (;;) { break label }',
+      '',
+    ].join('\n')
+    expect(await undef(code)).toEqual([])
+  })
+
+  it('does not treat property names, labels or intrinsic JSX tags as references', async () => {
+    const code = 'export const o = { key: 1, nested: { deep: true } }\nexport const v = o.key + o.nested.deep\nexport const el = <div className="x" />\n'
+    expect(await undef(code, {}, undefined, 'a.tsx')).toEqual([])
+    expect(await undef('export const el = <Widget prop={value} />\n', {}, undefined, 'a.tsx')).toEqual([
+      '1:20 \'Widget\' is not defined',
+      '1:33 \'value\' is not defined',
+    ])
+  })
+
+  it('skips type-only positions but checks `typeof` queries', async () => {
+    const code = [
+      'import type { Shape } from \'./shape\'',
+      'interface Local<T> { value: T, el: HTMLElement }',
+      'export type Mapped<T> = { [K in keyof T]: T[K] extends infer U ? U : never }',
+      'export function f(s: Shape, l: Local<string>): Record<string, Ambient> { return {} as any }',
+      'export type Q = typeof missingValue',
+      '',
+    ].join('\n')
+    expect(await undef(code)).toEqual(['5:24 \'missingValue\' is not defined'])
+  })
+
+  it('does not let a type-only import satisfy a value reference', async () => {
+    expect(await undef('import type { Thing } from \'./t\'\nexport const t = new Thing()\n')).toEqual([
+      '2:22 \'Thing\' is not defined',
+    ])
+  })
+
+  it('knows names added by `declare global`, enums and namespaces', async () => {
+    const code = [
+      'declare global { var __BUILD__: string }',
+      'enum Color { Red = 1, Dark = Red + 1 }',
+      'namespace Util { export const id = 1 }',
+      'export const all = [__BUILD__, Color.Dark, Util.id]',
+      '',
+    ].join('\n')
+    expect(await undef(code)).toEqual([])
+  })
+
+  it('ignores `typeof undeclared` unless the typeof option is set', async () => {
+    const code = 'export const has = typeof legacy !== \'undefined\'\n'
+    expect(await undef(code)).toEqual([])
+    expect(await undef(code, {}, { typeof: true })).toEqual(['1:27 \'legacy\' is not defined'])
+  })
+
+  it('takes globals from env presets and the globals option', async () => {
+    const code = 'export const x = [window, process, Bun, describe, __DEV__]\n'
+    expect(await undef(code)).toEqual([
+      '1:41 \'describe\' is not defined',
+      '1:51 \'__DEV__\' is not defined',
+    ])
+    expect(await undef(code, { env: ['node'], globals: { __DEV__: 'readonly' } })).toEqual([
+      '1:19 \'window\' is not defined',
+      '1:36 \'Bun\' is not defined',
+      '1:41 \'describe\' is not defined',
+    ])
+    expect(await undef(code, { env: ['browser', 'bun', 'bun:test'], globals: { __DEV__: true, window: 'off' } })).toEqual([
+      '1:19 \'window\' is not defined',
+    ])
+  })
+
+  it('merges globals across configs', () => {
+    const base = mergeConfig(defaultConfig, { globals: { a: 'readonly' } })
+    const merged = mergeConfig(base, { globals: { b: 'writable' }, env: ['worker'] })
+    expect(merged.globals).toEqual({ a: 'readonly', b: 'writable' })
+    expect(merged.env).toEqual(['worker'])
+  })
+})
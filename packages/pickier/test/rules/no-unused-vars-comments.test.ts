@@ -25,7 +25,6 @@ import { mkdtempSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { runLint } from '../../src/linter'
-import { maskCommentText } from '../../src/rules/general/no-unused-vars'
 
 function project(source: string): { dir: string, config: string } {
   const dir = mkdtempSync(join(tmpdir(), 'pickier-unused-comments-'))
@@ -124,34 +123,3 @@ describe('no-unused-vars and prose in comments', () => {
     expect(await lint(source)).toBe(1)
   })
 })
-
-describe('maskCommentText', () => {
-  it('keeps the delimiters and blanks what is between them', () => {
-    expect(maskCommentText('a // hi\nb')).toBe('a //   \nb')
-    expect(maskCommentText('a /* hi */ b')).toBe('a /*    */ b')
-  })
-
-  it('keeps every offset and every line break', () => {
-    const source = 'const a = 1 // one\nconst b = 2 /* two\nthree */\n'
-    const masked = maskCommentText(source)
-
-    expect(masked).toHaveLength(source.length)
-    expect(masked.split('\n')).toHaveLength(source.split('\n').length)
-  })
-
-  it('leaves a comment marker inside a string alone', () => {
-    expect(maskCommentText('const url = \'http://example.com/a\'')).toBe('const url = \'http://example.com/a\'')
-    expect(maskCommentText('const s = "/* not a comment */"')).toBe('const s = "/* not a comment */"')
-  })
-
-  it('leaves a template literal alone, newlines and all', () => {
-    const source = 'const t = `line // one\nline /* two */`'
-
-    expect(maskCommentText(source)).toBe(source)
-  })
-
-  /** An unterminated block comment runs to the end, as a parser would read it. */
-  it('blanks to the end of an unterminated comment', () => {
-    expect(maskCommentText('a /* b c')).toBe('a /*    ')
-  })
-})
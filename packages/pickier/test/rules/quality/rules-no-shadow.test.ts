@@ -60,4 +60,17 @@ describe('eslint/no-shadow', () => {
     const code = await runLint([dir], { config: cfg(dir), reporter: 'json' })
     expect(code).toBe(0)
   })
+
+  it('passes for sibling scopes and interfaces named like values', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'd.ts'), [
+      'interface Item { id: number }',
+      'function a() { const x = 1; return x }',
+      'function b() { const x = 2; return x }',
+      'export function make(): Item { const Item = { id: a() + b() }; return Item }',
+      '',
+    ].join('\n'), 'utf8')
+    const code = await runLint([dir], { config: cfg(dir), reporter: 'json' })
+    expect(code).toBe(0)
+  })
 })
@@ -53,4 +53,21 @@ describe('eslint/no-use-before-define', () => {
     const code = await runLint([dir], { config: cfg(dir), reporter: 'json' })
     expect(code).toBe(0)
   })
+
+  it('flags a read inside its own initializer but not one deferred by a function', async () => {
+    const dir = tmp()
+    writeFileSync(join(dir, 'd.ts'), [
+      'const a = a + 1',
+      '',
+    ].join('\n'), 'utf8')
+    expect(await runLint([dir], { config: cfg(dir), reporter: 'json' })).toBe(1)
+
+    const ok = tmp()
+    writeFileSync(join(ok, 'e.ts'), [
+      'const handler = () => handler',
+      'console.log(handler)',
+      '',
+    ].join('\n'), 'utf8')
+    expect(await runLint([ok], { config: cfg(ok), reporter: 'json' })).toBe(0)
+  })
 })
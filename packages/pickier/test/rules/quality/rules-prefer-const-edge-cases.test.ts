@@ -2,6 +2,7 @@ import { describe, expect, it } from 'bun:test'
 import { mkdtempSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
+import { mergeFixes } from '../../../src/fixes'
 import { runLint } from '../../../src/linter'
 import { preferConstRule } from '../../../src/rules/general/prefer-const'
 
@@ -90,6 +91,11 @@ function ruleCtx(): any {
   return { filePath: join(tmpdir(), 'sample.ts'), config: {} as any }
 }
 
+function fix(text: string): string {
+  const fixes = preferConstRule.check(text, ruleCtx()).flatMap(issue => issue.fix ? [issue.fix] : [])
+  return mergeFixes(text, fixes).output
+}
+
 describe('prefer-const does not touch embedded code', () => {
   it('leaves a let inside a template literal alone', () => {
     // A template literal carrying a program for another runtime: shell,
@@ -106,14 +112,14 @@ describe('prefer-const does not touch embedded code', () => {
       '',
     ].join('\n')
 
-    expect(preferConstRule.fix?.(text, ruleCtx())).toBe(text)
+    expect(fix(text)).toBe(text)
   })
 
   it('counts a reassignment later on the same line', () => {
     // One line, two statements. The reassignment is real, so the
     // declaration cannot become const.
     const text = 'let cur = {}\nlet other = 1; other = 2\n'
-    const fixed = preferConstRule.fix?.(text, ruleCtx()) ?? text
+    const fixed = fix(text)
 
     expect(fixed).toContain('const cur = {}')
     expect(fixed).toContain('let other = 1; other = 2')
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode'
+import { getIssueEdits } from './diagnostics'
 
 export class PickierCodeActionProvider implements vscode.CodeActionProvider {
   public static readonly providedCodeActionKinds = [
@@ -41,6 +42,9 @@ export class PickierCodeActionProvider implements vscode.CodeActionProvider {
         actions.push(fixAction)
       }
 
+      // Add the rule's suggestions, which change behaviour and so are never preferred
+      actions.push(...this.createSuggestionActions(document, diagnostic))
+
       // Add "Disable rule for this line" action
       const disableLineAction = this.createDisableRuleForLineAction(document, diagnostic, range)
       if (disableLineAction) {
@@ -94,6 +98,19 @@ export class PickierCodeActionProvider implements vscode.CodeActionProvider {
       return undefined
     }
 
+    // The rule attached an edit to this very issue: apply just that
+    const fix = getIssueEdits(document, diagnostic)?.fix
+    if (fix) {
+      const action = new vscode.CodeAction(
+        `Fix: ${diagnostic.message}`,
+        vscode.CodeActionKind.QuickFix,
+      )
+      action.diagnostics = [diagnostic]
+      action.isPreferred = true
+      action.edit = createRangeEdit(document, fix)
+      return action
+    }
+
     try {
       const { getPickierConfig } = await import('./config')
       const cfg = await getPickierConfig()
@@ -129,6 +146,20 @@ export class PickierCodeActionProvider implements vscode.CodeActionProvider {
     }
   }
 
+  private createSuggestionActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction[] {
+    const suggestions = getIssueEdits(document, diagnostic)?.suggestions || []
+    return suggestions.map((suggestion) => {
+      const action = new vscode.CodeAction(suggestion.desc, vscode.CodeActionKind.QuickFix)
+      action.diagnostics = [diagnostic]
+      action.isPreferred = false
+      action.edit = createRangeEdit(document, suggestion.fix)
+      return action
+    })
+  }
+
   private async checkIfRuleHasFix(
     ruleId: string,
     content: string,
@@ -251,11 +282,31 @@ export class PickierCodeActionProvider implements vscode.CodeActionProvider {
   }
 }
 
+function createRangeEdit(
+  document: vscode.TextDocument,
+  fix: { range: [number, number], text: string },
+): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit()
+  const range = new vscode.Range(
+    document.positionAt(fix.range[0]),
+    document.positionAt(fix.range[1]),
+  )
+  edit.replace(document.uri, range, fix.text)
+  return edit
+}
+
 export async function applyFix(
   document: vscode.TextDocument,
-  _diagnostic: vscode.Diagnostic,
+  diagnostic: vscode.Diagnostic,
 ): Promise<void> {
   try {
+    // Prefer the edit the rule attached to this issue over reformatting the whole document
+    const fix = getIssueEdits(document, diagnostic)?.fix
+    if (fix) {
+      await vscode.workspace.applyEdit(createRangeEdit(document, fix))
+      return
+    }
+
     const { getPickierConfig } = await import('./config')
     const cfg = await getPickierConfig()
     const { formatCode } = await import('pickier')
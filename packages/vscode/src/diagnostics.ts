@@ -12,9 +12,40 @@ interface LintResult {
     message: string
     severity: 'warning' | 'error'
     help?: string
+    fix?: IssueFix
+    suggestions?: Array<{ desc: string, fix: IssueFix }>
   }>
 }
 
+// Text offsets in the linted content, as in pickier's `LintFix`
+interface IssueFix {
+  range: [number, number]
+  text: string
+}
+
+export interface IssueEdits {
+  fix?: IssueFix
+  suggestions?: Array<{ desc: string, fix: IssueFix }>
+  /** `document.version` of the text the offsets point into */
+  version?: number
+}
+
+// VS Code hands code-action providers copies of the diagnostics it was
+// given, so the edits behind each one are looked up by position and message
+const issueEdits = new Map<string, Map<string, IssueEdits>>()
+
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+  return `${diagnostic.range.start.line}:${diagnostic.range.start.character}:${diagnostic.code}:${diagnostic.message}`
+}
+
+// Fix and suggestions the linter attached to the issue behind `diagnostic`,
+// unless the document has changed since: re-linting waits for a pause in
+// typing, or for a save, and stale offsets would rewrite the wrong text
+export function getIssueEdits(document: Pick<vscode.TextDocument, 'uri' | 'version'>, diagnostic: vscode.Diagnostic): IssueEdits | undefined {
+  const edits = issueEdits.get(document.uri.toString())?.get(diagnosticKey(diagnostic))
+  return edits && edits.version === document.version ? edits : undefined
+}
+
 // Bridge: VS Code CancellationToken -> AbortSignal
 function tokenToAbortSignal(token: vscode.CancellationToken): AbortSignal {
   const controller = new AbortController()
@@ -36,6 +67,7 @@ export class PickierDiagnosticProvider {
 
     // Clear existing diagnostics for this document
     this.diagnosticCollection.delete(document.uri)
+    issueEdits.delete(document.uri.toString())
 
     try {
       if (token?.isCancellationRequested)
@@ -55,7 +87,9 @@ export class PickierDiagnosticProvider {
   }
 
   private async lintDocument(document: vscode.TextDocument, token?: vscode.CancellationToken): Promise<vscode.Diagnostic[]> {
+    // read together, before linting yields, so the edits match the version they were computed on
     const documentText = document.getText()
+    const documentVersion = document.version
 
     // Prefer programmatic API if available to avoid stdout capture and temp files
     try {
@@ -66,7 +100,7 @@ export class PickierDiagnosticProvider {
         const issues = await mod.lintText(documentText, cfg, document.fileName, signal)
         if (token?.isCancellationRequested)
           return []
-        return issues.map(issue => convertIssueToDiagnostic(issue, documentText, document.uri))
+        return issues.map(issue => convertIssueToDiagnostic(issue, documentText, document.uri, documentVersion))
       }
     }
     catch (e) {
@@ -79,7 +113,7 @@ export class PickierDiagnosticProvider {
     const lintResult = await runPickierAndParseJson([document.fileName], options, this.outputChannel, token, documentText)
     if (token?.isCancellationRequested)
       return []
-    return lintResult.issues.map(issue => convertIssueToDiagnostic(issue, documentText, document.uri))
+    return lintResult.issues.map(issue => convertIssueToDiagnostic(issue, documentText, document.uri, documentVersion))
   }
 }
 
@@ -139,7 +173,7 @@ async function runPickierAndParseJson(
 }
 
 // Helper: convert a single issue to a VS Code diagnostic
-function convertIssueToDiagnostic(issue: LintResult['issues'][number], documentText?: string, documentUri?: vscode.Uri): vscode.Diagnostic {
+function convertIssueToDiagnostic(issue: LintResult['issues'][number], documentText?: string, documentUri?: vscode.Uri, documentVersion?: number): vscode.Diagnostic {
   const line = Math.max(0, issue.line - 1)
   const column = Math.max(0, issue.column - 1)
 
@@ -221,6 +255,14 @@ function convertIssueToDiagnostic(issue: LintResult['issues'][number], documentT
     diagnostic.tags = tags
   }
 
+  // Offsets are only meaningful against the exact text that was linted
+  if (documentText !== undefined && documentUri && (issue.fix || issue.suggestions?.length)) {
+    const key = documentUri.toString()
+    const edits = issueEdits.get(key) || new Map<string, IssueEdits>()
+    edits.set(diagnosticKey(diagnostic), { fix: issue.fix, suggestions: issue.suggestions, version: documentVersion })
+    issueEdits.set(key, edits)
+  }
+
   return diagnostic
 }
 
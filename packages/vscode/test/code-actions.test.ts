@@ -241,6 +241,64 @@ describe('applyFix', () => {
     // Function completes without error
     expect(true).toBe(true)
   })
+  it('applies only the edit the rule attached to the issue', async () => {
+    const vscode = await import('vscode')
+    const { PickierDiagnosticProvider } = await import('../src/diagnostics')
+    const { applyFix } = await import('../src/code-actions')
+
+    const code = 'let count = 1\nexport { count }\n'
+    const doc = {
+      getText: () => code,
+      fileName: '/workspace/fixable.ts',
+      languageId: 'typescript',
+      uri: vscode.Uri.file('/workspace/fixable.ts'),
+      positionAt: (offset: number) => new vscode.Position(0, offset),
+    } as any
+
+    const coll = vscode.languages.createDiagnosticCollection('pickier')
+    await new PickierDiagnosticProvider(coll, vscode.window.createOutputChannel('Pickier')).provideDiagnostics(doc)
+    const diagnostics = (coll.set as any).mock.calls.at(-1)[1] as any[]
+    const diagnostic = diagnostics.find(d => String(d.code).endsWith('prefer-const'))
+    expect(diagnostic).toBeDefined()
+
+    await applyFix(doc, diagnostic)
+
+    const edit = (vscode.workspace.applyEdit as any).mock.calls.at(-1)[0]
+    const [change] = edit.changes.get('file:///workspace/fixable.ts')
+    expect(change.newText).toBe('const')
+    expect(change.range.start.character).toBe(0)
+    expect(change.range.end.character).toBe(3)
+  })
+  it('drops the attached edit once the document has changed since it was linted', async () => {
+    const vscode = await import('vscode')
+    const { PickierDiagnosticProvider } = await import('../src/diagnostics')
+    const { applyFix } = await import('../src/code-actions')
+
+    const doc = {
+      getText: () => 'let count = 1\nexport { count }\n',
+      fileName: '/workspace/edited.ts',
+      languageId: 'typescript',
+      version: 1,
+      uri: vscode.Uri.file('/workspace/edited.ts'),
+      positionAt: (offset: number) => new vscode.Position(0, offset),
+    } as any
+
+    const coll = vscode.languages.createDiagnosticCollection('pickier')
+    await new PickierDiagnosticProvider(coll, vscode.window.createOutputChannel('Pickier')).provideDiagnostics(doc)
+    const diagnostics = (coll.set as any).mock.calls.at(-1)[1] as any[]
+    const diagnostic = diagnostics.find(d => String(d.code).endsWith('prefer-const'))
+    expect(diagnostic).toBeDefined()
+
+    // typed ahead of the offsets: `let` is no longer at 0-3
+    doc.version = 2
+    doc.getText = () => '// note\nlet count = 1\nexport { count }\n'
+    ;(vscode.workspace.applyEdit as any).mockClear()
+    await applyFix(doc, diagnostic)
+
+    const edit = (vscode.workspace.applyEdit as any).mock.calls.at(-1)?.[0]
+    const changes = edit?.changes.get('file:///workspace/edited.ts') ?? []
+    expect(changes.some((c: any) => c.newText === 'const' && c.range.end.character === 3)).toBe(false)
+  })
 })
 
 describe('fixAllInDocument', () => {
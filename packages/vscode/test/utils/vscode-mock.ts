@@ -114,6 +114,16 @@ export function createVscodeMock(overrides: Partial<any> = {}): any {
     }
   }
 
+  class LocationImpl {
+    constructor(public uri: any, public range: any) {}
+  }
+
+  class DiagnosticRelatedInformationImpl {
+    constructor(public location: any, public message: string) {}
+  }
+
+  const DiagnosticTag = { Unnecessary: 1, Deprecated: 2 }
+
   class RelativePatternImpl {
     constructor(public base: string, public pattern: string) {}
   }
@@ -200,6 +210,9 @@ export function createVscodeMock(overrides: Partial<any> = {}): any {
     Position: PositionImpl,
     Diagnostic: DiagnosticImpl,
     DiagnosticSeverity,
+    DiagnosticRelatedInformation: DiagnosticRelatedInformationImpl,
+    DiagnosticTag,
+    Location: LocationImpl,
     TextEdit: TextEditImpl,
     StatusBarAlignment,
     CancellationTokenSource: CancellationTokenSourceImpl,